@@ -0,0 +1,8 @@
+import { useRouter } from 'expo-router';
+import React from 'react';
+import ParcelPlanner from '../../../src/ParcelPlanner';
+
+export default function StakeholderParcelsScreen() {
+  const router = useRouter();
+  return <ParcelPlanner mode="stakeholder" onBack={() => router.back()} />;
+}
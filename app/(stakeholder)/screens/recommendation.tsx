@@ -20,41 +20,44 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import { useAuth } from '../../../context/AuthContext';
 import { useFertilizer } from '../../../context/FertilizerContext';
-import { useReadingSession, type RiceVariety, type SoilClass, type Season } from '../../../context/ReadingSessionContext';
+import { useReadingSession, type CropVariety, type Crop, type SoilClass, type Season } from '../../../context/ReadingSessionContext';
 
 import {
   addReading,
   addStandaloneReading,
-  getDaRecommendation, // optional: for npkClass logging only
   getPublicPrices,
+  updateReading,
   type DaRecommendResponse,
   type AdminPricesDoc,
+  type RecommendResponse,
+  type DaPlan,
 } from '../../../src/services';
+import {
+  getCropTargetKgPerHa,
+  getNSplit,
+  summarizeRecommendation,
+  traceDaPlan,
+  type TargetGrid,
+} from '../../../src/fertilizerLogic';
+import { FERTILIZER_NAMES } from '../../../src/daPlans';
+import { getDaPlans, type DaPlansArgs, type DaPlansResult, type PlanSource } from '../../../src/daRecommend';
+import { classifyLevel, getActiveThresholdVersion } from '../../../constants/npkThresholds';
+import WhyThisPlan from '../../../src/WhyThisPlan';
+import StockSplitTable from '../../../src/StockSplitTable';
+import PlanSourceNotice from '../../../src/PlanSourceNotice';
+import PriceSensitivity from '../../../src/PriceSensitivity';
+import EngineOptions from '../../../src/EngineOptions';
+import NutrientBalanceBars from '../../../src/NutrientBalanceBars';
+import NarrativeCard from '../../../src/NarrativeCard';
+import CarryOverCard from '../../../src/CarryOverCard';
+import { applyCarryOver } from '../../../src/carryOver';
+import { daNarratives, narrativeForSave } from '../../../src/narrative';
+import { useServerRecheck } from '../../../hooks/useServerRecheck';
+import { useNarrativeLang } from '../../../hooks/useNarrativeLang';
+import { usePreviousSeason } from '../../../hooks/usePreviousSeason';
 
-const ORGANIC_FERT_CODE = 'Organic Fertilizer';
-const ORGANIC_BAGS_PER_HA = 10;
-const BAG_KG = 50;
-
-type Nutrient = 'N' | 'P' | 'K';
 type Lmh = 'L' | 'M' | 'H';
 
-// ✅ FINAL Table 4.5 thresholds (your provided)
-const THRESH = {
-  N: { L: 110, M: 145 },
-  P: { L: 315, M: 345 },
-  K: { L: 150, M: 380 },
-} as const;
-
-const classifyLevel = (nutrient: Nutrient, ppm: number): 'LOW' | 'MEDIUM' | 'HIGH' | 'N/A' => {
-  const v = Number(ppm);
-  if (!Number.isFinite(v) || v <= 0) return 'N/A';
-  const x = Math.round(v);
-
-  const t = THRESH[nutrient];
-  if (x < t.L) return 'LOW';
-  if (x <= t.M) return 'MEDIUM';
-  return 'HIGH';
-};
 
 const toLMH_SAFE = (lvl: 'LOW' | 'MEDIUM' | 'HIGH' | 'N/A'): Lmh => {
   if (lvl === 'LOW') return 'L';
@@ -75,398 +78,38 @@ function moneyFmt(v: number) {
 function asArray<T = any>(arr: any): T[] {
   return Array.isArray(arr) ? (arr as T[]) : [];
 }
-function round2(x: number) {
-  return Math.round((Number(x || 0) + Number.EPSILON) * 100) / 100;
-}
-
-/** ✅ Fertilizer full names */
-const FERTILIZER_NAMES: Record<string, string> = {
-  '46-0-0': 'Urea',
-  '21-0-0': 'Ammosul',
-  '0-0-60': 'Muriate of Potash (MOP)',
-  '18-46-0': 'Diammonium Phosphate (DAP)',
-  '16-20-0': 'Ammophos',
-  '14-14-14': 'Complete Fertilizer',
-  [ORGANIC_FERT_CODE]: 'Organic Fertilizer',
-};
-
-type LocalScheduleLine = { code: string; bags: number };
-type LocalSchedule = {
-  organic?: LocalScheduleLine[];
-  basal?: LocalScheduleLine[];
-  after30DAT?: LocalScheduleLine[];
-  topdress60DBH?: LocalScheduleLine[];
-};
-
-type LocalCostRow = {
-  phase: string;
-  code: string;
-  bags: number;
-  pricePerBag: number | null;
-  subtotal: number | null;
-};
-
-type LocalCost = {
-  currency: string;
-  rows: LocalCostRow[];
-  total: number;
-};
-
-type LocalPlan = {
-  id: string;
-  title: string;
-  label: string;
-  isCheapest?: boolean;
-  schedule: LocalSchedule;
-  cost: LocalCost | null;
-};
-
-// ✅ mapping to your backend price keys (for COST only)
-const CODE_TO_PRICE_KEY: Record<string, string> = {
-  '46-0-0': 'UREA_46_0_0',
-  '18-46-0': 'DAP_18_46_0',
-  '16-20-0': 'NPK_16_20_0',
-  '0-0-60': 'MOP_0_0_60',
-  '14-14-14': 'NPK_14_14_14',
-  '21-0-0': 'AMMOSUL_21_0_0',
-};
-
-function getItemByCode(prices: AdminPricesDoc | null, dashCode: string) {
-  const key = CODE_TO_PRICE_KEY[String(dashCode)];
-  if (!prices || !key) return null;
-  return (prices as any)?.items?.[key] ?? null;
-}
-
-// ✅ Organic MUST be in organic column only
-function ensureOrganic(schedule: LocalSchedule, areaHa: number) {
-  const area = Number(areaHa || 1);
-  const want = round2(ORGANIC_BAGS_PER_HA * area);
-
-  const existing = asArray<LocalScheduleLine>(schedule.organic);
-  const hasOrganic = existing.some((x) => String(x?.code) === ORGANIC_FERT_CODE);
-  if (hasOrganic) return schedule;
-
-  return {
-    ...schedule,
-    organic: [{ code: ORGANIC_FERT_CODE, bags: want }, ...existing],
-  };
-}
-
-function calcCost(schedule: LocalSchedule, prices: AdminPricesDoc | null): LocalCost | null {
-  if (!prices) return null;
-
-  const currency = String((prices as any)?.currency || 'PHP');
-
-  const lines = [
-    ...asArray(schedule.organic).map((x) => ({ phase: 'ORGANIC', ...x })),
-    ...asArray(schedule.basal).map((x) => ({ phase: 'BASAL', ...x })),
-    ...asArray(schedule.after30DAT).map((x) => ({ phase: '30 DAT', ...x })),
-    ...asArray(schedule.topdress60DBH).map((x) => ({ phase: 'TOPDRESS', ...x })),
-  ];
-
-  const rows: LocalCostRow[] = lines.map((l) => {
-    if (String(l.code) === ORGANIC_FERT_CODE) {
-      return { phase: l.phase, code: String(l.code), bags: Number(l.bags || 0), pricePerBag: null, subtotal: null };
-    }
-
-    const item = getItemByCode(prices, l.code);
-    const pricePerBag = item?.pricePerBag ?? null;
-    const subtotal = pricePerBag == null ? null : round2(pricePerBag * Number(l.bags || 0));
-    return { phase: l.phase, code: String(l.code), bags: Number(l.bags || 0), pricePerBag, subtotal };
-  });
-
-  const total = round2(rows.reduce((s, r) => s + (r.subtotal || 0), 0));
-  return { currency, rows, total };
-}
-
-function planHasRealFertilizer(plan: LocalPlan): boolean {
-  const s = plan?.schedule || {};
-  const all = [...asArray(s.basal), ...asArray(s.after30DAT), ...asArray(s.topdress60DBH)];
-  return all.some((x: any) => String(x?.code) !== ORGANIC_FERT_CODE && Number(x?.bags || 0) > 0);
-}
-
-function markCheapestAmongReal(plans: LocalPlan[]) {
-  plans.forEach((p) => (p.isCheapest = false));
-  const real = plans.filter(planHasRealFertilizer);
-
-  real.sort((a, b) => {
-    const ta = Number(a?.cost?.total ?? Number.POSITIVE_INFINITY);
-    const tb = Number(b?.cost?.total ?? Number.POSITIVE_INFINITY);
-    return ta - tb;
-  });
-
-  if (real.length) {
-    const cheapestId = String(real[0].id);
-    const hit = plans.find((p) => String(p.id) === cheapestId);
-    if (hit) hit.isCheapest = true;
-  }
-}
 
 /**
- * ✅ REQUIREMENTS TABLE
- * Put your real DA table here later.
- * Your confirmed values:
- * - Hybrid light wet (LLL): 120-70-70
- * - Inbred light wet (LLL): 100-60-60
+ * ✅ REQUIREMENTS (kg/ha) — looked up in the engine's crop registry, which carries the
+ * admin-published target tables (Admin → Nutrient Targets) over the built-in DA tables.
  */
-type ReqTable = Record<Nutrient, Record<Lmh, number>>;
-
-const REQ: Record<RiceVariety, Record<SoilClass, Record<Season, ReqTable>>> = {
-  hybrid: {
-    light: {
-      wet: {
-        N: { L: 120, M: 90, H: 60 },
-        P: { L: 70, M: 50, H: 30 },
-        K: { L: 70, M: 50, H: 30 },
-      },
-      dry: {
-        N: { L: 140, M: 110, H: 80 }, // placeholder
-        P: { L: 70, M: 50, H: 30 },
-        K: { L: 70, M: 50, H: 30 },
-      },
-    },
-    medHeavy: {
-      wet: {
-        N: { L: 110, M: 80, H: 50 }, // placeholder
-        P: { L: 70, M: 50, H: 30 },
-        K: { L: 70, M: 50, H: 30 },
-      },
-      dry: {
-        N: { L: 120, M: 90, H: 60 }, // placeholder
-        P: { L: 70, M: 50, H: 30 },
-        K: { L: 70, M: 50, H: 30 },
-      },
-    },
-  },
-
-  inbred: {
-    light: {
-      wet: {
-        // ✅ YOUR expected inbred light wet LLL => 100-60-60
-        N: { L: 100, M: 70, H: 40 },
-        P: { L: 60, M: 40, H: 20 },
-        K: { L: 60, M: 40, H: 20 },
-      },
-      dry: {
-        N: { L: 120, M: 90, H: 60 }, // placeholder
-        P: { L: 60, M: 40, H: 20 },
-        K: { L: 60, M: 40, H: 20 },
-      },
-    },
-    medHeavy: {
-      wet: {
-        N: { L: 90, M: 60, H: 30 }, // placeholder
-        P: { L: 60, M: 40, H: 20 },
-        K: { L: 60, M: 40, H: 20 },
-      },
-      dry: {
-        N: { L: 100, M: 70, H: 40 }, // placeholder
-        P: { L: 60, M: 40, H: 20 },
-        K: { L: 60, M: 40, H: 20 },
-      },
-    },
-  },
-};
-
 function getRequirementKgHa(args: {
-  variety: RiceVariety;
+  crop: Crop;
+  variety: CropVariety;
   soilClass: SoilClass;
   season: Season;
   nClass: Lmh;
   pClass: Lmh;
   kClass: Lmh;
+  targets: Record<Crop, TargetGrid>;
 }): { N: number; P: number; K: number } {
-  const t = REQ?.[args.variety]?.[args.soilClass]?.[args.season] ?? REQ.hybrid.light.wet;
-  return {
-    N: Number(t.N[args.nClass] ?? 0),
-    P: Number(t.P[args.pClass] ?? 0),
-    K: Number(t.K[args.kClass] ?? 0),
-  };
-}
-
-/**
- * ✅ FRONTEND BAG SOLVER (your formula)
- * bags = targetKg / (gradeDecimal * 50)
- */
-const GRADE = {
-  '14-14-14': { N: 0.14, P: 0.14, K: 0.14 },
-  '16-20-0': { N: 0.16, P: 0.20, K: 0.0 },
-  '46-0-0': { N: 0.46, P: 0.0, K: 0.0 },
-  '18-46-0': { N: 0.18, P: 0.46, K: 0.0 },
-  '0-0-60': { N: 0.0, P: 0.0, K: 0.60 },
-  '21-0-0': { N: 0.21, P: 0.0, K: 0.0 },
-} as const;
-
-function bagsFor(targetKg: number, gradeDec: number) {
-  if (!gradeDec || gradeDec <= 0) return 0;
-  return targetKg / (gradeDec * BAG_KG);
-}
-
-function suppliedKg(bags: number, gradeDec: number) {
-  return bags * BAG_KG * gradeDec;
-}
-
-/**
- * ✅ PLAN 1: Complete (14-14-14) for K, then Ammophos (16-20-0) for remaining P, then Urea (46-0-0) for remaining N
- * This is exactly your Step A/B/C approach.
- */
-function buildPlan_Complete_Ammophos_Urea(req: { N: number; P: number; K: number }, areaHa: number, prices: AdminPricesDoc | null): LocalPlan {
-  const area = Number(areaHa || 1);
-  const targetN = req.N * area;
-  const targetP = req.P * area;
-  const targetK = req.K * area;
-
-  // Step A: 14-14-14 for K
-  const b141414 = round2(bagsFor(targetK, GRADE['14-14-14'].K));
-  const nFrom141414 = suppliedKg(b141414, GRADE['14-14-14'].N);
-  const pFrom141414 = suppliedKg(b141414, GRADE['14-14-14'].P);
-
-  // Remaining targets
-  const remP = Math.max(0, targetP - pFrom141414);
-  const remN_afterA = Math.max(0, targetN - nFrom141414);
-
-  // Step B: 16-20-0 for remaining P
-  const b16200 = round2(remP <= 0 ? 0 : bagsFor(remP, GRADE['16-20-0'].P));
-  const nFrom16200 = suppliedKg(b16200, GRADE['16-20-0'].N);
-
-  // Step C: Urea for remaining N after credits
-  const remN_final = Math.max(0, remN_afterA - nFrom16200);
-  const bUreaTotal = round2(remN_final <= 0 ? 0 : bagsFor(remN_final, GRADE['46-0-0'].N));
-
-  const halfUrea = round2(bUreaTotal / 2);
-
-  let schedule: LocalSchedule = {
-    organic: [],
-    basal: [
-      ...(b141414 > 0 ? [{ code: '14-14-14', bags: b141414 }] : []),
-      ...(b16200 > 0 ? [{ code: '16-20-0', bags: b16200 }] : []),
-    ],
-    after30DAT: halfUrea > 0 ? [{ code: '46-0-0', bags: halfUrea }] : [],
-    topdress60DBH: halfUrea > 0 ? [{ code: '46-0-0', bags: halfUrea }] : [],
-  };
-
-  schedule = ensureOrganic(schedule, area);
-  const cost = calcCost(schedule, prices);
-
-  return {
-    id: 'PLAN_COMPLETE_AMMOPHOS_UREA',
-    title: 'Fertilizer Plan',
-    label: 'Option (14-14-14 + 16-20-0 + Urea)',
-    schedule,
-    cost,
-  };
-}
-
-/**
- * ✅ PLAN 2: DAP + MOP + Urea
- * - MOP satisfies K
- * - DAP satisfies P (and credits N)
- * - Urea tops up remaining N (split)
- */
-function buildPlan_DAP_MOP_UREA(req: { N: number; P: number; K: number }, areaHa: number, prices: AdminPricesDoc | null): LocalPlan {
-  const area = Number(areaHa || 1);
-  const targetN = req.N * area;
-  const targetP = req.P * area;
-  const targetK = req.K * area;
-
-  const bMop = round2(bagsFor(targetK, GRADE['0-0-60'].K));
-  const bDap = round2(bagsFor(targetP, GRADE['18-46-0'].P));
-  const nFromDap = suppliedKg(bDap, GRADE['18-46-0'].N);
-
-  const remN = Math.max(0, targetN - nFromDap);
-  const bUreaTotal = round2(remN <= 0 ? 0 : bagsFor(remN, GRADE['46-0-0'].N));
-  const halfUrea = round2(bUreaTotal / 2);
-
-  let schedule: LocalSchedule = {
-    organic: [],
-    basal: [
-      ...(bDap > 0 ? [{ code: '18-46-0', bags: bDap }] : []),
-      ...(bMop > 0 ? [{ code: '0-0-60', bags: bMop }] : []),
-    ],
-    after30DAT: halfUrea > 0 ? [{ code: '46-0-0', bags: halfUrea }] : [],
-    topdress60DBH: halfUrea > 0 ? [{ code: '46-0-0', bags: halfUrea }] : [],
-  };
-
-  schedule = ensureOrganic(schedule, area);
-  const cost = calcCost(schedule, prices);
-
-  return {
-    id: 'PLAN_DAP_MOP_UREA',
-    title: 'Fertilizer Plan',
-    label: 'Option (DAP + MOP + Urea)',
-    schedule,
-    cost,
-  };
-}
-
-/**
- * ✅ PLAN 3: 16-20-0 + MOP + Ammosul
- * - MOP satisfies K
- * - 16-20-0 satisfies P (credits N)
- * - Ammosul tops up remaining N (split)
- */
-function buildPlan_16200_MOP_AMMOSUL(req: { N: number; P: number; K: number }, areaHa: number, prices: AdminPricesDoc | null): LocalPlan {
-  const area = Number(areaHa || 1);
-  const targetN = req.N * area;
-  const targetP = req.P * area;
-  const targetK = req.K * area;
-
-  const bMop = round2(bagsFor(targetK, GRADE['0-0-60'].K));
-  const b16200 = round2(bagsFor(targetP, GRADE['16-20-0'].P));
-  const nFrom16200 = suppliedKg(b16200, GRADE['16-20-0'].N);
-
-  const remN = Math.max(0, targetN - nFrom16200);
-  const bAmmTotal = round2(remN <= 0 ? 0 : bagsFor(remN, GRADE['21-0-0'].N));
-  const halfAmm = round2(bAmmTotal / 2);
-
-  let schedule: LocalSchedule = {
-    organic: [],
-    basal: [
-      ...(b16200 > 0 ? [{ code: '16-20-0', bags: b16200 }] : []),
-      ...(bMop > 0 ? [{ code: '0-0-60', bags: bMop }] : []),
-    ],
-    after30DAT: halfAmm > 0 ? [{ code: '21-0-0', bags: halfAmm }] : [],
-    topdress60DBH: halfAmm > 0 ? [{ code: '21-0-0', bags: halfAmm }] : [],
-  };
-
-  schedule = ensureOrganic(schedule, area);
-  const cost = calcCost(schedule, prices);
-
-  return {
-    id: 'PLAN_16200_MOP_AMMOSUL',
-    title: 'Fertilizer Plan',
-    label: 'Option (16-20-0 + MOP + Ammosul)',
-    schedule,
-    cost,
-  };
-}
-
-function build3FrontendPlans(args: {
-  prices: AdminPricesDoc | null;
-  reqKgHa: { N: number; P: number; K: number };
-  areaHa: number;
-}): LocalPlan[] {
-  const p1 = buildPlan_Complete_Ammophos_Urea(args.reqKgHa, args.areaHa, args.prices);
-  const p2 = buildPlan_DAP_MOP_UREA(args.reqKgHa, args.areaHa, args.prices);
-  const p3 = buildPlan_16200_MOP_AMMOSUL(args.reqKgHa, args.areaHa, args.prices);
-
-  // Remove any “organic-only” (should not happen, but safety)
-  let plans = [p1, p2, p3].filter((p) => planHasRealFertilizer(p));
-
-  // Sort by cost if available (organic has null price and won’t affect)
-  plans.sort((a, b) => {
-    const ta = a.cost?.total ?? Number.POSITIVE_INFINITY;
-    const tb = b.cost?.total ?? Number.POSITIVE_INFINITY;
-    return ta - tb;
-  });
-
-  // Mark cheapest among real plans
-  const top3 = plans.slice(0, 3);
-  markCheapestAmongReal(top3);
-  return top3;
+  const c = getCropTargetKgPerHa(
+    args.crop,
+    args.variety,
+    args.soilClass,
+    args.season,
+    args.nClass,
+    args.pClass,
+    args.kClass,
+    args.targets[args.crop]
+  );
+  return { N: Number(c.Nkg ?? 0), P: Number(c.Pkg ?? 0), K: Number(c.Kkg ?? 0) };
 }
 
 // ✅ uniform table sizing
+// typing in "More options" re-runs the engine on every key; save once it settles
+const ENGINE_SAVE_DELAY_MS = 1500;
+
 const STAGE_COL_W = 190;
 const COL_W = 130;
 
@@ -495,15 +138,12 @@ function PlanTableCard({
   const isSelected = String(p.id) === String(selectedPlanId);
   const cur = p?.cost?.currency || currency || 'PHP';
 
-  const fixedSchedule = ensureOrganic(
-    {
-      organic: asArray(p?.schedule?.organic),
-      basal: asArray(p?.schedule?.basal),
-      after30DAT: asArray(p?.schedule?.after30DAT),
-      topdress60DBH: asArray(p?.schedule?.topdress60DBH),
-    },
-    1
-  );
+  const fixedSchedule = {
+    organic: asArray(p?.schedule?.organic),
+    basal: asArray(p?.schedule?.basal),
+    after30DAT: asArray(p?.schedule?.after30DAT),
+    topdress60DBH: asArray(p?.schedule?.topdress60DBH),
+  };
 
   const fertCodes = Array.from(
     new Set([
@@ -660,6 +300,10 @@ function PlanTableCard({
       </ScrollView>
 
       {fertCodes.length >= 3 ? <ScrollProgress progress01={progress01} /> : null}
+
+      {asArray(p.stock).length ? <StockSplitTable rows={p.stock} names={FERTILIZER_NAMES} /> : null}
+
+      <NutrientBalanceBars balance={p.balance} />
     </View>
   );
 }
@@ -667,17 +311,19 @@ function PlanTableCard({
 export default function RecommendationScreen() {
   const router = useRouter();
   const { token, user } = useAuth();
-  const { currency, loading: pricesLoading } = useFertilizer();
+  const { currency, loading: pricesLoading, tablesUpdatedAt, targetTables } = useFertilizer();
   const { result: session } = useReadingSession();
 
   const farmerId = session?.farmerId ?? '';
   const displayName = (user?.name || user?.username || session?.farmerName || '').trim();
 
   // ✅ read user-selected options from session
-  const variety: RiceVariety = session?.variety ?? 'hybrid';
+  const crop: Crop = session?.crop ?? 'rice';
+  const variety: CropVariety = session?.variety ?? (crop === 'corn' ? 'yellowHybrid' : 'hybrid');
   const soilClass: SoilClass = session?.soilClass ?? 'light';
   const season: Season = session?.season ?? 'wet';
   const areaHa = 1;
+  const onHand = session?.onHand;
 
   const nValue = Number(session?.n ?? 0);
   const pValue = Number(session?.p ?? 0);
@@ -702,24 +348,63 @@ export default function RecommendationScreen() {
   const kClass = toLMH_SAFE(levelK);
 
   // ✅ nutrients needed changes with variety/soil/season
-  const neededKgHa = React.useMemo(() => {
-    return getRequirementKgHa({ variety, soilClass, season, nClass, pClass, kClass });
-  }, [variety, soilClass, season, nClass, pClass, kClass]);
+  const tableKgHa = React.useMemo(() => {
+    return getRequirementKgHa({ crop, variety, soilClass, season, nClass, pClass, kClass, targets: targetTables });
+  }, [crop, variety, soilClass, season, nClass, pClass, kClass, targetTables]);
+
+  // ✅ last season's reading + applied plan: P / K targets are trimmed when the soil built up
+  const { prior: priorSeason, loaded: priorLoaded } = usePreviousSeason({
+    mode: 'stakeholder',
+    userId: user?._id,
+    token,
+    beforeTs: sessionTs,
+  });
+  const carryOver = React.useMemo(
+    () =>
+      priorSeason ? applyCarryOver({ tableKgHa, ppm: { N: nValue, P: pValue, K: kValue }, prior: priorSeason }) : null,
+    [priorSeason, tableKgHa, nValue, pValue, kValue]
+  );
+  const neededKgHa = carryOver?.adjustedKgHa ?? tableKgHa;
 
   const [resp, setResp] = React.useState<DaRecommendResponse | null>(null);
-  const [plansState, setPlansState] = React.useState<LocalPlan[]>([]);
+  const [engineResult, setEngineResult] = React.useState<RecommendResponse | null>(null);
+  const [savedReadingId, setSavedReadingId] = React.useState<string | null>(null);
+  const [plansState, setPlansState] = React.useState<DaPlan[]>([]);
   const [loadingPlans, setLoadingPlans] = React.useState(false);
   const [selectedPlanId, setSelectedPlanId] = React.useState<string | null>(null);
+  const [pricesDoc, setPricesDoc] = React.useState<AdminPricesDoc | null>(null);
+  const [planSource, setPlanSource] = React.useState<PlanSource | null>(null);
+  const [fallbackReason, setFallbackReason] = React.useState<string | undefined>();
+  const [planArgs, setPlanArgs] = React.useState<DaPlansArgs | null>(null);
 
   const isSavingRef = React.useRef(false);
   const lastSavedKeyRef = React.useRef<string>('');
   const lastLoadedSessionKeyRef = React.useRef<string>('');
   const inFlightRef = React.useRef(false);
 
-  const cropKey = variety === 'inbred' ? 'rice_inbred' : 'rice_hybrid';
+  const cropKey = crop === 'corn' ? `corn_${variety}` : variety === 'inbred' ? 'rice_inbred' : 'rice_hybrid';
+
+  // ✅ Bisaya / Tagalog / English explanation (shown below the plans and saved with the reading)
+  const { lang, setLang } = useNarrativeLang();
+  const narrativesFor = React.useCallback(
+    (list: DaPlan[], selectedId?: string | null) =>
+      daNarratives({
+        ratings: { N: nClass, P: pClass, K: kClass },
+        ppm: { N: nValue, P: pValue, K: kValue },
+        reqKgHa: neededKgHa,
+        areaHa,
+        crop,
+        variety,
+        soilClass,
+        season,
+        plans: list,
+        selectedId,
+      }),
+    [nClass, pClass, kClass, nValue, pValue, kValue, neededKgHa, areaHa, crop, variety, soilClass, season]
+  );
 
   const persistLocalHistory = React.useCallback(
-  async (plansForHistory: LocalPlan[], selectedId?: string | null, respSnapshot?: any) => {
+  async (plansForHistory: DaPlan[], selectedId?: string | null, respSnapshot?: any) => {
     if (!user?._id) return;
 
     try {
@@ -739,6 +424,7 @@ export default function RecommendationScreen() {
               name: `Fertilization Recommendation Option ${idx + 1}${p.isCheapest ? ' • Cheapest' : ''}`,
               cost: `${p?.cost?.currency || currency || 'PHP'} ${moneyFmt(Number(p?.cost?.total || 0))}`,
               details: [],
+              balance: p?.balance,
             }))
           : [];
 
@@ -751,6 +437,7 @@ export default function RecommendationScreen() {
               isCheapest: !!p.isCheapest,
               schedule: p.schedule,
               cost: p.cost,
+              balance: p.balance,
             }))
           : [];
 
@@ -771,8 +458,7 @@ export default function RecommendationScreen() {
         K: Number(neededKgHa?.K || 0),
       },
 
-      recommendationText: '',
-      englishText: '',
+      ...narrativeForSave(narrativesFor(plansForHistory, selectedId), lang),
 
       fertilizerPlans,
 
@@ -786,6 +472,11 @@ export default function RecommendationScreen() {
       variety,
       soilClass,
       season,
+      thresholdVersion: getActiveThresholdVersion(),
+      raw: session?.raw,
+      calibration: session?.calibration,
+      aggregation: session?.aggregation,
+      simulated: session?.simulated,
     };
 
 
@@ -811,11 +502,17 @@ export default function RecommendationScreen() {
     nClass,
     pClass,
     kClass,
+    narrativesFor,
+    lang,
+    session?.raw,
+    session?.calibration,
+    session?.aggregation,
+    session?.simulated,
   ]
 );
 
   const saveReading = React.useCallback(
-    async (plansSnapshot: LocalPlan[], selectedId?: string | null, respSnapshot?: any) => {
+    async (plansSnapshot: DaPlan[], selectedId?: string | null, respSnapshot?: any) => {
       const saveKey = `${user?._id || 'nouser'}:${sessionTs || 'notime'}:${nValue}:${pValue}:${kValue}:${phValue}:${variety}:${soilClass}:${season}`;
       if (lastSavedKeyRef.current === saveKey) return;
       if (isSavingRef.current) return;
@@ -837,6 +534,7 @@ export default function RecommendationScreen() {
                 name: `Fertilization Recommendation Option ${idx + 1}${p.isCheapest ? ' • Cheapest' : ''}`,
                 cost: `${p?.cost?.currency || currency || 'PHP'} ${moneyFmt(Number(p?.cost?.total || 0))}`,
                 details: [],
+                balance: p?.balance,
               }))
             : [];
 
@@ -845,9 +543,8 @@ export default function RecommendationScreen() {
           P: pValue,
           K: kValue,
           ph: phValue,
-          source: 'esp32',
-          recommendationText: '',
-          englishText: '',
+          source: session?.simulated ? 'simulator' : 'esp32',
+          ...narrativeForSave(narrativesFor(plansSnapshot, selectedId), lang),
           fertilizerPlans,
           currency: chosen?.cost?.currency || currency || 'PHP',
           daSchedule: chosen?.schedule ?? null,
@@ -856,11 +553,20 @@ export default function RecommendationScreen() {
           variety,
           soilClass,
           season,
+          thresholdVersion: getActiveThresholdVersion(),
+          raw: session?.raw,
+          calibration: session?.calibration,
+          aggregation: session?.aggregation,
+          simulated: session?.simulated,
         };
 
         if (online && token) {
-          if (farmerId && isObjectId(farmerId)) await addReading({ ...payload, farmerId }, token);
-          else await addStandaloneReading(payload, token);
+          const saved =
+            farmerId && isObjectId(farmerId)
+              ? await addReading({ ...payload, farmerId }, token)
+              : await addStandaloneReading(payload, token);
+          const savedId = saved?._id ?? saved?.reading?._id;
+          setSavedReadingId(savedId ? String(savedId) : null);
         }
 
         await persistLocalHistory(plansSnapshot || [], selectedId ?? null, respSnapshot);
@@ -872,37 +578,66 @@ export default function RecommendationScreen() {
         isSavingRef.current = false;
       }
     },
-    [user?._id, sessionTs, nValue, pValue, kValue, phValue, token, farmerId, currency, persistLocalHistory, nClass, pClass, kClass, variety, soilClass, season]
+    [user?._id, sessionTs, nValue, pValue, kValue, phValue, token, farmerId, currency, persistLocalHistory, nClass, pClass, kClass, variety, soilClass, season, narrativesFor, lang, session?.raw, session?.calibration, session?.aggregation, session?.simulated]
   );
 
+  // ✅ "More options" engine plan -> kept with the reading saved for this session
+  React.useEffect(() => {
+    if (!engineResult || !savedReadingId || !token) return;
+    const t = setTimeout(() => {
+      updateReading(farmerId || '', savedReadingId, { engine: summarizeRecommendation(engineResult) }, token).catch(
+        (e: any) => console.error('engine save error:', e?.message || e)
+      );
+    }, ENGINE_SAVE_DELAY_MS);
+    return () => clearTimeout(t);
+  }, [engineResult, savedReadingId, token, farmerId]);
+
+  const applyPlansResult = React.useCallback((res: DaPlansResult) => {
+    setResp(res.resp);
+    setPlanSource(res.source);
+    setFallbackReason(res.fallbackReason);
+    setPlansState(res.plans);
+
+    const firstId = res.plans?.[0]?.id ? String(res.plans[0].id) : null;
+    setSelectedPlanId((prev) => {
+      if (prev && res.plans.some((p: any) => String(p.id) === String(prev))) return prev;
+      return firstId;
+    });
+    return firstId;
+  }, []);
+
+  // ✅ computed offline -> re-run on the server once back online and flag any difference
+  const recheck = useServerRecheck({
+    source: planSource,
+    fallbackReason,
+    args: planArgs,
+    plans: plansState,
+    onAgree: applyPlansResult,
+  });
+
   const fetchAndBuildPlans = React.useCallback(async () => {
     setLoadingPlans(true);
     try {
-      // ✅ We only fetch prices for COST and fetch DA only for optional logging (npkClass etc)
-      const [r, pd] = await Promise.all([
-        token ? getDaRecommendation(token, { crop: cropKey, nClass, pClass, kClass, areaHa }).catch(() => null) : Promise.resolve(null),
-        getPublicPrices().catch(() => null),
-      ]);
-
-      setResp(r as any);
+      // ✅ prices for cost; plans from the server when reachable, else the local engine
+      const pd = await getPublicPrices().catch(() => null);
+      setPricesDoc((pd as any) ?? null);
 
-      // ✅ Build plans using FRONTEND math
-      const localPlans = build3FrontendPlans({
+      const args: DaPlansArgs = {
+        token,
+        request: { crop: cropKey, variety, soilClass, season, nClass, pClass, kClass, areaHa },
         prices: pd as any,
         reqKgHa: neededKgHa,
         areaHa,
-      });
+        onHand,
+        nSplit: getNSplit(crop, variety, season),
+      };
+      const res = await getDaPlans(args);
+      setPlanArgs(args);
 
-      setPlansState(localPlans);
+      const firstId = applyPlansResult(res);
 
-      const firstId = localPlans?.[0]?.id ? String(localPlans[0].id) : null;
-      setSelectedPlanId((prev) => {
-        if (prev && localPlans.some((p: any) => String(p.id) === String(prev))) return prev;
-        return firstId;
-      });
-
-      await saveReading(localPlans, firstId, r);
-      return localPlans;
+      await saveReading(res.plans, firstId, res.resp);
+      return res.plans;
     } catch (e: any) {
       console.error('fetch/build plans error:', e?.message || e);
       setPlansState([]);
@@ -910,15 +645,17 @@ export default function RecommendationScreen() {
     } finally {
       setLoadingPlans(false);
     }
-  }, [token, cropKey, nClass, pClass, kClass, areaHa, neededKgHa, saveReading]);
+  }, [token, cropKey, crop, variety, soilClass, season, nClass, pClass, kClass, areaHa, neededKgHa, onHand, saveReading, applyPlansResult]);
 
   useFocusEffect(
     React.useCallback(() => {
       (async () => {
         if (sessionInvalid) return;
+        // targets depend on last season's reading
+        if (!priorLoaded) return;
         if (inFlightRef.current) return;
 
-        const sessionKey = `${user?._id || 'nouser'}:${sessionTs}:${nValue}:${pValue}:${kValue}:${phValue}:${nClass}${pClass}${kClass}:${variety}:${soilClass}:${season}`;
+        const sessionKey = `${user?._id || 'nouser'}:${sessionTs}:${nValue}:${pValue}:${kValue}:${phValue}:${nClass}${pClass}${kClass}:${crop}:${variety}:${soilClass}:${season}:${tablesUpdatedAt}`;
         if (lastLoadedSessionKeyRef.current === sessionKey) return;
 
         inFlightRef.current = true;
@@ -932,7 +669,7 @@ export default function RecommendationScreen() {
       })();
 
       return () => {};
-    }, [fetchAndBuildPlans, sessionInvalid, user?._id, sessionTs, nValue, pValue, kValue, phValue, nClass, pClass, kClass, variety, soilClass, season])
+    }, [fetchAndBuildPlans, sessionInvalid, priorLoaded, user?._id, sessionTs, nValue, pValue, kValue, phValue, nClass, pClass, kClass, crop, variety, soilClass, season, tablesUpdatedAt])
   );
 
   const plans = plansState;
@@ -943,6 +680,24 @@ export default function RecommendationScreen() {
     return plans.find((p: any) => String(p.id) === String(selectedPlanId)) || plans[0];
   }, [plans, selectedPlanId]);
 
+  const planTrace = React.useMemo(
+    () =>
+      traceDaPlan({
+        plan: (selectedPlan as DaPlan | null) ?? null,
+        ppm: { N: nValue, P: pValue, K: kValue },
+        ratings: { N: nClass, P: pClass, K: kClass },
+        reqKgHa: neededKgHa,
+        targetSource: `${crop === 'corn' ? 'Corn' : 'Rice'} ${variety} / ${soilClass} / ${season} table${
+          carryOver?.adjustments.length ? ', adjusted for last season' : ''
+        }`,
+        areaHa,
+        prices: pricesDoc,
+      }),
+    [selectedPlan, nValue, pValue, kValue, nClass, pClass, kClass, neededKgHa, carryOver, crop, variety, soilClass, season, areaHa, pricesDoc]
+  );
+
+  const narratives = React.useMemo(() => narrativesFor(plans, selectedPlanId), [narrativesFor, plans, selectedPlanId]);
+
   const [pdfBusy, setPdfBusy] = React.useState(false);
 
   const handleSavePDF = React.useCallback(async () => {
@@ -960,15 +715,12 @@ export default function RecommendationScreen() {
     const plan = selectedPlan as any;
     const cur = plan?.cost?.currency || currency || 'PHP';
 
-    const fixedSchedule = ensureOrganic(
-      {
-        organic: asArray(plan?.schedule?.organic),
-        basal: asArray(plan?.schedule?.basal),
-        after30DAT: asArray(plan?.schedule?.after30DAT),
-        topdress60DBH: asArray(plan?.schedule?.topdress60DBH),
-      },
-      1
-    );
+    const fixedSchedule = {
+      organic: asArray(plan?.schedule?.organic),
+      basal: asArray(plan?.schedule?.basal),
+      after30DAT: asArray(plan?.schedule?.after30DAT),
+      topdress60DBH: asArray(plan?.schedule?.topdress60DBH),
+    };
 
     const fertCodes = Array.from(
       new Set([
@@ -1023,6 +775,21 @@ export default function RecommendationScreen() {
     const idx = Math.max(0, plans.findIndex((p: any) => String(p.id) === String(plan.id)));
     const optionLabel = `Fertilization Recommendation Option ${idx + 1}`;
 
+
+    // ✅ "More options" engine plan, when it was opened for this reading
+    const engine = engineResult ? summarizeRecommendation(engineResult) : null;
+    const engineSection = engine?.plan
+      ? `<h3>⚙️ More Options Plan</h3>
+          <div class="box">
+            <p><b>${engine.plan.title}:</b> ${engine.currency} ${moneyFmt(engine.plan.total)}</p>
+            <p><b>Targets (kg/ha):</b> N ${engine.targetsPerHa.N} • P ${engine.targetsPerHa.P} • K ${engine.targetsPerHa.K} (${
+              engine.targetMode === 'yield' ? `${engine.targetYieldTha} t/ha yield goal` : 'DA table'
+            })</p>
+            ${engine.plan.lines.map((l) => `<p>• ${l}</p>`).join('')}
+            ${engine.notes.map((n) => `<p>${n}</p>`).join('')}
+          </div>`
+      : '';
+
     const html = `
       <html>
         <head>
@@ -1073,6 +840,8 @@ export default function RecommendationScreen() {
             ${totalRow()}
           </table>
 
+          ${engineSection}
+
           <div class="footer">FertiSense • ${today.getFullYear()}</div>
         </body>
       </html>
@@ -1097,7 +866,23 @@ export default function RecommendationScreen() {
     } finally {
       setPdfBusy(false);
     }
-  }, [pdfBusy, selectedPlan, currency, displayName, phValue, phStatus, levelN, levelP, levelK, neededKgHa, variety, soilClass, season, plans]);
+  }, [
+    pdfBusy,
+    selectedPlan,
+    currency,
+    displayName,
+    phValue,
+    phStatus,
+    levelN,
+    levelP,
+    levelK,
+    neededKgHa,
+    variety,
+    soilClass,
+    season,
+    plans,
+    engineResult,
+  ]);
 
   const loadingAny = pricesLoading || loadingPlans;
 
@@ -1149,6 +934,13 @@ export default function RecommendationScreen() {
 
       <Text style={styles.sectionTitle}>Fertilization Recommendation Options</Text>
 
+      <PlanSourceNotice
+        source={loadingAny ? null : planSource}
+        fallbackReason={fallbackReason}
+        differences={recheck.differences}
+        onUseServer={() => recheck.serverResult && applyPlansResult(recheck.serverResult)}
+      />
+
       {loadingAny && <Text style={{ textAlign: 'center', color: '#888', marginVertical: 10 }}>Loading Plans...</Text>}
 
       {!loadingAny && plans.length === 0 && (
@@ -1166,6 +958,26 @@ export default function RecommendationScreen() {
         />
       ))}
 
+      <CarryOverCard carryOver={carryOver} />
+
+      <NarrativeCard narratives={narratives} lang={lang} onChangeLang={setLang} />
+
+      <WhyThisPlan steps={planTrace} />
+
+      <PriceSensitivity plans={plans} prices={pricesDoc} />
+
+      <EngineOptions
+        reading={{ n: nValue, p: pValue, k: kValue, ph: session?.ph }}
+        areaHa={areaHa}
+        crop={crop}
+        variety={variety}
+        soilClass={soilClass}
+        season={season}
+        onHand={onHand}
+        prices={pricesDoc}
+        onResult={setEngineResult}
+      />
+
       <View style={styles.downloadToggle}>
         <Text style={styles.downloadLabel}>Save a copy (selected plan)</Text>
 
@@ -1176,6 +988,14 @@ export default function RecommendationScreen() {
         </TouchableOpacity>
       </View>
 
+      <View style={styles.downloadToggle}>
+        <Text style={styles.downloadLabel}>More than one paddy?</Text>
+
+        <TouchableOpacity onPress={() => router.push('/(stakeholder)/screens/parcels')}>
+          <Text style={styles.downloadButton}>🌾 Multi-parcel list</Text>
+        </TouchableOpacity>
+      </View>
+
       <TouchableOpacity style={styles.button} onPress={() => router.replace('/(stakeholder)/tabs/stakeholder-home')}>
         <Text style={styles.buttonText}>Back to Home Screen</Text>
       </TouchableOpacity>
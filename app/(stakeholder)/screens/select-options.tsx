@@ -9,6 +9,7 @@ import {
   ScrollView,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
   Alert,
@@ -18,6 +19,17 @@ import { useFocusEffect } from '@react-navigation/native';
 import { useReadingSession } from '../../../context/ReadingSessionContext';
 import { useAuth } from '../../../context/AuthContext';
 import { ensureEsp32Reachable, ESP_SSID } from '../../../src/esp32';
+import { CROP_REGISTRY, type CropId, type CropVariety } from '../../../src/fertilizerLogic';
+
+// ✅ common products a farmer may still have at home (grade codes, same as the plan tables)
+const ON_HAND_CODES = [
+  { code: '46-0-0', label: 'Urea' },
+  { code: '14-14-14', label: 'Complete' },
+  { code: '16-20-0', label: 'Ammophos' },
+  { code: '18-46-0', label: 'DAP' },
+  { code: '0-0-60', label: 'MOP' },
+  { code: '21-0-0', label: 'Ammosul' },
+] as const;
 
 export default function SelectOptionsScreen() {
   const router = useRouter();
@@ -25,11 +37,13 @@ export default function SelectOptionsScreen() {
   const { setFarmOptions } = useReadingSession();
   const { user } = useAuth();
 
-  const [riceType, setRiceType] = useState<'hybrid' | 'inbred' | ''>('');
+  const [crop, setCrop] = useState<CropId>('rice');
+  const [variety, setVariety] = useState<CropVariety | ''>('');
   const [soilType, setSoilType] = useState('');
   const [season, setSeason] = useState('');
+  const [onHandBags, setOnHandBags] = useState<Record<string, string>>({});
 
-  const allSelected = riceType && soilType && season;
+  const allSelected = variety && soilType && season;
 
   useFocusEffect(
     useCallback(() => {
@@ -74,13 +88,17 @@ export default function SelectOptionsScreen() {
       return;
     }
 
-    if (!riceType || !soilType || !season) {
-      Alert.alert('Incomplete', 'Palihug pili-a tanan (rice type, soil type, season).');
+    if (!variety || !soilType || !season) {
+      Alert.alert('Incomplete', 'Palihug pili-a tanan (crop, variety, soil type, season).');
       return;
     }
 
     await setFarmOptions({
-      variety: riceType as 'hybrid' | 'inbred',
+      crop,
+      variety,
+      onHand: ON_HAND_CODES.map((o) => ({ code: o.code, bags: Number(onHandBags[o.code] || 0) })).filter(
+        (o) => Number.isFinite(o.bags) && o.bags > 0
+      ),
       soilClass: normalizeSoilClass(soilType),
       season: normalizeSeason(season),
       farmerId: String(farmerId ?? ''),
@@ -115,18 +133,38 @@ export default function SelectOptionsScreen() {
         </Text>
 
         <View style={styles.card}>
-          <Text style={styles.cardTitle}>🌾 Klase sa Humay</Text>
+          <Text style={styles.cardTitle}>🌱 Tanom</Text>
           <View style={styles.optionsRow}>
-            {(['Hybrid', 'Inbred'] as const).map((type) => {
-              const val = type.toLowerCase() as 'hybrid' | 'inbred';
-              const selected = riceType === val;
+            {Object.values(CROP_REGISTRY).map((c) => {
+              const selected = crop === c.id;
               return (
                 <TouchableOpacity
-                  key={type}
+                  key={c.id}
                   style={[styles.chip, selected && styles.chipSelected]}
-                  onPress={() => setRiceType(val)}
+                  onPress={() => {
+                    if (c.id !== crop) setVariety('');
+                    setCrop(c.id);
+                  }}
                 >
-                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{type}</Text>
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{c.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{crop === 'corn' ? '🌽 Klase sa Mais' : '🌾 Klase sa Humay'}</Text>
+          <View style={styles.optionsRow}>
+            {CROP_REGISTRY[crop].varieties.map((v) => {
+              const selected = variety === v.id;
+              return (
+                <TouchableOpacity
+                  key={v.id}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => setVariety(v.id)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{v.label}</Text>
                 </TouchableOpacity>
               );
             })}
@@ -163,6 +201,26 @@ export default function SelectOptionsScreen() {
           </View>
         </View>
 
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>🏠 Abono nga Naa na sa Balay (optional)</Text>
+          <Text style={styles.onHandHint}>Ibutang pila ka sako ang naa pa nimo. Gamiton kini una sa dili pa mopalit.</Text>
+          {ON_HAND_CODES.map((o) => (
+            <View key={o.code} style={styles.onHandRow}>
+              <Text style={styles.onHandLabel}>
+                {o.code} ({o.label})
+              </Text>
+              <TextInput
+                style={styles.onHandInput}
+                keyboardType="decimal-pad"
+                placeholder="0"
+                value={onHandBags[o.code] ?? ''}
+                onChangeText={(v) => setOnHandBags((prev) => ({ ...prev, [o.code]: v.replace(/[^0-9.]/g, '') }))}
+              />
+              <Text style={styles.onHandUnit}>bags</Text>
+            </View>
+          ))}
+        </View>
+
         <View style={{ height: 100 }} />
       </ScrollView>
 
@@ -244,6 +302,21 @@ const styles = StyleSheet.create({
   pickerSelected: { backgroundColor: '#d9f7dc', borderColor: '#1b5e20' },
   picker: { height: 50, width: '100%' },
 
+  onHandHint: { fontSize: 12, color: '#666', marginBottom: 8 },
+  onHandRow: { flexDirection: 'row', alignItems: 'center', marginBottom: 8, gap: 8 },
+  onHandLabel: { flex: 1, fontSize: 13, color: '#333' },
+  onHandInput: {
+    width: 70,
+    height: 38,
+    borderWidth: 1.3,
+    borderColor: '#2e7d32',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    backgroundColor: '#f0fdf4',
+    textAlign: 'right',
+  },
+  onHandUnit: { fontSize: 12, color: '#666', width: 32 },
+
   proceedButton: {
     position: 'absolute',
     bottom: Platform.OS === 'ios' ? 90 : 70,
@@ -14,6 +14,7 @@ import {
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { autoConnectToESP32, ESP_SSID } from '../../../src/esp32';
+import SensorModeLink from '../../../src/SensorModeLink';
 
 export default function ConnectInstructionsScreen() {
   const router = useRouter();
@@ -96,6 +97,8 @@ export default function ConnectInstructionsScreen() {
 
           {statusMessage !== '' && <Text style={styles.statusText}>{statusMessage}</Text>}
         </View>
+
+        <SensorModeLink />
       </ScrollView>
     </SafeAreaView>
   );
@@ -16,7 +16,10 @@ import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { useAuth } from '../../../context/AuthContext';
-import { listUserReadings, deleteReading } from '../../../src/services';
+import { listUserReadings, deleteReading, type NutrientBalance } from '../../../src/services';
+import { daPlanBalance } from '../../../src/daPlans';
+import NutrientBalanceBars from '../../../src/NutrientBalanceBars';
+import { classifyLevel, savedReadingVersion } from '../../../constants/npkThresholds';
 
 type LocalScheduleLine = { code: string; bags: number };
 type LocalSchedule = {
@@ -37,6 +40,7 @@ type PlanSnapshot = {
   isCheapest?: boolean;
   schedule: LocalSchedule;
   cost: LocalCost | null;
+  balance?: NutrientBalance;
 };
 
 type HistoryItem = {
@@ -54,6 +58,9 @@ type HistoryItem = {
   variety?: string;
   soilClass?: string;
   season?: string;
+  thresholdVersion?: string;
+  // ✅ simulator reading (Developer settings), not a real probe
+  simulated?: boolean;
 
   recommendationText: string;
   englishText?: string;
@@ -75,27 +82,6 @@ type HistoryItem = {
   npkClass?: string;
 };
 
-type Nutrient = 'N' | 'P' | 'K';
-function classifyLevel(nutrient: Nutrient, v?: number): 'LOW' | 'MEDIUM' | 'HIGH' | 'N/A' {
-  if (typeof v !== 'number' || !Number.isFinite(v)) return 'N/A';
-  const ppm = Math.round(v);
-  if (ppm <= 0) return 'N/A';
-
-  // same thresholds as your recommendation
-  if (nutrient === 'N') {
-    if (ppm < 110) return 'LOW';
-    if (ppm <= 145) return 'MEDIUM';
-    return 'HIGH';
-  }
-  if (nutrient === 'P') {
-    if (ppm < 315) return 'LOW';
-    if (ppm <= 345) return 'MEDIUM';
-    return 'HIGH';
-  }
-  if (ppm < 150) return 'LOW';
-  if (ppm <= 380) return 'MEDIUM';
-  return 'HIGH';
-}
 
 function asArray<T = any>(arr: any): T[] {
   return Array.isArray(arr) ? (arr as T[]) : [];
@@ -148,10 +134,13 @@ function PlanTableCardHistory({
   p,
   idx,
   currency,
+  neededKgHa,
 }: {
   p: PlanSnapshot;
   idx: number;
   currency: string | null;
+  /** older entries saved no balance — rebuilt from the schedule when the kg/ha is known */
+  neededKgHa?: { N: number; P: number; K: number };
 }) {
   const cur = p?.cost?.currency || currency || 'PHP';
   const fixedSchedule = normalizePlanToSchedule(p);
@@ -304,6 +293,8 @@ function PlanTableCardHistory({
       </ScrollView>
 
       {fertCodes.length >= 3 ? <ScrollProgress progress01={progress01} /> : null}
+
+      <NutrientBalanceBars balance={p.balance ?? (neededKgHa ? daPlanBalance(fixedSchedule, neededKgHa, 1) : null)} />
     </View>
   );
 }
@@ -359,6 +350,8 @@ export default function HistoryScreen() {
         variety: h?.variety ? String(h.variety) : undefined,
         soilClass: h?.soilClass ? String(h.soilClass) : undefined,
         season: h?.season ? String(h.season) : undefined,
+        thresholdVersion: h?.thresholdVersion ? String(h.thresholdVersion) : undefined,
+        simulated: h?.simulated === true || undefined,
 
         recommendationText: String(h?.recommendationText ?? ''),
         englishText: h?.englishText ? String(h.englishText) : undefined,
@@ -424,6 +417,8 @@ export default function HistoryScreen() {
       variety: r?.variety ? String(r.variety) : undefined,
       soilClass: r?.soilClass ? String(r.soilClass) : undefined,
       season: r?.season ? String(r.season) : undefined,
+      thresholdVersion: r?.thresholdVersion ? String(r.thresholdVersion) : undefined,
+      simulated: r?.simulated === true || r?.source === 'simulator' || undefined,
 
       recommendationText: typeof r?.recommendationText === 'string' ? r.recommendationText : '',
       englishText: typeof r?.englishText === 'string' ? r.englishText : undefined,
@@ -569,10 +564,13 @@ export default function HistoryScreen() {
         <View style={styles.cardHeader}>
           <View style={styles.headerLeft}>
             <Text style={styles.date}>{item.date}</Text>
+            {item.simulated ? <Text style={styles.simulatedText}>🧪 Simulated sensor — not a real reading</Text> : null}
             <Text style={styles.subText}>pH: {item.ph}</Text>
 
             <Text style={styles.npkText}>
-              N:{classifyLevel('N', item.n_value)} | P:{classifyLevel('P', item.p_value)} | K:{classifyLevel('K', item.k_value)}
+              N:{classifyLevel('N', item.n_value, savedReadingVersion(item.thresholdVersion))} | P:
+              {classifyLevel('P', item.p_value, savedReadingVersion(item.thresholdVersion))} | K:
+              {classifyLevel('K', item.k_value, savedReadingVersion(item.thresholdVersion))}
             </Text>
 
             {/* ✅ SHOW nutrients needed */}
@@ -610,6 +608,7 @@ export default function HistoryScreen() {
                     p={p}
                     idx={idx}
                     currency={item.currency || null}
+                    neededKgHa={item.neededKgHa}
                   />
                 ))}
               </View>
@@ -682,6 +681,7 @@ const styles = StyleSheet.create({
   subText: { fontSize: 12, color: '#666', marginTop: 2 },
   npkText: { fontSize: 11, color: '#888', marginTop: 2 },
   metaText: { fontSize: 11, color: '#666', marginTop: 4 },
+  simulatedText: { fontSize: 11, fontWeight: 'bold', color: '#8a5a00', marginTop: 2 },
   deleteButton: { padding: 4 },
   seeMoreBtn: { flexDirection: 'row', alignItems: 'center', marginTop: 10 },
   seeMoreText: { fontSize: 12, fontWeight: '600', color: '#2e7d32', marginRight: 4 },
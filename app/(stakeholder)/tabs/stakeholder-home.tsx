@@ -18,6 +18,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAuth } from '../../../context/AuthContext';
 import { useFocusEffect } from '@react-navigation/native';
 import { BASE_URL } from '../../../src/api';
+import { classifyLevel, savedReadingVersion, type NutrientLevel } from '../../../constants/npkThresholds';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 
 const sensorImg = require('../../../assets/images/connect-sensor.png');
@@ -38,36 +39,16 @@ type StakeholderReading = {
   p: number;
   k: number;
   ph?: number | null;
+  thresholdVersion?: string;
 };
 
-// ✅ LMH helpers (same thresholds as your recommendation screen)
-type LMH = 'Low' | 'Medium' | 'High';
+// ✅ LMH helpers (shared threshold registry, same as the recommendation screen)
+type LMH = 'Low' | 'Medium' | 'High' | 'N/A';
 
-function toNumberSafe(v: any): number {
-  const n = typeof v === 'number' ? v : Number(v);
-  return Number.isFinite(n) ? n : 0;
-}
-
-function classifyN(v: number): LMH {
-  const x = toNumberSafe(v);
-  if (x <= 110) return 'Low';
-  if (x <= 145) return 'Medium';
-  return 'High';
-}
+const LMH_WORD: Record<NutrientLevel, LMH> = { LOW: 'Low', MEDIUM: 'Medium', HIGH: 'High', 'N/A': 'N/A' };
 
-function classifyP(v: number): LMH {
-  const x = toNumberSafe(v);
-  if (x <= 315) return 'Low';
-  if (x <= 345) return 'Medium';
-  return 'High';
-}
-
-function classifyK(v: number): LMH {
-  const x = toNumberSafe(v);
-  if (x <= 150) return 'Low';
-  if (x <= 380) return 'Medium';
-  return 'High';
-}
+const lmh = (nutrient: 'N' | 'P' | 'K', v: number, version?: string): LMH =>
+  LMH_WORD[classifyLevel(nutrient, v, savedReadingVersion(version))];
 
 export default function StakeholderHome() {
   const router = useRouter();
@@ -131,7 +112,7 @@ export default function StakeholderHome() {
 
   // ✅ Build LMH subtitle instead of ppm numbers
   const lmhSubtitle = lastReading
-    ? `N: ${classifyN(lastReading.n)} | P: ${classifyP(lastReading.p)} | K: ${classifyK(lastReading.k)}${
+    ? `N: ${lmh('N', lastReading.n, lastReading.thresholdVersion)} | P: ${lmh('P', lastReading.p, lastReading.thresholdVersion)} | K: ${lmh('K', lastReading.k, lastReading.thresholdVersion)}${
         lastReading.ph !== undefined && lastReading.ph !== null
           ? ` | pH: ${lastReading.ph}`
           : ''
@@ -0,0 +1,8 @@
+import { useRouter } from 'expo-router';
+import React from 'react';
+import ParcelPlanner from '../../../src/ParcelPlanner';
+
+export default function AdminParcelsScreen() {
+  const router = useRouter();
+  return <ParcelPlanner mode="admin" onBack={() => router.back()} />;
+}
@@ -9,6 +9,7 @@ import {
   ScrollView,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
   Alert,
@@ -17,6 +18,17 @@ import { useFocusEffect } from '@react-navigation/native';
 
 import { useReadingSession } from '../../../context/ReadingSessionContext';
 import { ensureEsp32Reachable, ESP_SSID } from '../../../src/esp32';
+import { CROP_REGISTRY, type CropId, type CropVariety } from '../../../src/fertilizerLogic';
+
+// ✅ common products a farmer may still have at home (grade codes, same as the plan tables)
+const ON_HAND_CODES = [
+  { code: '46-0-0', label: 'Urea' },
+  { code: '14-14-14', label: 'Complete' },
+  { code: '16-20-0', label: 'Ammophos' },
+  { code: '18-46-0', label: 'DAP' },
+  { code: '0-0-60', label: 'MOP' },
+  { code: '21-0-0', label: 'Ammosul' },
+] as const;
 
 export default function AdminSelectOptionsScreen() {
   const router = useRouter();
@@ -24,11 +36,13 @@ export default function AdminSelectOptionsScreen() {
   const { farmerId, farmerName } = useLocalSearchParams<{ farmerId?: string; farmerName?: string }>();
   const { setFarmOptions } = useReadingSession();
 
-  const [riceType, setRiceType] = useState<'hybrid' | 'inbred' | ''>('');
+  const [crop, setCrop] = useState<CropId>('rice');
+  const [variety, setVariety] = useState<CropVariety | ''>('');
   const [soilType, setSoilType] = useState('');
   const [season, setSeason] = useState('');
+  const [onHandBags, setOnHandBags] = useState<Record<string, string>>({});
 
-  const allSelected = riceType && soilType && season;
+  const allSelected = variety && soilType && season;
 
   useFocusEffect(
     useCallback(() => {
@@ -74,13 +88,17 @@ export default function AdminSelectOptionsScreen() {
     }
 
     // ✅ MATCH stakeholder: block if incomplete
-    if (!riceType || !soilType || !season) {
-      Alert.alert('Incomplete', 'Please select all (rice type, soil type, season).');
+    if (!variety || !soilType || !season) {
+      Alert.alert('Incomplete', 'Please select all (crop, variety, soil type, season).');
       return;
     }
 
     await setFarmOptions({
-      variety: riceType as 'hybrid' | 'inbred',
+      crop,
+      variety,
+      onHand: ON_HAND_CODES.map((o) => ({ code: o.code, bags: Number(onHandBags[o.code] || 0) })).filter(
+        (o) => Number.isFinite(o.bags) && o.bags > 0
+      ),
       soilClass: normalizeSoilClass(soilType),
       season: normalizeSeason(season),
       farmerId: String(farmerId ?? ''),
@@ -120,18 +138,38 @@ export default function AdminSelectOptionsScreen() {
         )}
 
         <View style={styles.card}>
-          <Text style={styles.cardTitle}>🌾 Rice Variety</Text>
+          <Text style={styles.cardTitle}>🌱 Crop</Text>
           <View style={styles.optionsRow}>
-            {(['Hybrid', 'Inbred'] as const).map((type) => {
-              const val = type.toLowerCase() as 'hybrid' | 'inbred';
-              const selected = riceType === val;
+            {Object.values(CROP_REGISTRY).map((c) => {
+              const selected = crop === c.id;
               return (
                 <TouchableOpacity
-                  key={type}
+                  key={c.id}
                   style={[styles.chip, selected && styles.chipSelected]}
-                  onPress={() => setRiceType(val)}
+                  onPress={() => {
+                    if (c.id !== crop) setVariety('');
+                    setCrop(c.id);
+                  }}
                 >
-                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{type}</Text>
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{c.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{crop === 'corn' ? '🌽 Corn Type' : '🌾 Rice Variety'}</Text>
+          <View style={styles.optionsRow}>
+            {CROP_REGISTRY[crop].varieties.map((v) => {
+              const selected = variety === v.id;
+              return (
+                <TouchableOpacity
+                  key={v.id}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => setVariety(v.id)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{v.label}</Text>
                 </TouchableOpacity>
               );
             })}
@@ -168,6 +206,26 @@ export default function AdminSelectOptionsScreen() {
           </View>
         </View>
 
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>🏠 Fertilizer On Hand (optional)</Text>
+          <Text style={styles.onHandHint}>Bags the farmer already has. These are used first before buying.</Text>
+          {ON_HAND_CODES.map((o) => (
+            <View key={o.code} style={styles.onHandRow}>
+              <Text style={styles.onHandLabel}>
+                {o.code} ({o.label})
+              </Text>
+              <TextInput
+                style={styles.onHandInput}
+                keyboardType="decimal-pad"
+                placeholder="0"
+                value={onHandBags[o.code] ?? ''}
+                onChangeText={(v) => setOnHandBags((prev) => ({ ...prev, [o.code]: v.replace(/[^0-9.]/g, '') }))}
+              />
+              <Text style={styles.onHandUnit}>bags</Text>
+            </View>
+          ))}
+        </View>
+
         <View style={{ height: 100 }} />
       </ScrollView>
 
@@ -251,6 +309,21 @@ const styles = StyleSheet.create({
   pickerSelected: { backgroundColor: '#d9f7dc', borderColor: '#1b5e20' },
   picker: { height: 50, width: '100%' },
 
+  onHandHint: { fontSize: 12, color: '#666', marginBottom: 8 },
+  onHandRow: { flexDirection: 'row', alignItems: 'center', marginBottom: 8, gap: 8 },
+  onHandLabel: { flex: 1, fontSize: 13, color: '#333' },
+  onHandInput: {
+    width: 70,
+    height: 38,
+    borderWidth: 1.3,
+    borderColor: '#2e7d32',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    backgroundColor: '#f0fdf4',
+    textAlign: 'right',
+  },
+  onHandUnit: { fontSize: 12, color: '#666', width: 32 },
+
   proceedButton: {
     position: 'absolute',
     bottom: Platform.OS === 'ios' ? 90 : 70,
@@ -14,74 +14,27 @@ import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
-import { autoConnectToESP32, readNowFromESP32, ESP_SSID } from '../../../src/esp32';
+import { autoConnectToESP32, readSensorFromESP32, ESP_SSID, type SensorReading } from '../../../src/esp32';
+import DevicePicker from '../../../src/DevicePicker';
+import SensorModeLink from '../../../src/SensorModeLink';
+import SpotReview from '../../../src/SpotReview';
+import {
+  DEFAULT_AGGREGATION,
+  aggregateSpots,
+  aggregateValues,
+  aggregationStamp,
+  type AggregationMethod,
+} from '../../../src/spotAggregation';
 import { useData } from '../../../context/DataContext';
 import { useAuth } from '../../../context/AuthContext';
 import { useReadingSession } from '../../../context/ReadingSessionContext';
 import { addStandaloneReading } from '../../../src/services';
+import { classifyLevel, getActiveThresholdVersion } from '../../../constants/npkThresholds';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-type Levels = {
-  n?: 'LOW' | 'MEDIUM' | 'HIGH' | 'N/A' | string;
-  p?: 'LOW' | 'MEDIUM' | 'HIGH' | 'N/A' | string;
-  k?: 'LOW' | 'MEDIUM' | 'HIGH' | 'N/A' | string;
-};
-
-type NpkJson = {
-  ok?: boolean;
-  ts?: number;
-  n?: number;
-  p?: number;
-  k?: number;
-  ph?: number;
-  ec?: number;
-  n_kg_ha?: number;
-  p_kg_ha?: number;
-  k_kg_ha?: number;
-  error?: string;
-  levels?: Levels;
-};
-
 const TOTAL_STEPS = 10;
 const MIN_READING_DURATION_MS = 3500;
 
-type Nutrient = 'N' | 'P' | 'K';
-
-// ✅ FINAL Table 4.5 thresholds (same as recommendation)
-const THRESH = {
-  N: { L: 110, M: 145 },
-  P: { L: 315, M: 345 },
-  K: { L: 150, M: 380 },
-} as const;
-
-const classifyLevel = (nutrient: Nutrient, v?: number): 'LOW' | 'MEDIUM' | 'HIGH' | 'N/A' => {
-  if (typeof v !== 'number' || !Number.isFinite(v)) return 'N/A';
-  const ppm = Math.round(v);
-  if (ppm <= 0) return 'N/A';
-
-  const t = THRESH[nutrient];
-  if (ppm < t.L) return 'LOW';
-  if (ppm <= t.M) return 'MEDIUM';
-  return 'HIGH';
-};
-
-function isValidNpk(data: any): data is NpkJson {
-  if (!data || typeof data !== 'object') return false;
-  if (data.ok === false) return false;
-
-  const n = data.n;
-  const p = data.p;
-  const k = data.k;
-
-  if (typeof n !== 'number' || typeof p !== 'number' || typeof k !== 'number') return false;
-  if (!Number.isFinite(n) || !Number.isFinite(p) || !Number.isFinite(k)) return false;
-
-  // Reject "not inserted / failed poll"
-  if (n === 0 && p === 0 && k === 0) return false;
-
-  return true;
-}
-
 export default function AdminSensorReadingScreen() {
   const router = useRouter();
 
@@ -96,12 +49,19 @@ export default function AdminSensorReadingScreen() {
   const { setFromParams } = useReadingSession();
 
   const [currentStep, setCurrentStep] = useState(0);
-  const [readings, setReadings] = useState<NpkJson[]>([]);
+  const [readings, setReadings] = useState<SensorReading[]>([]);
   const [isReadingStep, setIsReadingStep] = useState(false);
   const [statusMessage, setStatusMessage] = useState('Pinduta ang Start para magsugod.');
 
-  const [spotResult, setSpotResult] = useState<NpkJson | null>(null);
+  const [spotResult, setSpotResult] = useState<SensorReading | null>(null);
   const [spotIndex, setSpotIndex] = useState<number | null>(null);
+  const [spotWarnings, setSpotWarnings] = useState<string[]>([]);
+  const warningsRef = useRef<string[]>([]);
+
+  // ✅ after the last spot: review per-spot values / outliers before saving
+  const [reviewing, setReviewing] = useState(false);
+  const [method, setMethod] = useState<AggregationMethod>(DEFAULT_AGGREGATION);
+  const [rereadIndex, setRereadIndex] = useState<number | null>(null);
 
   const abortRef = useRef<{ cancelled: boolean }>({ cancelled: false });
 
@@ -124,23 +84,25 @@ export default function AdminSensorReadingScreen() {
     await autoConnectToESP32();
   }, []);
 
-  const readOnce = useCallback(async (): Promise<NpkJson | null> => {
+  const readOnce = useCallback(async (): Promise<SensorReading | null> => {
     try {
       await ensureConnected();
 
-      const data = await readNowFromESP32();
-      if (!isValidNpk(data)) {
-        if (data?.ok === false) {
-          Alert.alert('Error sa Sensor', data?.error || 'ok=false from ESP32');
+      const { reading, error, warnings } = await readSensorFromESP32();
+      if (!reading) {
+        if (error?.kind === 'sensor') {
+          Alert.alert('Error sa Sensor', error.message);
         } else {
           Alert.alert(
             'Sensor Error',
-            'Invalid reading (possible not inserted / not connected). Itusok ug tarong ang sensor sa yuta ug sulayi balik.'
+            `Invalid reading (possible not inserted / not connected). Itusok ug tarong ang sensor sa yuta ug sulayi balik.\n\n${error?.message ?? ''}`.trim()
           );
         }
         return null;
       }
-      return data as NpkJson;
+      if (warnings.length) console.warn('[SensorReading] payload warnings:', warnings);
+      warningsRef.current = warnings;
+      return reading;
     } catch (e: any) {
       Alert.alert(
         'Error sa Pagbasa',
@@ -151,25 +113,26 @@ export default function AdminSensorReadingScreen() {
   }, [ensureConnected]);
 
   const processResultsAndNavigate = useCallback(
-    async (allReadings: NpkJson[]) => {
+    async (allReadings: SensorReading[], aggMethod: AggregationMethod) => {
       if (abortRef.current.cancelled) return;
 
+      setReviewing(false);
       setCurrentStep(TOTAL_STEPS + 1);
       setStatusMessage('Gikuwenta ang average...');
 
-      const Ns = allReadings.map((r) => r.n).filter((n) => typeof n === 'number') as number[];
-      const Ps = allReadings.map((r) => r.p).filter((n) => typeof n === 'number') as number[];
-      const Ks = allReadings.map((r) => r.k).filter((n) => typeof n === 'number') as number[];
-      const pHs = allReadings.map((r) => r.ph).filter((n) => typeof n === 'number') as number[];
+      // ✅ robust combine (outliers dropped by default); CV of the spots kept as confidence
+      const agg = aggregateSpots(allReadings, aggMethod);
+      const avgN = agg.channels.n.value ?? 0;
+      const avgP = agg.channels.p.value ?? 0;
+      const avgK = agg.channels.k.value ?? 0;
+      const avgPH = agg.channels.ph.value ?? NaN;
+      const aggregation = aggregationStamp(agg, allReadings.length);
 
-      const avg = (arr: number[]) =>
-        arr.length ? Math.round((arr.reduce((a, b) => a + b, 0) / arr.length) * 10) / 10 : 0;
-
-      const avgN = avg(Ns);
-      const avgP = avg(Ps);
-      const avgK = avg(Ks);
-      const avgPHRaw = avg(pHs);
-      const avgPH = Number.isFinite(avgPHRaw) ? avgPHRaw : NaN;
+      // ✅ spots were calibrated per probe before combining; keep the uncorrected result too
+      const raw = allReadings.some((r) => r.raw) ? aggregateValues(allReadings.map((r) => r.raw ?? r), aggMethod) : undefined;
+      const calibration = allReadings.find((r) => r.calibration)?.calibration;
+      // ✅ any simulator spot makes the whole result simulated
+      const simulated = allReadings.some((r) => r.simulated) || undefined;
 
       if (
         !Number.isFinite(avgN) ||
@@ -212,6 +175,8 @@ export default function AdminSensorReadingScreen() {
             p: avgP,
             k: avgK,
             ph: Number.isFinite(avgPH) ? avgPH : undefined,
+            thresholdVersion: getActiveThresholdVersion(),
+            simulated,
             farmerName: selectedFarmerName, // ✅ cache selected farmer
           };
           await AsyncStorage.setItem(key, JSON.stringify(payload));
@@ -230,6 +195,10 @@ export default function AdminSensorReadingScreen() {
           farmerId: typeof farmerId === 'string' ? farmerId : undefined,
           farmerName: selectedFarmerName, // ✅ IMPORTANT FIX (same concept as stakeholder)
           ts: tsNum,
+          raw,
+          calibration,
+          aggregation,
+          simulated,
         });
       } catch (e) {
         console.warn('[AdminSensorReading] failed to set reading session:', e);
@@ -244,7 +213,12 @@ export default function AdminSensorReadingScreen() {
               P: avgP,
               K: avgK,
               ph: Number.isFinite(avgPH) ? avgPH : undefined,
-              source: 'esp32',
+              source: simulated ? 'simulator' : 'esp32',
+              simulated,
+              thresholdVersion: getActiveThresholdVersion(),
+              raw,
+              calibration,
+              aggregation,
             },
             token
           );
@@ -288,13 +262,14 @@ export default function AdminSensorReadingScreen() {
 
     setSpotResult(null);
     setSpotIndex(null);
+    setSpotWarnings([]);
 
     setIsReadingStep(true);
     const stepToRead = currentStep;
     const startTime = Date.now();
     setStatusMessage(`${stepToRead}/${TOTAL_STEPS} - Nagbasa sa yuta...`);
 
-    let data: NpkJson | null = null;
+    let data: SensorReading | null = null;
 
     for (let attempt = 1; attempt <= 2 && !data; attempt++) {
       if (abortRef.current.cancelled) break;
@@ -328,6 +303,7 @@ export default function AdminSensorReadingScreen() {
 
     setSpotResult(data);
     setSpotIndex(stepToRead);
+    setSpotWarnings(warningsRef.current);
 
     const newReadings = [...readings, data];
     setReadings(newReadings);
@@ -335,13 +311,42 @@ export default function AdminSensorReadingScreen() {
     const nextStep = stepToRead + 1;
     if (nextStep > TOTAL_STEPS) {
       setIsReadingStep(false);
-      processResultsAndNavigate(newReadings);
+      setCurrentStep(nextStep);
+      setReviewing(true);
+      setStatusMessage('Susiha ang mga spot sa ubos, dayon gamita ang resulta.');
     } else {
       setCurrentStep(nextStep);
       setStatusMessage(`OK ang pagbasa ${stepToRead}/${TOTAL_STEPS}. Pinduta para sa spot ${nextStep}.`);
       setIsReadingStep(false);
     }
-  }, [currentStep, isReadingStep, readOnce, readings, processResultsAndNavigate]);
+  }, [currentStep, isReadingStep, readOnce, readings]);
+
+  // ✅ replace one flagged spot with a fresh reading
+  const handleRereadSpot = useCallback(
+    async (index: number) => {
+      if (rereadIndex !== null || abortRef.current.cancelled) return;
+      setRereadIndex(index);
+      setStatusMessage(`Basaha pag-usab ang spot ${index + 1}...`);
+
+      let data: SensorReading | null = null;
+      for (let attempt = 1; attempt <= 2 && !data; attempt++) {
+        if (abortRef.current.cancelled) break;
+        data = await readOnce();
+        if (!data) await new Promise((r) => setTimeout(r, 700));
+      }
+      if (abortRef.current.cancelled) return;
+
+      const fresh = data;
+      if (fresh) setReadings((prev) => prev.map((r, i) => (i === index ? fresh : r)));
+      setStatusMessage(
+        fresh ? `Nabasa pag-usab ang spot ${index + 1}.` : `Wala nabasa ang spot ${index + 1}. Sulayi pag-usab.`
+      );
+      setRereadIndex(null);
+    },
+    [readOnce, rereadIndex]
+  );
+
+  const aggregate = reviewing ? aggregateSpots(readings, method) : null;
 
   const handleStart = async () => {
     if (currentStep !== 0 || isReadingStep) return;
@@ -381,6 +386,7 @@ export default function AdminSensorReadingScreen() {
         <View style={styles.readingBox}>
           <Text style={styles.title}>Itusok ang Sensor sa Yuta (Admin)</Text>
           <Text style={styles.engSub}>Kuhaa ang {TOTAL_STEPS} ka readings. Pinduta ang button kada spot.</Text>
+          {currentStep === 0 && <DevicePicker disabled={isReadingStep} />}
 
           <View style={styles.statusDisplay}>
             <View style={styles.progressCircle}>
@@ -408,6 +414,22 @@ export default function AdminSensorReadingScreen() {
                 <Text style={styles.spotResultLine}>Potassium (K): {String(spotLevelK)}</Text>
 
                 <Text style={styles.spotResultLine}>💧 pH: {fmtPh(spotResult.ph)}</Text>
+                {(spotResult.ec !== undefined || spotResult.moisture !== undefined || spotResult.temp !== undefined) && (
+                  <Text style={styles.spotResultExtra}>
+                    {[
+                      spotResult.ec !== undefined ? `EC ${spotResult.ec} mS/cm` : null,
+                      spotResult.moisture !== undefined ? `Moisture ${spotResult.moisture}%` : null,
+                      spotResult.temp !== undefined ? `Temp ${spotResult.temp}°C` : null,
+                    ]
+                      .filter(Boolean)
+                      .join(' • ')}
+                  </Text>
+                )}
+                {spotWarnings.map((w, i) => (
+                  <Text key={i} style={styles.spotWarning}>
+                    ⚠️ {w}
+                  </Text>
+                ))}
               </View>
             )}
           </View>
@@ -440,13 +462,27 @@ export default function AdminSensorReadingScreen() {
             </TouchableOpacity>
           )}
 
-          {currentStep > TOTAL_STEPS && (
+          {reviewing && aggregate && (
+            <SpotReview
+              spots={readings}
+              aggregate={aggregate}
+              method={method}
+              onMethodChange={setMethod}
+              rereadIndex={rereadIndex}
+              onReread={handleRereadSpot}
+              onFinalize={() => processResultsAndNavigate(readings, method)}
+            />
+          )}
+
+          {currentStep > TOTAL_STEPS && !reviewing && (
             <TouchableOpacity style={[styles.actionButton, styles.disabledButton]} disabled>
               <ActivityIndicator size="small" color="#eee" style={{ marginRight: 10 }} />
               <Text style={[styles.actionButtonText, styles.disabledButtonText]}>Ginaproseso...</Text>
             </TouchableOpacity>
           )}
         </View>
+
+        <SensorModeLink hideWhenDevice />
       </ScrollView>
     </SafeAreaView>
   );
@@ -527,6 +563,8 @@ const styles = StyleSheet.create({
   },
   spotResultTitle: { fontWeight: '700', color: '#1b5e20', marginBottom: 4, textAlign: 'center' },
   spotResultLine: { fontSize: 14, color: '#1b5e20', marginTop: 2 },
+  spotResultExtra: { fontSize: 12, color: '#555', marginTop: 4 },
+  spotWarning: { fontSize: 11, color: '#8a5a00', marginTop: 2 },
 
   buttonContainer: { width: '100%', alignItems: 'center', marginTop: 8 },
   actionButton: {
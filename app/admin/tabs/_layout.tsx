@@ -97,6 +97,8 @@ export default function AdminTabLayout() {
       <Tabs.Screen name="prices" options={{ href: null }} />
       <Tabs.Screen name="add-farmer" options={{ href: null }} />
       <Tabs.Screen name="edit-price" options={{ href: null }} />
+      <Tabs.Screen name="edit-targets" options={{ href: null }} />
+      <Tabs.Screen name="calibration" options={{ href: null }} />
       <Tabs.Screen name="view-stakeholders" options={{ href: null }} />
 
     </Tabs>
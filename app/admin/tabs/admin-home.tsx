@@ -189,7 +189,7 @@ export default function AdminHomeScreen() {
         </TouchableOpacity>
 
         <TouchableOpacity
-          style={[styles.card, styles.lastCard, { backgroundColor: '#00691D' }]}
+          style={[styles.card, { backgroundColor: '#00691D' }]}
           onPress={() => router.push('./edit-price')}
           activeOpacity={0.9}
         >
@@ -204,6 +204,40 @@ export default function AdminHomeScreen() {
             <Ionicons name="chevron-forward" size={20} color="#fff" />
           </View>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.card, { backgroundColor: '#2e7d32' }]}
+          onPress={() => router.push('./edit-targets')}
+          activeOpacity={0.9}
+        >
+          <View style={styles.imageWrapper}>
+            <Ionicons name="options-outline" size={44} color="#fff" />
+          </View>
+          <View style={styles.cardContent}>
+            <Text style={[styles.cardTitle, { color: '#fff' }]}>Nutrient Targets</Text>
+            <Text style={[styles.cardSubtitle, { color: '#fff' }]}>Edit kg/ha tables and cut-offs</Text>
+          </View>
+          <View style={styles.arrowCircle}>
+            <Ionicons name="chevron-forward" size={20} color="#fff" />
+          </View>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.card, styles.lastCard, { backgroundColor: '#1b5e20' }]}
+          onPress={() => router.push('./calibration')}
+          activeOpacity={0.9}
+        >
+          <View style={styles.imageWrapper}>
+            <Ionicons name="speedometer-outline" size={44} color="#fff" />
+          </View>
+          <View style={styles.cardContent}>
+            <Text style={[styles.cardTitle, { color: '#fff' }]}>Probe Calibration</Text>
+            <Text style={[styles.cardSubtitle, { color: '#fff' }]}>Fit probe readings to lab values</Text>
+          </View>
+          <View style={styles.arrowCircle}>
+            <Ionicons name="chevron-forward" size={20} color="#fff" />
+          </View>
+        </TouchableOpacity>
       </View>
     </ScrollView>
   );
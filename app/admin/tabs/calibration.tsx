@@ -0,0 +1,475 @@
+// app/admin/tabs/calibration.tsx
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import {
+  CAL_CHANNELS,
+  CHANNEL_LABEL,
+  fitChannel,
+  type CalChannel,
+  type CalMethod,
+  type CalibrationProfile,
+  type CalibrationSample,
+  type ChannelFit,
+} from '../../../src/calibration';
+import { useAuth } from '../../../context/AuthContext';
+import {
+  getCalibrationProfile,
+  isDeviceIdKey,
+  removeCalibrationProfile,
+  saveCalibrationProfile,
+  syncCalibrationProfiles,
+} from '../../../src/calibrationStore';
+import { getDeviceIdentity, readSensorFromESP32 } from '../../../src/esp32';
+
+/** probe / lab values as typed: [channel] → text */
+type SampleInputs = {
+  id: string;
+  label: string;
+  probe: Record<CalChannel, string>;
+  lab: Record<CalChannel, string>;
+};
+
+const METHODS: { id: CalMethod; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'piecewise', label: 'Piecewise' },
+];
+
+const emptyValues = (): Record<CalChannel, string> => ({ n: '', p: '', k: '', ph: '', ec: '' });
+
+const newSample = (i: number): SampleInputs => ({
+  id: `s_${Date.now()}_${i}`,
+  label: `Sample ${i}`,
+  probe: emptyValues(),
+  lab: emptyValues(),
+});
+
+const toNumbers = (vals: Record<CalChannel, string>) => {
+  const out: Partial<Record<CalChannel, number>> = {};
+  CAL_CHANNELS.forEach((ch) => {
+    const n = Number(vals[ch]);
+    if (vals[ch].trim() !== '' && Number.isFinite(n)) out[ch] = n;
+  });
+  return out;
+};
+
+const toInputs = (s: CalibrationSample): SampleInputs => ({
+  id: s.id,
+  label: s.label ?? '',
+  probe: Object.fromEntries(CAL_CHANNELS.map((ch) => [ch, s.probe[ch] != null ? String(s.probe[ch]) : ''])) as Record<CalChannel, string>,
+  lab: Object.fromEntries(CAL_CHANNELS.map((ch) => [ch, s.lab[ch] != null ? String(s.lab[ch]) : ''])) as Record<CalChannel, string>,
+});
+
+function describeFit(fit: ChannelFit): string {
+  if (fit.method === 'linear') {
+    const sign = fit.offset < 0 ? '−' : '+';
+    const r2 = fit.r2 !== null ? ` • R² ${fit.r2.toFixed(2)}` : '';
+    return `lab = ${fit.gain.toFixed(3)} × probe ${sign} ${Math.abs(fit.offset).toFixed(2)}${r2}`;
+  }
+  return `${fit.points.length} knots: ${fit.points.map((p) => `${p.probe}→${Math.round(p.lab * 100) / 100}`).join(', ')}`;
+}
+
+export default function CalibrationScreen() {
+  const router = useRouter();
+  const { token } = useAuth();
+
+  const [loading, setLoading] = useState(true);
+  const [device, setDevice] = useState<{ key: string; name: string; reachable: boolean } | null>(null);
+  const [profile, setProfile] = useState<CalibrationProfile | null>(null);
+  const [samples, setSamples] = useState<SampleInputs[]>([newSample(1)]);
+  const [methods, setMethods] = useState<Record<CalChannel, CalMethod>>({
+    n: 'linear',
+    p: 'linear',
+    k: 'linear',
+    ph: 'linear',
+    ec: 'linear',
+  });
+  const [readingId, setReadingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      const id = await getDeviceIdentity();
+      setDevice(id);
+      const saved = await getCalibrationProfile(id.key);
+      setProfile(saved);
+      if (saved?.samples.length) setSamples(saved.samples.map(toInputs));
+      if (saved) {
+        setMethods((prev) => {
+          const next = { ...prev };
+          CAL_CHANNELS.forEach((ch) => {
+            const fit = saved.channels[ch];
+            if (fit) next[ch] = fit.method;
+          });
+          return next;
+        });
+      }
+    } catch (e: any) {
+      Alert.alert('Calibration', e?.message || 'Could not identify the probe.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const numericSamples: CalibrationSample[] = useMemo(
+    () => samples.map((s) => ({ id: s.id, label: s.label.trim() || undefined, probe: toNumbers(s.probe), lab: toNumbers(s.lab) })),
+    [samples]
+  );
+
+  const fits = useMemo(() => {
+    const out = {} as Record<CalChannel, ReturnType<typeof fitChannel>>;
+    CAL_CHANNELS.forEach((ch) => {
+      out[ch] = fitChannel(numericSamples, ch, methods[ch]);
+    });
+    return out;
+  }, [numericSamples, methods]);
+
+  const onChangeValue = (id: string, side: 'probe' | 'lab', ch: CalChannel, text: string) => {
+    if (!/^\d*\.?\d*$/.test(text)) return;
+    setSamples((prev) => prev.map((s) => (s.id === id ? { ...s, [side]: { ...s[side], [ch]: text } } : s)));
+  };
+
+  // uncalibrated probe values for this sample
+  const readProbe = async (id: string) => {
+    setReadingId(id);
+    try {
+      const { reading, error } = await readSensorFromESP32({ raw: true });
+      if (!reading) {
+        Alert.alert('Sensor Error', error?.message || 'No valid reading.');
+        return;
+      }
+      setSamples((prev) =>
+        prev.map((s) =>
+          s.id === id
+            ? {
+                ...s,
+                probe: Object.fromEntries(
+                  CAL_CHANNELS.map((ch) => [ch, reading[ch] != null ? String(reading[ch]) : s.probe[ch]])
+                ) as Record<CalChannel, string>,
+              }
+            : s
+        )
+      );
+    } catch (e: any) {
+      Alert.alert('Sensor Error', e?.message || 'Could not read the probe.');
+    } finally {
+      setReadingId(null);
+    }
+  };
+
+  const removeSample = (id: string) => setSamples((prev) => (prev.length > 1 ? prev.filter((s) => s.id !== id) : prev));
+
+  const handleSave = async () => {
+    if (!device) return;
+    const channels: CalibrationProfile['channels'] = {};
+    CAL_CHANNELS.forEach((ch) => {
+      const fit = fits[ch].fit;
+      if (fit) channels[ch] = fit;
+    });
+    if (!Object.keys(channels).length) {
+      Alert.alert('Validation', 'Enter at least one probe / lab pair.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      // the probe may have been swapped since this screen loaded: save under whatever answers now
+      const current = await getDeviceIdentity();
+      setDevice(current);
+      if (!current.reachable) {
+        Alert.alert('Not Connected', 'Connect to the probe, then tap “Re-check connected probe”.');
+        return;
+      }
+      if (current.key !== device.key) {
+        Alert.alert('Different Probe', `${current.name} is connected now. Check the samples belong to it, then save again.`);
+        return;
+      }
+      if (!isDeviceIdKey(current.key)) {
+        Alert.alert('No Device ID', 'This probe’s firmware does not report a device id. Update it before calibrating.');
+        return;
+      }
+
+      const next: CalibrationProfile = {
+        deviceKey: current.key,
+        deviceName: current.name,
+        updatedAt: Date.now(),
+        channels,
+        samples: numericSamples,
+      };
+      await saveCalibrationProfile(next);
+      setProfile(next);
+      // usually still on the kit's Wi-Fi: the profile stays queued until the next sync
+      syncCalibrationProfiles(token).catch(() => {});
+      Alert.alert('✅ Saved', `Calibration for ${current.name} is applied to new readings and shared with other phones once online.`);
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to save.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    if (!device || !profile) return;
+    Alert.alert('Remove calibration', `Readings from ${device.name} will no longer be corrected.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await removeCalibrationProfile(device.key);
+          setProfile(null);
+          syncCalibrationProfiles(token).catch(() => {});
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator />
+        <Text style={{ marginTop: 8 }}>Identifying the probe…</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1, backgroundColor: '#f7fdf7' }}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Probe Calibration</Text>
+        <Text style={styles.headerSubtitle}>Lab values vs probe readings</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Probe</Text>
+          <Text style={styles.value}>{device?.name ?? '—'}</Text>
+          <Text style={styles.hint}>ID {device?.key ?? '—'}</Text>
+          {device && !device.reachable && (
+            <Text style={styles.badText}>Probe not reachable — connect to it before saving so the profile is tied to it.</Text>
+          )}
+          {device?.reachable && !isDeviceIdKey(device.key) && (
+            <Text style={styles.badText}>This probe reports no device id — update its firmware before calibrating.</Text>
+          )}
+          {profile ? (
+            <>
+              <Text style={styles.hint}>
+                Calibrated {new Date(profile.updatedAt).toLocaleDateString()} •{' '}
+                {Object.keys(profile.channels).length} channel(s)
+              </Text>
+              <TouchableOpacity onPress={handleRemove}>
+                <Text style={styles.removeText}>Remove calibration</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <Text style={styles.hint}>Not calibrated — readings are used as the probe reports them.</Text>
+          )}
+          <TouchableOpacity onPress={load}>
+            <Text style={styles.linkText}>Re-check connected probe</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.hintBlock}>
+          1. Read the probe in a soil sample. 2. Send the same sample to the lab. 3. Enter the lab values. Three or more
+          samples across low to high soils give the best fit.
+        </Text>
+
+        {samples.map((s, idx) => (
+          <View key={s.id} style={styles.card}>
+            <View style={styles.sampleHead}>
+              <TextInput
+                value={s.label}
+                onChangeText={(t) => setSamples((prev) => prev.map((x) => (x.id === s.id ? { ...x, label: t } : x)))}
+                placeholder={`Sample ${idx + 1}`}
+                style={[styles.input, styles.labelInput]}
+              />
+              <TouchableOpacity onPress={() => readProbe(s.id)} style={styles.readBtn} disabled={!!readingId}>
+                {readingId === s.id ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.readText}>Read probe</Text>
+                )}
+              </TouchableOpacity>
+              {samples.length > 1 && (
+                <TouchableOpacity onPress={() => removeSample(s.id)} style={styles.iconBtn}>
+                  <Ionicons name="trash-outline" size={18} color="#c62828" />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <View style={styles.gridRow}>
+              <Text style={[styles.gridLabel, styles.gridHead]}>Channel</Text>
+              <Text style={[styles.gridCell, styles.gridHead]}>Probe</Text>
+              <Text style={[styles.gridCell, styles.gridHead]}>Lab</Text>
+            </View>
+            {CAL_CHANNELS.map((ch) => (
+              <View key={ch} style={styles.gridRow}>
+                <Text style={styles.gridLabel}>{CHANNEL_LABEL[ch]}</Text>
+                {(['probe', 'lab'] as const).map((side) => (
+                  <TextInput
+                    key={side}
+                    value={s[side][ch]}
+                    onChangeText={(t) => onChangeValue(s.id, side, ch, t)}
+                    keyboardType="numeric"
+                    style={[styles.gridCell, styles.input]}
+                  />
+                ))}
+              </View>
+            ))}
+          </View>
+        ))}
+
+        <TouchableOpacity
+          onPress={() => setSamples((prev) => [...prev, newSample(prev.length + 1)])}
+          style={styles.addBtn}
+        >
+          <Ionicons name="add-circle-outline" size={18} color="#2e7d32" />
+          <Text style={styles.addText}>Add sample</Text>
+        </TouchableOpacity>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Fitted correction</Text>
+          {CAL_CHANNELS.map((ch) => {
+            const { fit, warnings } = fits[ch];
+            return (
+              <View key={ch} style={styles.fitRow}>
+                <View style={styles.fitHead}>
+                  <Text style={styles.gridLabel}>{CHANNEL_LABEL[ch]}</Text>
+                  <View style={styles.chipRow}>
+                    {METHODS.map((m) => (
+                      <TouchableOpacity
+                        key={m.id}
+                        onPress={() => setMethods((prev) => ({ ...prev, [ch]: m.id }))}
+                        style={[styles.chip, methods[ch] === m.id && styles.chipActive]}
+                      >
+                        <Text style={[styles.chipText, methods[ch] === m.id && styles.chipTextActive]}>{m.label}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+                {fit ? (
+                  <Text style={styles.fitText}>{describeFit(fit)}</Text>
+                ) : (
+                  <Text style={styles.hint}>No pairs — not corrected.</Text>
+                )}
+                {warnings.map((w, i) => (
+                  <Text key={i} style={styles.badText}>
+                    ⚠️ {w}
+                  </Text>
+                ))}
+              </View>
+            );
+          })}
+        </View>
+
+        <TouchableOpacity
+          onPress={handleSave}
+          style={[styles.saveBtn, saving && { opacity: 0.7 }]}
+          disabled={saving || !device}
+        >
+          <Ionicons name="save-outline" size={20} color="#fff" />
+          <Text style={styles.saveText}>{saving ? 'Saving…' : 'Save Calibration'}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  header: {
+    backgroundColor: '#2e7d32',
+    paddingTop: 60,
+    paddingBottom: 18,
+    borderBottomLeftRadius: 30,
+    borderBottomRightRadius: 30,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  backButton: { position: 'absolute', left: 20, top: 60 },
+  headerTitle: { color: '#fff', fontSize: 22, fontWeight: 'bold', marginBottom: 6 },
+  headerSubtitle: { color: '#c8e6c9', fontSize: 14 },
+  scrollContent: { paddingHorizontal: 16, paddingVertical: 16, paddingBottom: 110 },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    padding: 12,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOpacity: 0.06,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  cardTitle: { fontSize: 13, fontWeight: '700', color: '#1b5e20', marginTop: 4, marginBottom: 6 },
+  value: { fontSize: 15, fontWeight: '700', color: '#333' },
+  hint: { fontSize: 12, color: '#666', marginBottom: 4 },
+  hintBlock: { fontSize: 12, color: '#666', marginBottom: 12, lineHeight: 17 },
+  linkText: { fontSize: 12, color: '#2e7d32', textDecorationLine: 'underline', marginTop: 6 },
+  removeText: { fontSize: 12, color: '#c62828', textDecorationLine: 'underline' },
+  sampleHead: { flexDirection: 'row', alignItems: 'center', marginBottom: 8 },
+  labelInput: { flex: 1, marginRight: 8 },
+  readBtn: { backgroundColor: '#2e7d32', borderRadius: 16, paddingVertical: 6, paddingHorizontal: 12, minWidth: 90, alignItems: 'center' },
+  readText: { color: '#fff', fontSize: 12, fontWeight: '700' },
+  iconBtn: { padding: 6, marginLeft: 4 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#c8e6c9',
+    backgroundColor: '#fff',
+  },
+  chipActive: { backgroundColor: '#2e7d32', borderColor: '#2e7d32' },
+  chipText: { fontSize: 12, color: '#2e7d32' },
+  chipTextActive: { color: '#fff', fontWeight: '700' },
+  gridRow: { flexDirection: 'row', alignItems: 'center', marginBottom: 8 },
+  gridLabel: { width: 100, fontSize: 13, fontWeight: '700', color: '#333' },
+  gridHead: { fontSize: 12, fontWeight: '700', color: '#666' },
+  gridCell: { flex: 1, marginHorizontal: 4, textAlign: 'center' },
+  input: { borderBottomWidth: 1, borderColor: '#ccc', paddingVertical: 4, paddingHorizontal: 8, fontSize: 15 },
+  addBtn: { flexDirection: 'row', alignItems: 'center', alignSelf: 'center', gap: 6, marginBottom: 12 },
+  addText: { color: '#2e7d32', fontWeight: '700' },
+  fitRow: { borderTopWidth: 1, borderColor: '#eee', paddingVertical: 8 },
+  fitHead: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 4 },
+  fitText: { fontSize: 12, color: '#1b5e20' },
+  badText: { fontSize: 12, color: '#c62828', marginTop: 2 },
+  saveBtn: {
+    marginTop: 14,
+    backgroundColor: '#2e7d32',
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  saveText: { color: '#fff', fontWeight: '700' },
+});
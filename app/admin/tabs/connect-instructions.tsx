@@ -14,6 +14,7 @@ import {
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { autoConnectToESP32, ESP_SSID } from '../../../src/esp32';
+import SensorModeLink from '../../../src/SensorModeLink';
 
 type Params = {
   farmerId?: string;
@@ -163,6 +164,8 @@ export default function AdminConnectInstructionsScreen() {
             <Text style={styles.warnText}>⚠️ Please select a farmer first in Logs.</Text>
           )}
         </View>
+
+        <SensorModeLink />
       </ScrollView>
     </SafeAreaView>
   );
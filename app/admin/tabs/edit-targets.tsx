@@ -0,0 +1,449 @@
+// app/admin/tabs/edit-targets.tsx
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { useAuth } from '../../../context/AuthContext';
+import { useFertilizer } from '../../../context/FertilizerContext';
+import { getAgronomySettings, putAgronomySettings } from '../../../src/services';
+import type { AgronomyTablesDoc, ThresholdSetDoc } from '../../../src/services';
+import {
+  CROP_REGISTRY,
+  validateTargetGrid,
+  type CropId,
+  type TargetGrid,
+} from '../../../src/fertilizerLogic';
+import {
+  getActiveThresholdVersion,
+  getThresholdSet,
+  publishedThresholdSets,
+  validateThresholdCuts,
+  type Nutrient,
+  type ThresholdCut,
+} from '../../../constants/npkThresholds';
+
+type SoilClass = 'light' | 'medHeavy';
+type Season = 'wet' | 'dry';
+type Rating = 'L' | 'M' | 'H';
+
+/** all grids as strings for TextInput: [crop][variety][soil][season][nutrient][rating] */
+type GridInputs = Record<string, Record<string, Record<string, Record<string, Record<Nutrient, Record<Rating, string>>>>>>;
+type CutInputs = Record<Nutrient, { L: string; M: string }>;
+
+const NUTRIENTS: Nutrient[] = ['N', 'P', 'K'];
+const RATINGS: Rating[] = ['L', 'M', 'H'];
+const RATING_LABEL: Record<Rating, string> = { L: 'Low', M: 'Medium', H: 'High' };
+const SOILS: { id: SoilClass; label: string }[] = [
+  { id: 'light', label: 'Light' },
+  { id: 'medHeavy', label: 'Medium–Heavy' },
+];
+const SEASONS: { id: Season; label: string }[] = [
+  { id: 'wet', label: 'Wet' },
+  { id: 'dry', label: 'Dry' },
+];
+
+/** Current registry tables (built-in or already-published) overlaid with the backend doc */
+function toGridInputs(doc?: AgronomyTablesDoc | null): GridInputs {
+  const out: GridInputs = {};
+  (Object.keys(CROP_REGISTRY) as CropId[]).forEach((crop) => {
+    const base: TargetGrid = CROP_REGISTRY[crop].targets;
+    out[crop] = {};
+    Object.entries(base).forEach(([variety, soils]) => {
+      out[crop][variety] = {};
+      Object.entries(soils).forEach(([soil, seasons]) => {
+        out[crop][variety][soil] = {};
+        Object.entries(seasons).forEach(([season, row]) => {
+          const saved = doc?.targets?.[crop]?.[variety]?.[soil]?.[season];
+          const src = saved ?? row;
+          out[crop][variety][soil][season] = {
+            N: { L: String(src.N.L), M: String(src.N.M), H: String(src.N.H) },
+            P: { L: String(src.P.L), M: String(src.P.M), H: String(src.P.H) },
+            K: { L: String(src.K.L), M: String(src.K.M), H: String(src.K.H) },
+          };
+        });
+      });
+    });
+  });
+  return out;
+}
+
+function toNumberGrid(inputs: GridInputs[string]): TargetGrid {
+  const grid: any = {};
+  Object.entries(inputs).forEach(([variety, soils]) => {
+    grid[variety] = {};
+    Object.entries(soils).forEach(([soil, seasons]) => {
+      grid[variety][soil] = {};
+      Object.entries(seasons).forEach(([season, row]) => {
+        const toNum = (v: string) => (v.trim() === '' ? NaN : Number(v));
+        grid[variety][soil][season] = {
+          N: { L: toNum(row.N.L), M: toNum(row.N.M), H: toNum(row.N.H) },
+          P: { L: toNum(row.P.L), M: toNum(row.P.M), H: toNum(row.P.H) },
+          K: { L: toNum(row.K.L), M: toNum(row.K.M), H: toNum(row.K.H) },
+        };
+      });
+    });
+  });
+  return grid;
+}
+
+function toCutInputs(cuts: Record<Nutrient, ThresholdCut>): CutInputs {
+  return {
+    N: { L: String(cuts.N.L), M: String(cuts.N.M) },
+    P: { L: String(cuts.P.L), M: String(cuts.P.M) },
+    K: { L: String(cuts.K.L), M: String(cuts.K.M) },
+  };
+}
+
+/** e.g. admin-20261019-093012-k3f9 — a new, unique version every time the cut-offs change */
+function newThresholdVersion() {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const suffix = Math.random().toString(36).slice(2, 6).padEnd(4, '0');
+  return `admin-${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(
+    d.getMinutes()
+  )}${pad(d.getSeconds())}-${suffix}`;
+}
+
+function Chips<T extends string>({
+  options,
+  value,
+  onPick,
+}: {
+  options: { id: T; label: string }[];
+  value: T;
+  onPick: (v: T) => void;
+}) {
+  return (
+    <View style={styles.chipRow}>
+      {options.map((o) => (
+        <TouchableOpacity
+          key={o.id}
+          onPress={() => onPick(o.id)}
+          style={[styles.chip, value === o.id && styles.chipActive]}
+        >
+          <Text style={[styles.chipText, value === o.id && styles.chipTextActive]}>{o.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+export default function EditTargetsScreen() {
+  const router = useRouter();
+  const { token } = useAuth();
+  const { refetchTables, tablesError } = useFertilizer();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [grids, setGrids] = useState<GridInputs>({});
+  const [cuts, setCuts] = useState<CutInputs>(() => toCutInputs(getThresholdSet()));
+  const [loadedVersion, setLoadedVersion] = useState<string>(getActiveThresholdVersion());
+  const [history, setHistory] = useState<ThresholdSetDoc[]>([]);
+
+  const [crop, setCrop] = useState<CropId>('rice');
+  const [variety, setVariety] = useState<string>(CROP_REGISTRY.rice.defaultVariety);
+  const [soil, setSoil] = useState<SoilClass>('light');
+  const [season, setSeason] = useState<Season>('wet');
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      const doc = await getAgronomySettings(token || undefined);
+      setGrids(toGridInputs(doc));
+      setHistory(Array.isArray(doc?.thresholdHistory) ? doc.thresholdHistory : []);
+      const t = doc?.thresholds;
+      if (t?.version) {
+        setCuts(toCutInputs(t));
+        setLoadedVersion(t.version);
+      }
+    } catch (e: any) {
+      console.log('LOAD TABLES ERR:', e?.response?.data || e?.message);
+      Alert.alert('Error Loading Tables', 'Showing the tables currently used by the app.');
+      setGrids(toGridInputs(null));
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const pickCrop = (c: CropId) => {
+    setCrop(c);
+    setVariety(CROP_REGISTRY[c].defaultVariety);
+  };
+
+  const row = grids?.[crop]?.[variety]?.[soil]?.[season];
+
+  const onChangeCell = (nu: Nutrient, r: Rating, text: string) => {
+    if (!/^\d*\.?\d*$/.test(text)) return;
+    setGrids((prev) => {
+      const next: GridInputs = JSON.parse(JSON.stringify(prev));
+      next[crop][variety][soil][season][nu][r] = text;
+      return next;
+    });
+  };
+
+  const onChangeCut = (nu: Nutrient, key: 'L' | 'M', text: string) => {
+    if (!/^\d*\.?\d*$/.test(text)) return;
+    setCuts((prev) => ({ ...prev, [nu]: { ...prev[nu], [key]: text } }));
+  };
+
+  // ✅ per-row check for the grid on screen (L ≥ M ≥ H)
+  const badRows = useMemo(() => {
+    const bad = new Set<Nutrient>();
+    if (!row) return bad;
+    NUTRIENTS.forEach((nu) => {
+      const [L, M, H] = RATINGS.map((r) => (row[nu][r].trim() === '' ? NaN : Number(row[nu][r])));
+      if (![L, M, H].every(Number.isFinite) || L < M || M < H) bad.add(nu);
+    });
+    return bad;
+  }, [row]);
+
+  const handleSave = async () => {
+    const numberGrids: Partial<Record<CropId, TargetGrid>> = {};
+    const errors: string[] = [];
+    (Object.keys(grids) as CropId[]).forEach((c) => {
+      numberGrids[c] = toNumberGrid(grids[c]);
+      errors.push(...validateTargetGrid(numberGrids[c]!).map((e) => `${CROP_REGISTRY[c].label} ${e}`));
+    });
+
+    const numberCuts: Record<Nutrient, ThresholdCut> = {
+      N: { L: Number(cuts.N.L), M: Number(cuts.N.M) },
+      P: { L: Number(cuts.P.L), M: Number(cuts.P.M) },
+      K: { L: Number(cuts.K.L), M: Number(cuts.K.M) },
+    };
+    errors.push(...validateThresholdCuts(numberCuts));
+
+    if (errors.length) {
+      const more = errors.length > 5 ? `\n…and ${errors.length - 5} more` : '';
+      Alert.alert('Validation', errors.slice(0, 5).join('\n') + more);
+      return;
+    }
+
+    // never edit a published version in place — changed cut-offs get a new version
+    const loaded = getThresholdSet(loadedVersion);
+    const cutsChanged = NUTRIENTS.some(
+      (nu) => loaded[nu].L !== numberCuts[nu].L || loaded[nu].M !== numberCuts[nu].M
+    );
+    const version = cutsChanged ? newThresholdVersion() : loadedVersion;
+
+    const thresholds: ThresholdSetDoc = {
+      version,
+      label: cutsChanged ? `Admin cut-offs (${version})` : loaded.label,
+      ...numberCuts,
+    };
+    // every published version travels with the doc, so other phones can still rate old readings
+    const byVersion = new Map<string, ThresholdSetDoc>();
+    [...history, ...publishedThresholdSets(), thresholds].forEach((t) =>
+      byVersion.set(t.version, { version: t.version, label: t.label, N: t.N, P: t.P, K: t.K })
+    );
+
+    try {
+      setSaving(true);
+      const payload: AgronomyTablesDoc = {
+        targets: numberGrids as AgronomyTablesDoc['targets'],
+        thresholds,
+        thresholdHistory: Array.from(byVersion.values()),
+      };
+      await putAgronomySettings(token || undefined, payload);
+      await refetchTables();
+      Alert.alert('✅ Saved', 'Nutrient targets and thresholds updated.');
+      router.back();
+    } catch (e: any) {
+      console.log('SAVE TABLES ERR:', e?.response?.status, e?.response?.data || e?.message);
+      Alert.alert('Error', e?.response?.data?.error || 'Failed to save.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator />
+        <Text style={{ marginTop: 8 }}>Loading tables…</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1, backgroundColor: '#f7fdf7' }}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Nutrient Targets</Text>
+        <Text style={styles.headerSubtitle}>kg/ha by soil test rating • ppm cut-offs</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {!!tablesError && <Text style={styles.tablesError}>⚠️ {tablesError}</Text>}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Crop</Text>
+          <Chips
+            options={(Object.keys(CROP_REGISTRY) as CropId[]).map((c) => ({ id: c, label: CROP_REGISTRY[c].label }))}
+            value={crop}
+            onPick={pickCrop}
+          />
+          <Text style={styles.cardTitle}>Variety</Text>
+          <Chips
+            options={CROP_REGISTRY[crop].varieties.map((v) => ({ id: String(v.id), label: v.label }))}
+            value={variety}
+            onPick={setVariety}
+          />
+          <Text style={styles.cardTitle}>Soil</Text>
+          <Chips options={SOILS} value={soil} onPick={setSoil} />
+          <Text style={styles.cardTitle}>Season</Text>
+          <Chips options={SEASONS} value={season} onPick={setSeason} />
+        </View>
+
+        {row && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Target (kg/ha)</Text>
+            <Text style={styles.hint}>Low soil rating needs the most: Low ≥ Medium ≥ High.</Text>
+
+            <View style={styles.gridRow}>
+              <Text style={[styles.gridLabel, styles.gridHead]}>Nutrient</Text>
+              {RATINGS.map((r) => (
+                <Text key={r} style={[styles.gridCell, styles.gridHead]}>
+                  {RATING_LABEL[r]}
+                </Text>
+              ))}
+            </View>
+
+            {NUTRIENTS.map((nu) => (
+              <View key={nu} style={styles.gridRow}>
+                <Text style={[styles.gridLabel, badRows.has(nu) && styles.badText]}>{nu}</Text>
+                {RATINGS.map((r) => (
+                  <TextInput
+                    key={r}
+                    value={row[nu][r]}
+                    onChangeText={(t) => onChangeCell(nu, r, t)}
+                    keyboardType="numeric"
+                    style={[styles.gridCell, styles.input, badRows.has(nu) && styles.badInput]}
+                  />
+                ))}
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Soil test cut-offs (ppm)</Text>
+          <Text style={styles.hint}>
+            Below “Low” = LOW, up to “Medium” = MEDIUM, above = HIGH. Version in use: {loadedVersion}
+          </Text>
+
+          <View style={styles.gridRow}>
+            <Text style={[styles.gridLabel, styles.gridHead]}>Nutrient</Text>
+            <Text style={[styles.gridCell, styles.gridHead]}>Low below</Text>
+            <Text style={[styles.gridCell, styles.gridHead]}>Medium up to</Text>
+          </View>
+
+          {NUTRIENTS.map((nu) => (
+            <View key={nu} style={styles.gridRow}>
+              <Text style={styles.gridLabel}>{nu}</Text>
+              {(['L', 'M'] as const).map((k) => (
+                <TextInput
+                  key={k}
+                  value={cuts[nu][k]}
+                  onChangeText={(t) => onChangeCut(nu, k, t)}
+                  keyboardType="numeric"
+                  style={[styles.gridCell, styles.input]}
+                />
+              ))}
+            </View>
+          ))}
+        </View>
+
+        <TouchableOpacity
+          onPress={handleSave}
+          style={[styles.saveBtn, saving && { opacity: 0.7 }]}
+          disabled={saving}
+        >
+          <Ionicons name="save-outline" size={20} color="#fff" />
+          <Text style={styles.saveText}>{saving ? 'Saving…' : 'Save Changes'}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  tablesError: { fontSize: 12, color: '#8a5a00', backgroundColor: '#fff8e6', borderRadius: 8, padding: 10, marginBottom: 12 },
+  header: {
+    backgroundColor: '#2e7d32',
+    paddingTop: 60,
+    paddingBottom: 18,
+    borderBottomLeftRadius: 30,
+    borderBottomRightRadius: 30,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  backButton: { position: 'absolute', left: 20, top: 60 },
+  headerTitle: { color: '#fff', fontSize: 22, fontWeight: 'bold', marginBottom: 6 },
+  headerSubtitle: { color: '#c8e6c9', fontSize: 14 },
+  scrollContent: { paddingHorizontal: 16, paddingVertical: 16, paddingBottom: 110 },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    padding: 12,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOpacity: 0.06,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  cardTitle: { fontSize: 13, fontWeight: '700', color: '#1b5e20', marginTop: 4, marginBottom: 6 },
+  hint: { fontSize: 12, color: '#666', marginBottom: 8 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 6 },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#c8e6c9',
+    backgroundColor: '#fff',
+  },
+  chipActive: { backgroundColor: '#2e7d32', borderColor: '#2e7d32' },
+  chipText: { fontSize: 13, color: '#2e7d32' },
+  chipTextActive: { color: '#fff', fontWeight: '700' },
+  gridRow: { flexDirection: 'row', alignItems: 'center', marginBottom: 8 },
+  gridLabel: { width: 70, fontSize: 14, fontWeight: '700', color: '#333' },
+  gridHead: { fontSize: 12, fontWeight: '700', color: '#666' },
+  gridCell: { flex: 1, marginHorizontal: 4, textAlign: 'center' },
+  input: { borderBottomWidth: 1, borderColor: '#ccc', paddingVertical: 4, paddingHorizontal: 8, fontSize: 15 },
+  badInput: { borderColor: '#c62828' },
+  badText: { color: '#c62828' },
+  saveBtn: {
+    marginTop: 14,
+    backgroundColor: '#2e7d32',
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  saveText: { color: '#fff', fontWeight: '700' },
+});
@@ -22,10 +22,13 @@ import {
   deleteReading as deleteReadingApi,
   listFarmers as listFarmersApi,
   listReadingsByFarmer as listReadingsApi,
+  type NutrientBalance,
 } from '../../../src/services';
+import NutrientBalanceBars from '../../../src/NutrientBalanceBars';
 
 import { useReadingSession } from '../../../context/ReadingSessionContext';
 import { useAuth } from '../../../context/AuthContext';
+import { classifyLevel, savedReadingVersion, type NutrientLevel } from '../../../constants/npkThresholds';
 
 type Farmer = {
   _id?: string;
@@ -43,6 +46,7 @@ type FertilizerPlan = {
   name?: string;
   cost?: string;
   details?: string[];
+  balance?: NutrientBalance;
 };
 
 type Reading = {
@@ -72,6 +76,10 @@ type Reading = {
   englishText?: string;
   currency?: string;
   npkClass?: string;
+  thresholdVersion?: string;
+  source?: string;
+  // ✅ simulator reading (Developer settings), not a real probe
+  simulated?: boolean;
 
   daSchedule?: any;
   daCost?: any;
@@ -137,37 +145,22 @@ async function removeFarmerFromCache(fid: string): Promise<void> {
 }
 
 /* ================================
-   ✅ UPDATED LMH (ppm thresholds)
+   ✅ LMH via shared threshold registry
    ================================ */
-const THRESH = {
-  N: { L: 110, M: 145 },
-  P: { L: 315, M: 345 },
-  K: { L: 150, M: 380 },
-} as const;
-
-type Nutrient = keyof typeof THRESH;
 type LMH = 'Low' | 'Medium' | 'High' | 'N/A';
 
-function classifyLevel(nutrient: Nutrient, ppm: any): LMH {
-  const v = Number(ppm);
-  if (!Number.isFinite(v) || v <= 0) return 'N/A';
-
-  const x = Math.round(v);
-  const t = THRESH[nutrient];
+const LMH_WORD: Record<NutrientLevel, LMH> = { LOW: 'Low', MEDIUM: 'Medium', HIGH: 'High', 'N/A': 'N/A' };
 
-  if (x < t.L) return 'Low';
-  if (x <= t.M) return 'Medium';
-  return 'High';
-}
-
-const lmhN = (ppm: any) => classifyLevel('N', ppm);
-const lmhP = (ppm: any) => classifyLevel('P', ppm);
-const lmhK = (ppm: any) => classifyLevel('K', ppm);
+// version = the reading's saved thresholdVersion (older readings fall back to the legacy set)
+const lmhN = (ppm: any, version?: string) => LMH_WORD[classifyLevel('N', ppm, savedReadingVersion(version))];
+const lmhP = (ppm: any, version?: string) => LMH_WORD[classifyLevel('P', ppm, savedReadingVersion(version))];
+const lmhK = (ppm: any, version?: string) => LMH_WORD[classifyLevel('K', ppm, savedReadingVersion(version))];
 
 const pickReadingN = (r?: Reading | null) => r?.npk?.N ?? r?.N ?? r?.n;
 const pickReadingP = (r?: Reading | null) => r?.npk?.P ?? r?.P ?? r?.p;
 const pickReadingK = (r?: Reading | null) => r?.npk?.K ?? r?.K ?? r?.k;
 const pickReadingPh = (r?: Reading | null) => r?.ph ?? r?.pH ?? null;
+const isSimulated = (r?: Reading | null) => r?.simulated === true || r?.source === 'simulator';
 
 function sortByNewest(arr: Reading[]) {
   return [...arr].sort(
@@ -591,6 +584,8 @@ function PlanTableCardAdmin({
       </ScrollView>
 
       {fertCodes.length >= 3 ? <ScrollProgress progress01={progress01} /> : null}
+
+      <NutrientBalanceBars balance={plan.balance} />
     </View>
   );
 }
@@ -996,10 +991,11 @@ export default function LogsScreen() {
             <Text style={styles.expRow}>
               🗓 Date: {r?.createdAt ? new Date(r.createdAt).toLocaleDateString() : '—'}
             </Text>
+            {isSimulated(r) && <Text style={styles.simulatedText}>🧪 Simulated sensor — not a real reading</Text>}
             <Text style={styles.expRow}>💧 pH: {fmtPh(phVal)}</Text>
-            <Text style={styles.expRow}>Nitrogen (N): {lmhN(nVal)}</Text>
-            <Text style={styles.expRow}>Phosphorus (P): {lmhP(pVal)}</Text>
-            <Text style={styles.expRow}>Potassium (K): {lmhK(kVal)}</Text>
+            <Text style={styles.expRow}>Nitrogen (N): {lmhN(nVal, r?.thresholdVersion)}</Text>
+            <Text style={styles.expRow}>Phosphorus (P): {lmhP(pVal, r?.thresholdVersion)}</Text>
+            <Text style={styles.expRow}>Potassium (K): {lmhK(kVal, r?.thresholdVersion)}</Text>
 
             <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 8 }}>
               <TouchableOpacity
@@ -1055,9 +1051,10 @@ export default function LogsScreen() {
                       </View>
 
                       <Text style={styles.allDate}>🗓 {rr.createdAt ? new Date(rr.createdAt).toLocaleDateString() : '—'}</Text>
+                      {isSimulated(rr) && <Text style={styles.simulatedText}>🧪 Simulated sensor — not a real reading</Text>}
 
                       <Text style={styles.allLine}>
-                        N: {lmhN(pickReadingN(rr))} | P: {lmhP(pickReadingP(rr))} | K: {lmhK(pickReadingK(rr))}
+                        N: {lmhN(pickReadingN(rr), rr.thresholdVersion)} | P: {lmhP(pickReadingP(rr), rr.thresholdVersion)} | K: {lmhK(pickReadingK(rr), rr.thresholdVersion)}
                       </Text>
 
                       <Text style={styles.allLine}>pH: {fmtPh(pickReadingPh(rr))}</Text>
@@ -1208,6 +1205,7 @@ const styles = StyleSheet.create({
   },
   expTitle: { fontWeight: '800', color: GREEN, marginBottom: 6 },
   expRow: { color: '#1b5e20', marginTop: 2 },
+  simulatedText: { fontSize: 12, fontWeight: 'bold', color: '#8a5a00', marginTop: 2 },
 
   openRecBtn: {
     flexDirection: 'row',
@@ -0,0 +1,237 @@
+// app/dev-settings.tsx
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { useAuth } from '../context/AuthContext';
+import {
+  DEFAULT_DEVICE,
+  loadSensorSettings,
+  readSensorFromESP32,
+  saveSensorSettings,
+  simulatorAllowed,
+  type SensorSettings,
+} from '../src/esp32';
+import {
+  SOIL_PROFILES,
+  profileSample,
+  type SimulatorConfig,
+  type SimulatorFault,
+  type SoilProfileId,
+  type SoilSample,
+} from '../src/esp32Simulator';
+
+const GREEN = '#2e7d32';
+
+const FAULTS: { key: SimulatorFault; label: string }[] = [
+  { key: 'zero', label: 'All-zero poll' },
+  { key: 'error', label: 'ok:false' },
+  { key: 'timeout', label: 'Timeout' },
+];
+
+const SAMPLE_FIELDS: { key: keyof SoilSample; label: string }[] = [
+  { key: 'n', label: 'N (ppm)' },
+  { key: 'p', label: 'P (ppm)' },
+  { key: 'k', label: 'K (ppm)' },
+  { key: 'ph', label: 'pH' },
+  { key: 'ec', label: 'EC (mS/cm)' },
+];
+
+/** Number input that keeps the text while typing and reports valid numbers only */
+function NumField({ label, value, onChange }: { label: string; value: number; onChange: (n: number) => void }) {
+  const [text, setText] = useState(String(value));
+  useEffect(() => setText(String(value)), [value]);
+
+  return (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        keyboardType="numeric"
+        value={text}
+        onChangeText={setText}
+        onEndEditing={() => {
+          const n = Number(text);
+          if (text.trim() !== '' && Number.isFinite(n) && n >= 0) onChange(n);
+          else setText(String(value));
+        }}
+      />
+    </View>
+  );
+}
+
+export default function DevSettingsScreen() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<SensorSettings | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState('');
+
+  useEffect(() => {
+    loadSensorSettings().then(setSettings);
+  }, []);
+
+  const update = (next: SensorSettings) => {
+    setSettings(next);
+    saveSensorSettings(next).catch(() => {});
+  };
+  const updateSim = (patch: Partial<SimulatorConfig>) => {
+    if (settings) update({ ...settings, simulator: { ...settings.simulator, ...patch } });
+  };
+
+  const testRead = async () => {
+    setTesting(true);
+    setTestResult('');
+    try {
+      const parsed = await readSensorFromESP32();
+      setTestResult(JSON.stringify(parsed, null, 2));
+    } catch (e: any) {
+      setTestResult(`Error: ${e?.message || e}`);
+    } finally {
+      setTesting(false);
+      // a one-shot fault was used by this read
+      loadSensorSettings().then((s) => setSettings({ ...s }));
+    }
+  };
+
+  if (!settings) return null;
+  const sim = settings.simulator;
+  const device = settings.devices.find((d) => d.id === settings.activeDeviceId) ?? DEFAULT_DEVICE;
+
+  // ✅ release builds: only admins get the simulator; anyone else can just turn a leftover one off
+  if (!simulatorAllowed(user?.role)) {
+    return (
+      <ScrollView contentContainerStyle={styles.container}>
+        <TouchableOpacity style={styles.back} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={GREEN} />
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Developer Settings</Text>
+        <Text style={styles.subtle}>Only available to admins.</Text>
+        {settings.mode === 'simulator' && (
+          <TouchableOpacity style={styles.button} onPress={() => update({ ...settings, mode: 'device' })}>
+            <Text style={styles.buttonText}>Use the real sensor</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <TouchableOpacity style={styles.back} onPress={() => router.back()}>
+        <Ionicons name="arrow-back" size={24} color={GREEN} />
+      </TouchableOpacity>
+
+      <Text style={styles.title}>Developer Settings</Text>
+      <Text style={styles.subtle}>For development and demos. Readings from the simulator are not real soil data.</Text>
+
+      <Text style={styles.section}>Sensor source</Text>
+      <View style={styles.box}>
+        {(['device', 'simulator'] as const).map((m) => (
+          <TouchableOpacity key={m} style={styles.radioRow} onPress={() => update({ ...settings, mode: m })}>
+            <Ionicons name={settings.mode === m ? 'radio-button-on' : 'radio-button-off'} size={20} color={GREEN} />
+            <Text style={styles.radioLabel}>
+              {m === 'device' ? `ESP32 probe — ${device.name} at ${device.baseUrl}` : 'Built-in simulator'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {settings.mode === 'simulator' && (
+        <>
+          <Text style={styles.section}>Soil profile</Text>
+          <View style={styles.box}>
+            <View style={styles.chips}>
+              {([...Object.keys(SOIL_PROFILES), 'custom'] as SoilProfileId[]).map((id) => (
+                <TouchableOpacity
+                  key={id}
+                  style={[styles.chip, sim.profile === id && styles.chipOn]}
+                  onPress={() => updateSim({ profile: id })}
+                >
+                  <Text style={[styles.chipText, sim.profile === id && styles.chipTextOn]}>
+                    {id === 'custom' ? 'Custom' : SOIL_PROFILES[id].label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {sim.profile === 'custom' ? (
+              SAMPLE_FIELDS.map((f) => (
+                <NumField
+                  key={f.key}
+                  label={f.label}
+                  value={sim.custom[f.key]}
+                  onChange={(n) => updateSim({ custom: { ...sim.custom, [f.key]: n } })}
+                />
+              ))
+            ) : (
+              <Text style={styles.subtle}>
+                {SAMPLE_FIELDS.map((f) => `${f.label} ${profileSample(sim)[f.key]}`).join(' • ')}
+              </Text>
+            )}
+          </View>
+
+          <Text style={styles.section}>Noise and faults</Text>
+          <View style={styles.box}>
+            <NumField label="Noise (± %)" value={sim.noisePct} onChange={(n) => updateSim({ noisePct: n })} />
+            <NumField label="Response time (ms)" value={sim.latencyMs} onChange={(n) => updateSim({ latencyMs: n })} />
+            <NumField label="All-zero polls (%)" value={sim.zeroPct} onChange={(n) => updateSim({ zeroPct: Math.min(100, n) })} />
+            <NumField label="ok:false errors (%)" value={sim.errorPct} onChange={(n) => updateSim({ errorPct: Math.min(100, n) })} />
+            <NumField label="Timeouts (%)" value={sim.timeoutPct} onChange={(n) => updateSim({ timeoutPct: Math.min(100, n) })} />
+
+            <Text style={styles.fieldLabel}>Next reading only</Text>
+            <View style={styles.chips}>
+              {FAULTS.map((f) => (
+                <TouchableOpacity
+                  key={f.key}
+                  style={[styles.chip, sim.nextFault === f.key && styles.chipOn]}
+                  onPress={() => updateSim({ nextFault: sim.nextFault === f.key ? null : f.key })}
+                >
+                  <Text style={[styles.chipText, sim.nextFault === f.key && styles.chipTextOn]}>{f.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        </>
+      )}
+
+      <TouchableOpacity style={styles.button} onPress={testRead} disabled={testing}>
+        {testing ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Test reading</Text>}
+      </TouchableOpacity>
+      {testResult !== '' && <Text style={styles.result}>{testResult}</Text>}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 23, paddingTop: 50, backgroundColor: '#fff', flexGrow: 1, paddingBottom: 80 },
+  back: { marginBottom: 10 },
+  title: { fontSize: 22, fontWeight: 'bold', color: GREEN, marginBottom: 4 },
+  subtle: { fontSize: 12, color: '#666', marginBottom: 6 },
+  section: { fontSize: 14, fontWeight: 'bold', color: '#1b5e20', marginTop: 16, marginBottom: 6 },
+  box: { borderWidth: 1, borderColor: '#cfe7d4', borderRadius: 10, padding: 12 },
+  radioRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 6 },
+  radioLabel: { marginLeft: 8, fontSize: 13, color: '#222', flex: 1 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', marginBottom: 6 },
+  chip: { borderWidth: 1, borderColor: GREEN, borderRadius: 16, paddingVertical: 4, paddingHorizontal: 10, marginRight: 6, marginBottom: 6 },
+  chipOn: { backgroundColor: GREEN },
+  chipText: { fontSize: 12, color: GREEN },
+  chipTextOn: { color: '#fff', fontWeight: 'bold' },
+  field: { flexDirection: 'row', alignItems: 'center', marginBottom: 8 },
+  fieldLabel: { flex: 1, fontSize: 13, color: '#222', marginBottom: 4 },
+  input: {
+    width: 110,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    fontSize: 13,
+    textAlign: 'right',
+  },
+  button: { backgroundColor: GREEN, paddingVertical: 14, borderRadius: 50, marginTop: 20, alignItems: 'center' },
+  buttonText: { color: '#fff', fontWeight: 'bold', fontSize: 16 },
+  result: { fontFamily: 'monospace', fontSize: 11, color: '#333', backgroundColor: '#f5f5f5', padding: 10, marginTop: 12, borderRadius: 8 },
+});
@@ -16,36 +16,35 @@ import NetInfo from '@react-native-community/netinfo';
 import * as Print from 'expo-print';
 import * as Sharing from 'expo-sharing';
 
-import { useReadingSession, type RiceVariety, type SoilClass, type Season } from '../../../context/ReadingSessionContext';
+import { useReadingSession, type CropVariety, type Crop, type SoilClass, type Season } from '../../../context/ReadingSessionContext';
 import { useData } from '../../../context/DataContext';
+import { useFertilizer } from '../../../context/FertilizerContext';
 import { addGuestReading } from '../../../src/localUsers';
 
-import { getPublicPrices, type AdminPricesDoc } from '../../../src/services';
-
-const ORGANIC_FERT_CODE = 'Organic Fertilizer';
-const ORGANIC_BAGS_PER_HA = 10;
-const BAG_KG = 50;
+import { getPublicPrices, type AdminPricesDoc, type DaPlan, type RecommendResponse } from '../../../src/services';
+import {
+  getCropTargetKgPerHa,
+  getNSplit,
+  summarizeRecommendation,
+  traceDaPlan,
+  type TargetGrid,
+} from '../../../src/fertilizerLogic';
+import { FERTILIZER_NAMES } from '../../../src/daPlans';
+import { getDaPlans, type DaPlansArgs, type DaPlansResult, type PlanSource } from '../../../src/daRecommend';
+import { classifyLevel, getActiveThresholdVersion } from '../../../constants/npkThresholds';
+import WhyThisPlan from '../../../src/WhyThisPlan';
+import StockSplitTable from '../../../src/StockSplitTable';
+import PlanSourceNotice from '../../../src/PlanSourceNotice';
+import PriceSensitivity from '../../../src/PriceSensitivity';
+import EngineOptions from '../../../src/EngineOptions';
+import NutrientBalanceBars from '../../../src/NutrientBalanceBars';
+import NarrativeCard from '../../../src/NarrativeCard';
+import { daNarratives } from '../../../src/narrative';
+import { useNarrativeLang } from '../../../hooks/useNarrativeLang';
+import { useServerRecheck } from '../../../hooks/useServerRecheck';
 
-type Nutrient = 'N' | 'P' | 'K';
 type Lmh = 'L' | 'M' | 'H';
 
-// ✅ FINAL Table 4.5 thresholds (same as stakeholder)
-const THRESH = {
-  N: { L: 110, M: 145 },
-  P: { L: 315, M: 345 },
-  K: { L: 150, M: 380 },
-} as const;
-
-const classifyLevel = (nutrient: Nutrient, ppm: number): 'LOW' | 'MEDIUM' | 'HIGH' | 'N/A' => {
-  const v = Number(ppm);
-  if (!Number.isFinite(v) || v <= 0) return 'N/A';
-  const x = Math.round(v);
-
-  const t = THRESH[nutrient];
-  if (x < t.L) return 'LOW';
-  if (x <= t.M) return 'MEDIUM';
-  return 'HIGH';
-};
 
 const toLMH_SAFE = (lvl: 'LOW' | 'MEDIUM' | 'HIGH' | 'N/A'): Lmh => {
   if (lvl === 'LOW') return 'L';
@@ -57,9 +56,6 @@ const toLMH_SAFE = (lvl: 'LOW' | 'MEDIUM' | 'HIGH' | 'N/A'): Lmh => {
 function asArray<T = any>(arr: any): T[] {
   return Array.isArray(arr) ? (arr as T[]) : [];
 }
-function round2(x: number) {
-  return Math.round((Number(x || 0) + Number.EPSILON) * 100) / 100;
-}
 function bagsFmt(b: number) {
   const n = Number.isFinite(b) ? b : 0;
   return `${n.toFixed(2)} bags`;
@@ -68,390 +64,31 @@ function moneyFmt(v: number) {
   return (v || 0).toFixed(2);
 }
 
-/** ✅ Fertilizer full names */
-const FERTILIZER_NAMES: Record<string, string> = {
-  '46-0-0': 'Urea',
-  '21-0-0': 'Ammosul',
-  '0-0-60': 'Muriate of Potash (MOP)',
-  '18-46-0': 'Diammonium Phosphate (DAP)',
-  '16-20-0': 'Ammophos',
-  '14-14-14': 'Complete Fertilizer',
-  [ORGANIC_FERT_CODE]: 'Organic Fertilizer',
-};
-
-type LocalScheduleLine = { code: string; bags: number };
-type LocalSchedule = {
-  organic?: LocalScheduleLine[];
-  basal?: LocalScheduleLine[];
-  after30DAT?: LocalScheduleLine[];
-  topdress60DBH?: LocalScheduleLine[];
-};
-
-type LocalCostRow = {
-  phase: string;
-  code: string;
-  bags: number;
-  pricePerBag: number | null;
-  subtotal: number | null;
-};
-
-type LocalCost = {
-  currency: string;
-  rows: LocalCostRow[];
-  total: number;
-};
-
-type LocalPlan = {
-  id: string;
-  title: string;
-  label: string;
-  isCheapest?: boolean;
-  schedule: LocalSchedule;
-  cost: LocalCost | null;
-};
-
-// ✅ mapping to your backend price keys (for COST only)
-const CODE_TO_PRICE_KEY: Record<string, string> = {
-  '46-0-0': 'UREA_46_0_0',
-  '18-46-0': 'DAP_18_46_0',
-  '16-20-0': 'NPK_16_20_0',
-  '0-0-60': 'MOP_0_0_60',
-  '14-14-14': 'NPK_14_14_14',
-  '21-0-0': 'AMMOSUL_21_0_0',
-};
-
-function getItemByCode(prices: AdminPricesDoc | null, dashCode: string) {
-  const key = CODE_TO_PRICE_KEY[String(dashCode)];
-  if (!prices || !key) return null;
-  return (prices as any)?.items?.[key] ?? null;
-}
-
-// ✅ Organic MUST be in organic column only
-function ensureOrganic(schedule: LocalSchedule, areaHa: number) {
-  const area = Number(areaHa || 1);
-  const want = round2(ORGANIC_BAGS_PER_HA * area);
-
-  const existing = asArray<LocalScheduleLine>(schedule.organic);
-  const hasOrganic = existing.some((x) => String(x?.code) === ORGANIC_FERT_CODE);
-  if (hasOrganic) return schedule;
-
-  return {
-    ...schedule,
-    organic: [{ code: ORGANIC_FERT_CODE, bags: want }, ...existing],
-  };
-}
-
-function calcCost(schedule: LocalSchedule, prices: AdminPricesDoc | null): LocalCost | null {
-  // ✅ OFFLINE: no prices => no cost shown
-  if (!prices) return null;
-
-  const currency = String((prices as any)?.currency || 'PHP');
-
-  const lines = [
-    ...asArray(schedule.organic).map((x) => ({ phase: 'ORGANIC', ...x })),
-    ...asArray(schedule.basal).map((x) => ({ phase: 'BASAL', ...x })),
-    ...asArray(schedule.after30DAT).map((x) => ({ phase: '30 DAT', ...x })),
-    ...asArray(schedule.topdress60DBH).map((x) => ({ phase: 'TOPDRESS', ...x })),
-  ];
-
-  const rows: LocalCostRow[] = lines.map((l) => {
-    if (String(l.code) === ORGANIC_FERT_CODE) {
-      return { phase: l.phase, code: String(l.code), bags: Number(l.bags || 0), pricePerBag: null, subtotal: null };
-    }
-    const item = getItemByCode(prices, l.code);
-    const pricePerBag = item?.pricePerBag ?? null;
-    const subtotal = pricePerBag == null ? null : round2(pricePerBag * Number(l.bags || 0));
-    return { phase: l.phase, code: String(l.code), bags: Number(l.bags || 0), pricePerBag, subtotal };
-  });
-
-  const total = round2(rows.reduce((s, r) => s + (r.subtotal || 0), 0));
-  return { currency, rows, total };
-}
-
-function planHasRealFertilizer(plan: LocalPlan): boolean {
-  const s = plan?.schedule || {};
-  const all = [...asArray(s.basal), ...asArray(s.after30DAT), ...asArray(s.topdress60DBH)];
-  return all.some((x: any) => String(x?.code) !== ORGANIC_FERT_CODE && Number(x?.bags || 0) > 0);
-}
-
-function markCheapestAmongReal(plans: LocalPlan[]) {
-  plans.forEach((p) => (p.isCheapest = false));
-  const real = plans.filter(planHasRealFertilizer);
-
-  // ✅ If offline (no cost), do not mark cheapest
-  const allNoCost = real.every((p) => p?.cost == null);
-  if (allNoCost) return;
-
-  real.sort((a, b) => {
-    const ta = Number(a?.cost?.total ?? Number.POSITIVE_INFINITY);
-    const tb = Number(b?.cost?.total ?? Number.POSITIVE_INFINITY);
-    return ta - tb;
-  });
-
-  if (real.length) {
-    const cheapestId = String(real[0].id);
-    const hit = plans.find((p) => String(p.id) === cheapestId);
-    if (hit) hit.isCheapest = true;
-  }
-}
-
 /**
- * ✅ REQUIREMENTS TABLE (same structure as stakeholder)
+ * ✅ REQUIREMENTS (kg/ha) — looked up in the engine's crop registry, which carries the
+ * admin-published target tables (Admin → Nutrient Targets) over the built-in DA tables.
  */
-type ReqTable = Record<Nutrient, Record<Lmh, number>>;
-
-const REQ: Record<RiceVariety, Record<SoilClass, Record<Season, ReqTable>>> = {
-  hybrid: {
-    light: {
-      wet: {
-        N: { L: 120, M: 90, H: 60 },
-        P: { L: 70, M: 50, H: 30 },
-        K: { L: 70, M: 50, H: 30 },
-      },
-      dry: {
-        N: { L: 140, M: 110, H: 80 }, // placeholder
-        P: { L: 70, M: 50, H: 30 },
-        K: { L: 70, M: 50, H: 30 },
-      },
-    },
-    medHeavy: {
-      wet: {
-        N: { L: 110, M: 80, H: 50 }, // placeholder
-        P: { L: 70, M: 50, H: 30 },
-        K: { L: 70, M: 50, H: 30 },
-      },
-      dry: {
-        N: { L: 120, M: 90, H: 60 }, // placeholder
-        P: { L: 70, M: 50, H: 30 },
-        K: { L: 70, M: 50, H: 30 },
-      },
-    },
-  },
-
-  inbred: {
-    light: {
-      wet: {
-        N: { L: 100, M: 70, H: 40 },
-        P: { L: 60, M: 40, H: 20 },
-        K: { L: 60, M: 40, H: 20 },
-      },
-      dry: {
-        N: { L: 120, M: 90, H: 60 }, // placeholder
-        P: { L: 60, M: 40, H: 20 },
-        K: { L: 60, M: 40, H: 20 },
-      },
-    },
-    medHeavy: {
-      wet: {
-        N: { L: 90, M: 60, H: 30 }, // placeholder
-        P: { L: 60, M: 40, H: 20 },
-        K: { L: 60, M: 40, H: 20 },
-      },
-      dry: {
-        N: { L: 100, M: 70, H: 40 }, // placeholder
-        P: { L: 60, M: 40, H: 20 },
-        K: { L: 60, M: 40, H: 20 },
-      },
-    },
-  },
-};
-
 function getRequirementKgHa(args: {
-  variety: RiceVariety;
+  crop: Crop;
+  variety: CropVariety;
   soilClass: SoilClass;
   season: Season;
   nClass: Lmh;
   pClass: Lmh;
   kClass: Lmh;
+  targets: Record<Crop, TargetGrid>;
 }): { N: number; P: number; K: number } {
-  const t = REQ?.[args.variety]?.[args.soilClass]?.[args.season] ?? REQ.hybrid.light.wet;
-  return {
-    N: Number(t.N[args.nClass] ?? 0),
-    P: Number(t.P[args.pClass] ?? 0),
-    K: Number(t.K[args.kClass] ?? 0),
-  };
-}
-
-/**
- * ✅ FRONTEND BAG SOLVER
- * bags = targetKg / (gradeDecimal * 50)
- */
-const GRADE = {
-  '14-14-14': { N: 0.14, P: 0.14, K: 0.14 },
-  '16-20-0': { N: 0.16, P: 0.20, K: 0.0 },
-  '46-0-0': { N: 0.46, P: 0.0, K: 0.0 },
-  '18-46-0': { N: 0.18, P: 0.46, K: 0.0 },
-  '0-0-60': { N: 0.0, P: 0.0, K: 0.60 },
-  '21-0-0': { N: 0.21, P: 0.0, K: 0.0 },
-} as const;
-
-function bagsFor(targetKg: number, gradeDec: number) {
-  if (!gradeDec || gradeDec <= 0) return 0;
-  return targetKg / (gradeDec * BAG_KG);
-}
-function suppliedKg(bags: number, gradeDec: number) {
-  return bags * BAG_KG * gradeDec;
-}
-
-/**
- * ✅ PLAN 1: 14-14-14 + 16-20-0 + Urea
- */
-function buildPlan_Complete_Ammophos_Urea(
-  req: { N: number; P: number; K: number },
-  areaHa: number,
-  prices: AdminPricesDoc | null
-): LocalPlan {
-  const area = Number(areaHa || 1);
-  const targetN = req.N * area;
-  const targetP = req.P * area;
-  const targetK = req.K * area;
-
-  const b141414 = round2(bagsFor(targetK, GRADE['14-14-14'].K));
-  const nFrom141414 = suppliedKg(b141414, GRADE['14-14-14'].N);
-  const pFrom141414 = suppliedKg(b141414, GRADE['14-14-14'].P);
-
-  const remP = Math.max(0, targetP - pFrom141414);
-  const remN_afterA = Math.max(0, targetN - nFrom141414);
-
-  const b16200 = round2(remP <= 0 ? 0 : bagsFor(remP, GRADE['16-20-0'].P));
-  const nFrom16200 = suppliedKg(b16200, GRADE['16-20-0'].N);
-
-  const remN_final = Math.max(0, remN_afterA - nFrom16200);
-  const bUreaTotal = round2(remN_final <= 0 ? 0 : bagsFor(remN_final, GRADE['46-0-0'].N));
-  const halfUrea = round2(bUreaTotal / 2);
-
-  let schedule: LocalSchedule = {
-    organic: [],
-    basal: [
-      ...(b141414 > 0 ? [{ code: '14-14-14', bags: b141414 }] : []),
-      ...(b16200 > 0 ? [{ code: '16-20-0', bags: b16200 }] : []),
-    ],
-    after30DAT: halfUrea > 0 ? [{ code: '46-0-0', bags: halfUrea }] : [],
-    topdress60DBH: halfUrea > 0 ? [{ code: '46-0-0', bags: halfUrea }] : [],
-  };
-
-  schedule = ensureOrganic(schedule, area);
-  const cost = calcCost(schedule, prices);
-
-  return {
-    id: 'PLAN_COMPLETE_AMMOPHOS_UREA',
-    title: 'Fertilizer Plan',
-    label: 'Option (14-14-14 + 16-20-0 + Urea)',
-    schedule,
-    cost,
-  };
-}
-
-/**
- * ✅ PLAN 2: DAP + MOP + Urea
- */
-function buildPlan_DAP_MOP_UREA(
-  req: { N: number; P: number; K: number },
-  areaHa: number,
-  prices: AdminPricesDoc | null
-): LocalPlan {
-  const area = Number(areaHa || 1);
-  const targetN = req.N * area;
-  const targetP = req.P * area;
-  const targetK = req.K * area;
-
-  const bMop = round2(bagsFor(targetK, GRADE['0-0-60'].K));
-  const bDap = round2(bagsFor(targetP, GRADE['18-46-0'].P));
-  const nFromDap = suppliedKg(bDap, GRADE['18-46-0'].N);
-
-  const remN = Math.max(0, targetN - nFromDap);
-  const bUreaTotal = round2(remN <= 0 ? 0 : bagsFor(remN, GRADE['46-0-0'].N));
-  const halfUrea = round2(bUreaTotal / 2);
-
-  let schedule: LocalSchedule = {
-    organic: [],
-    basal: [
-      ...(bDap > 0 ? [{ code: '18-46-0', bags: bDap }] : []),
-      ...(bMop > 0 ? [{ code: '0-0-60', bags: bMop }] : []),
-    ],
-    after30DAT: halfUrea > 0 ? [{ code: '46-0-0', bags: halfUrea }] : [],
-    topdress60DBH: halfUrea > 0 ? [{ code: '46-0-0', bags: halfUrea }] : [],
-  };
-
-  schedule = ensureOrganic(schedule, area);
-  const cost = calcCost(schedule, prices);
-
-  return {
-    id: 'PLAN_DAP_MOP_UREA',
-    title: 'Fertilizer Plan',
-    label: 'Option (DAP + MOP + Urea)',
-    schedule,
-    cost,
-  };
-}
-
-/**
- * ✅ PLAN 3: 16-20-0 + MOP + Ammosul
- */
-function buildPlan_16200_MOP_AMMOSUL(
-  req: { N: number; P: number; K: number },
-  areaHa: number,
-  prices: AdminPricesDoc | null
-): LocalPlan {
-  const area = Number(areaHa || 1);
-  const targetN = req.N * area;
-  const targetP = req.P * area;
-  const targetK = req.K * area;
-
-  const bMop = round2(bagsFor(targetK, GRADE['0-0-60'].K));
-  const b16200 = round2(bagsFor(targetP, GRADE['16-20-0'].P));
-  const nFrom16200 = suppliedKg(b16200, GRADE['16-20-0'].N);
-
-  const remN = Math.max(0, targetN - nFrom16200);
-  const bAmmTotal = round2(remN <= 0 ? 0 : bagsFor(remN, GRADE['21-0-0'].N));
-  const halfAmm = round2(bAmmTotal / 2);
-
-  let schedule: LocalSchedule = {
-    organic: [],
-    basal: [
-      ...(b16200 > 0 ? [{ code: '16-20-0', bags: b16200 }] : []),
-      ...(bMop > 0 ? [{ code: '0-0-60', bags: bMop }] : []),
-    ],
-    after30DAT: halfAmm > 0 ? [{ code: '21-0-0', bags: halfAmm }] : [],
-    topdress60DBH: halfAmm > 0 ? [{ code: '21-0-0', bags: halfAmm }] : [],
-  };
-
-  schedule = ensureOrganic(schedule, area);
-  const cost = calcCost(schedule, prices);
-
-  return {
-    id: 'PLAN_16200_MOP_AMMOSUL',
-    title: 'Fertilizer Plan',
-    label: 'Option (16-20-0 + MOP + Ammosul)',
-    schedule,
-    cost,
-  };
-}
-
-function build3FrontendPlans(args: {
-  prices: AdminPricesDoc | null;
-  reqKgHa: { N: number; P: number; K: number };
-  areaHa: number;
-}): LocalPlan[] {
-  const p1 = buildPlan_Complete_Ammophos_Urea(args.reqKgHa, args.areaHa, args.prices);
-  const p2 = buildPlan_DAP_MOP_UREA(args.reqKgHa, args.areaHa, args.prices);
-  const p3 = buildPlan_16200_MOP_AMMOSUL(args.reqKgHa, args.areaHa, args.prices);
-
-  let plans = [p1, p2, p3].filter((p) => planHasRealFertilizer(p));
-
-  // ✅ If online with prices: sort by cost; if offline: keep stable order
-  const canSort = plans.some((p) => p?.cost?.total != null);
-  if (canSort) {
-    plans.sort((a, b) => {
-      const ta = a.cost?.total ?? Number.POSITIVE_INFINITY;
-      const tb = b.cost?.total ?? Number.POSITIVE_INFINITY;
-      return ta - tb;
-    });
-  }
-
-  const top3 = plans.slice(0, 3);
-  markCheapestAmongReal(top3);
-  return top3;
+  const c = getCropTargetKgPerHa(
+    args.crop,
+    args.variety,
+    args.soilClass,
+    args.season,
+    args.nClass,
+    args.pClass,
+    args.kClass,
+    args.targets[args.crop]
+  );
+  return { N: Number(c.Nkg ?? 0), P: Number(c.Pkg ?? 0), K: Number(c.Kkg ?? 0) };
 }
 
 // ✅ uniform table sizing
@@ -484,15 +121,12 @@ function PlanTableCard({
   const hasCost = !!p?.cost;
   const cur = (p?.cost?.currency || currency || 'PHP') as string;
 
-  const fixedSchedule = ensureOrganic(
-    {
-      organic: asArray(p?.schedule?.organic),
-      basal: asArray(p?.schedule?.basal),
-      after30DAT: asArray(p?.schedule?.after30DAT),
-      topdress60DBH: asArray(p?.schedule?.topdress60DBH),
-    },
-    1
-  );
+  const fixedSchedule = {
+    organic: asArray(p?.schedule?.organic),
+    basal: asArray(p?.schedule?.basal),
+    after30DAT: asArray(p?.schedule?.after30DAT),
+    topdress60DBH: asArray(p?.schedule?.topdress60DBH),
+  };
 
   const fertCodes = Array.from(
     new Set([
@@ -656,6 +290,10 @@ function PlanTableCard({
       </ScrollView>
 
       {fertCodes.length >= 3 ? <ScrollProgress progress01={progress01} /> : null}
+
+      {asArray(p.stock).length ? <StockSplitTable rows={p.stock} names={FERTILIZER_NAMES} /> : null}
+
+      <NutrientBalanceBars balance={p.balance} />
     </View>
   );
 }
@@ -666,10 +304,12 @@ export default function GuestRecommendationScreen() {
   const { addReading } = useData();
 
   // ✅ options from session (same pattern as stakeholder)
-  const variety: RiceVariety = session?.variety ?? 'hybrid';
+  const crop: Crop = session?.crop ?? 'rice';
+  const variety: CropVariety = session?.variety ?? (crop === 'corn' ? 'yellowHybrid' : 'hybrid');
   const soilClass: SoilClass = session?.soilClass ?? 'light';
   const season: Season = session?.season ?? 'wet';
   const areaHa = 1;
+  const onHand = session?.onHand;
 
   const nValue = Number(session?.n ?? 0);
   const pValue = Number(session?.p ?? 0);
@@ -695,22 +335,30 @@ export default function GuestRecommendationScreen() {
   const pClass = toLMH_SAFE(levelP);
   const kClass = toLMH_SAFE(levelK);
 
+  const { tablesUpdatedAt, targetTables } = useFertilizer();
   const neededKgHa = React.useMemo(() => {
-    return getRequirementKgHa({ variety, soilClass, season, nClass, pClass, kClass });
-  }, [variety, soilClass, season, nClass, pClass, kClass]);
+    return getRequirementKgHa({ crop, variety, soilClass, season, nClass, pClass, kClass, targets: targetTables });
+  }, [crop, variety, soilClass, season, nClass, pClass, kClass, targetTables]);
 
-  const [plansState, setPlansState] = React.useState<LocalPlan[]>([]);
+  const [plansState, setPlansState] = React.useState<DaPlan[]>([]);
   const [loadingPlans, setLoadingPlans] = React.useState(false);
   const [selectedPlanId, setSelectedPlanId] = React.useState<string | null>(null);
+  const [pricesDoc, setPricesDoc] = React.useState<AdminPricesDoc | null>(null);
+  const [engineResult, setEngineResult] = React.useState<RecommendResponse | null>(null);
   const [currency, setCurrency] = React.useState<string | null>('PHP');
+  const [planSource, setPlanSource] = React.useState<PlanSource | null>(null);
+  const [fallbackReason, setFallbackReason] = React.useState<string | undefined>();
+  const [planArgs, setPlanArgs] = React.useState<DaPlansArgs | null>(null);
 
   const isSavingRef = React.useRef(false);
   const lastSavedKeyRef = React.useRef<string>('');
   const lastLoadedSessionKeyRef = React.useRef<string>('');
   const inFlightRef = React.useRef(false);
 
+  const cropKey = crop === 'corn' ? `corn_${variety}` : variety === 'inbred' ? 'rice_inbred' : 'rice_hybrid';
+
   const persistGuestHistory = React.useCallback(
-    async (plansForHistory: LocalPlan[], selectedId?: string | null) => {
+    async (plansForHistory: DaPlan[], selectedId?: string | null) => {
       try {
         const date = new Date().toISOString();
 
@@ -722,6 +370,7 @@ export default function GuestRecommendationScreen() {
                   ? `${p?.cost?.currency || currency || 'PHP'} ${moneyFmt(Number(p?.cost?.total || 0))}`
                   : 'Price unavailable (offline)',
                 details: [],
+                balance: p?.balance,
               }))
             : [];
 
@@ -733,6 +382,7 @@ export default function GuestRecommendationScreen() {
                 isCheapest: !!p.isCheapest,
                 schedule: p.schedule,
                 cost: p.cost,
+                balance: p.balance,
               }))
             : [];
 
@@ -762,6 +412,11 @@ export default function GuestRecommendationScreen() {
           variety,
           soilClass,
           season,
+          thresholdVersion: getActiveThresholdVersion(),
+          raw: session?.raw,
+          calibration: session?.calibration,
+          aggregation: session?.aggregation,
+          simulated: session?.simulated,
         };
 
         addReading(reading);
@@ -770,11 +425,11 @@ export default function GuestRecommendationScreen() {
         console.warn('guest local save warn:', e);
       }
     },
-    [addReading, currency, displayName, kValue, levelK, levelN, levelP, nValue, neededKgHa, pValue, phValue, soilClass, season, variety]
+    [addReading, currency, displayName, kValue, levelK, levelN, levelP, nValue, neededKgHa, pValue, phValue, session?.raw, session?.calibration, session?.aggregation, session?.simulated, soilClass, season, variety]
   );
 
   const saveOncePerSession = React.useCallback(
-    async (plansSnapshot: LocalPlan[], selectedId?: string | null) => {
+    async (plansSnapshot: DaPlan[], selectedId?: string | null) => {
       const saveKey = `guest:${sessionTs || 'notime'}:${nValue}:${pValue}:${kValue}:${phValue}:${variety}:${soilClass}:${season}`;
       if (lastSavedKeyRef.current === saveKey) return;
       if (isSavingRef.current) return;
@@ -790,6 +445,28 @@ export default function GuestRecommendationScreen() {
     [kValue, nValue, pValue, phValue, persistGuestHistory, season, sessionTs, soilClass, variety]
   );
 
+  const applyPlansResult = React.useCallback((res: DaPlansResult) => {
+    setPlanSource(res.source);
+    setFallbackReason(res.fallbackReason);
+    setPlansState(res.plans);
+
+    const firstId = res.plans?.[0]?.id ? String(res.plans[0].id) : null;
+    setSelectedPlanId((prev) => {
+      if (prev && res.plans.some((p: any) => String(p.id) === String(prev))) return prev;
+      return firstId;
+    });
+    return firstId;
+  }, []);
+
+  // ✅ computed offline -> re-run on the server once back online and flag any difference
+  const recheck = useServerRecheck({
+    source: planSource,
+    fallbackReason,
+    args: planArgs,
+    plans: plansState,
+    onAgree: applyPlansResult,
+  });
+
   const fetchAndBuildPlans = React.useCallback(async () => {
     setLoadingPlans(true);
 
@@ -803,22 +480,23 @@ export default function GuestRecommendationScreen() {
       const cur = String((pd as any)?.currency || 'PHP');
       setCurrency(cur);
 
-      const localPlans = build3FrontendPlans({
+      setPricesDoc((pd as any) ?? null);
+
+      const args: DaPlansArgs = {
+        request: { crop: cropKey, variety, soilClass, season, nClass, pClass, kClass, areaHa },
         prices: pd as any,
         reqKgHa: neededKgHa,
         areaHa,
-      });
+        onHand,
+        nSplit: getNSplit(crop, variety, season),
+      };
+      const res = await getDaPlans(args);
+      setPlanArgs(args);
 
-      setPlansState(localPlans);
+      const firstId = applyPlansResult(res);
 
-      const firstId = localPlans?.[0]?.id ? String(localPlans[0].id) : null;
-      setSelectedPlanId((prev) => {
-        if (prev && localPlans.some((p: any) => String(p.id) === String(prev))) return prev;
-        return firstId;
-      });
-
-      await saveOncePerSession(localPlans, firstId);
-      return localPlans;
+      await saveOncePerSession(res.plans, firstId);
+      return res.plans;
     } catch (e: any) {
       console.error('guest fetch/build plans error:', e?.message || e);
       setPlansState([]);
@@ -826,7 +504,7 @@ export default function GuestRecommendationScreen() {
     } finally {
       setLoadingPlans(false);
     }
-  }, [areaHa, neededKgHa, saveOncePerSession]);
+  }, [cropKey, crop, variety, soilClass, season, nClass, pClass, kClass, areaHa, neededKgHa, onHand, saveOncePerSession, applyPlansResult]);
 
   useFocusEffect(
     React.useCallback(() => {
@@ -834,7 +512,7 @@ export default function GuestRecommendationScreen() {
         if (sessionInvalid) return;
         if (inFlightRef.current) return;
 
-        const sessionKey = `guest:${sessionTs}:${nValue}:${pValue}:${kValue}:${phValue}:${nClass}${pClass}${kClass}:${variety}:${soilClass}:${season}`;
+        const sessionKey = `guest:${sessionTs}:${nValue}:${pValue}:${kValue}:${phValue}:${nClass}${pClass}${kClass}:${crop}:${variety}:${soilClass}:${season}:${tablesUpdatedAt}`;
         if (lastLoadedSessionKeyRef.current === sessionKey) return;
 
         inFlightRef.current = true;
@@ -848,7 +526,7 @@ export default function GuestRecommendationScreen() {
       })();
 
       return () => {};
-    }, [fetchAndBuildPlans, sessionInvalid, sessionTs, nValue, pValue, kValue, phValue, nClass, pClass, kClass, variety, soilClass, season])
+    }, [fetchAndBuildPlans, sessionInvalid, sessionTs, nValue, pValue, kValue, phValue, nClass, pClass, kClass, crop, variety, soilClass, season, tablesUpdatedAt])
   );
 
   const plans = plansState;
@@ -859,6 +537,39 @@ export default function GuestRecommendationScreen() {
     return plans.find((p: any) => String(p.id) === String(selectedPlanId)) || plans[0];
   }, [plans, selectedPlanId]);
 
+  const planTrace = React.useMemo(
+    () =>
+      traceDaPlan({
+        plan: (selectedPlan as DaPlan | null) ?? null,
+        ppm: { N: nValue, P: pValue, K: kValue },
+        ratings: { N: nClass, P: pClass, K: kClass },
+        reqKgHa: neededKgHa,
+        targetSource: `${crop === 'corn' ? 'Corn' : 'Rice'} ${variety} / ${soilClass} / ${season} table`,
+        areaHa,
+        prices: pricesDoc,
+      }),
+    [selectedPlan, nValue, pValue, kValue, nClass, pClass, kClass, neededKgHa, crop, variety, soilClass, season, areaHa, pricesDoc]
+  );
+
+  // ✅ Bisaya / Tagalog / English explanation of the selected plan
+  const { lang, setLang } = useNarrativeLang();
+  const narratives = React.useMemo(
+    () =>
+      daNarratives({
+        ratings: { N: nClass, P: pClass, K: kClass },
+        ppm: { N: nValue, P: pValue, K: kValue },
+        reqKgHa: neededKgHa,
+        areaHa,
+        crop,
+        variety,
+        soilClass,
+        season,
+        plans,
+        selectedId: selectedPlanId,
+      }),
+    [nClass, pClass, kClass, nValue, pValue, kValue, neededKgHa, areaHa, crop, variety, soilClass, season, plans, selectedPlanId]
+  );
+
   const [pdfBusy, setPdfBusy] = React.useState(false);
 
   const handleSavePDF = React.useCallback(async () => {
@@ -876,15 +587,12 @@ export default function GuestRecommendationScreen() {
     const plan = selectedPlan as any;
     const cur = plan?.cost?.currency || currency || 'PHP';
 
-    const fixedSchedule = ensureOrganic(
-      {
-        organic: asArray(plan?.schedule?.organic),
-        basal: asArray(plan?.schedule?.basal),
-        after30DAT: asArray(plan?.schedule?.after30DAT),
-        topdress60DBH: asArray(plan?.schedule?.topdress60DBH),
-      },
-      1
-    );
+    const fixedSchedule = {
+      organic: asArray(plan?.schedule?.organic),
+      basal: asArray(plan?.schedule?.basal),
+      after30DAT: asArray(plan?.schedule?.after30DAT),
+      topdress60DBH: asArray(plan?.schedule?.topdress60DBH),
+    };
 
     const fertCodes = Array.from(
       new Set([
@@ -939,6 +647,20 @@ export default function GuestRecommendationScreen() {
 
     const hasCost = !!plan?.cost;
 
+    // ✅ "More options" engine plan, when it was opened for this reading
+    const engine = engineResult ? summarizeRecommendation(engineResult) : null;
+    const engineSection = engine?.plan
+      ? `<h3>⚙️ More Options Plan</h3>
+          <div class="box">
+            <p><b>${engine.plan.title}:</b> ${engine.currency} ${moneyFmt(engine.plan.total)}</p>
+            <p><b>Targets (kg/ha):</b> N ${engine.targetsPerHa.N} • P ${engine.targetsPerHa.P} • K ${engine.targetsPerHa.K} (${
+              engine.targetMode === 'yield' ? `${engine.targetYieldTha} t/ha yield goal` : 'DA table'
+            })</p>
+            ${engine.plan.lines.map((l) => `<p>• ${l}</p>`).join('')}
+            ${engine.notes.map((n) => `<p>${n}</p>`).join('')}
+          </div>`
+      : '';
+
     const html = `
       <html>
         <head>
@@ -991,6 +713,9 @@ export default function GuestRecommendationScreen() {
           </table>
 
           <p class="muted">Note: If you generated this PDF offline, fertilizer prices may be unavailable.</p>
+
+          ${engineSection}
+
           <div class="footer">FertiSense • ${today.getFullYear()}</div>
         </body>
       </html>
@@ -1030,6 +755,7 @@ export default function GuestRecommendationScreen() {
     soilClass,
     season,
     plans,
+    engineResult,
   ]);
 
   if (sessionInvalid) {
@@ -1079,6 +805,13 @@ export default function GuestRecommendationScreen() {
       <View style={styles.divider} />
       <Text style={styles.sectionTitle}>Fertilization Recommendation Options</Text>
 
+      <PlanSourceNotice
+        source={loadingPlans ? null : planSource}
+        fallbackReason={fallbackReason}
+        differences={recheck.differences}
+        onUseServer={() => recheck.serverResult && applyPlansResult(recheck.serverResult)}
+      />
+
       {loadingPlans && (
         <Text style={{ textAlign: 'center', color: '#888', marginVertical: 10 }}>Loading Plans...</Text>
       )}
@@ -1098,6 +831,24 @@ export default function GuestRecommendationScreen() {
         />
       ))}
 
+      <NarrativeCard narratives={narratives} lang={lang} onChangeLang={setLang} />
+
+      <WhyThisPlan steps={planTrace} />
+
+      <PriceSensitivity plans={plans} prices={pricesDoc} />
+
+      <EngineOptions
+        reading={{ n: nValue, p: pValue, k: kValue, ph: session?.ph }}
+        areaHa={areaHa}
+        crop={crop}
+        variety={variety}
+        soilClass={soilClass}
+        season={season}
+        onHand={onHand}
+        prices={pricesDoc}
+        onResult={setEngineResult}
+      />
+
       <View style={styles.downloadToggle}>
         <Text style={styles.downloadLabel}>Save a copy (selected plan)</Text>
 
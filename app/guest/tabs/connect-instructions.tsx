@@ -15,6 +15,7 @@ import {
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { autoConnectToESP32, readNpkFromESP32, ESP_SSID } from '../../../src/esp32';
+import SensorModeLink from '../../../src/SensorModeLink';
 
 export default function ConnectInstructionsScreen() {
   const router = useRouter();
@@ -107,6 +108,8 @@ export default function ConnectInstructionsScreen() {
 
           {statusMessage !== '' && <Text style={styles.statusText}>{statusMessage}</Text>}
         </View>
+
+        <SensorModeLink />
       </ScrollView>
     </SafeAreaView>
   );
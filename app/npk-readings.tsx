@@ -2,17 +2,16 @@ import React, { useCallback, useState } from 'react';
 import { Image, StyleSheet, Text, TouchableOpacity, View, ActivityIndicator, Alert } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
-import { autoConnectToESP32, readNpkFromESP32 } from '../src/esp32';
+import { autoConnectToESP32, parseSensorPayload, readNpkFromESP32, type SensorReading } from '../src/esp32';
 import { api } from '../src/api';
 
-type Npk = { ok: boolean; ec: number; n: number; p: number; k: number; ph: number; ts?: number; error?: string };
 type Point = { n: number; p: number; k: number; ph?: number; ts?: number };
 
 export default function NPKReadingsScreen() {
   const router = useRouter();
   const { farmerId } = useLocalSearchParams<{ farmerId?: string }>();
   const [busy, setBusy] = useState(false);
-  const [data, setData] = useState<Npk | null>(null);
+  const [data, setData] = useState<SensorReading | null>(null);
   const [points, setPoints] = useState<Point[]>([]);
 
   const load = useCallback(async () => {
@@ -24,20 +23,14 @@ export default function NPKReadingsScreen() {
       // 2️⃣ Read live NPK data
       const res: any = await readNpkFromESP32();
 
-      // 3️⃣ Adapt response (JSON or text)
-      if (typeof res === 'string') {
-        try {
-          const json = JSON.parse(res);
-          setData(json);
-        } catch {
-          Alert.alert('Response Error', 'Hindi valid JSON ang sagot ng sensor.');
-        }
-      } else {
-        setData(res);
-      }
+      // 3️⃣ Validate response (JSON or text)
+      const { reading, error } = parseSensorPayload(res);
+      setData(reading);
 
-      if (!res.ok) {
-        Alert.alert('Basahin ang sensor', res.error || 'Walang sagot mula sa sensor.');
+      if (error?.kind === 'malformed') {
+        Alert.alert('Response Error', 'Hindi valid JSON ang sagot ng sensor.');
+      } else if (error) {
+        Alert.alert('Basahin ang sensor', error.message || 'Walang sagot mula sa sensor.');
       }
     } catch (err: any) {
       Alert.alert('Hindi makakonekta', err?.message || 'I-connect ang Wi-Fi sa ESP32-NPK at subukan muli.');
@@ -52,14 +45,15 @@ export default function NPKReadingsScreen() {
     }, [load])
   );
 
-  const n = data?.ok ? data.n : undefined;
-  const p = data?.ok ? data.p : undefined;
-  const k = data?.ok ? data.k : undefined;
-  const ph = data?.ok ? data.ph?.toFixed(1) : '--';
+  const n = data?.n;
+  const p = data?.p;
+  const k = data?.k;
+  const ph = data?.ph !== undefined ? data.ph.toFixed(1) : '--';
+  const moisture = data?.moisture;
 
   async function onMainButton() {
     if (busy) return;
-    if (!data?.ok) {
+    if (!data) {
       Alert.alert('Walang datos', 'Pindutin muna para basahin ang sensor.');
       return;
     }
@@ -120,9 +114,9 @@ export default function NPKReadingsScreen() {
 
       <Text style={styles.moistureLabel}>Soil Moisture</Text>
       <View style={styles.moistureBarBackground}>
-        <View style={styles.moistureBarFill} />
+        <View style={[styles.moistureBarFill, { width: `${moisture ?? 0}%` }]} />
       </View>
-      <Text style={styles.moisturePercent}>42%</Text>
+      <Text style={styles.moisturePercent}>{moisture !== undefined ? `${Math.round(moisture)}%` : '--'}</Text>
       <Text style={{ marginTop: -40, marginBottom: 50, color: '#333' }}>pH: {ph}</Text>
 
       <TouchableOpacity style={styles.recommendButton} onPress={onMainButton} disabled={busy}>
@@ -150,7 +144,7 @@ const styles = StyleSheet.create({
   npkUnit: { fontSize: 13, color: '#fff' },
   moistureLabel: { fontSize: 19, alignSelf: 'flex-start', fontWeight: 'bold', marginBottom: 9, color: '#333' },
   moistureBarBackground: { height: 10, width: '100%', backgroundColor: '#ccc', borderRadius: 5, overflow: 'hidden', marginBottom: 12 },
-  moistureBarFill: { height: '100%', width: '42%', backgroundColor: '#2e7d32' },
+  moistureBarFill: { height: '100%', backgroundColor: '#2e7d32' },
   moisturePercent: { alignSelf: 'flex-start', fontSize: 30, fontWeight: 'bold', color: '#2e7d32', marginBottom: 60 },
   recommendButton: { backgroundColor: '#2e7d32', paddingVertical: 14, paddingHorizontal: 40, borderRadius: 30 },
   recommendText: { color: '#fff', fontWeight: 'bold', fontSize: 16 },
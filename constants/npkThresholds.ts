@@ -1,51 +1,173 @@
 // constants/npkThresholds.ts
+// ✅ Single source of truth for N/P/K Low/Medium/High classification.
+// Every screen and src/fertilizerLogic.ts classify through here, and saved
+// readings store `thresholdVersion` so old readings keep the rating they were given.
 
 export type Nutrient = 'N' | 'P' | 'K';
 export type NutrientLevelCode = 'L' | 'M' | 'H';
+export type NutrientLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'N/A';
 
 export interface ThresholdRange {
   code: NutrientLevelCode;     // 'L' | 'M' | 'H'
   label: string;               // 'Low' | 'Medium' | 'High'
   min: number | null;          // inclusive lower bound
-  max: number | null;          // inclusive upper bound, null = no upper limit
-  unit: string;                // '%OM', 'ppm', etc.
-}
-
-export const NPK_THRESHOLDS: Record<Nutrient, ThresholdRange[]> = {
-  /* NITROGEN – based on % Organic Matter (OM) */
-  N: [
-    { code: 'L', label: 'Low',    min: 0,   max: 1.7, unit: '%OM' },   // 0–1.7
-    { code: 'M', label: 'Medium', min: 1.7, max: 3.0, unit: '%OM' },   // >1.7–3.0
-    { code: 'H', label: 'High',   min: 3.0, max: null, unit: '%OM' },  // >3.0
-  ],
-
-  /* PHOSPHORUS – fill these once you have the DA/sensor table */
-  P: [
-    // { code: 'L', label: 'Low',    min: 0,  max: 15,  unit: 'ppm' },
-    // { code: 'M', label: 'Medium', min: 15, max: 30,  unit: 'ppm' },
-    // { code: 'H', label: 'High',   min: 30, max: null, unit: 'ppm' },
-  ],
-
-  /* POTASSIUM – sensor values in ppm */
-  K: [
-    { code: 'L', label: 'Low',    min: 0,   max: 117, unit: 'ppm' },   // 0–117
-    { code: 'M', label: 'Medium', min: 117, max: 235, unit: 'ppm' },   // >117–235
-    { code: 'H', label: 'High',   min: 235, max: null, unit: 'ppm' },  // >235
-  ],
+  max: number | null;          // exclusive for L, inclusive for M; null = no upper limit
+  unit: string;                // 'ppm'
+}
+
+/** value < L -> Low, value <= M -> Medium, else High (sensor ppm, rounded) */
+export type ThresholdCut = { L: number; M: number };
+
+export interface ThresholdSet {
+  version: string;
+  label: string;
+  unit: 'ppm';
+  N: ThresholdCut;
+  P: ThresholdCut;
+  K: ThresholdCut;
+}
+
+/**
+ * Known versions. Never edit a published version in place — add a new one
+ * (built-in: point CURRENT_THRESHOLD_VERSION at it; admin: publish a new `admin-…` version),
+ * so saved readings stay reproducible.
+ */
+export const THRESHOLD_VERSIONS: Record<string, ThresholdSet> = {
+  // engine defaults before the screens and engine were unified
+  'engine-v0': {
+    version: 'engine-v0',
+    label: 'Engine defaults (pre-unification)',
+    unit: 'ppm',
+    N: { L: 110, M: 145 },
+    P: { L: 280, M: 345 },
+    K: { L: 150, M: 350 },
+  },
+  // FINAL Table 4.5 (what the recommendation/sensor screens showed)
+  'table4.5-v1': {
+    version: 'table4.5-v1',
+    label: 'Table 4.5 (ppm)',
+    unit: 'ppm',
+    N: { L: 110, M: 145 },
+    P: { L: 315, M: 345 },
+    K: { L: 150, M: 380 },
+  },
 };
 
+/** Built-in default; admin-published cut-offs (see registerThresholdSet) take over at runtime */
+export const CURRENT_THRESHOLD_VERSION = 'table4.5-v1';
+
+const BUILT_IN_VERSIONS = new Set(Object.keys(THRESHOLD_VERSIONS));
+
+let activeVersion = CURRENT_THRESHOLD_VERSION;
+
+/** Version new readings are classified with — save this on the reading as `thresholdVersion`. */
+export function getActiveThresholdVersion(): string {
+  return activeVersion;
+}
+
+/** Readings saved before versions were stamped on them were classified with the original Table 4.5 cuts */
+export const LEGACY_THRESHOLD_VERSION = 'table4.5-v1';
+
+/** Version to classify a saved reading with: the one stamped on it, else the legacy set (never the active one) */
+export function savedReadingVersion(version?: string | null): string {
+  return version || LEGACY_THRESHOLD_VERSION;
+}
+
+/** Unknown or missing versions fall back to the active set. */
+export function getThresholdSet(version?: string | null): ThresholdSet {
+  return (version && THRESHOLD_VERSIONS[version]) || THRESHOLD_VERSIONS[activeVersion];
+}
+
+/** Cut-offs must be positive with Low below Medium. Returns messages; empty = valid. */
+export function validateThresholdCuts(cuts: Record<Nutrient, ThresholdCut>): string[] {
+  const errors: string[] = [];
+  (['N', 'P', 'K'] as Nutrient[]).forEach((nu) => {
+    const L = Number(cuts?.[nu]?.L);
+    const M = Number(cuts?.[nu]?.M);
+    if (!Number.isFinite(L) || !Number.isFinite(M) || L <= 0 || M <= 0) {
+      errors.push(`${nu}: cut-offs must be positive numbers`);
+    } else if (L >= M) {
+      errors.push(`${nu}: Low cut-off (${L}) must be below Medium cut-off (${M})`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Adds (or refreshes) a set published from the admin screen / backend and, by default, makes it active.
+ * Re-registering an admin version takes the published cuts; built-in versions are never overwritten.
+ * Invalid sets are rejected (false).
+ */
+export function registerThresholdSet(set: ThresholdSet, activate = true): boolean {
+  if (!set?.version || validateThresholdCuts(set).length) return false;
+  if (!BUILT_IN_VERSIONS.has(set.version)) {
+    THRESHOLD_VERSIONS[set.version] = {
+      version: set.version,
+      label: set.label || set.version,
+      unit: 'ppm',
+      N: { L: Number(set.N.L), M: Number(set.N.M) },
+      P: { L: Number(set.P.L), M: Number(set.P.M) },
+      K: { L: Number(set.K.L), M: Number(set.K.M) },
+    };
+  }
+  if (activate) activeVersion = set.version;
+  return true;
+}
+
+/** Every admin-published version known on this phone (persisted and synced so old readings keep their rating) */
+export function publishedThresholdSets(): ThresholdSet[] {
+  return Object.values(THRESHOLD_VERSIONS).filter((t) => !BUILT_IN_VERSIONS.has(t.version));
+}
+
+/** Cuts only (N/P/K), in the `{ L, M }` shape the screens and engine use */
+export function getThresholds(version?: string | null): Record<Nutrient, ThresholdCut> {
+  const t = getThresholdSet(version);
+  return { N: t.N, P: t.P, K: t.K };
+}
+
+/** L/M/H code, or null when the value is missing / not positive */
+export function classifyCode(nutrient: Nutrient, value: any, version?: string | null): NutrientLevelCode | null {
+  const v = Number(value);
+  if (!Number.isFinite(v) || v <= 0) return null;
+  const ppm = Math.round(v);
+  const t = getThresholdSet(version)[nutrient];
+  if (ppm < t.L) return 'L';
+  if (ppm <= t.M) return 'M';
+  return 'H';
+}
+
+const LEVEL_WORD: Record<NutrientLevelCode, Exclude<NutrientLevel, 'N/A'>> = {
+  L: 'LOW',
+  M: 'MEDIUM',
+  H: 'HIGH',
+};
+
+/** 'LOW' | 'MEDIUM' | 'HIGH' | 'N/A' */
+export function classifyLevel(nutrient: Nutrient, value: any, version?: string | null): NutrientLevel {
+  const code = classifyCode(nutrient, value, version);
+  return code ? LEVEL_WORD[code] : 'N/A';
+}
+
+/** Ranges for display (legend tables), derived from a version */
+export function thresholdRanges(version?: string | null): Record<Nutrient, ThresholdRange[]> {
+  const t = getThresholdSet(version);
+  const ranges = (c: ThresholdCut): ThresholdRange[] => [
+    { code: 'L', label: 'Low', min: 0, max: c.L, unit: t.unit },
+    { code: 'M', label: 'Medium', min: c.L, max: c.M, unit: t.unit },
+    { code: 'H', label: 'High', min: c.M, max: null, unit: t.unit },
+  ];
+  return { N: ranges(t.N), P: ranges(t.P), K: ranges(t.K) };
+}
+
+export const NPK_THRESHOLDS: Record<Nutrient, ThresholdRange[]> = thresholdRanges(CURRENT_THRESHOLD_VERSION);
+
 /** Classify a nutrient value into its L/M/H range */
 export function classifyNutrient(
   nutrient: Nutrient,
-  value: number
+  value: number,
+  version?: string | null
 ): ThresholdRange | null {
-  const ranges = NPK_THRESHOLDS[nutrient];
-  if (!ranges || ranges.length === 0) return null;
-
-  for (const r of ranges) {
-    const aboveMin = r.min === null ? true : value >= r.min;
-    const belowMax = r.max === null ? true : value <= r.max;
-    if (aboveMin && belowMax) return r;
-  }
-  return null;
+  const code = classifyCode(nutrient, value, version);
+  if (!code) return null;
+  return thresholdRanges(version)[nutrient].find((r) => r.code === code) ?? null;
 }
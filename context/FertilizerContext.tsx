@@ -6,11 +6,19 @@ import React, {
   useState,
   useCallback,
 } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   getPublicPrices,
   getPriceSettings,
+  getPublicAgronomyTables,
+  getAgronomySettings,
   AdminPricesDoc,
+  AgronomyTablesDoc,
+  ThresholdSetDoc,
 } from '../src/services';
+import { applyTargetTables, getTargetTables, type CropId, type TargetGrid } from '../src/fertilizerLogic';
+import { publishedThresholdSets, registerThresholdSet } from '../constants/npkThresholds';
+import { syncCalibrationProfiles } from '../src/calibrationStore';
 import { useAuth } from './AuthContext';
 
 export type AdminPriceItem = {
@@ -38,6 +46,13 @@ type FertilizerContextType = {
   loading: boolean;
   error: string | null;
   refetchPrices: () => Promise<void>;
+  /** updatedAt of the admin target/threshold tables in use ('' = built-in tables) */
+  tablesUpdatedAt: string;
+  /** target tables in use per crop — depend on this to recompute when the admin tables change */
+  targetTables: Record<CropId, TargetGrid>;
+  /** why admin tables were rejected or could not be fetched (null = fine) */
+  tablesError: string | null;
+  refetchTables: () => Promise<void>;
   result: FertilizerResult | null;
   setResult: (r: FertilizerResult | null) => void;
 };
@@ -91,6 +106,40 @@ function normalize(
   };
 }
 
+const AGRONOMY_CACHE_KEY = 'fertisense:agronomyTables';
+// every threshold version ever published, so readings keep their rating after a restart
+const THRESHOLDS_CACHE_KEY = 'fertisense:thresholdVersions';
+
+function registerDoc(t: ThresholdSetDoc, activate: boolean): boolean {
+  return registerThresholdSet({ version: t.version, label: t.label || t.version, unit: 'ppm', N: t.N, P: t.P, K: t.K }, activate);
+}
+
+/**
+ * Push admin tables into the engine's crop registry and the threshold registry.
+ * Targets and thresholds apply independently; invalid ones are rejected there and
+ * the built-in tables stay in use. Returns the rejection messages.
+ */
+function applyAgronomy(doc: AgronomyTablesDoc): string[] {
+  const errors = doc.targets ? applyTargetTables(doc.targets as Record<string, TargetGrid>) : [];
+
+  (doc.thresholdHistory || []).forEach((t) => {
+    if (t?.version && !registerDoc(t, false)) errors.push(`threshold set ${t.version} rejected`);
+  });
+  const t = doc.thresholds;
+  if (t?.version && !registerDoc(t, true)) errors.push(`threshold set ${t.version} rejected`);
+  return errors;
+}
+
+async function loadCachedThresholds() {
+  try {
+    const raw = await AsyncStorage.getItem(THRESHOLDS_CACHE_KEY);
+    const list: ThresholdSetDoc[] = raw ? JSON.parse(raw) : [];
+    if (Array.isArray(list)) list.forEach((t) => t?.version && registerDoc(t, false));
+  } catch {
+    // nothing cached yet
+  }
+}
+
 export const FertilizerProvider = ({
   children,
 }: {
@@ -104,6 +153,9 @@ export const FertilizerProvider = ({
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<FertilizerResult | null>(null);
+  const [tablesUpdatedAt, setTablesUpdatedAt] = useState<string>('');
+  const [targetTables, setTargetTables] = useState<Record<CropId, TargetGrid>>(getTargetTables);
+  const [tablesError, setTablesError] = useState<string | null>(null);
 
   const fetchPrices = useCallback(async () => {
     setLoading(true);
@@ -139,6 +191,52 @@ export const FertilizerProvider = ({
     fetchPrices();
   }, [fetchPrices]);
 
+  // Targets/thresholds: backend first, last good copy from AsyncStorage when offline
+  const fetchTables = useCallback(async () => {
+    await loadCachedThresholds();
+
+    let doc: AgronomyTablesDoc | null = null;
+    let fetchError: string | null = null;
+    try {
+      doc =
+        user?.role === 'admin'
+          ? await getAgronomySettings(token)
+          : await getPublicAgronomyTables();
+      if (doc?.targets || doc?.thresholds) {
+        await AsyncStorage.setItem(AGRONOMY_CACHE_KEY, JSON.stringify(doc));
+      }
+    } catch (err: any) {
+      fetchError = `Could not load nutrient tables (${err?.message || 'network error'}); using the last saved copy.`;
+      try {
+        const raw = await AsyncStorage.getItem(AGRONOMY_CACHE_KEY);
+        doc = raw ? (JSON.parse(raw) as AgronomyTablesDoc) : null;
+      } catch {
+        doc = null;
+      }
+    }
+
+    if (!doc?.targets && !doc?.thresholds) {
+      setTablesError(fetchError);
+      return;
+    }
+    const errors = applyAgronomy(doc);
+    setTablesError(
+      errors.length ? `Rejected: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? '…' : ''}` : fetchError
+    );
+    await AsyncStorage.setItem(THRESHOLDS_CACHE_KEY, JSON.stringify(publishedThresholdSets())).catch(() => {});
+    setTargetTables(getTargetTables());
+    setTablesUpdatedAt(doc.updatedAt || new Date().toISOString());
+  }, [user?.role, token]);
+
+  useEffect(() => {
+    fetchTables();
+  }, [fetchTables]);
+
+  // probe calibration profiles come with the admin tables: pulled while online, before a kit's Wi-Fi is joined
+  useEffect(() => {
+    syncCalibrationProfiles(user?.role === 'admin' ? token : null).catch(() => {});
+  }, [user?.role, token]);
+
   return (
     <FertilizerContext.Provider
       value={{
@@ -148,6 +246,10 @@ export const FertilizerProvider = ({
         loading,
         error,
         refetchPrices: fetchPrices,
+        tablesUpdatedAt,
+        targetTables,
+        tablesError,
+        refetchTables: fetchTables,
         result,
         setResult,
       }}
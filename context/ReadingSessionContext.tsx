@@ -1,15 +1,23 @@
 // context/ReadingSessionContext.tsx
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { CalibrationStamp, RawValues } from '../src/calibration';
+import type { AggregationStamp } from '../src/spotAggregation';
 
 export type RiceVariety = 'hybrid' | 'inbred';
+export type CornType = 'yellowHybrid' | 'yellowOpv' | 'whiteHybrid' | 'whiteOpv';
+export type CropVariety = RiceVariety | CornType;
+export type Crop = 'rice' | 'corn';
 export type SoilClass = 'light' | 'medHeavy';
 export type Season = 'wet' | 'dry';
+export type OnHandStock = { code: string; bags: number };
 
 type FarmOptions = {
-  variety?: RiceVariety;
+  crop?: Crop;
+  variety?: CropVariety;
   soilClass?: SoilClass;
   season?: Season;
+  onHand?: OnHandStock[];
 };
 
 type ReadingResult = {
@@ -20,12 +28,39 @@ type ReadingResult = {
   ts: number;
   farmerId?: string;
   farmerName?: string;
-
-  variety?: RiceVariety;
+  // ✅ probe values before calibration + which profile corrected n/p/k/ph
+  raw?: RawValues;
+  calibration?: CalibrationStamp;
+  // ✅ how the spots were combined + their CV (confidence)
+  aggregation?: AggregationStamp;
+  // ✅ came from the built-in simulator (Developer settings), not a real probe
+  simulated?: boolean;
+
+  crop?: Crop;
+  variety?: CropVariety;
   soilClass?: SoilClass;
   season?: Season;
+  onHand?: OnHandStock[];
 } | null;
 
+/** One paddy of a multi-parcel session: its own reading, options and size */
+export type Parcel = {
+  id: string;
+  name: string;
+  areaHa: number;
+  n: number;
+  p: number;
+  k: number;
+  ph?: number;
+  ts: number;
+  thresholdVersion?: string;
+
+  crop?: Crop;
+  variety?: CropVariety;
+  soilClass?: SoilClass;
+  season?: Season;
+};
+
 type SetFromParamsInput = {
   n?: string | number;
   p?: string | number;
@@ -34,10 +69,16 @@ type SetFromParamsInput = {
   farmerId?: string;
   farmerName?: string;
   ts?: number;
+  raw?: RawValues;
+  calibration?: CalibrationStamp;
+  aggregation?: AggregationStamp;
+  simulated?: boolean;
 
-  variety?: RiceVariety;
+  crop?: Crop;
+  variety?: CropVariety;
   soilClass?: SoilClass;
   season?: Season;
+  onHand?: OnHandStock[];
 };
 
 type SetFarmOptionsInput = FarmOptions & {
@@ -52,6 +93,12 @@ type Ctx = {
   setFarmOptions: (opts: SetFarmOptionsInput) => Promise<void>;
   clear: () => Promise<void>;
   loading: boolean;
+
+  // ✅ multi-parcel: the current reading can be kept as one of several paddies
+  parcels: Parcel[];
+  addParcelFromResult: (opts: { name: string; areaHa: number; thresholdVersion?: string }) => Promise<void>;
+  removeParcel: (id: string) => Promise<void>;
+  clearParcels: () => Promise<void>;
 };
 
 const ReadingSessionCtx = createContext<Ctx>({
@@ -61,9 +108,14 @@ const ReadingSessionCtx = createContext<Ctx>({
   setFarmOptions: async () => {},
   clear: async () => {},
   loading: true,
+  parcels: [],
+  addParcelFromResult: async () => {},
+  removeParcel: async () => {},
+  clearParcels: async () => {},
 });
 
 const KEY = 'readingSession:last';
+const PARCELS_KEY = 'readingSession:parcels';
 
 const toNum = (x: any): number | undefined => {
   if (x === '' || x == null) return undefined;
@@ -71,11 +123,27 @@ const toNum = (x: any): number | undefined => {
   return Number.isFinite(n) ? n : undefined;
 };
 
-const normalizeVariety = (v: any): RiceVariety | undefined => {
+const CORN_TYPES: CornType[] = ['yellowHybrid', 'yellowOpv', 'whiteHybrid', 'whiteOpv'];
+
+const normalizeOnHand = (v: any): OnHandStock[] | undefined => {
+  if (!Array.isArray(v)) return undefined;
+  return v
+    .map((x) => ({ code: String(x?.code ?? '').trim(), bags: Number(x?.bags ?? 0) }))
+    .filter((x) => x.code && Number.isFinite(x.bags) && x.bags > 0);
+};
+
+const normalizeCrop = (v: any): Crop | undefined => {
+  const s = String(v || '').toLowerCase();
+  if (s === 'rice') return 'rice';
+  if (s === 'corn' || s === 'mais') return 'corn';
+  return undefined;
+};
+
+const normalizeVariety = (v: any): CropVariety | undefined => {
   const s = String(v || '').toLowerCase();
   if (s === 'hybrid') return 'hybrid';
   if (s === 'inbred') return 'inbred';
-  return undefined;
+  return CORN_TYPES.find((t) => t.toLowerCase() === s);
 };
 
 const normalizeSoil = (v: any): SoilClass | undefined => {
@@ -92,9 +160,32 @@ const normalizeSeason = (v: any): Season | undefined => {
   return undefined;
 };
 
+const normalizeParcels = (v: any): Parcel[] => {
+  if (!Array.isArray(v)) return [];
+  return v
+    .filter((x) => x && typeof x === 'object' && x.id)
+    .map((x) => ({
+      id: String(x.id),
+      name: String(x.name || 'Parcel'),
+      areaHa: toNum(x.areaHa) ?? 1,
+      n: toNum(x.n) ?? 0,
+      p: toNum(x.p) ?? 0,
+      k: toNum(x.k) ?? 0,
+      ph: toNum(x.ph),
+      ts: toNum(x.ts) ?? Date.now(),
+      thresholdVersion: typeof x.thresholdVersion === 'string' ? x.thresholdVersion : undefined,
+      crop: normalizeCrop(x.crop),
+      variety: normalizeVariety(x.variety),
+      soilClass: normalizeSoil(x.soilClass),
+      season: normalizeSeason(x.season),
+    }))
+    .filter((x) => x.areaHa > 0);
+};
+
 export const ReadingSessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [result, setRes] = useState<ReadingResult>(null);
   const [loading, setLoading] = useState(true);
+  const [parcels, setParcels] = useState<Parcel[]>([]);
 
   const persist = useCallback(async (r: ReadingResult) => {
     try {
@@ -105,6 +196,21 @@ export const ReadingSessionProvider: React.FC<{ children: React.ReactNode }> = (
     }
   }, []);
 
+  const persistParcels = useCallback(async (list: Parcel[]) => {
+    try {
+      if (list.length) await AsyncStorage.setItem(PARCELS_KEY, JSON.stringify(list));
+      else await AsyncStorage.removeItem(PARCELS_KEY);
+    } catch (e) {
+      console.warn('[ReadingSession] persist parcels error:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    AsyncStorage.getItem(PARCELS_KEY)
+      .then((raw) => setParcels(raw ? normalizeParcels(JSON.parse(raw)) : []))
+      .catch((e) => console.warn('[ReadingSession] load parcels error:', e));
+  }, []);
+
   useEffect(() => {
     (async () => {
       try {
@@ -136,9 +242,15 @@ export const ReadingSessionProvider: React.FC<{ children: React.ReactNode }> = (
           ts,
           farmerId: typeof parsed.farmerId === 'string' ? parsed.farmerId : undefined,
           farmerName: typeof parsed.farmerName === 'string' ? parsed.farmerName : undefined,
+          raw: parsed.raw && typeof parsed.raw === 'object' ? parsed.raw : undefined,
+          calibration: parsed.calibration?.deviceKey ? parsed.calibration : undefined,
+          aggregation: parsed.aggregation?.method ? parsed.aggregation : undefined,
+          simulated: parsed.simulated === true ? true : undefined,
+          crop: normalizeCrop(parsed.crop),
           variety: normalizeVariety(parsed.variety),
           soilClass: normalizeSoil(parsed.soilClass),
           season: normalizeSeason(parsed.season),
+          onHand: normalizeOnHand(parsed.onHand),
         });
       } catch (e) {
         console.warn('[ReadingSession] load error:', e);
@@ -197,9 +309,17 @@ export const ReadingSessionProvider: React.FC<{ children: React.ReactNode }> = (
               ? undefined
               : prevObj?.farmerName,
 
+          // raw / calibration belong to one reading: never carried over to a new one
+          raw: params.raw ?? (incomingHasNewReading ? undefined : prevObj?.raw),
+          calibration: params.calibration ?? (incomingHasNewReading ? undefined : prevObj?.calibration),
+          aggregation: params.aggregation ?? (incomingHasNewReading ? undefined : prevObj?.aggregation),
+          simulated: params.simulated ?? (incomingHasNewReading ? undefined : prevObj?.simulated),
+
+          crop: params.crop ?? prevObj?.crop,
           variety: params.variety ?? prevObj?.variety,
           soilClass: params.soilClass ?? prevObj?.soilClass,
           season: params.season ?? prevObj?.season,
+          onHand: params.onHand ?? prevObj?.onHand,
         };
 
         // persist async (safe outside UI)
@@ -228,10 +348,16 @@ export const ReadingSessionProvider: React.FC<{ children: React.ReactNode }> = (
 
           farmerId: opts.farmerId ?? prevObj?.farmerId,
           farmerName: opts.farmerName ?? prevObj?.farmerName,
+          raw: prevObj?.raw,
+          calibration: prevObj?.calibration,
+          aggregation: prevObj?.aggregation,
+          simulated: prevObj?.simulated,
 
+          crop: opts.crop ?? prevObj?.crop,
           variety: opts.variety ?? prevObj?.variety,
           soilClass: opts.soilClass ?? prevObj?.soilClass,
           season: opts.season ?? prevObj?.season,
+          onHand: opts.onHand ?? prevObj?.onHand,
         };
 
         persist(merged);
@@ -246,9 +372,60 @@ export const ReadingSessionProvider: React.FC<{ children: React.ReactNode }> = (
     await persist(null);
   }, [persist]);
 
+  /** Keeps the current reading + options as a parcel; the same reading (ts) is replaced, not duplicated. */
+  const addParcelFromResult = useCallback(
+    async (opts: { name: string; areaHa: number; thresholdVersion?: string }) => {
+      if (!result) return;
+      const parcel: Parcel = {
+        id: `parcel_${result.ts}`,
+        name: opts.name.trim() || `Parcel ${parcels.length + 1}`,
+        areaHa: opts.areaHa > 0 ? opts.areaHa : 1,
+        n: result.n,
+        p: result.p,
+        k: result.k,
+        ph: result.ph,
+        ts: result.ts,
+        thresholdVersion: opts.thresholdVersion,
+        crop: result.crop,
+        variety: result.variety,
+        soilClass: result.soilClass,
+        season: result.season,
+      };
+      const next = [...parcels.filter((x) => x.id !== parcel.id), parcel];
+      setParcels(next);
+      await persistParcels(next);
+    },
+    [result, parcels, persistParcels]
+  );
+
+  const removeParcel = useCallback(
+    async (id: string) => {
+      const next = parcels.filter((x) => x.id !== id);
+      setParcels(next);
+      await persistParcels(next);
+    },
+    [parcels, persistParcels]
+  );
+
+  const clearParcels = useCallback(async () => {
+    setParcels([]);
+    await persistParcels([]);
+  }, [persistParcels]);
+
   return (
     <ReadingSessionCtx.Provider
-      value={{ result, setResult, setFromParams, setFarmOptions, clear, loading }}
+      value={{
+        result,
+        setResult,
+        setFromParams,
+        setFarmOptions,
+        clear,
+        loading,
+        parcels,
+        addParcelFromResult,
+        removeParcel,
+        clearParcels,
+      }}
     >
       {children}
     </ReadingSessionCtx.Provider>
@@ -0,0 +1,26 @@
+// hooks/useNarrativeLang.ts
+// ✅ The farmer's language for recommendation explanations, remembered on this phone.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_NARRATIVE_LANG, isNarrativeLang, type NarrativeLang } from '../src/narrative';
+
+const LANG_KEY = 'narrativeLang';
+
+export function useNarrativeLang() {
+  const [lang, setLangState] = useState<NarrativeLang>(DEFAULT_NARRATIVE_LANG);
+
+  useEffect(() => {
+    AsyncStorage.getItem(LANG_KEY)
+      .then((v) => {
+        if (isNarrativeLang(v)) setLangState(v);
+      })
+      .catch(() => {});
+  }, []);
+
+  const setLang = useCallback((next: NarrativeLang) => {
+    setLangState(next);
+    AsyncStorage.setItem(LANG_KEY, next).catch(() => {});
+  }, []);
+
+  return { lang, setLang };
+}
@@ -0,0 +1,73 @@
+// hooks/usePreviousSeason.ts
+// ✅ Last season's reading + applied plan for the farmer being served:
+// local history first (works offline), merged with the server's readings when reachable.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useEffect, useState } from 'react';
+import { pickPreviousSeason, type PriorSeason } from '../src/carryOver';
+import { listReadingsByFarmer, listUserReadings } from '../src/services';
+
+type Options = {
+  /** stakeholder = own readings; admin = readings of the selected farmer */
+  mode: 'admin' | 'stakeholder';
+  userId?: string | null;
+  farmerId?: string | null;
+  token?: string | null;
+  /** timestamp of the current reading */
+  beforeTs: number;
+};
+
+// don't hold the recommendation back for a slow server
+const REMOTE_TIMEOUT_MS = 5000;
+
+const isObjectId = (s?: string | null) => !!s && /^[a-f0-9]{24}$/i.test(s);
+
+async function readLocal(key: string): Promise<any[]> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    const arr = raw ? JSON.parse(raw) : [];
+    return Array.isArray(arr) ? arr : [];
+  } catch {
+    return [];
+  }
+}
+
+function withinTimeout(p: Promise<any[]>): Promise<any[]> {
+  return Promise.race([p.catch(() => []), new Promise<any[]>((resolve) => setTimeout(() => resolve([]), REMOTE_TIMEOUT_MS))]);
+}
+
+export function usePreviousSeason({ mode, userId, farmerId, token, beforeTs }: Options) {
+  const [prior, setPrior] = useState<PriorSeason | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let alive = true;
+    setLoaded(false);
+
+    (async () => {
+      let readings: any[] = [];
+      if (mode === 'stakeholder' && userId) {
+        const [local, remote] = await Promise.all([
+          readLocal(`history:${userId}`),
+          token ? withinTimeout(listUserReadings(token)) : Promise.resolve([]),
+        ]);
+        readings = [...local, ...remote];
+      } else if (mode === 'admin' && userId && farmerId) {
+        const [local, remote] = await Promise.all([
+          readLocal(`admin:history:${userId}`),
+          token && isObjectId(farmerId) ? withinTimeout(listReadingsByFarmer(farmerId, token)) : Promise.resolve([]),
+        ]);
+        readings = [...local.filter((r) => String(r?.farmerId ?? '') === farmerId), ...remote];
+      }
+
+      if (!alive) return;
+      setPrior(pickPreviousSeason(readings, beforeTs));
+      setLoaded(true);
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [mode, userId, farmerId, token, beforeTs]);
+
+  return { prior, loaded };
+}
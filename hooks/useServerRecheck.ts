@@ -0,0 +1,69 @@
+// hooks/useServerRecheck.ts
+// ✅ After a locally computed recommendation, wait for the phone to come back online,
+// re-run /api/recommend quietly and report whether the server agrees.
+import NetInfo from '@react-native-community/netinfo';
+import { useEffect, useRef, useState } from 'react';
+import { recheckWithServer, type DaPlansArgs, type DaPlansResult, type PlanSource } from '../src/daRecommend';
+import type { DaPlan } from '../src/services';
+
+type Options = {
+  source: PlanSource | null;
+  fallbackReason?: string;
+  /** the exact inputs the local result was built from */
+  args: DaPlansArgs | null;
+  plans: DaPlan[];
+  /** server agreed with the local plans — callers swap in the server result silently */
+  onAgree: (result: DaPlansResult) => void;
+};
+
+export function useServerRecheck({ source, fallbackReason, args, plans, onAgree }: Options) {
+  const [serverResult, setServerResult] = useState<DaPlansResult | null>(null);
+  const [differences, setDifferences] = useState<string[]>([]);
+  const onAgreeRef = useRef(onAgree);
+  onAgreeRef.current = onAgree;
+
+  useEffect(() => {
+    setServerResult(null);
+    setDifferences([]);
+    if (source !== 'local' || !args) return;
+
+    // offline fallbacks re-check on the first reconnect; timeouts / server errors wait for the next one
+    let wasOnline = fallbackReason !== 'offline';
+    let busy = false;
+    let cancelled = false;
+
+    const unsub = NetInfo.addEventListener(async (state) => {
+      const online =
+        state.isInternetReachable === true ? true : state.isInternetReachable === false ? false : !!state.isConnected;
+      const cameBack = online && !wasOnline;
+      wasOnline = online;
+      if (!cameBack || busy) return;
+
+      busy = true;
+      try {
+        const check = await recheckWithServer(args, plans);
+        if (!check || cancelled) return;
+        if (check.differences.length) {
+          setServerResult(check.result);
+          setDifferences(check.differences);
+        } else {
+          onAgreeRef.current(check.result);
+        }
+      } finally {
+        busy = false;
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsub();
+    };
+  }, [source, fallbackReason, args, plans]);
+
+  const clear = () => {
+    setServerResult(null);
+    setDifferences([]);
+  };
+
+  return { serverResult, differences, clear };
+}
@@ -0,0 +1,80 @@
+// app/src/CarryOverCard.tsx
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import type { CarryOver } from './carryOver';
+
+type Props = {
+  carryOver: CarryOver | null;
+};
+
+const NUTRIENTS = ['N', 'P', 'K'] as const;
+
+const signed = (n: number) => `${n > 0 ? '+' : n < 0 ? '−' : '±'}${Math.abs(n)}`;
+
+/** Last season vs now (ppm), what was applied, and how this season's targets were adjusted. */
+export default function CarryOverCard({ carryOver }: Props) {
+  if (!carryOver) return null;
+  const { prior, deltaPpm, tableKgHa, adjustedKgHa, adjustments, notes } = carryOver;
+
+  return (
+    <View style={styles.box}>
+      <Text style={styles.title}>Compared with last season</Text>
+      <Text style={styles.subtle}>
+        {prior.date}
+        {prior.season ? ` • ${prior.season} season` : ''}
+        {prior.planLabel ? ` • ${prior.planLabel}` : ''}
+      </Text>
+
+      <View style={[styles.row, styles.headRow]}>
+        <Text style={[styles.cell, styles.first, styles.head]} />
+        <Text style={[styles.cell, styles.head]}>Last (ppm)</Text>
+        <Text style={[styles.cell, styles.head]}>Change</Text>
+        <Text style={[styles.cell, styles.head]}>Applied</Text>
+        <Text style={[styles.cell, styles.head]}>Target</Text>
+      </View>
+      {NUTRIENTS.map((nu) => {
+        const changed = adjustedKgHa[nu] !== tableKgHa[nu];
+        return (
+          <View key={nu} style={styles.row}>
+            <Text style={[styles.cell, styles.first, styles.head]}>{nu}</Text>
+            <Text style={styles.cell}>{prior.ppm[nu]}</Text>
+            <Text style={[styles.cell, deltaPpm[nu] > 0 ? styles.up : deltaPpm[nu] < 0 ? styles.down : null]}>
+              {signed(deltaPpm[nu])}
+            </Text>
+            <Text style={styles.cell}>{prior.appliedKgHa ? `${Math.round(prior.appliedKgHa[nu])} kg` : '—'}</Text>
+            <Text style={[styles.cell, changed && styles.bold]}>
+              {changed ? `${tableKgHa[nu]} → ${adjustedKgHa[nu]}` : tableKgHa[nu]}
+            </Text>
+          </View>
+        );
+      })}
+
+      {adjustments.map((a) => (
+        <Text key={a.nutrient} style={styles.adjust}>
+          • {a.nutrient} target {a.fromKg} → {a.toKg} kg/ha: {a.reason}
+        </Text>
+      ))}
+      {notes.map((n, i) => (
+        <Text key={i} style={styles.note}>
+          • {n}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: { borderWidth: 1, borderColor: '#cfe7d4', borderRadius: 10, padding: 12, marginBottom: 16 },
+  title: { fontSize: 14, fontWeight: 'bold', color: '#1b5e20' },
+  subtle: { fontSize: 11, color: '#777', marginTop: 2, marginBottom: 6 },
+  row: { flexDirection: 'row', borderTopWidth: 1, borderColor: '#eee' },
+  headRow: { backgroundColor: '#f7faf7', borderTopWidth: 0 },
+  cell: { flex: 1, paddingVertical: 5, paddingHorizontal: 4, fontSize: 12, color: '#222', textAlign: 'right' },
+  first: { flex: 0.4, textAlign: 'left' },
+  head: { fontWeight: 'bold', color: '#1b5e20' },
+  up: { color: '#2e7d32' },
+  down: { color: '#c62828' },
+  bold: { fontWeight: 'bold' },
+  adjust: { fontSize: 12, color: '#8a5a00', marginTop: 6, lineHeight: 17 },
+  note: { fontSize: 11, color: '#666', marginTop: 3, lineHeight: 16 },
+});
@@ -0,0 +1,281 @@
+// app/src/DevicePicker.tsx
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import {
+  discoverDevices,
+  loadSensorSettings,
+  removeSensorDevice,
+  saveSensorDevice,
+  setActiveDevice,
+  type DiscoveredDevice,
+  type FirmwareProtocol,
+  type SensorSettings,
+} from './esp32';
+
+const GREEN = '#2e7d32';
+
+const PROTOCOLS: { key: FirmwareProtocol; label: string }[] = [
+  { key: 'read', label: '/read' },
+  { key: 'all', label: '/all' },
+  { key: 'npk', label: '/npk only' },
+];
+
+type Props = {
+  /** lock while a reading is running */
+  disabled?: boolean;
+};
+
+/** Active probe on the reading screen; expands to saved kits, a network scan and a manual add form. */
+export default function DevicePicker({ disabled }: Props) {
+  const [settings, setSettings] = useState<SensorSettings | null>(null);
+  const [open, setOpen] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [found, setFound] = useState<DiscoveredDevice[]>([]);
+  const [adding, setAdding] = useState(false);
+  const [form, setForm] = useState({ name: '', baseUrl: '', ssid: '', protocol: 'read' as FirmwareProtocol });
+  const scan = useRef<{ cancelled: boolean } | null>(null);
+
+  const refresh = useCallback(() => {
+    loadSensorSettings().then((s) => setSettings({ ...s }));
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+      return () => {
+        if (scan.current) scan.current.cancelled = true;
+      };
+    }, [refresh])
+  );
+
+  // close the list once a reading starts
+  useEffect(() => {
+    if (disabled) setOpen(false);
+  }, [disabled]);
+
+  if (!settings) return null;
+  const active = settings.devices.find((d) => d.id === settings.activeDeviceId) ?? settings.devices[0];
+
+  const select = async (id: string) => {
+    await setActiveDevice(id);
+    refresh();
+  };
+
+  const remove = (id: string, name: string) => {
+    Alert.alert('Remove device', `Remove "${name}" from this phone?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await removeSensorDevice(id);
+          refresh();
+        },
+      },
+    ]);
+  };
+
+  const startScan = async () => {
+    if (scan.current) scan.current.cancelled = true;
+    const signal = { cancelled: false };
+    scan.current = signal;
+    setFound([]);
+    setProgress({ done: 0, total: 0 });
+    setScanning(true);
+    try {
+      await discoverDevices({
+        signal,
+        onProgress: (done, total) => !signal.cancelled && setProgress({ done, total }),
+        onFound: (d) => !signal.cancelled && setFound((prev) => [...prev, d]),
+      });
+    } finally {
+      if (scan.current === signal) {
+        scan.current = null;
+        setScanning(false);
+      }
+    }
+  };
+
+  const stopScan = () => {
+    if (scan.current) scan.current.cancelled = true;
+    scan.current = null;
+    setScanning(false);
+  };
+
+  const pickFound = async (d: DiscoveredDevice) => {
+    const saved = await saveSensorDevice({ id: d.savedId, name: d.name, baseUrl: d.baseUrl, protocol: d.protocol });
+    await setActiveDevice(saved.id);
+    setFound((prev) => prev.map((f) => (f.baseUrl === d.baseUrl ? { ...f, savedId: saved.id } : f)));
+    refresh();
+  };
+
+  const addManual = async () => {
+    try {
+      const saved = await saveSensorDevice(form);
+      await setActiveDevice(saved.id);
+      setForm({ name: '', baseUrl: '', ssid: '', protocol: 'read' });
+      setAdding(false);
+      refresh();
+    } catch (e: any) {
+      Alert.alert('Device', e?.message || 'Could not save the device.');
+    }
+  };
+
+  return (
+    <View style={styles.box}>
+      <TouchableOpacity style={styles.header} onPress={() => setOpen((o) => !o)} disabled={disabled}>
+        <Ionicons name="hardware-chip-outline" size={18} color={GREEN} />
+        <View style={styles.headerText}>
+          <Text style={styles.activeName}>{active.name}</Text>
+          <Text style={styles.subtle}>
+            {active.baseUrl}
+            {active.ssid ? ` • Wi-Fi "${active.ssid}"` : ''}
+          </Text>
+        </View>
+        {!disabled && <Text style={styles.change}>{open ? 'Close' : 'Change'}</Text>}
+      </TouchableOpacity>
+
+      {settings.mode === 'simulator' && (
+        <Text style={styles.note}>The simulator is on, so readings will not come from this device.</Text>
+      )}
+
+      {open && (
+        <>
+          {settings.devices.map((d) => (
+            <View key={d.id} style={styles.row}>
+              <TouchableOpacity style={styles.rowMain} onPress={() => select(d.id)}>
+                <Ionicons name={d.id === active.id ? 'radio-button-on' : 'radio-button-off'} size={18} color={GREEN} />
+                <View style={styles.headerText}>
+                  <Text style={styles.rowName}>{d.name}</Text>
+                  <Text style={styles.subtle}>
+                    {d.baseUrl} • {d.protocol}
+                    {d.ssid ? ` • "${d.ssid}"` : ''}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+              {!d.builtIn && (
+                <TouchableOpacity onPress={() => remove(d.id, d.name)} style={styles.iconBtn}>
+                  <Ionicons name="trash-outline" size={18} color="#c62828" />
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.smallBtn} onPress={scanning ? stopScan : startScan}>
+              <Text style={styles.smallBtnText}>{scanning ? 'Stop scan' : 'Scan network'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.smallBtn, styles.outlineBtn]} onPress={() => setAdding((a) => !a)}>
+              <Text style={[styles.smallBtnText, styles.outlineText]}>{adding ? 'Cancel' : 'Add manually'}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {scanning && (
+            <View style={styles.scanRow}>
+              <ActivityIndicator size="small" color={GREEN} />
+              <Text style={styles.subtle}>
+                {' '}
+                Checking {progress.done}/{progress.total || '…'} addresses
+              </Text>
+            </View>
+          )}
+          {!scanning && progress.total > 0 && found.length === 0 && (
+            <Text style={styles.note}>No probes found. Check that the kit is on and on the same Wi-Fi.</Text>
+          )}
+
+          {found.map((d) => (
+            <View key={d.baseUrl} style={styles.row}>
+              <View style={styles.headerText}>
+                <Text style={styles.rowName}>{d.name}</Text>
+                <Text style={styles.subtle}>
+                  {d.baseUrl} • {d.protocol} • {d.latencyMs} ms
+                  {d.deviceId ? ` • ID ${d.deviceId}` : ''}
+                  {d.firmware ? ` • fw ${d.firmware}` : ''}
+                </Text>
+              </View>
+              {d.savedId === active.id ? (
+                <Text style={styles.inUse}>In use</Text>
+              ) : (
+                <TouchableOpacity style={styles.useBtn} onPress={() => pickFound(d)}>
+                  <Text style={styles.smallBtnText}>Use</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+
+          {adding && (
+            <View style={styles.form}>
+              <TextInput
+                style={styles.input}
+                placeholder="Name (e.g. Kit 2)"
+                value={form.name}
+                onChangeText={(name) => setForm((f) => ({ ...f, name }))}
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="Base URL (e.g. http://192.168.1.50)"
+                autoCapitalize="none"
+                keyboardType="url"
+                value={form.baseUrl}
+                onChangeText={(baseUrl) => setForm((f) => ({ ...f, baseUrl }))}
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="Wi-Fi SSID (leave blank on a shared router)"
+                autoCapitalize="none"
+                value={form.ssid}
+                onChangeText={(ssid) => setForm((f) => ({ ...f, ssid }))}
+              />
+              <View style={styles.chips}>
+                {PROTOCOLS.map((p) => (
+                  <TouchableOpacity
+                    key={p.key}
+                    style={[styles.chip, form.protocol === p.key && styles.chipOn]}
+                    onPress={() => setForm((f) => ({ ...f, protocol: p.key }))}
+                  >
+                    <Text style={[styles.chipText, form.protocol === p.key && styles.chipTextOn]}>{p.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TouchableOpacity style={styles.smallBtn} onPress={addManual}>
+                <Text style={styles.smallBtnText}>Save and use</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: { borderWidth: 1, borderColor: '#cfe7d4', borderRadius: 10, padding: 10, marginVertical: 10, alignSelf: 'stretch' },
+  header: { flexDirection: 'row', alignItems: 'center' },
+  headerText: { flex: 1, marginLeft: 8 },
+  activeName: { fontSize: 13, fontWeight: 'bold', color: '#1b5e20' },
+  change: { fontSize: 12, color: GREEN, textDecorationLine: 'underline' },
+  subtle: { fontSize: 11, color: '#777' },
+  note: { fontSize: 11, color: '#8a5a00', marginTop: 6 },
+  row: { flexDirection: 'row', alignItems: 'center', borderTopWidth: 1, borderColor: '#eee', paddingVertical: 6, marginTop: 4 },
+  rowMain: { flex: 1, flexDirection: 'row', alignItems: 'center' },
+  rowName: { fontSize: 12, color: '#222', fontWeight: '600' },
+  iconBtn: { padding: 6 },
+  actions: { flexDirection: 'row', marginTop: 8 },
+  smallBtn: { backgroundColor: GREEN, borderRadius: 16, paddingVertical: 6, paddingHorizontal: 12, marginRight: 8, alignSelf: 'flex-start' },
+  smallBtnText: { color: '#fff', fontSize: 12, fontWeight: 'bold' },
+  outlineBtn: { backgroundColor: '#fff', borderWidth: 1, borderColor: GREEN },
+  outlineText: { color: GREEN },
+  scanRow: { flexDirection: 'row', alignItems: 'center', marginTop: 8 },
+  useBtn: { backgroundColor: GREEN, borderRadius: 14, paddingVertical: 4, paddingHorizontal: 12 },
+  inUse: { fontSize: 11, color: GREEN, fontWeight: 'bold' },
+  form: { marginTop: 8 },
+  input: { borderWidth: 1, borderColor: '#ccc', borderRadius: 6, paddingVertical: 5, paddingHorizontal: 8, fontSize: 13, marginBottom: 6 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', marginBottom: 6 },
+  chip: { borderWidth: 1, borderColor: GREEN, borderRadius: 16, paddingVertical: 4, paddingHorizontal: 10, marginRight: 6, marginBottom: 6 },
+  chipOn: { backgroundColor: GREEN },
+  chipText: { fontSize: 12, color: GREEN },
+  chipTextOn: { color: '#fff', fontWeight: 'bold' },
+});
@@ -0,0 +1,330 @@
+// app/src/EngineOptions.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { AdminPricesDoc, RecommendResponse } from './services';
+import {
+  ORGANIC_SOURCES,
+  buildCropRecommendation,
+  type CropId,
+  type CropVariety,
+  type FieldSymptom,
+  type OnHandStock,
+  type OrganicApplication,
+  type OrganicSource,
+  type PurchaseMode,
+  type Season,
+  type SecondaryReadings,
+  type SoilClass,
+} from './fertilizerLogic';
+
+type Props = {
+  reading: { n: number; p: number; k: number; ph?: number | null };
+  areaHa: number;
+  crop?: CropId;
+  variety?: CropVariety;
+  soilClass?: SoilClass;
+  season?: Season;
+  onHand?: OnHandStock[];
+  /** admin prices; the engine needs them, so nothing is shown offline */
+  prices: AdminPricesDoc | null;
+  /** latest engine result, so the screen can save it with the reading and print it (not called while closed) */
+  onResult?: (resp: RecommendResponse) => void;
+};
+
+const PURCHASE_MODES: { id: PurchaseMode; label: string }[] = [
+  { id: 'exact', label: 'Exact' },
+  { id: 'halfBag', label: 'Half bags' },
+  { id: 'wholeBag', label: 'Whole bags' },
+  { id: 'kgLoose', label: 'Per kg' },
+];
+
+const SYMPTOMS: { id: FieldSymptom; label: string }[] = [
+  { id: 'bronzing', label: 'Bronzing' },
+  { id: 'prolongedFlooding', label: 'Long flooding' },
+  { id: 'highPh', label: 'Alkaline field' },
+  { id: 'yellowYoungLeaves', label: 'Yellow young leaves' },
+  { id: 'interveinalChlorosis', label: 'Striped old leaves' },
+];
+
+// lab / kit values for the Zn, S and Mg advisories; the NPK probe does not report them
+const SECONDARY: { id: keyof SecondaryReadings; label: string }[] = [
+  { id: 'znPpm', label: 'Zinc (ppm)' },
+  { id: 'sPpm', label: 'Sulfur (ppm)' },
+  { id: 'mgPpm', label: 'Magnesium (ppm)' },
+];
+
+const money = (cur: string, n: number) =>
+  `${cur} ${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const positive = (text: string) => {
+  const n = Number(text);
+  return text.trim() !== '' && Number.isFinite(n) && n > 0 ? n : null;
+};
+
+/**
+ * Collapsible "More options" — the full recommendation engine (least-cost Optimal blend, purchase modes,
+ * yield goal, budget, organic credits, pH amendment and Zn / S / Mg advisories) for the current reading.
+ */
+export default function EngineOptions({
+  reading,
+  areaHa,
+  crop,
+  variety,
+  soilClass,
+  season,
+  onHand,
+  prices,
+  onResult,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const [purchaseMode, setPurchaseMode] = useState<PurchaseMode>('exact');
+  const [yieldText, setYieldText] = useState('');
+  const [budgetText, setBudgetText] = useState('');
+  const [organicText, setOrganicText] = useState<Partial<Record<OrganicSource, string>>>({});
+  const [symptoms, setSymptoms] = useState<FieldSymptom[]>([]);
+  const [secondaryText, setSecondaryText] = useState<Partial<Record<keyof SecondaryReadings, string>>>({});
+
+  const targetYieldTha = positive(yieldText);
+  const maxBudget = positive(budgetText);
+
+  const organics = useMemo<OrganicApplication[]>(
+    () =>
+      (Object.keys(ORGANIC_SOURCES) as OrganicSource[]).flatMap((source) => {
+        const kgPerHa = positive(organicText[source] ?? '');
+        return kgPerHa ? [{ source, kgPerHa }] : [];
+      }),
+    [organicText]
+  );
+
+  // 0 ppm is a real (deficient) reading, so only blanks are left out
+  const secondary = useMemo<SecondaryReadings>(() => {
+    const out: SecondaryReadings = {};
+    SECONDARY.forEach(({ id }) => {
+      const text = (secondaryText[id] ?? '').trim();
+      const n = Number(text);
+      if (text !== '' && Number.isFinite(n) && n >= 0) out[id] = n;
+    });
+    return out;
+  }, [secondaryText]);
+
+  const resp = useMemo(() => {
+    if (!open || !prices) return null;
+    return buildCropRecommendation({
+      nPpm: reading.n,
+      pPpm: reading.p,
+      kPpm: reading.k,
+      ph: reading.ph ?? undefined,
+      areaHa,
+      crop,
+      variety,
+      soilClass,
+      season,
+      purchaseMode,
+      targetMode: targetYieldTha ? 'yield' : 'table',
+      targetYieldTha,
+      organics,
+      maxBudget,
+      onHand,
+      secondary,
+      symptoms,
+      pricesDoc: prices,
+    });
+  }, [
+    open,
+    prices,
+    reading.n,
+    reading.p,
+    reading.k,
+    reading.ph,
+    areaHa,
+    crop,
+    variety,
+    soilClass,
+    season,
+    purchaseMode,
+    targetYieldTha,
+    organics,
+    maxBudget,
+    onHand,
+    secondary,
+    symptoms,
+  ]);
+
+  useEffect(() => {
+    if (resp) onResult?.(resp);
+  }, [resp, onResult]);
+
+  if (!prices) return null;
+
+  const cur = String(prices.currency || 'PHP');
+  const toggleSymptom = (id: FieldSymptom) =>
+    setSymptoms((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+
+  return (
+    <View style={styles.box}>
+      <TouchableOpacity style={styles.header} onPress={() => setOpen((v) => !v)}>
+        <Text style={styles.title}>More options (least-cost, budget, organics)</Text>
+        <Text style={styles.chevron}>{open ? '▲' : '▼'}</Text>
+      </TouchableOpacity>
+
+      {open && (
+        <View style={styles.body}>
+          <Text style={styles.subTitle}>How the farmer buys</Text>
+          <View style={styles.chips}>
+            {PURCHASE_MODES.map((m) => (
+              <TouchableOpacity
+                key={m.id}
+                style={[styles.chip, purchaseMode === m.id && styles.chipOn]}
+                onPress={() => setPurchaseMode(m.id)}
+              >
+                <Text style={[styles.chipText, purchaseMode === m.id && styles.chipTextOn]}>{m.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.inputRow}>
+            <Text style={styles.inputLabel}>Yield goal (t/ha, blank = table)</Text>
+            <TextInput style={styles.input} keyboardType="numeric" value={yieldText} onChangeText={setYieldText} />
+          </View>
+          <View style={styles.inputRow}>
+            <Text style={styles.inputLabel}>Budget ({cur}, blank = none)</Text>
+            <TextInput style={styles.input} keyboardType="numeric" value={budgetText} onChangeText={setBudgetText} />
+          </View>
+
+          <Text style={styles.subTitle}>Organics applied (kg/ha)</Text>
+          {(Object.keys(ORGANIC_SOURCES) as OrganicSource[]).map((source) => (
+            <View key={source} style={styles.inputRow}>
+              <Text style={styles.inputLabel}>{ORGANIC_SOURCES[source].label}</Text>
+              <TextInput
+                style={styles.input}
+                keyboardType="numeric"
+                value={organicText[source] ?? ''}
+                onChangeText={(t) => setOrganicText((prev) => ({ ...prev, [source]: t }))}
+              />
+            </View>
+          ))}
+
+          <Text style={styles.subTitle}>Other soil tests (blank = not tested)</Text>
+          {SECONDARY.map(({ id, label }) => (
+            <View key={id} style={styles.inputRow}>
+              <Text style={styles.inputLabel}>{label}</Text>
+              <TextInput
+                style={styles.input}
+                keyboardType="numeric"
+                value={secondaryText[id] ?? ''}
+                onChangeText={(t) => setSecondaryText((prev) => ({ ...prev, [id]: t }))}
+              />
+            </View>
+          ))}
+
+          <Text style={styles.subTitle}>Seen in the field</Text>
+          <View style={styles.chips}>
+            {SYMPTOMS.map((s) => (
+              <TouchableOpacity
+                key={s.id}
+                style={[styles.chip, symptoms.includes(s.id) && styles.chipOn]}
+                onPress={() => toggleSymptom(s.id)}
+              >
+                <Text style={[styles.chipText, symptoms.includes(s.id) && styles.chipTextOn]}>{s.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {resp && (
+            <>
+              <Text style={styles.targets}>
+                {resp.input?.targetMode === 'yield'
+                  ? `Targets for a ${resp.input.targetYieldTha} t/ha yield goal`
+                  : 'Targets from the DA table'}
+                : N {resp.input?.targetsPerHa?.Nkg} • P {resp.input?.targetsPerHa?.Pkg} • K{' '}
+                {resp.input?.targetsPerHa?.Kkg} kg/ha
+              </Text>
+
+              {resp.budget && !resp.budget.withinBudget && (
+                <Text style={styles.warn}>
+                  No full plan fits {money(cur, resp.budget.maxBudget)}. Short by N {resp.budget.shortfallKg.N} • P{' '}
+                  {resp.budget.shortfallKg.P} • K {resp.budget.shortfallKg.K} kg (about{' '}
+                  {Math.round(resp.budget.yieldPenaltyKg)} kg less grain).
+                </Text>
+              )}
+
+              {resp.plans.map((p) => (
+                <View key={p.code} style={styles.plan}>
+                  <View style={styles.planHead}>
+                    <Text style={styles.planTitle}>
+                      {p.title}
+                      {p.code === resp.cheapest?.code ? ' ★' : ''}
+                    </Text>
+                    <Text style={[styles.planTotal, p.overBudget && styles.overBudget]}>
+                      {money(cur, p.total ?? 0)}
+                      {p.overBudget ? ' (over budget)' : ''}
+                    </Text>
+                  </View>
+                  {p.rows.map((r) => (
+                    <Text key={r.key} style={styles.line}>
+                      • {r.bags} bag(s) {r.label}
+                      {Number(r.leftoverKg ?? 0) > 0 ? ` — ${r.leftoverKg} kg left over` : ''}
+                    </Text>
+                  ))}
+                </View>
+              ))}
+
+              {(resp.organics ?? []).map((o) => (
+                <Text key={o.source} style={styles.note}>
+                  🌱 {o.label}: {o.kg} kg credits N {o.credit.N} • P {o.credit.P} • K {o.credit.K} kg
+                </Text>
+              ))}
+              {resp.amendment && <Text style={styles.note}>🧪 {resp.amendment.note}</Text>}
+              {(resp.advisories ?? []).map((a) => (
+                <Text key={a.nutrient} style={styles.note}>
+                  ⚠️ {a.note}
+                </Text>
+              ))}
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: { borderWidth: 1, borderColor: '#cfe7d4', borderRadius: 10, marginBottom: 16, overflow: 'hidden' },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#eef7ee',
+    padding: 12,
+  },
+  title: { fontSize: 14, fontWeight: 'bold', color: '#1b5e20' },
+  chevron: { fontSize: 12, color: '#1b5e20' },
+  body: { padding: 12 },
+  subTitle: { fontSize: 12, fontWeight: 'bold', color: '#1b5e20', marginTop: 8, marginBottom: 6 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap' },
+  chip: { borderWidth: 1, borderColor: '#2e7d32', borderRadius: 16, paddingVertical: 4, paddingHorizontal: 10, marginRight: 6, marginBottom: 6 },
+  chipOn: { backgroundColor: '#2e7d32' },
+  chipText: { fontSize: 12, color: '#2e7d32' },
+  chipTextOn: { color: '#fff', fontWeight: 'bold' },
+  inputRow: { flexDirection: 'row', alignItems: 'center', marginBottom: 6 },
+  inputLabel: { flex: 1, fontSize: 12, color: '#222' },
+  input: {
+    width: 110,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    fontSize: 12,
+    textAlign: 'right',
+  },
+  targets: { fontSize: 12, fontWeight: 'bold', color: '#1b5e20', marginTop: 10 },
+  warn: { fontSize: 12, fontWeight: 'bold', color: '#8a5a00', marginTop: 10 },
+  plan: { borderTopWidth: 1, borderColor: '#eee', paddingVertical: 8, marginTop: 6 },
+  planHead: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start', gap: 8 },
+  planTitle: { flex: 1, fontSize: 13, fontWeight: 'bold', color: '#222' },
+  planTotal: { fontSize: 13, fontWeight: 'bold', color: '#1b5e20' },
+  overBudget: { color: '#c62828' },
+  line: { fontSize: 12, color: '#444', lineHeight: 18 },
+  note: { fontSize: 12, color: '#555', lineHeight: 18, marginTop: 6 },
+});
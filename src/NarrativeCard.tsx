@@ -0,0 +1,47 @@
+// app/src/NarrativeCard.tsx
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { NARRATIVE_LANGS, type NarrativeLang, type Narratives } from './narrative';
+
+type Props = {
+  narratives: Narratives | null;
+  lang: NarrativeLang;
+  onChangeLang: (lang: NarrativeLang) => void;
+};
+
+/** Plain-language explanation of the recommendation with a Bisaya / Tagalog / English switch. */
+export default function NarrativeCard({ narratives, lang, onChangeLang }: Props) {
+  if (!narratives) return null;
+
+  return (
+    <View style={styles.box}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Explanation</Text>
+        <View style={styles.chips}>
+          {NARRATIVE_LANGS.map((l) => (
+            <TouchableOpacity
+              key={l.key}
+              style={[styles.chip, lang === l.key && styles.chipOn]}
+              onPress={() => onChangeLang(l.key)}
+            >
+              <Text style={[styles.chipText, lang === l.key && styles.chipTextOn]}>{l.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+      <Text style={styles.text}>{narratives[lang]}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: { borderWidth: 1, borderColor: '#cfe7d4', borderRadius: 10, padding: 12, marginBottom: 16 },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', marginBottom: 8 },
+  title: { fontSize: 14, fontWeight: 'bold', color: '#1b5e20' },
+  chips: { flexDirection: 'row' },
+  chip: { borderWidth: 1, borderColor: '#2e7d32', borderRadius: 16, paddingVertical: 3, paddingHorizontal: 9, marginLeft: 6 },
+  chipOn: { backgroundColor: '#2e7d32' },
+  chipText: { fontSize: 11, color: '#2e7d32' },
+  chipTextOn: { color: '#fff', fontWeight: 'bold' },
+  text: { fontSize: 13, color: '#222', lineHeight: 19 },
+});
@@ -0,0 +1,65 @@
+// app/src/NutrientBalanceBars.tsx
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import type { NutrientBalance } from './services';
+
+type Props = {
+  balance: NutrientBalance | null | undefined;
+};
+
+const NUTRIENTS = ['N', 'P', 'K'] as const;
+
+// within this many kg the plan counts as on target
+const ON_TARGET_KG = 1;
+
+const kg = (n: number) => `${Math.round(n * 10) / 10} kg`;
+
+/** Supplied vs target bar per nutrient (tick = target) with the surplus / deficit in kg. */
+export default function NutrientBalanceBars({ balance }: Props) {
+  if (!balance) return null;
+
+  return (
+    <View style={styles.box}>
+      <Text style={styles.title}>Supplied vs target</Text>
+      {NUTRIENTS.map((nu) => {
+        const target = Number(balance.target[nu] || 0);
+        const supplied = Number(balance.supplied[nu] || 0);
+        const diff = Number(balance.diff[nu] || 0);
+        const scale = Math.max(target, supplied, 1);
+        const status = Math.abs(diff) <= ON_TARGET_KG ? 'ok' : diff > 0 ? 'over' : 'under';
+
+        return (
+          <View key={nu} style={styles.row}>
+            <Text style={styles.nutrient}>{nu}</Text>
+            <View style={styles.track}>
+              <View style={[styles.fill, styles[status], { width: `${(supplied / scale) * 100}%` }]} />
+              {target > 0 && <View style={[styles.tick, { left: `${(target / scale) * 100}%` }]} />}
+            </View>
+            <Text style={[styles.diff, status !== 'ok' && styles.diffOff]}>
+              {status === 'ok' ? '✓' : `${diff > 0 ? '+' : '−'}${kg(Math.abs(diff))}`}
+            </Text>
+          </View>
+        );
+      })}
+      <Text style={styles.legend}>
+        Target N {kg(balance.target.N)} • P {kg(balance.target.P)} • K {kg(balance.target.K)}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: { borderTopWidth: 1, borderColor: '#ddd', paddingHorizontal: 10, paddingVertical: 8 },
+  title: { fontSize: 12, fontWeight: 'bold', color: '#1b5e20', marginBottom: 6 },
+  row: { flexDirection: 'row', alignItems: 'center', marginBottom: 5 },
+  nutrient: { width: 16, fontSize: 12, fontWeight: 'bold', color: '#222' },
+  track: { flex: 1, height: 10, backgroundColor: '#eef2ee', borderRadius: 5, marginHorizontal: 6 },
+  fill: { position: 'absolute', left: 0, top: 0, bottom: 0, borderRadius: 5 },
+  ok: { backgroundColor: '#66bb6a' },
+  over: { backgroundColor: '#ffb74d' },
+  under: { backgroundColor: '#e57373' },
+  tick: { position: 'absolute', top: -3, bottom: -3, width: 2, marginLeft: -1, backgroundColor: '#1b5e20' },
+  diff: { width: 64, fontSize: 11, color: '#2e7d32', textAlign: 'right' },
+  diffOff: { color: '#8a5a00', fontWeight: 'bold' },
+  legend: { fontSize: 11, color: '#777', marginTop: 2 },
+});
@@ -0,0 +1,228 @@
+// app/src/ParcelPlanner.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useReadingSession } from '../context/ReadingSessionContext';
+import { getActiveThresholdVersion } from '../constants/npkThresholds';
+import { getPublicPrices, type AdminPricesDoc, type DaSchedule } from './services';
+import { FERTILIZER_NAMES } from './daPlans';
+import { buildParcelPlans, consolidatePurchase } from './parcelPlans';
+
+type Props = {
+  mode: 'admin' | 'stakeholder';
+  onBack: () => void;
+};
+
+const PHASES: { key: keyof DaSchedule; label: string }[] = [
+  { key: 'organic', label: 'Organic' },
+  { key: 'basal', label: 'At Planting' },
+  { key: 'after30DAT', label: 'After 30 Days' },
+  { key: 'topdress60DBH', label: 'Top Dress' },
+];
+
+const money = (cur: string, n: number) =>
+  `${cur} ${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const bags = (n: number) => `${(Math.round(n * 100) / 100).toFixed(2)} bags`;
+
+/** Several paddies in one session: per-parcel DA plan + schedule, then one combined shopping list. */
+export default function ParcelPlanner({ mode, onBack }: Props) {
+  const { result, parcels, addParcelFromResult, removeParcel, clearParcels } = useReadingSession();
+
+  const [prices, setPrices] = useState<AdminPricesDoc | null>(null);
+  const [name, setName] = useState('');
+  const [areaText, setAreaText] = useState('1');
+  const [chosenIds, setChosenIds] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    getPublicPrices()
+      .then(setPrices)
+      .catch(() => setPrices(null));
+  }, []);
+
+  const results = useMemo(() => buildParcelPlans({ parcels, prices, chosenIds }), [parcels, prices, chosenIds]);
+  const shopping = useMemo(() => consolidatePurchase(results, prices, result?.onHand), [results, prices, result?.onHand]);
+
+  const currentSaved = !!result && parcels.some((p) => p.id === `parcel_${result.ts}`);
+  const totalArea = parcels.reduce((s, p) => s + p.areaHa, 0);
+
+  const onAdd = async () => {
+    const areaHa = Number(areaText);
+    if (!Number.isFinite(areaHa) || areaHa <= 0) {
+      Alert.alert('Area', 'Enter the parcel size in hectares (e.g. 0.5).');
+      return;
+    }
+    await addParcelFromResult({ name, areaHa, thresholdVersion: getActiveThresholdVersion() });
+    setName('');
+    setAreaText('1');
+  };
+
+  const onClear = () =>
+    Alert.alert('Clear parcels', 'Remove all parcels from this session?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: () => clearParcels() },
+    ]);
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Text style={styles.title}>Multi-Parcel Plan</Text>
+      <Text style={styles.subtle}>
+        {mode === 'admin' ? 'Add each paddy of the farmer' : 'Add each of your paddies'} after reading it, then buy
+        everything at once.
+      </Text>
+
+      {result && (result.n || result.p || result.k) ? (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Current reading</Text>
+          <Text style={styles.line}>
+            N {result.n} • P {result.p} • K {result.k} ppm • {result.crop ?? 'rice'} {result.variety ?? ''} •{' '}
+            {result.soilClass ?? ''} • {result.season ?? ''}
+          </Text>
+          {currentSaved ? (
+            <Text style={styles.subtle}>Already added — take a new reading for the next parcel.</Text>
+          ) : (
+            <>
+              <TextInput style={styles.input} placeholder="Parcel name (e.g. Near the river)" value={name} onChangeText={setName} />
+              <TextInput
+                style={styles.input}
+                placeholder="Area (ha)"
+                keyboardType="numeric"
+                value={areaText}
+                onChangeText={setAreaText}
+              />
+              <TouchableOpacity style={styles.smallBtn} onPress={onAdd}>
+                <Text style={styles.smallBtnText}>➕ Add as parcel</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      ) : null}
+
+      {!results.length && <Text style={styles.empty}>No parcels yet.</Text>}
+
+      {results.map((r) => (
+        <View key={r.parcel.id} style={styles.card}>
+          <View style={styles.rowBetween}>
+            <Text style={styles.cardTitle}>
+              {r.parcel.name} • {r.parcel.areaHa} ha
+            </Text>
+            <TouchableOpacity onPress={() => removeParcel(r.parcel.id)}>
+              <Text style={styles.remove}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.subtle}>
+            N {r.ratings.N} / P {r.ratings.P} / K {r.ratings.K} • needs N {r.reqKgHa.N} • P {r.reqKgHa.P} • K {r.reqKgHa.K} kg/ha
+          </Text>
+
+          <View style={styles.chips}>
+            {r.plans.map((p) => {
+              const on = r.chosen?.id === p.id;
+              return (
+                <TouchableOpacity
+                  key={p.id}
+                  style={[styles.chip, on && styles.chipOn]}
+                  onPress={() => setChosenIds((prev) => ({ ...prev, [r.parcel.id]: String(p.id) }))}
+                >
+                  <Text style={[styles.chipText, on && styles.chipTextOn]}>
+                    {p.label.replace(/^Option /, '')}
+                    {p.cost ? ` • ${money(p.cost.currency, p.cost.total)}` : ''}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {r.schedule &&
+            PHASES.map(({ key, label }) => {
+              const lines = r.schedule?.[key] || [];
+              if (!lines.length) return null;
+              return (
+                <Text key={key} style={styles.line}>
+                  <Text style={styles.bold}>{label}: </Text>
+                  {lines.map((l) => `${bags(l.bags)} ${FERTILIZER_NAMES[l.code] ?? l.code}`).join(', ')}
+                </Text>
+              );
+            })}
+        </View>
+      ))}
+
+      {shopping.rows.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>
+            Shopping list • {parcels.length} parcel(s), {Math.round(totalArea * 100) / 100} ha
+          </Text>
+          <View style={[styles.tRow, styles.tHead]}>
+            <Text style={[styles.tCell, styles.tName, styles.bold]}>Product</Text>
+            <Text style={[styles.tCell, styles.bold]}>Total</Text>
+            <Text style={[styles.tCell, styles.bold]}>Buy</Text>
+            <Text style={[styles.tCell, styles.bold]}>Cost</Text>
+          </View>
+          {shopping.rows.map((row) => (
+            <View key={row.code} style={styles.tRow}>
+              <View style={[styles.tCell, styles.tName]}>
+                <Text style={styles.tText}>{row.label}</Text>
+                <Text style={styles.tSub}>{row.byParcel.map((x) => `${x.name}: ${x.bags}`).join(' • ')}</Text>
+              </View>
+              <Text style={[styles.tCell, styles.tText]}>{row.totalBags.toFixed(2)}</Text>
+              <Text style={[styles.tCell, styles.tText]}>
+                {row.buyBags.toFixed(2)}
+                {row.fromStockBags > 0 ? `\n(${row.fromStockBags} stored)` : ''}
+              </Text>
+              <Text style={[styles.tCell, styles.tText]}>{row.subtotal == null ? '—' : row.subtotal.toFixed(2)}</Text>
+            </View>
+          ))}
+          <Text style={styles.total}>
+            {shopping.total == null ? 'Prices unavailable (offline)' : `Total: ${money(shopping.currency, shopping.total)}`}
+          </Text>
+        </View>
+      )}
+
+      {parcels.length > 0 && (
+        <TouchableOpacity onPress={onClear}>
+          <Text style={styles.clear}>Clear all parcels</Text>
+        </TouchableOpacity>
+      )}
+
+      <TouchableOpacity style={styles.button} onPress={onBack}>
+        <Text style={styles.buttonText}>Back</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 23, backgroundColor: '#fff', flexGrow: 1, paddingBottom: 80 },
+  title: { fontSize: 22, fontWeight: 'bold', color: '#2e7d32', marginTop: 30, marginBottom: 4 },
+  subtle: { fontSize: 12, color: '#666', marginBottom: 6 },
+  empty: { textAlign: 'center', color: '#888', marginVertical: 14 },
+  card: { borderWidth: 1, borderColor: '#cfe7d4', borderRadius: 10, padding: 12, marginTop: 12 },
+  cardTitle: { fontSize: 14, fontWeight: 'bold', color: '#1b5e20', marginBottom: 4 },
+  rowBetween: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  remove: { color: '#d32f2f', fontSize: 12 },
+  line: { fontSize: 12, color: '#222', marginTop: 3, lineHeight: 17 },
+  bold: { fontWeight: 'bold' },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    fontSize: 13,
+    marginTop: 8,
+  },
+  smallBtn: { alignSelf: 'flex-start', backgroundColor: '#2e7d32', borderRadius: 8, paddingVertical: 8, paddingHorizontal: 14, marginTop: 10 },
+  smallBtnText: { color: '#fff', fontWeight: 'bold', fontSize: 13 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', marginVertical: 6 },
+  chip: { borderWidth: 1, borderColor: '#2e7d32', borderRadius: 16, paddingVertical: 4, paddingHorizontal: 10, marginRight: 6, marginBottom: 6 },
+  chipOn: { backgroundColor: '#2e7d32' },
+  chipText: { fontSize: 11, color: '#2e7d32' },
+  chipTextOn: { color: '#fff', fontWeight: 'bold' },
+  tRow: { flexDirection: 'row', borderTopWidth: 1, borderColor: '#eee' },
+  tHead: { backgroundColor: '#f7faf7', borderTopWidth: 0, marginTop: 6 },
+  tCell: { flex: 1, paddingVertical: 6, paddingHorizontal: 4, fontSize: 12, textAlign: 'right' },
+  tName: { flex: 1.8, textAlign: 'left' },
+  tText: { fontSize: 12, color: '#222', textAlign: 'right' },
+  tSub: { fontSize: 10, color: '#777', marginTop: 2 },
+  total: { fontSize: 14, fontWeight: 'bold', color: '#1b5e20', textAlign: 'right', marginTop: 8 },
+  clear: { color: '#d32f2f', textAlign: 'center', marginTop: 16, fontSize: 13 },
+  button: { backgroundColor: '#2e7d32', paddingVertical: 14, borderRadius: 50, marginTop: 20, marginBottom: 10 },
+  buttonText: { color: '#fff', fontWeight: 'bold', textAlign: 'center', fontSize: 16 },
+});
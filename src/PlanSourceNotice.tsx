@@ -0,0 +1,61 @@
+// app/src/PlanSourceNotice.tsx
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { PlanSource } from './daRecommend';
+
+type Props = {
+  source: PlanSource | null;
+  /** why the local engine was used (offline, timeout, …) */
+  fallbackReason?: string;
+  /** server vs local differences found after reconnecting */
+  differences?: string[];
+  onUseServer?: () => void;
+};
+
+/** Which engine produced the plans, plus the server re-check result when they disagree. */
+export default function PlanSourceNotice({ source, fallbackReason, differences, onUseServer }: Props) {
+  if (!source) return null;
+
+  return (
+    <View style={styles.wrap}>
+      <Text style={styles.label}>
+        {source === 'server'
+          ? '☁️ Computed by the FertiSense server'
+          : `📱 Computed on this phone${fallbackReason ? ` (${fallbackReason})` : ''}`}
+      </Text>
+
+      {!!differences?.length && (
+        <View style={styles.diffBox}>
+          <Text style={styles.diffTitle}>Server plan differs from this one:</Text>
+          {differences.map((d, i) => (
+            <Text key={i} style={styles.diffLine}>
+              • {d}
+            </Text>
+          ))}
+          {onUseServer && (
+            <TouchableOpacity style={styles.btn} onPress={onUseServer}>
+              <Text style={styles.btnText}>Use server plan</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: { marginBottom: 12 },
+  label: { fontSize: 12, color: '#555', textAlign: 'center' },
+  diffBox: {
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#f0c36d',
+    backgroundColor: '#fff8e6',
+    borderRadius: 10,
+    padding: 12,
+  },
+  diffTitle: { fontSize: 13, fontWeight: 'bold', color: '#8a5a00', marginBottom: 4 },
+  diffLine: { fontSize: 12, color: '#5d4300', lineHeight: 18 },
+  btn: { alignSelf: 'flex-start', marginTop: 8, backgroundColor: '#2e7d32', borderRadius: 8, paddingVertical: 6, paddingHorizontal: 12 },
+  btnText: { color: '#fff', fontSize: 12, fontWeight: 'bold' },
+});
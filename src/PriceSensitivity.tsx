@@ -0,0 +1,181 @@
+// app/src/PriceSensitivity.tsx
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { AdminPricesDoc, DaPlan } from './services';
+import { daPlansAsRecommendPlans } from './daPlans';
+import { adjustPrices, findCheapestFlipPrice, repricePlans } from './fertilizerLogic';
+
+type Props = {
+  plans: DaPlan[];
+  /** admin prices the plans were costed with (baseline) */
+  prices: AdminPricesDoc | null;
+};
+
+const PCT_STEPS = [-20, -10, 0, 10, 20];
+
+const money = (cur: string, n: number) =>
+  `${cur} ${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Collapsible "What if prices change?" — ±% for all products or own price per bag, re-totals every plan. */
+export default function PriceSensitivity({ plans, prices }: Props) {
+  const [open, setOpen] = useState(false);
+  const [pctAll, setPctAll] = useState(0);
+  const [perBagText, setPerBagText] = useState<Record<string, string>>({});
+
+  const base = useMemo(() => daPlansAsRecommendPlans(plans), [plans]);
+
+  const perBag = useMemo(() => {
+    const out: Record<string, number> = {};
+    Object.entries(perBagText).forEach(([k, v]) => {
+      const n = Number(v);
+      if (v.trim() !== '' && Number.isFinite(n) && n >= 0) out[k] = n;
+    });
+    return out;
+  }, [perBagText]);
+
+  const whatIf = useMemo(
+    () => (prices ? repricePlans(base, adjustPrices(prices, { pctAll, perBag })) : []),
+    [base, prices, pctAll, perBag]
+  );
+
+  if (!prices || base.length < 1) return null;
+
+  const cur = String(prices.currency || 'PHP');
+  const labelOf = (code: string | null) => plans.find((p) => String(p.id) === code)?.label ?? code ?? '—';
+  const cheapestOf = (list: typeof base) => (list.length ? list.reduce((a, b) => (b.total < a.total ? b : a)).code : null);
+  const baseCheapest = cheapestOf(base);
+  const newCheapest = cheapestOf(whatIf);
+
+  const products = Array.from(new Map(base.flatMap((p) => p.rows).map((r) => [r.key, r.label])).entries());
+
+  return (
+    <View style={styles.box}>
+      <TouchableOpacity style={styles.header} onPress={() => setOpen((v) => !v)}>
+        <Text style={styles.title}>What if prices change?</Text>
+        <Text style={styles.chevron}>{open ? '▲' : '▼'}</Text>
+      </TouchableOpacity>
+
+      {open && (
+        <View style={styles.body}>
+          <Text style={styles.subTitle}>All products</Text>
+          <View style={styles.chips}>
+            {PCT_STEPS.map((v) => (
+              <TouchableOpacity key={v} style={[styles.chip, pctAll === v && styles.chipOn]} onPress={() => setPctAll(v)}>
+                <Text style={[styles.chipText, pctAll === v && styles.chipTextOn]}>
+                  {v > 0 ? `+${v}` : v}%
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.subTitle}>Price per bag</Text>
+          {products.map(([key, label]) => (
+            <View key={key} style={styles.priceRow}>
+              <Text style={styles.priceLabel} numberOfLines={1}>
+                {label}
+              </Text>
+              <TextInput
+                style={styles.priceInput}
+                keyboardType="numeric"
+                value={perBagText[key] ?? ''}
+                placeholder={String(prices.items?.[key]?.pricePerBag ?? '')}
+                onChangeText={(t) => setPerBagText((prev) => ({ ...prev, [key]: t }))}
+              />
+            </View>
+          ))}
+
+          <View style={[styles.row, styles.headRow]}>
+            <Text style={[styles.cell, styles.planCell, styles.headText]}>Plan</Text>
+            <Text style={[styles.cell, styles.headText]}>Now</Text>
+            <Text style={[styles.cell, styles.headText]}>What if</Text>
+          </View>
+          {base.map((p) => {
+            const w = whatIf.find((x) => x.code === p.code);
+            return (
+              <View key={p.code} style={styles.row}>
+                <Text style={[styles.cell, styles.planCell]} numberOfLines={2}>
+                  {labelOf(p.code)}
+                  {p.code === baseCheapest ? ' ★' : ''}
+                </Text>
+                <Text style={styles.cell}>{money(cur, p.total)}</Text>
+                <Text style={[styles.cell, p.code === newCheapest && styles.bold]}>
+                  {money(cur, w?.total ?? p.total)}
+                  {p.code === newCheapest ? ' ★' : ''}
+                </Text>
+              </View>
+            );
+          })}
+
+          {newCheapest !== baseCheapest && (
+            <Text style={styles.flipNote}>Cheapest plan changes to {labelOf(newCheapest)}.</Text>
+          )}
+
+          <Text style={styles.subTitle}>When does the cheapest plan change?</Text>
+          {products.map(([key, label]) => {
+            const f = findCheapestFlipPrice(whatIf, key);
+            const parts: string[] = [];
+            if (f.above) parts.push(`above ${money(cur, f.above.price)} → ${labelOf(f.above.plan)}`);
+            if (f.below) parts.push(`below ${money(cur, f.below.price)} → ${labelOf(f.below.plan)}`);
+            return (
+              <Text key={key} style={styles.flipLine}>
+                • {label} ({money(cur, f.currentPrice)}/bag): {parts.length ? parts.join('; ') : 'no change at any price'}
+              </Text>
+            );
+          })}
+
+          <TouchableOpacity
+            style={styles.resetBtn}
+            onPress={() => {
+              setPctAll(0);
+              setPerBagText({});
+            }}
+          >
+            <Text style={styles.resetText}>Reset to current prices</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: { borderWidth: 1, borderColor: '#cfe7d4', borderRadius: 10, marginBottom: 16, overflow: 'hidden' },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#eef7ee',
+    padding: 12,
+  },
+  title: { fontSize: 14, fontWeight: 'bold', color: '#1b5e20' },
+  chevron: { fontSize: 12, color: '#1b5e20' },
+  body: { padding: 12 },
+  subTitle: { fontSize: 12, fontWeight: 'bold', color: '#1b5e20', marginTop: 8, marginBottom: 6 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap' },
+  chip: { borderWidth: 1, borderColor: '#2e7d32', borderRadius: 16, paddingVertical: 4, paddingHorizontal: 10, marginRight: 6, marginBottom: 6 },
+  chipOn: { backgroundColor: '#2e7d32' },
+  chipText: { fontSize: 12, color: '#2e7d32' },
+  chipTextOn: { color: '#fff', fontWeight: 'bold' },
+  priceRow: { flexDirection: 'row', alignItems: 'center', marginBottom: 6 },
+  priceLabel: { flex: 1, fontSize: 12, color: '#222' },
+  priceInput: {
+    width: 110,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    fontSize: 12,
+    textAlign: 'right',
+  },
+  row: { flexDirection: 'row', borderTopWidth: 1, borderColor: '#eee' },
+  headRow: { backgroundColor: '#f7faf7', borderTopWidth: 0, marginTop: 8 },
+  cell: { flex: 1, paddingVertical: 6, paddingHorizontal: 6, fontSize: 12, color: '#222', textAlign: 'right' },
+  planCell: { flex: 1.4, textAlign: 'left' },
+  headText: { fontWeight: 'bold', color: '#1b5e20' },
+  bold: { fontWeight: 'bold' },
+  flipNote: { fontSize: 12, fontWeight: 'bold', color: '#8a5a00', marginTop: 8 },
+  flipLine: { fontSize: 12, color: '#555', lineHeight: 18 },
+  resetBtn: { alignSelf: 'flex-start', marginTop: 10 },
+  resetText: { fontSize: 12, color: '#2e7d32', textDecorationLine: 'underline' },
+});
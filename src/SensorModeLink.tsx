@@ -0,0 +1,57 @@
+// app/src/SensorModeLink.tsx
+import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity } from 'react-native';
+import { useAuth } from '../context/AuthContext';
+import { loadSensorSettings, simulatorAllowed, type SensorMode } from './esp32';
+
+type Props = {
+  /** only show something when the simulator is on (reading screens) */
+  hideWhenDevice?: boolean;
+};
+
+/**
+ * "Simulated sensor" pill (or a quiet Developer settings link) that opens the sensor developer settings.
+ * The link is for dev builds and admins; the pill shows for everyone so a simulator left on is never missed.
+ */
+export default function SensorModeLink({ hideWhenDevice }: Props) {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [mode, setMode] = useState<SensorMode | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSensorSettings().then((s) => setMode(s.mode));
+    }, [])
+  );
+
+  if (!mode || (mode === 'device' && (hideWhenDevice || !simulatorAllowed(user?.role)))) return null;
+
+  return (
+    <TouchableOpacity
+      style={mode === 'simulator' ? styles.pill : styles.link}
+      onPress={() => router.push('/dev-settings')}
+    >
+      <Text style={mode === 'simulator' ? styles.pillText : styles.linkText}>
+        {mode === 'simulator' ? '🧪 Simulated sensor — readings are not real' : 'Developer settings'}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  pill: {
+    alignSelf: 'center',
+    backgroundColor: '#fff3e0',
+    borderColor: '#ffb74d',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 5,
+    paddingHorizontal: 12,
+    marginVertical: 8,
+  },
+  pillText: { fontSize: 12, color: '#8a5a00', fontWeight: 'bold' },
+  link: { alignSelf: 'center', marginVertical: 8, padding: 4 },
+  linkText: { fontSize: 12, color: '#888', textDecorationLine: 'underline' },
+});
@@ -0,0 +1,149 @@
+// app/src/SpotReview.tsx
+import React from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import {
+  AGGREGATION_METHODS,
+  SPOT_CHANNELS,
+  type AggregationMethod,
+  type SpotAggregate,
+  type SpotValues,
+} from './spotAggregation';
+
+type Props = {
+  spots: SpotValues[];
+  aggregate: SpotAggregate;
+  method: AggregationMethod;
+  onMethodChange: (m: AggregationMethod) => void;
+  /** index of the spot being re-read */
+  rereadIndex: number | null;
+  onReread: (index: number) => void;
+  onFinalize: () => void;
+};
+
+const HEAD: Record<(typeof SPOT_CHANNELS)[number], string> = { n: 'N', p: 'P', k: 'K', ph: 'pH' };
+
+const CONFIDENCE_LABEL = { high: 'Taas', medium: 'Tunga', low: 'Ubos' } as const;
+
+const fmt = (v?: number) => (typeof v === 'number' ? String(v) : '—');
+
+/** Per-spot values with flagged outliers, re-read buttons and the combined result before saving. */
+export default function SpotReview({ spots, aggregate, method, onMethodChange, rereadIndex, onReread, onFinalize }: Props) {
+  const busy = rereadIndex !== null;
+  const { channels, outlierSpots, confidence } = aggregate;
+
+  return (
+    <View style={styles.box}>
+      <Text style={styles.title}>Susiha ang mga spot</Text>
+      <Text style={styles.subtle}>
+        {outlierSpots.length
+          ? `${outlierSpots.length} ka spot lahi kaayo sa uban (⚠️). Basaha balik o padayon.`
+          : 'Walay spot nga lahi kaayo sa uban.'}
+      </Text>
+
+      <View style={[styles.row, styles.headRow]}>
+        <Text style={[styles.cell, styles.first, styles.head]}>Spot</Text>
+        {SPOT_CHANNELS.map((ch) => (
+          <Text key={ch} style={[styles.cell, styles.head]}>
+            {HEAD[ch]}
+          </Text>
+        ))}
+        <Text style={[styles.action, styles.head]} />
+      </View>
+
+      {spots.map((s, i) => {
+        const flagged = outlierSpots.includes(i);
+        return (
+          <View key={i} style={[styles.row, flagged && styles.flaggedRow]}>
+            <Text style={[styles.cell, styles.first]}>
+              {flagged ? '⚠️ ' : ''}
+              {i + 1}
+            </Text>
+            {SPOT_CHANNELS.map((ch) => (
+              <Text key={ch} style={[styles.cell, channels[ch].outliers.includes(i) && styles.outlier]}>
+                {fmt(s[ch])}
+              </Text>
+            ))}
+            <View style={styles.action}>
+              {flagged &&
+                (rereadIndex === i ? (
+                  <ActivityIndicator size="small" color="#2e7d32" />
+                ) : (
+                  <TouchableOpacity onPress={() => onReread(i)} disabled={busy}>
+                    <Text style={[styles.reread, busy && styles.dim]}>Basaha balik</Text>
+                  </TouchableOpacity>
+                ))}
+            </View>
+          </View>
+        );
+      })}
+
+      <View style={[styles.row, styles.resultRow]}>
+        <Text style={[styles.cell, styles.first, styles.head]}>Resulta</Text>
+        {SPOT_CHANNELS.map((ch) => (
+          <Text key={ch} style={[styles.cell, styles.head]}>
+            {fmt(channels[ch].value)}
+          </Text>
+        ))}
+        <Text style={styles.action} />
+      </View>
+      <View style={styles.row}>
+        <Text style={[styles.cell, styles.first, styles.small]}>CV</Text>
+        {SPOT_CHANNELS.map((ch) => (
+          <Text key={ch} style={[styles.cell, styles.small]}>
+            {channels[ch].cv !== null ? `${channels[ch].cv}%` : '—'}
+          </Text>
+        ))}
+        <Text style={styles.action} />
+      </View>
+
+      <Text style={[styles.confidence, styles[confidence]]}>Kasaligan: {CONFIDENCE_LABEL[confidence]}</Text>
+
+      <View style={styles.chips}>
+        {AGGREGATION_METHODS.map((m) => (
+          <TouchableOpacity
+            key={m.id}
+            style={[styles.chip, method === m.id && styles.chipOn]}
+            onPress={() => onMethodChange(m.id)}
+            disabled={busy}
+          >
+            <Text style={[styles.chipText, method === m.id && styles.chipTextOn]}>{m.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity style={[styles.button, busy && styles.buttonDisabled]} onPress={onFinalize} disabled={busy}>
+        <Text style={styles.buttonText}>Gamita kini nga resulta</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: { width: '100%', backgroundColor: '#fff', borderRadius: 12, padding: 12, marginTop: 14 },
+  title: { fontSize: 15, fontWeight: 'bold', color: '#1b5e20' },
+  subtle: { fontSize: 12, color: '#666', marginTop: 2, marginBottom: 8 },
+  row: { flexDirection: 'row', alignItems: 'center', borderTopWidth: 1, borderColor: '#eee', minHeight: 28 },
+  headRow: { backgroundColor: '#f7faf7', borderTopWidth: 0 },
+  flaggedRow: { backgroundColor: '#fff8e1' },
+  resultRow: { borderTopWidth: 2, borderColor: '#cfe7d4' },
+  cell: { flex: 1, fontSize: 12, color: '#222', textAlign: 'right', paddingHorizontal: 3 },
+  first: { flex: 0.8, textAlign: 'left' },
+  head: { fontWeight: 'bold', color: '#1b5e20' },
+  small: { fontSize: 11, color: '#666' },
+  outlier: { color: '#c62828', fontWeight: 'bold' },
+  action: { width: 84, alignItems: 'flex-end' },
+  reread: { fontSize: 12, color: '#2e7d32', fontWeight: 'bold', textDecorationLine: 'underline' },
+  dim: { opacity: 0.4 },
+  confidence: { fontSize: 13, fontWeight: 'bold', marginTop: 10 },
+  high: { color: '#2e7d32' },
+  medium: { color: '#8a5a00' },
+  low: { color: '#c62828' },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', marginTop: 8 },
+  chip: { borderWidth: 1, borderColor: '#2e7d32', borderRadius: 16, paddingVertical: 4, paddingHorizontal: 10, marginRight: 6, marginBottom: 6 },
+  chipOn: { backgroundColor: '#2e7d32' },
+  chipText: { fontSize: 11, color: '#2e7d32' },
+  chipTextOn: { color: '#fff', fontWeight: 'bold' },
+  button: { backgroundColor: '#2e7d32', borderRadius: 50, paddingVertical: 12, alignItems: 'center', marginTop: 8 },
+  buttonDisabled: { opacity: 0.6 },
+  buttonText: { color: '#fff', fontWeight: 'bold', fontSize: 15 },
+});
@@ -0,0 +1,45 @@
+// app/src/StockSplitTable.tsx
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import type { StockSplitRow } from './services';
+
+type Props = {
+  rows: StockSplitRow[];
+  /** optional code -> display name (e.g. '46-0-0' -> 'Urea') */
+  names?: Record<string, string>;
+};
+
+/** "Use from storage" vs "Buy" per product; hidden when nothing comes from storage. */
+export default function StockSplitTable({ rows, names }: Props) {
+  if (!rows.some(r => r.fromStockBags > 0)) return null;
+
+  return (
+    <View style={styles.box}>
+      <View style={[styles.row, styles.headerRow]}>
+        <Text style={[styles.cell, styles.nameCell, styles.headerText]}>Product</Text>
+        <Text style={[styles.cell, styles.headerText]}>From storage</Text>
+        <Text style={[styles.cell, styles.headerText]}>Buy</Text>
+      </View>
+
+      {rows.map(r => (
+        <View key={r.code} style={styles.row}>
+          <Text style={[styles.cell, styles.nameCell]} numberOfLines={1}>
+            {names?.[r.code] ?? r.label}
+          </Text>
+          <Text style={styles.cell}>{r.fromStockBags.toFixed(2)} bags</Text>
+          <Text style={[styles.cell, r.buyBags > 0 && styles.buyText]}>{r.buyBags.toFixed(2)} bags</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: { borderTopWidth: 1, borderColor: '#ddd' },
+  row: { flexDirection: 'row', borderTopWidth: 1, borderColor: '#eee' },
+  headerRow: { backgroundColor: '#f7faf7', borderTopWidth: 0 },
+  cell: { flex: 1, paddingVertical: 8, paddingHorizontal: 10, fontSize: 12, color: '#222', textAlign: 'center' },
+  nameCell: { flex: 1.4, textAlign: 'left' },
+  headerText: { fontWeight: 'bold', color: '#1b5e20' },
+  buyText: { fontWeight: 'bold' },
+});
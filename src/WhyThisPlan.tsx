@@ -0,0 +1,60 @@
+// app/src/WhyThisPlan.tsx
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { TraceStep } from './services';
+
+type Props = {
+  steps: TraceStep[];
+  title?: string;
+};
+
+const KIND_ICON: Record<TraceStep['kind'], string> = {
+  rating: '📟',
+  target: '🎯',
+  credit: '🌿',
+  productChoice: '🏷️',
+  bags: '🧮',
+  rounding: '🔁',
+  overshoot: '📊',
+};
+
+/** Collapsible "Why this plan?" list for a recommendation's trace steps. */
+export default function WhyThisPlan({ steps, title = 'Why this plan?' }: Props) {
+  const [open, setOpen] = useState(false);
+  if (!steps.length) return null;
+
+  return (
+    <View style={styles.box}>
+      <TouchableOpacity style={styles.header} onPress={() => setOpen(v => !v)}>
+        <Text style={styles.title}>{title}</Text>
+        <Text style={styles.chevron}>{open ? '▲' : '▼'}</Text>
+      </TouchableOpacity>
+
+      {open &&
+        steps.map((s, i) => (
+          <View key={`${s.kind}-${i}`} style={styles.step}>
+            <Text style={styles.stepTitle}>
+              {KIND_ICON[s.kind]} {s.title}
+            </Text>
+            <Text style={styles.stepDetail}>{s.detail}</Text>
+          </View>
+        ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: { borderWidth: 1, borderColor: '#cfe7d4', borderRadius: 10, marginBottom: 16, overflow: 'hidden' },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#eef7ee',
+    padding: 12,
+  },
+  title: { fontSize: 14, fontWeight: 'bold', color: '#1b5e20' },
+  chevron: { fontSize: 12, color: '#1b5e20' },
+  step: { paddingHorizontal: 12, paddingVertical: 8, borderTopWidth: 1, borderColor: '#e6efe7' },
+  stepTitle: { fontSize: 12, fontWeight: 'bold', color: '#222' },
+  stepDetail: { fontSize: 12, color: '#555', marginTop: 2, lineHeight: 17 },
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildCropRecommendation, extractProducts, solveWithinBudget } from '../fertilizerLogic';
+import type { AdminPricesDoc } from '../services';
+
+const item = (label: string, pricePerBag: number, N: number, P: number, K: number) => ({
+  label,
+  pricePerBag,
+  bagKg: 50,
+  npk: { N, P, K },
+  active: true,
+});
+
+const PRICES: AdminPricesDoc = {
+  currency: 'PHP',
+  items: {
+    UREA_46_0_0: item('Urea (46-0-0)', 1530, 46, 0, 0),
+    DAP_18_46_0: item('DAP (18-46-0)', 2380, 18, 46, 0),
+    MOP_0_0_60: item('MOP (0-0-60)', 1345, 0, 0, 60),
+  },
+};
+
+const INVENTORY = extractProducts(PRICES);
+const REQ = { N: 100, P: 40, K: 60 };
+const RATINGS = { N: 'L', P: 'M', K: 'H' } as const;
+
+describe('solveWithinBudget', () => {
+  it('spends an infeasible budget on the most limiting nutrient and reports the shortfall', () => {
+    const { plan, shortfall, yieldPenaltyKg } = solveWithinBudget(REQ, INVENTORY, 2000, RATINGS);
+    expect(plan.totalCost).toBeLessThanOrEqual(2000);
+    // Low-rated N has the highest weighted return per peso, so urea takes the whole budget
+    expect(plan.rows.map((r) => [r.product.code, r.bags])).toEqual([['UREA_46_0_0', 1.3]]);
+    expect(shortfall).toEqual({ N: 70.1, P: 40, K: 60 });
+    expect(yieldPenaltyKg).toBe(Math.round(70.1 * 20 + 40 * 10 + 60 * 6));
+  });
+
+  it('buys nothing without a budget', () => {
+    const { plan, shortfall } = solveWithinBudget(REQ, INVENTORY, 0, RATINGS);
+    expect(plan.rows).toEqual([]);
+    expect(plan.totalCost).toBe(0);
+    expect(shortfall).toEqual(REQ);
+  });
+
+  it('rounds down to whole bags and stays within the budget', () => {
+    const { plan, shortfall } = solveWithinBudget(REQ, INVENTORY, 4000, RATINGS, 'wholeBag');
+    expect(plan.rows.map((r) => [r.product.code, r.bags, r.leftoverKg])).toEqual([['UREA_46_0_0', 2, 0]]);
+    expect(plan.totalCost).toBe(3060);
+    expect(shortfall.N).toBe(54);
+  });
+});
+
+describe('budget mode in buildCropRecommendation', () => {
+  const base = { nPpm: 80, pPpm: 200, kPpm: 100, areaHa: 1, crop: 'rice' as const, pricesDoc: PRICES };
+
+  it('leads with a within-budget plan when no full plan fits', () => {
+    const resp = buildCropRecommendation({ ...base, maxBudget: 3000 });
+    expect(resp.budget).toMatchObject({ maxBudget: 3000, withinBudget: false, planCode: 'opt_budget' });
+    expect(resp.plans[0].code).toBe('opt_budget');
+    expect(resp.plans[0].total).toBeLessThanOrEqual(3000);
+    expect(resp.plans.slice(1).every((p) => p.overBudget)).toBe(true);
+  });
+
+  it('keeps the full plans when the cheapest one fits', () => {
+    const resp = buildCropRecommendation({ ...base, maxBudget: 1_000_000 });
+    expect(resp.budget).toEqual({
+      maxBudget: 1_000_000,
+      withinBudget: true,
+      planCode: null,
+      shortfallKg: { N: 0, P: 0, K: 0 },
+      yieldPenaltyKg: 0,
+    });
+    expect(resp.plans.some((p) => p.code === 'opt_budget')).toBe(false);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  applyFit,
+  calibrateValues,
+  fitChannel,
+  fitLinear,
+  fitPiecewise,
+  type CalibrationProfile,
+  type CalibrationSample,
+} from '../calibration';
+
+const sample = (id: string, probeN: number, labN: number): CalibrationSample => ({
+  id,
+  probe: { n: probeN },
+  lab: { n: labN },
+});
+
+describe('fitLinear', () => {
+  it('recovers gain and offset from points on a line', () => {
+    const fit = fitLinear([
+      { probe: 10, lab: 25 },
+      { probe: 20, lab: 45 },
+      { probe: 40, lab: 85 },
+    ]);
+    expect(fit?.gain).toBeCloseTo(2);
+    expect(fit?.offset).toBeCloseTo(5);
+    expect(fit?.r2).toBeCloseTo(1);
+    expect(fit?.pairs).toBe(3);
+  });
+
+  it('falls back to an offset-only correction for one pair or no probe spread', () => {
+    expect(fitLinear([{ probe: 10, lab: 14 }])).toEqual({ method: 'linear', gain: 1, offset: 4, r2: null, pairs: 1 });
+    expect(
+      fitLinear([
+        { probe: 10, lab: 12 },
+        { probe: 10, lab: 16 },
+      ])
+    ).toEqual({ method: 'linear', gain: 1, offset: 4, r2: null, pairs: 2 });
+    expect(fitLinear([])).toBeNull();
+  });
+});
+
+describe('fitChannel', () => {
+  it('accepts a good fit without warnings', () => {
+    const { fit, warnings } = fitChannel([sample('a', 10, 12), sample('b', 20, 23), sample('c', 30, 35)], 'n', 'linear');
+    expect(fit?.method).toBe('linear');
+    expect(warnings).toEqual([]);
+  });
+
+  it('warns when the gain is outside GAIN_RANGE', () => {
+    const steep = fitChannel([sample('a', 10, 50), sample('b', 20, 100)], 'n', 'linear');
+    expect(steep.warnings).toEqual(['Gain 5.00 is outside 0.25–4; check the pairs.']);
+
+    const flat = fitChannel([sample('a', 10, 10), sample('b', 50, 14)], 'n', 'linear');
+    expect(flat.warnings).toEqual(['Gain 0.10 is outside 0.25–4; check the pairs.']);
+  });
+
+  it('warns on a poor fit below the minimum R²', () => {
+    const { warnings } = fitChannel(
+      [sample('a', 10, 20), sample('b', 20, 10), sample('c', 30, 40), sample('d', 40, 20)],
+      'n',
+      'linear'
+    );
+    expect(warnings).toContain('Poor fit (R² 0.09); add more samples.');
+  });
+
+  it('warns about a single sample and about piecewise without two probe values', () => {
+    expect(fitChannel([sample('a', 10, 14)], 'n', 'linear').warnings).toEqual([
+      'One sample only: offset correction, no gain.',
+    ]);
+    expect(fitChannel([sample('a', 10, 14)], 'n', 'piecewise')).toEqual({
+      fit: null,
+      warnings: ['Piecewise needs two samples with different probe values.'],
+    });
+  });
+});
+
+describe('applyFit', () => {
+  it('never returns a negative value', () => {
+    expect(applyFit({ method: 'linear', gain: 1, offset: -20, r2: null, pairs: 1 }, 5)).toBe(0);
+    const pw = fitPiecewise([
+      { probe: 10, lab: 5 },
+      { probe: 20, lab: 25 },
+    ]);
+    expect(applyFit(pw!, 0)).toBe(0);
+  });
+
+  it('interpolates piecewise and extends the end segments', () => {
+    const pw = fitPiecewise([
+      { probe: 30, lab: 40 },
+      { probe: 10, lab: 10 },
+      { probe: 20, lab: 20 },
+      { probe: 20, lab: 30 },
+    ])!;
+    expect(pw.points).toEqual([
+      { probe: 10, lab: 10 },
+      { probe: 20, lab: 25 },
+      { probe: 30, lab: 40 },
+    ]);
+    expect(applyFit(pw, 15)).toBeCloseTo(17.5);
+    expect(applyFit(pw, 5)).toBeCloseTo(2.5);
+    expect(applyFit(pw, 40)).toBeCloseTo(55);
+  });
+});
+
+describe('calibrateValues', () => {
+  it('corrects fitted channels only and rounds per channel', () => {
+    const profile: CalibrationProfile = {
+      deviceKey: 'id:abc',
+      deviceName: 'Kit',
+      updatedAt: 0,
+      samples: [],
+      channels: {
+        n: { method: 'linear', gain: 1.5, offset: 0.04, r2: 1, pairs: 3 },
+        ph: { method: 'linear', gain: 1, offset: -0.333, r2: null, pairs: 1 },
+      },
+    };
+    expect(calibrateValues({ n: 10, p: 7, k: 90, ph: 6.5 }, profile)).toEqual({ n: 15, p: 7, k: 90, ph: 6.17 });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyCarryOver, pickPreviousSeason, toPriorSeason, type PriorSeason } from '../carryOver';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-10-01T00:00:00Z');
+
+const serverReading = (daysAgo: number, extra: Record<string, any> = {}) => ({
+  _id: `r${daysAgo}`,
+  createdAt: new Date(NOW - daysAgo * DAY_MS).toISOString(),
+  n_value: 10,
+  p_value: 20,
+  k_value: 100,
+  ...extra,
+});
+
+const prior = (appliedKgHa: PriorSeason['appliedKgHa']): PriorSeason => ({
+  id: 'r120',
+  ts: NOW - 120 * DAY_MS,
+  date: 'June 3, 2026',
+  ppm: { N: 10, P: 20, K: 100 },
+  targetKgHa: { N: 90, P: 30, K: 30 },
+  appliedKgHa,
+});
+
+describe('toPriorSeason', () => {
+  it('reads the applied N / P / K from the selected plan snapshot', () => {
+    const p = toPriorSeason(
+      serverReading(120, {
+        neededKgHa: { N: 90, P: 30, K: 30 },
+        plansSnapshot: [
+          { id: 'a', label: 'Plan A', schedule: { basal: [{ code: '0-0-60', bags: 1 }] } },
+          { id: 'b', label: 'Plan B', schedule: { basal: [{ code: '18-46-0', bags: 2 }] } },
+        ],
+        selectedPlanId: 'b',
+      })
+    );
+    expect(p).toMatchObject({
+      id: 'r120',
+      ts: NOW - 120 * DAY_MS,
+      ppm: { N: 10, P: 20, K: 100 },
+      targetKgHa: { N: 90, P: 30, K: 30 },
+      appliedKgHa: { N: 18, P: 46, K: 0 },
+      planLabel: 'Plan B',
+    });
+  });
+
+  it('takes the timestamp from a local id and keeps a missing plan as null', () => {
+    const p = toPriorSeason({ id: `reading_${NOW}_abc`, N: 5, P: 6, K: 7 });
+    expect(p).toMatchObject({ ts: NOW, ppm: { N: 5, P: 6, K: 7 }, targetKgHa: null, appliedKgHa: null });
+  });
+
+  it('skips simulator readings and readings without N / P / K', () => {
+    expect(toPriorSeason(serverReading(120, { simulated: true }))).toBeNull();
+    expect(toPriorSeason(serverReading(120, { source: 'simulator' }))).toBeNull();
+    expect(toPriorSeason(serverReading(120, { n_value: 0, p_value: 0, k_value: 0 }))).toBeNull();
+  });
+});
+
+describe('pickPreviousSeason', () => {
+  it('picks the latest reading at least a season old', () => {
+    const picked = pickPreviousSeason([serverReading(10), serverReading(200), serverReading(100)], NOW);
+    expect(picked?.id).toBe('r100');
+  });
+
+  it('counts the local and server copy of a reading once', () => {
+    const local = { id: `reading_${NOW - 100 * DAY_MS}_x`, N: 10, P: 20, K: 100 };
+    const picked = pickPreviousSeason([local, serverReading(100)], NOW);
+    expect(picked?.id).toBe(local.id);
+  });
+
+  it('returns null when every reading is from this season', () => {
+    expect(pickPreviousSeason([serverReading(10), serverReading(74)], NOW)).toBeNull();
+  });
+});
+
+describe('applyCarryOver', () => {
+  const tableKgHa = { N: 90, P: 30, K: 30 };
+
+  it('credits half the P surplus and caps the K cut at 30% of the target', () => {
+    const co = applyCarryOver({ tableKgHa, ppm: { N: 8, P: 25, K: 110 }, prior: prior({ N: 90, P: 46, K: 90 }) });
+    expect(co.deltaPpm).toEqual({ N: -2, P: 5, K: 10 });
+    expect(co.adjustedKgHa).toEqual({ N: 90, P: 22, K: 21 });
+    expect(co.adjustments).toEqual([
+      {
+        nutrient: 'P',
+        fromKg: 30,
+        toKg: 22,
+        reason: '46 kg/ha applied vs 30 kg/ha target (+16 kg) and the reading rose 5 ppm — 50% of the surplus credited.',
+      },
+      expect.objectContaining({ nutrient: 'K', fromKg: 30, toKg: 21 }),
+    ]);
+    expect(co.adjustments[1].reason).toContain('(capped at 30% of the target)');
+    expect(co.notes).toEqual(['N: not carried over — nitrogen does not stay in the soil between seasons.']);
+  });
+
+  it('keeps the full target without a build-up or a rise in the reading', () => {
+    const co = applyCarryOver({ tableKgHa, ppm: { N: 10, P: 20, K: 90 }, prior: prior({ N: 90, P: 34, K: 60 }) });
+    expect(co.adjustedKgHa).toEqual(tableKgHa);
+    expect(co.adjustments).toEqual([]);
+    expect(co.notes.slice(1)).toEqual([
+      'P: 34 kg/ha applied vs 30 kg/ha target — no build-up, full target kept.',
+      'K: heavy application last season but the reading did not rise (-10 ppm) — full target kept.',
+    ]);
+  });
+
+  it('keeps the full target when last season has no saved plan', () => {
+    const co = applyCarryOver({ tableKgHa, ppm: { N: 10, P: 40, K: 150 }, prior: prior(null) });
+    expect(co.adjustedKgHa).toEqual(tableKgHa);
+    expect(co.notes).toContain("P: last season's plan was not saved — full target kept.");
+  });
+});
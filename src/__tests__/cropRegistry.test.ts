@@ -0,0 +1,25 @@
+import { describe, expect, it } from '@jest/globals';
+import { CROP_REGISTRY, getCropTargetKgPerHa, resolveCrop } from '../fertilizerLogic';
+
+describe('resolveCrop', () => {
+  it('falls back to rice for unknown and inherited names', () => {
+    ['maize', 'constructor', 'toString', '__proto__', '', null, undefined].forEach((crop) => {
+      expect(resolveCrop(crop).spec).toBe(CROP_REGISTRY.rice);
+    });
+  });
+
+  it("falls back to the crop's default variety", () => {
+    expect(resolveCrop('corn', 'hybrid').variety).toBe('yellowHybrid');
+    expect(resolveCrop('corn', 'whiteOpv').variety).toBe('whiteOpv');
+  });
+});
+
+describe('getCropTargetKgPerHa', () => {
+  it('reads the corn table by rating', () => {
+    expect(getCropTargetKgPerHa('corn', 'yellowHybrid', 'light', 'wet', 'L', 'M', 'H')).toEqual({
+      Nkg: 160,
+      Pkg: 40,
+      Kkg: 30,
+    });
+  });
+});
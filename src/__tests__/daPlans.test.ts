@@ -0,0 +1,79 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildDaPlans } from '../daPlans';
+import {
+  CROP_REGISTRY,
+  getCropTargetKgPerHa,
+  getNSplit,
+  type CropId,
+  type NutrientRating,
+  type Season,
+  type SoilClass,
+} from '../fertilizerLogic';
+import type { AdminPricesDoc, DaPlan, DaScheduleLine } from '../services';
+
+const item = (label: string, pricePerBag: number, N: number, P: number, K: number) => ({
+  label,
+  pricePerBag,
+  bagKg: 50,
+  npk: { N, P, K },
+  active: true,
+});
+
+// admin price editor defaults (same fixture as lpSolver.test.ts)
+const PRICES: AdminPricesDoc = {
+  currency: 'PHP',
+  items: {
+    UREA_46_0_0: item('Urea (46-0-0)', 1530, 46, 0, 0),
+    DAP_18_46_0: item('DAP (18-46-0)', 2380, 18, 46, 0),
+    MOP_0_0_60: item('MOP (0-0-60)', 1345, 0, 0, 60),
+    NPK_14_14_14: item('Complete (14-14-14)', 1435, 14, 14, 14),
+    NPK_16_20_0: item('Ammophos (16-20-0)', 1335, 16, 20, 0),
+    AMMOSUL_21_0_0: item('Ammosul (21-0-0)', 680, 21, 0, 0),
+  },
+};
+
+const RATINGS: NutrientRating[] = ['L', 'M', 'H'];
+const SOILS: SoilClass[] = ['light', 'medHeavy'];
+const SEASONS: Season[] = ['wet', 'dry'];
+
+const lines = (l?: DaScheduleLine[]) => (l ?? []).map((x) => `${x.bags} ${x.code}`).join(' + ') || '-';
+
+// one line per plan: phases, cost and supplied-vs-target, so a diff shows exactly what moved
+const describePlan = (p: DaPlan) =>
+  [
+    `${p.id}${p.isCheapest ? ' *' : ''}`,
+    `basal ${lines(p.schedule.basal)}`,
+    `30DAT ${lines(p.schedule.after30DAT)}`,
+    `topdress ${lines(p.schedule.topdress60DBH)}`,
+    `${p.cost?.currency} ${p.cost?.total}`,
+    `N ${p.balance?.supplied.N}/${p.balance?.target.N} P ${p.balance?.supplied.P}/${p.balance?.target.P} K ${p.balance?.supplied.K}/${p.balance?.target.K}`,
+  ].join(' | ');
+
+describe('buildDaPlans golden output', () => {
+  (Object.keys(CROP_REGISTRY) as CropId[]).forEach((crop) => {
+    CROP_REGISTRY[crop].varieties.forEach(({ id: variety }) => {
+      it(`matches the golden plans for ${crop} ${variety}`, () => {
+        const golden: Record<string, string[]> = {};
+        SOILS.forEach((soilClass) =>
+          SEASONS.forEach((season) =>
+            RATINGS.forEach((n) =>
+              RATINGS.forEach((p) =>
+                RATINGS.forEach((k) => {
+                  const t = getCropTargetKgPerHa(crop, variety, soilClass, season, n, p, k);
+                  const plans = buildDaPlans({
+                    prices: PRICES,
+                    reqKgHa: { N: t.Nkg, P: t.Pkg, K: t.Kkg },
+                    areaHa: 1,
+                    nSplit: getNSplit(crop, variety, season),
+                  });
+                  golden[`${soilClass} ${season} N${n} P${p} K${k}`] = plans.map(describePlan);
+                })
+              )
+            )
+          )
+        );
+        expect(golden).toMatchSnapshot();
+      });
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { parseSensorPayload } from '../esp32';
+
+// esp32.ts pulls in native storage; the package ships this mock for Jest
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const V1 = { n: 20, p: 12, k: 150, ph: 6.2, ec: 1.1 };
+const V2 = { ...V1, n_kg_ha: 40, p_kg_ha: 24, k_kg_ha: 300, levels: { n: 'low', p: 'MEDIUM', k: 'HIGH' } };
+const V3 = { ...V2, moisture: 42, temp: 28 };
+
+describe('parseSensorPayload versions', () => {
+  it('infers the version from the fields present', () => {
+    expect(parseSensorPayload(V1).reading?.version).toBe(1);
+    expect(parseSensorPayload(V2).reading?.version).toBe(2);
+    expect(parseSensorPayload(V3).reading?.version).toBe(3);
+  });
+
+  it('uses a declared version over the fields', () => {
+    const { reading, warnings } = parseSensorPayload({ ...V1, v: 3 });
+    expect(reading?.version).toBe(3);
+    expect(warnings).toEqual([
+      'Moisture is missing.',
+      'Temperature is missing.',
+      'kg/ha values are missing.',
+      'Levels are missing; computed from ppm.',
+    ]);
+  });
+
+  it('infers from the fields when the declared version is unknown', () => {
+    const { reading, warnings } = parseSensorPayload({ ...V2, version: 7 });
+    expect(reading?.version).toBe(2);
+    expect(warnings).toEqual(['Unknown payload version "7"; parsed by its fields.']);
+  });
+
+  it('caps the inferred version at the /info hint', () => {
+    expect(parseSensorPayload(V3, { version: 2 }).reading?.version).toBe(2);
+    expect(parseSensorPayload(V1, { version: 3 }).reading?.version).toBe(1);
+  });
+
+  it('reads a v3 payload without warnings', () => {
+    const { reading, warnings } = parseSensorPayload(JSON.stringify({ ...V3, ts: 1000 }));
+    expect(warnings).toEqual([]);
+    expect(reading).toMatchObject({
+      ts: 1000,
+      n: 20,
+      ph: 6.2,
+      moisture: 42,
+      temp: 28,
+      kgHa: { n: 40, p: 24, k: 300 },
+      levels: { n: 'LOW', p: 'MEDIUM', k: 'HIGH' },
+    });
+  });
+});
+
+describe('parseSensorPayload warnings', () => {
+  it('converts EC reported in µS/cm', () => {
+    const { reading, warnings } = parseSensorPayload({ ...V1, ec: 1500 });
+    expect(reading?.ec).toBe(1.5);
+    expect(warnings).toEqual(['EC 1500 looks like µS/cm; converted to 1.5 mS/cm.']);
+  });
+
+  it('drops optional values that are out of range or not numbers', () => {
+    const { reading, warnings } = parseSensorPayload({ ...V3, ph: 12, temp: 'hot' });
+    expect(reading?.ph).toBeUndefined();
+    expect(reading?.temp).toBeUndefined();
+    expect(warnings).toEqual(['pH = 12 is outside 3–9; ignored.', 'Temperature is not a number; ignored.']);
+  });
+
+  it('recomputes unknown levels from ppm', () => {
+    const { reading, warnings } = parseSensorPayload({ ...V2, levels: { n: 'LOW', p: 'SO-SO', k: 'HIGH' } });
+    expect(reading?.levels).toEqual({ n: 'LOW', p: undefined, k: 'HIGH' });
+    expect(warnings).toEqual(['Unknown level for P; recomputed from ppm.']);
+  });
+});
+
+describe('parseSensorPayload errors', () => {
+  it('classifies unusable responses', () => {
+    expect(parseSensorPayload('{not json').error?.kind).toBe('malformed');
+    expect(parseSensorPayload([]).error?.kind).toBe('malformed');
+    expect(parseSensorPayload({ ok: false, error: 'RS485 timeout' }).error).toEqual({
+      kind: 'sensor',
+      message: 'RS485 timeout',
+    });
+    expect(parseSensorPayload({ ...V1, n: 0, p: 0, k: 0 }).error?.kind).toBe('not-inserted');
+    expect(parseSensorPayload({ ...V1, k: 2500 }).error?.message).toBe(
+      'K = 2500 is outside the probe range (0–1999 mg/kg).'
+    );
+    expect(parseSensorPayload({ ...V1, p: 'n/a' }).error?.message).toBe('P is missing or not a number.');
+  });
+});
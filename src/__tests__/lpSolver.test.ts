@@ -0,0 +1,151 @@
+import { describe, expect, it } from '@jest/globals';
+import { solveLinearProgram } from '../lpSolver';
+import {
+  buildRiceRecommendation,
+  extractProducts,
+  solveLeastCost,
+  type NutrientRating,
+  type PurchaseMode,
+  type RiceVariety,
+  type Season,
+  type SoilClass,
+} from '../fertilizerLogic';
+import type { AdminPricesDoc } from '../services';
+
+const item = (label: string, pricePerBag: number, N: number, P: number, K: number) => ({
+  label,
+  pricePerBag,
+  bagKg: 50,
+  npk: { N, P, K },
+  active: true,
+});
+
+// same products and prices as the admin price editor defaults
+const DEFAULT_PRICES: AdminPricesDoc = {
+  currency: 'PHP',
+  items: {
+    UREA_46_0_0: item('Urea (46-0-0)', 1530, 46, 0, 0),
+    DAP_18_46_0: item('DAP (18-46-0)', 2380, 18, 46, 0),
+    MOP_0_0_60: item('MOP (0-0-60)', 1345, 0, 0, 60),
+    NPK_14_14_14: item('Complete (14-14-14)', 1435, 14, 14, 14),
+    NPK_16_20_0: item('Ammophos (16-20-0)', 1335, 16, 20, 0),
+    AMMOSUL_21_0_0: item('Ammosul (21-0-0)', 680, 21, 0, 0),
+  },
+};
+
+const PRICE_SETS: Record<string, AdminPricesDoc> = {
+  default: DEFAULT_PRICES,
+  'cheap complete': {
+    ...DEFAULT_PRICES,
+    items: { ...DEFAULT_PRICES.items, NPK_14_14_14: item('Complete (14-14-14)', 900, 14, 14, 14) },
+  },
+  'expensive urea': {
+    ...DEFAULT_PRICES,
+    items: { ...DEFAULT_PRICES.items, UREA_46_0_0: item('Urea (46-0-0)', 2600, 46, 0, 0) },
+  },
+};
+
+// ppm readings that land in Low / Medium / High for the built-in thresholds
+const PPM: Record<NutrientRating, { N: number; P: number; K: number }> = {
+  L: { N: 80, P: 200, K: 100 },
+  M: { N: 120, P: 330, K: 250 },
+  H: { N: 200, P: 400, K: 450 },
+};
+
+const RATINGS: NutrientRating[] = ['L', 'M', 'H'];
+const VARIETIES: RiceVariety[] = ['hybrid', 'inbred'];
+const SOILS: SoilClass[] = ['light', 'medHeavy'];
+const SEASONS: Season[] = ['wet', 'dry'];
+const MODES: PurchaseMode[] = ['exact', 'halfBag', 'wholeBag', 'kgLoose'];
+
+describe('solveLinearProgram', () => {
+  it('finds the cheapest mix that meets two lower bounds', () => {
+    // min 2x + 3y  s.t.  x + y >= 4,  x + 3y >= 6
+    const res = solveLinearProgram({
+      objective: [2, 3],
+      constraints: [
+        { coeffs: [1, 1], op: '>=', rhs: 4 },
+        { coeffs: [1, 3], op: '>=', rhs: 6 },
+      ],
+    });
+    expect(res.status).toBe('optimal');
+    expect(res.objective).toBeCloseTo(9);
+    expect(res.x[0]).toBeCloseTo(3);
+    expect(res.x[1]).toBeCloseTo(1);
+  });
+
+  it('reports infeasible and unbounded problems', () => {
+    expect(
+      solveLinearProgram({
+        objective: [1],
+        constraints: [
+          { coeffs: [1], op: '>=', rhs: 5 },
+          { coeffs: [1], op: '<=', rhs: 2 },
+        ],
+      }).status
+    ).toBe('infeasible');
+    expect(
+      solveLinearProgram({ objective: [1], constraints: [{ coeffs: [1], op: '>=', rhs: 1 }], maximize: true }).status
+    ).toBe('unbounded');
+  });
+});
+
+describe('solveLeastCost', () => {
+  const inventory = extractProducts(DEFAULT_PRICES);
+
+  it('meets every target', () => {
+    const plan = solveLeastCost(90, 50, 50, inventory);
+    expect(plan.supplied.N).toBeGreaterThanOrEqual(90 - 1e-6);
+    expect(plan.supplied.P).toBeGreaterThanOrEqual(50 - 1e-6);
+    expect(plan.supplied.K).toBeGreaterThanOrEqual(50 - 1e-6);
+  });
+
+  it('keeps each nutrient within the overshoot tolerance when that is possible', () => {
+    const plan = solveLeastCost(90, 50, 50, inventory, { overshootTolerance: 0.1 });
+    expect(plan.supplied.N).toBeLessThanOrEqual(90 * 1.1 + 0.5);
+    expect(plan.supplied.P).toBeLessThanOrEqual(50 * 1.1 + 0.5);
+    expect(plan.supplied.K).toBeLessThanOrEqual(50 * 1.1 + 0.5);
+  });
+
+  it('buys whole bags in wholeBag mode', () => {
+    const plan = solveLeastCost(90, 50, 50, inventory, { purchaseMode: 'wholeBag' });
+    plan.rows.forEach((r) => expect(Number.isInteger(r.bags)).toBe(true));
+  });
+});
+
+describe('Optimal option', () => {
+  Object.entries(PRICE_SETS).forEach(([priceName, pricesDoc]) => {
+    MODES.forEach((purchaseMode) => {
+      it(`never costs more than options A–E (${priceName} prices, ${purchaseMode})`, () => {
+        VARIETIES.forEach((variety) =>
+          SOILS.forEach((soilClass) =>
+            SEASONS.forEach((season) =>
+              RATINGS.forEach((n) =>
+                RATINGS.forEach((p) =>
+                  RATINGS.forEach((k) => {
+                    const resp = buildRiceRecommendation({
+                      nPpm: PPM[n].N,
+                      pPpm: PPM[p].P,
+                      kPpm: PPM[k].K,
+                      areaHa: 1.5,
+                      variety,
+                      soilClass,
+                      season,
+                      purchaseMode,
+                      pricesDoc,
+                    });
+                    const optimal = resp.plans.find((pl) => pl.code === 'opt_lp_optimal');
+                    expect(optimal).toBeDefined();
+                    resp.plans.forEach((pl) => {
+                      expect(optimal!.total ?? 0).toBeLessThanOrEqual((pl.total ?? 0) + 1e-6);
+                    });
+                  })
+                )
+              )
+            )
+          )
+        );
+      });
+    });
+  });
+});
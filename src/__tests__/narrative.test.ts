@@ -0,0 +1,135 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  buildNarrative,
+  buildNarratives,
+  daNarratives,
+  formatMoney,
+  formatNumber,
+  isNarrativeLang,
+  narrativeForSave,
+  type NarrativeInput,
+} from '../narrative';
+import type { DaPlan } from '../services';
+
+const INPUT: NarrativeInput = {
+  ratings: { N: 'L', P: 'M', K: 'H' },
+  ppm: { N: 12.34, P: 20, K: 150 },
+  targetsKgHa: { N: 120, P: 40, K: 30 },
+  areaHa: 1.5,
+  crop: 'rice',
+  season: 'wet',
+  cheapest: { label: 'Urea + DAP', total: 12500, currency: 'PHP' },
+  schedule: {
+    basal: [
+      { label: 'Complete Fertilizer', bags: 4 },
+      { label: 'Urea', bags: 0 },
+    ],
+    topdress60DBH: [{ label: 'Urea', bags: 1.25 }],
+  },
+};
+
+const daPlan = (id: string, basal: { code: string; bags: number }[], total: number, isCheapest = false): DaPlan => ({
+  id,
+  title: id,
+  label: `Plan ${id}`,
+  isCheapest,
+  schedule: { organic: [], basal, after30DAT: [], topdress60DBH: [] },
+  cost: { currency: 'PHP', rows: [], total },
+});
+
+describe('formatNumber / formatMoney', () => {
+  it('groups thousands and trims trailing zeros unless fixed', () => {
+    expect(formatNumber(-1234.5, 'en', 2)).toBe('-1,234.5');
+    expect(formatNumber(-1234.5, 'en', 2, true)).toBe('-1,234.50');
+    expect(formatNumber(NaN, 'tl')).toBe('0');
+  });
+
+  it('uses the peso sign in Bisaya / Tagalog and the ISO code in English', () => {
+    expect(formatMoney(12500, 'PHP', 'ceb')).toBe('₱12,500.00');
+    expect(formatMoney(12500, 'php', 'en')).toBe('PHP 12,500.00');
+    expect(formatMoney(99.5, 'USD', 'tl')).toBe('USD 99.50');
+  });
+});
+
+describe('buildNarrative', () => {
+  it('explains ratings, targets, the cheapest option and timing', () => {
+    expect(buildNarrative(INPUT, 'en')).toBe(
+      [
+        'Soil test: Nitrogen (N) is low (12.3 ppm), Phosphorus (P) is medium (20 ppm), Potassium (K) is high (150 ppm).',
+        'For rice (wet season) on 1.5 ha, apply 120 kg N, 40 kg P and 30 kg K per hectare (180 kg N, 60 kg P and 45 kg K in total).',
+        'Cheapest option: Urea + DAP — PHP 12,500.00.',
+        'When to apply: At planting: 4 bag(s) Complete Fertilizer; Top dress (60 days before harvest): 1.25 bag(s) Urea.',
+      ].join(' ')
+    );
+  });
+
+  it('adds budget, amendment and advisory sentences when present', () => {
+    const text = buildNarrative(
+      {
+        ...INPUT,
+        schedule: null,
+        budget: {
+          maxBudget: 5000,
+          fullTotal: 12500,
+          shortfallKg: { N: 30, P: 0, K: 0 },
+          yieldPenaltyKg: 600,
+          currency: 'PHP',
+        },
+        amendment: { kind: 'lime', tonsPerHa: 1.5, totalTons: 2.25, productLabel: 'Agricultural Lime', bags: 45 },
+        advisories: [{ nutrient: 'Zn', severity: 'possible', kgPerHa: 5, productLabel: null, bags: null }],
+      },
+      'en'
+    );
+    expect(text).toContain('A budget of PHP 5,000.00 cannot cover the full plan (PHP 12,500.00).');
+    expect(text).toContain('short 30 kg N, 0 kg P and 0 kg K (about 600 kg less grain)');
+    expect(text).toContain('Acidic soil: apply lime at 1.5 t/ha (2.25 t in total) — 45 bag(s) Agricultural Lime.');
+    expect(text).toContain('Possible Zn deficiency: 5 kg/ha.');
+    expect(text).not.toContain('When to apply');
+  });
+
+  it('writes the same facts in every language', () => {
+    const all = buildNarratives(INPUT);
+    expect(all.tl).toContain('Pinakamurang opsyon: Urea + DAP — ₱12,500.00.');
+    expect(all.ceb).toContain('Pinakabarato nga kapilian: Urea + DAP — ₱12,500.00.');
+    expect(all.ceb).toContain('4 ka sako Complete Fertilizer');
+    expect(all.en).toBe(buildNarrative(INPUT, 'en'));
+  });
+});
+
+describe('narrativeForSave / isNarrativeLang', () => {
+  it('saves the chosen language plus the English copy', () => {
+    expect(narrativeForSave(buildNarratives(INPUT), 'tl')).toEqual({
+      recommendationText: buildNarrative(INPUT, 'tl'),
+      englishText: buildNarrative(INPUT, 'en'),
+    });
+    expect(narrativeForSave(null, 'ceb')).toEqual({ recommendationText: '', englishText: '' });
+  });
+
+  it('accepts only the supported languages', () => {
+    expect(['ceb', 'tl', 'en', 'fil', null].map(isNarrativeLang)).toEqual([true, true, true, false, false]);
+  });
+});
+
+describe('daNarratives', () => {
+  const plans = [
+    daPlan('a', [{ code: '18-46-0', bags: 2 }], 5000, true),
+    daPlan('b', [{ code: '46-0-0', bags: 3 }], 6000),
+  ];
+  const args = { ratings: INPUT.ratings, reqKgHa: INPUT.targetsKgHa, areaHa: 1, plans };
+
+  it('takes the timing from the cheapest plan by default', () => {
+    const en = daNarratives(args)!.en;
+    expect(en).toContain('Cheapest option: Plan a — PHP 5,000.00.');
+    expect(en).toContain('When to apply: At planting: 2 bag(s) Diammonium Phosphate (DAP).');
+  });
+
+  it('takes the timing from the selected plan but still quotes the cheapest', () => {
+    const en = daNarratives({ ...args, selectedId: 'b' })!.en;
+    expect(en).toContain('Cheapest option: Plan a — PHP 5,000.00.');
+    expect(en).toContain('When to apply: At planting: 3 bag(s) Urea.');
+  });
+
+  it('has nothing to say without plans', () => {
+    expect(daNarratives({ ...args, plans: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildCropRecommendation, computeOrganicCredits, extractProducts } from '../fertilizerLogic';
+import type { AdminPricesDoc } from '../services';
+
+const item = (label: string, pricePerBag: number, N: number, P: number, K: number) => ({
+  label,
+  pricePerBag,
+  bagKg: 50,
+  npk: { N, P, K },
+  active: true,
+});
+
+const PRICES: AdminPricesDoc = {
+  currency: 'PHP',
+  items: {
+    UREA_46_0_0: item('Urea (46-0-0)', 1530, 46, 0, 0),
+    DAP_18_46_0: item('DAP (18-46-0)', 2380, 18, 46, 0),
+    MOP_0_0_60: item('MOP (0-0-60)', 1345, 0, 0, 60),
+    VERMICOMPOST: item('Vermicompost', 300, 0, 0, 0),
+  },
+};
+
+const INVENTORY = extractProducts(PRICES);
+
+describe('computeOrganicCredits', () => {
+  it('credits first-season N/P/K over the whole area', () => {
+    expect(computeOrganicCredits([{ source: 'chickenManure', kgPerHa: 1000 }], 2, INVENTORY)).toEqual([
+      {
+        source: 'chickenManure',
+        label: 'Chicken Manure',
+        kg: 2000,
+        credit: { N: 30, P: 30, K: 24 },
+        code: null,
+        bags: 40,
+        pricePerBag: null,
+        cost: null,
+      },
+    ]);
+  });
+
+  it('prices an organic the admin lists', () => {
+    expect(computeOrganicCredits([{ source: 'vermicompost', kgPerHa: 500 }], 1, INVENTORY)).toEqual([
+      expect.objectContaining({
+        credit: { N: 2.25, P: 2.5, K: 4 },
+        code: 'VERMICOMPOST',
+        bags: 10,
+        pricePerBag: 300,
+        cost: 3000,
+      }),
+    ]);
+  });
+
+  it('skips unknown sources and empty amounts', () => {
+    expect(
+      computeOrganicCredits(
+        [
+          { source: 'riceStraw', kgPerHa: 0 },
+          { source: 'carabaoManure', kgPerHa: -5 },
+          { source: 'compostTea' as any, kgPerHa: 100 },
+        ],
+        1,
+        INVENTORY
+      )
+    ).toEqual([]);
+  });
+});
+
+describe('organics in buildCropRecommendation', () => {
+  const base = { nPpm: 80, pPpm: 200, kPpm: 100, areaHa: 1, crop: 'rice' as const, pricesDoc: PRICES };
+
+  it('takes the credit off the fertilizer targets', () => {
+    const plain = buildCropRecommendation(base);
+    const manured = buildCropRecommendation({ ...base, organics: [{ source: 'chickenManure', kgPerHa: 1000 }] });
+    const target = (r: typeof plain) => r.plans[0].balance!.target;
+    expect(target(manured).N).toBeCloseTo(target(plain).N - 15, 1);
+    expect(target(manured).P).toBeCloseTo(target(plain).P - 15, 1);
+    expect(target(manured).K).toBeCloseTo(target(plain).K - 12, 1);
+  });
+
+  it('includes priced organics in every plan total, like the schedule cost', () => {
+    const resp = buildCropRecommendation({ ...base, organics: [{ source: 'vermicompost', kgPerHa: 500 }] });
+    expect(resp.plans.length).toBeGreaterThan(0);
+    resp.plans.forEach((p) => {
+      expect(p.scheduleCost!.rows).toContainEqual(expect.objectContaining({ code: 'VERMICOMPOST', subtotal: 3000 }));
+      expect(p.total).toBeCloseTo(p.scheduleCost!.total, 0);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from '@jest/globals';
+import { classifyCode } from '../../constants/npkThresholds';
+import { buildParcelPlans, consolidatePurchase, type ParcelInput, type ParcelPlanResult } from '../parcelPlans';
+import type { AdminPricesDoc, DaSchedule } from '../services';
+
+const item = (label: string, pricePerBag: number, N: number, P: number, K: number) => ({
+  label,
+  pricePerBag,
+  bagKg: 50,
+  npk: { N, P, K },
+  active: true,
+});
+
+const PRICES: AdminPricesDoc = {
+  currency: 'PHP',
+  items: {
+    UREA_46_0_0: item('Urea (46-0-0)', 1500, 46, 0, 0),
+    DAP_18_46_0: item('DAP (18-46-0)', 2380, 18, 46, 0),
+    NPK_16_20_0: item('Ammophos (16-20-0)', 1450, 16, 20, 0),
+    MOP_0_0_60: item('MOP (0-0-60)', 1345, 0, 0, 60),
+    NPK_14_14_14: item('Complete (14-14-14)', 1700, 14, 14, 14),
+    AMMOSUL_21_0_0: item('Ammosul (21-0-0)', 680, 21, 0, 0),
+  },
+};
+
+const PARCELS: ParcelInput[] = [
+  { id: 'p1', name: 'North paddy', areaHa: 1, n: 5, p: 8, k: 60 },
+  { id: 'p2', name: 'Creek paddy', areaHa: 0.5, n: 40, p: 30, k: 200 },
+];
+
+const result = (parcel: ParcelInput, schedule: DaSchedule | null): ParcelPlanResult => ({
+  parcel,
+  ratings: { N: 'L', P: 'L', K: 'L' },
+  reqKgHa: { N: 0, P: 0, K: 0 },
+  plans: [],
+  chosen: null,
+  schedule,
+});
+
+describe('buildParcelPlans', () => {
+  it('rates each parcel from its own reading and picks its cheapest plan', () => {
+    const results = buildParcelPlans({ parcels: PARCELS, prices: PRICES });
+    expect(results.map((r) => r.parcel.id)).toEqual(['p1', 'p2']);
+    results.forEach((r) => {
+      expect(r.ratings).toEqual({
+        N: classifyCode('N', r.parcel.n),
+        P: classifyCode('P', r.parcel.p),
+        K: classifyCode('K', r.parcel.k),
+      });
+      expect(r.plans.length).toBeGreaterThan(0);
+      expect(r.chosen?.isCheapest).toBe(true);
+      expect(r.schedule).toBe(r.chosen?.schedule);
+    });
+  });
+
+  it('uses the plan picked for a parcel', () => {
+    const first = buildParcelPlans({ parcels: PARCELS, prices: PRICES });
+    const other = first[1].plans.find((p) => !p.isCheapest)!;
+    const results = buildParcelPlans({ parcels: PARCELS, prices: PRICES, chosenIds: { p2: String(other.id) } });
+    expect(results[0].chosen?.id).toBe(first[0].chosen?.id);
+    expect(results[1].chosen?.id).toBe(other.id);
+  });
+
+  it('falls back to the first plan offline', () => {
+    const [r] = buildParcelPlans({ parcels: PARCELS.slice(0, 1), prices: null });
+    expect(r.chosen).toBe(r.plans[0]);
+    expect(r.chosen?.cost).toBeNull();
+  });
+});
+
+describe('consolidatePurchase', () => {
+  const RESULTS = [
+    result(PARCELS[0], {
+      organic: [{ code: 'Organic Fertilizer', bags: 10 }],
+      basal: [{ code: '14-14-14', bags: 2 }],
+      after30DAT: [{ code: '46-0-0', bags: 1 }],
+      topdress60DBH: [{ code: '46-0-0', bags: 0.5 }],
+    }),
+    result(PARCELS[1], { basal: [{ code: '14-14-14', bags: 1 }], after30DAT: [{ code: '46-0-0', bags: 1.25 }] }),
+    result({ ...PARCELS[0], id: 'p3', name: 'Fallow' }, null),
+  ];
+
+  it('totals bags per product across parcels and prices what still has to be bought', () => {
+    const list = consolidatePurchase(RESULTS, PRICES, [{ code: '46-0-0', bags: 2 }]);
+    expect(list.rows).toEqual([
+      {
+        code: 'Organic Fertilizer',
+        label: 'Organic Fertilizer',
+        totalBags: 10,
+        fromStockBags: 0,
+        buyBags: 10,
+        pricePerBag: null,
+        subtotal: null,
+        byParcel: [{ parcelId: 'p1', name: 'North paddy', bags: 10 }],
+      },
+      {
+        code: '14-14-14',
+        label: 'Complete Fertilizer',
+        totalBags: 3,
+        fromStockBags: 0,
+        buyBags: 3,
+        pricePerBag: 1700,
+        subtotal: 5100,
+        byParcel: [
+          { parcelId: 'p1', name: 'North paddy', bags: 2 },
+          { parcelId: 'p2', name: 'Creek paddy', bags: 1 },
+        ],
+      },
+      {
+        code: '46-0-0',
+        label: 'Urea',
+        totalBags: 2.75,
+        fromStockBags: 2,
+        buyBags: 0.75,
+        pricePerBag: 1500,
+        subtotal: 1125,
+        byParcel: [
+          { parcelId: 'p1', name: 'North paddy', bags: 1.5 },
+          { parcelId: 'p2', name: 'Creek paddy', bags: 1.25 },
+        ],
+      },
+    ]);
+    expect(list.total).toBe(6225);
+    expect(list.currency).toBe('PHP');
+  });
+
+  it('lists bags without a cost offline', () => {
+    const list = consolidatePurchase(RESULTS, null);
+    expect(list.total).toBeNull();
+    expect(list.rows.map((r) => [r.code, r.buyBags, r.subtotal])).toEqual([
+      ['Organic Fertilizer', 10, null],
+      ['14-14-14', 3, null],
+      ['46-0-0', 2.75, null],
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from '@jest/globals';
+import { adjustPrices, findCheapestFlipPrice, repricePlans } from '../fertilizerLogic';
+import type { AdminPricesDoc, RecommendPlan } from '../services';
+
+const item = (label: string, pricePerBag: number, N: number, P: number, K: number) => ({
+  label,
+  pricePerBag,
+  bagKg: 50,
+  npk: { N, P, K },
+  active: true,
+});
+
+const PRICES: AdminPricesDoc = {
+  currency: 'PHP',
+  items: {
+    UREA_46_0_0: item('Urea (46-0-0)', 1500, 46, 0, 0),
+    DAP_18_46_0: item('DAP (18-46-0)', 2000, 18, 46, 0),
+  },
+};
+
+const plan = (code: string, bags: Record<string, number>): RecommendPlan => {
+  const rows = Object.entries(bags).map(([key, n]) => {
+    const pricePerBag = PRICES.items[key].pricePerBag;
+    return { key, label: PRICES.items[key].label, bags: n, pricePerBag, subtotal: n * pricePerBag };
+  });
+  return { code, title: code, rows, total: rows.reduce((s, r) => s + r.subtotal, 0), currency: 'PHP' };
+};
+
+// at current prices: mixed 5000, urea-heavy 6000, DAP-only 6000
+const PLANS = [
+  plan('mixed', { UREA_46_0_0: 2, DAP_18_46_0: 1 }),
+  plan('ureaHeavy', { UREA_46_0_0: 4 }),
+  plan('dapOnly', { DAP_18_46_0: 3 }),
+];
+
+describe('findCheapestFlipPrice', () => {
+  it('finds the urea prices where another plan takes over', () => {
+    expect(findCheapestFlipPrice(PLANS, 'UREA_46_0_0')).toEqual({
+      productKey: 'UREA_46_0_0',
+      currentPrice: 1500,
+      cheapest: 'mixed',
+      // 2 bags vs 0: 1000 gap closes at +500/bag
+      above: { price: 2000, plan: 'dapOnly' },
+      // 2 bags vs 4: 1000 gap closes at -500/bag
+      below: { price: 1000, plan: 'ureaHeavy' },
+    });
+  });
+
+  it('ignores crossings below a zero price and plans with the same bags', () => {
+    // would need urea at -4000/bag
+    const dear = plan('dear', { UREA_46_0_0: 3, DAP_18_46_0: 3 });
+    const twin = plan('twin', { UREA_46_0_0: 2, DAP_18_46_0: 2 });
+    expect(findCheapestFlipPrice([PLANS[0], dear], 'UREA_46_0_0')).toMatchObject({ above: null, below: null });
+    expect(findCheapestFlipPrice([PLANS[0], twin], 'UREA_46_0_0')).toMatchObject({ above: null, below: null });
+  });
+
+  it('returns no pick without plans', () => {
+    expect(findCheapestFlipPrice([], 'UREA_46_0_0')).toEqual({
+      productKey: 'UREA_46_0_0',
+      currentPrice: 0,
+      cheapest: null,
+      above: null,
+      below: null,
+    });
+  });
+});
+
+describe('adjustPrices / repricePlans', () => {
+  it('applies the % change, then per-product overrides, without touching the baseline', () => {
+    const doc = adjustPrices(PRICES, { pctAll: 10, perBag: { DAP_18_46_0: 1800 } });
+    expect(doc.items.UREA_46_0_0.pricePerBag).toBe(1650);
+    expect(doc.items.DAP_18_46_0.pricePerBag).toBe(1800);
+    expect(PRICES.items.UREA_46_0_0.pricePerBag).toBe(1500);
+    expect(adjustPrices(PRICES, { perBag: { UREA_46_0_0: -5 } }).items.UREA_46_0_0.pricePerBag).toBe(0);
+  });
+
+  it('keeps the bags and re-prices every row and total', () => {
+    const [mixed, ureaHeavy] = repricePlans(PLANS, adjustPrices(PRICES, { perBag: { UREA_46_0_0: 900 } }));
+    expect(mixed.rows.map((r) => [r.bags, r.subtotal])).toEqual([
+      [2, 1800],
+      [1, 2000],
+    ]);
+    expect(mixed.total).toBe(3800);
+    // below the 1000 flip price the urea-heavy plan is now cheapest
+    expect(ureaHeavy.total).toBe(3600);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyPurchaseMode, extractProducts, type ComputedPlan } from '../fertilizerLogic';
+import type { AdminPricesDoc } from '../services';
+
+const item = (label: string, pricePerBag: number, N: number, P: number, K: number) => ({
+  label,
+  pricePerBag,
+  bagKg: 50,
+  npk: { N, P, K },
+  active: true,
+});
+
+const PRICES: AdminPricesDoc = {
+  currency: 'PHP',
+  items: {
+    UREA_46_0_0: item('Urea (46-0-0)', 1530, 46, 0, 0),
+    MOP_0_0_60: item('MOP (0-0-60)', 1345, 0, 0, 60),
+  },
+};
+
+const [UREA, MOP] = extractProducts(PRICES);
+
+// exact plan: 2.3 bags urea (23 kg N per bag) + 1.2 bags MOP (30 kg K per bag), sized to the targets
+const REQ = { N: 2.3 * 23, P: 0, K: 1.2 * 30 };
+const EXACT: ComputedPlan = {
+  rows: [
+    { product: UREA, bags: 2.3 },
+    { product: MOP, bags: 1.2 },
+  ],
+  totalCost: 2.3 * 1530 + 1.2 * 1345,
+  supplied: REQ,
+};
+
+const bagsOf = (plan: ComputedPlan) => plan.rows.map((r) => [r.product.code, r.bags, r.leftoverKg]);
+
+describe('applyPurchaseMode', () => {
+  it('returns the exact plan unchanged', () => {
+    expect(applyPurchaseMode(EXACT, REQ, 'exact')).toBe(EXACT);
+  });
+
+  it('rounds each product up to whole bags and reports the leftover', () => {
+    const plan = applyPurchaseMode(EXACT, REQ, 'wholeBag');
+    expect(bagsOf(plan)).toEqual([
+      ['UREA_46_0_0', 3, 35],
+      ['MOP_0_0_60', 2, 40],
+    ]);
+    expect(plan.totalCost).toBe(3 * 1530 + 2 * 1345);
+    expect(plan.supplied).toEqual({ N: 69, P: 0, K: 60 });
+  });
+
+  it('rounds up to half bags', () => {
+    const plan = applyPurchaseMode(EXACT, REQ, 'halfBag');
+    expect(bagsOf(plan)).toEqual([
+      ['UREA_46_0_0', 2.5, 10],
+      ['MOP_0_0_60', 1.5, 15],
+    ]);
+    expect(plan.totalCost).toBe(2.5 * 1530 + 1.5 * 1345);
+  });
+
+  it('rounds up to the next kg when bought loose', () => {
+    const plan = applyPurchaseMode(
+      { ...EXACT, rows: [{ product: UREA, bags: 2.31 }] },
+      { N: 2.31 * 23, P: 0, K: 0 },
+      'kgLoose'
+    );
+    expect(plan.rows[0].bags).toBeCloseTo(116 / 50);
+    expect(plan.rows[0].leftoverKg).toBe(0.5);
+  });
+
+  it('drops products with no bags', () => {
+    const plan = applyPurchaseMode({ ...EXACT, rows: [...EXACT.rows, { product: UREA, bags: 0 }] }, REQ, 'wholeBag');
+    expect(plan.rows).toHaveLength(2);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildSecondaryAdvisories } from '../fertilizerLogic';
+import type { AdminPricesDoc } from '../services';
+
+const item = (label: string, pricePerBag: number, N: number, P: number, K: number) => ({
+  label,
+  pricePerBag,
+  bagKg: 50,
+  npk: { N, P, K },
+  active: true,
+});
+
+const PRICES: AdminPricesDoc = {
+  currency: 'PHP',
+  items: {
+    UREA_46_0_0: item('Urea (46-0-0)', 1530, 46, 0, 0),
+    AMMOSUL_21_0_0: item('Ammosul (21-0-0)', 680, 21, 0, 0),
+    GYPSUM: item('Gypsum', 400, 0, 0, 0),
+    ZINC_SULFATE: item('Zinc Sulfate', 1200, 0, 0, 0),
+  },
+};
+
+const summary = (args: Parameters<typeof buildSecondaryAdvisories>[0]) =>
+  buildSecondaryAdvisories(args).map((a) => [a.nutrient, a.severity, a.reasons]);
+
+describe('buildSecondaryAdvisories', () => {
+  it('gives no advice when nothing points to a problem', () => {
+    expect(buildSecondaryAdvisories({})).toEqual([]);
+    expect(buildSecondaryAdvisories({ secondary: { znPpm: 2, sPpm: 15, mgPpm: 150 }, ph: 6.5 })).toEqual([]);
+  });
+
+  it('rates a reading below its critical level as likely (0 ppm included)', () => {
+    expect(summary({ secondary: { znPpm: 0, sPpm: 5, mgPpm: 90 } })).toEqual([
+      ['Zn', 'likely', ['Zn 0 ppm is below 1 ppm']],
+      ['S', 'likely', ['S 5 ppm is below 10 ppm']],
+      ['Mg', 'likely', ['Mg 90 ppm is below 120 ppm']],
+    ]);
+  });
+
+  it('rates risk factors alone as possible and telltale symptoms as likely', () => {
+    expect(summary({ ph: 7.4, symptoms: ['prolongedFlooding', 'yellowYoungLeaves'] })).toEqual([
+      ['Zn', 'possible', ['prolonged flooding', 'pH 7.4']],
+      ['S', 'possible', ['yellowing of young leaves']],
+    ]);
+    expect(summary({ symptoms: ['bronzing', 'highPh', 'interveinalChlorosis'] })).toEqual([
+      ['Zn', 'likely', ['leaf bronzing reported', 'high-pH field']],
+      ['Mg', 'possible', ['interveinal chlorosis on older leaves']],
+    ]);
+  });
+
+  it('keeps the high-pH symptom when the measured pH is below the risk level', () => {
+    expect(summary({ ph: 6.2, symptoms: ['highPh'] })).toEqual([['Zn', 'possible', ['high-pH field']]]);
+    expect(summary({ ph: 7, symptoms: ['highPh'] })).toEqual([['Zn', 'possible', ['pH 7.0']]]);
+  });
+
+  it('prices each advisory with the cheapest catalog source per kg of the element', () => {
+    const [zn, s] = buildSecondaryAdvisories({
+      secondary: { znPpm: 0.5, sPpm: 4 },
+      areaHa: 2,
+      pricesDoc: PRICES,
+    });
+    // 10 kg Zn at 35% = 28.6 kg zinc sulfate -> 1 bag
+    expect(zn).toMatchObject({
+      totalKg: 10,
+      product: { code: 'ZINC_SULFATE' },
+      bags: 1,
+      cost: 1200,
+      currency: 'PHP',
+    });
+    // gypsum (PHP 44/kg S) beats Ammosul (PHP 57/kg S): 40 kg S at 18% = 222 kg -> 5 bags
+    expect(s).toMatchObject({ totalKg: 40, product: { code: 'GYPSUM' }, bags: 5, cost: 2000 });
+  });
+
+  it('leaves advice unpriced without a catalog match', () => {
+    const [mg] = buildSecondaryAdvisories({ secondary: { mgPpm: 60 }, pricesDoc: PRICES });
+    expect(mg).toMatchObject({ nutrient: 'Mg', product: null, bags: null, cost: null });
+  });
+});
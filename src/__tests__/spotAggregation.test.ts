@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+import { aggregateChannel, aggregateSpots, iqrOutliers, madOutliers, type SpotValues } from '../spotAggregation';
+
+const spots = (n: number[], p: number[], k: number[]): SpotValues[] => n.map((nv, i) => ({ n: nv, p: p[i], k: k[i] }));
+
+describe('madOutliers', () => {
+  it('flags the spot far from the median', () => {
+    expect(madOutliers([10, 11, 12, 11, 40])).toEqual([4]);
+  });
+
+  it('falls back to the mean absolute deviation when MAD is 0', () => {
+    expect(madOutliers([10, 10, 10, 10, 30])).toEqual([4]);
+    expect(madOutliers([10, 10, 10])).toEqual([]);
+  });
+
+  it('needs three values', () => {
+    expect(madOutliers([10, 90])).toEqual([]);
+  });
+});
+
+describe('iqrOutliers', () => {
+  it('flags values outside the 1.5·IQR fences', () => {
+    expect(iqrOutliers([10, 11, 50, 12, 13])).toEqual([2]);
+    expect(iqrOutliers([2, 30, 31, 32, 33])).toEqual([0]);
+  });
+
+  it('needs four values', () => {
+    expect(iqrOutliers([10, 11, 50])).toEqual([]);
+  });
+});
+
+describe('aggregateChannel', () => {
+  it('drops MAD outliers from the value and reports them by spot index', () => {
+    expect(aggregateChannel('n', [undefined, 10, 11, 12, 11, 40], 'mad')).toEqual({
+      value: 11,
+      cv: 7.4,
+      used: 4,
+      outliers: [5],
+    });
+  });
+
+  it('flags but keeps outliers for the non-outlier methods', () => {
+    expect(aggregateChannel('n', [10, 11, 12, 11, 40], 'mean')).toMatchObject({ value: 16.8, used: 5, outliers: [4] });
+    expect(aggregateChannel('n', [10, 11, 12, 11, 40], 'median')).toMatchObject({ value: 11, used: 5, outliers: [4] });
+  });
+
+  it('returns no value when the channel is missing on every spot', () => {
+    expect(aggregateChannel('ph', [undefined, undefined], 'mad')).toEqual({ cv: null, used: 0, outliers: [] });
+  });
+});
+
+describe('aggregateSpots', () => {
+  it('collects outlier spots across channels', () => {
+    const agg = aggregateSpots(spots([10, 11, 12, 11, 40], [20, 20, 21, 21, 20], [100, 300, 101, 102, 100]));
+    expect(agg.outlierSpots).toEqual([1, 4]);
+    expect(agg.channels.k.value).toBe(100.8);
+    expect(agg.confidence).toBe('high');
+  });
+
+  it('rates confidence by the worst N/P/K CV', () => {
+    const even = [20, 21, 22];
+    const level = [100, 101, 102];
+    expect(aggregateSpots(spots([10, 11, 12], even, level)).confidence).toBe('high');
+    // CV 23.1%
+    expect(aggregateSpots(spots([10, 13, 16], even, level)).confidence).toBe('medium');
+    // CV 50%
+    expect(aggregateSpots(spots([10, 20, 30], even, level)).confidence).toBe('low');
+  });
+
+  it('is low with fewer than three spots', () => {
+    expect(aggregateSpots(spots([10, 10], [20, 20], [100, 100])).confidence).toBe('low');
+  });
+});
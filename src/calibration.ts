@@ -0,0 +1,141 @@
+// src/calibration.ts
+// ✅ Per-probe calibration: soil samples read by the probe and by the lab, fitted per channel
+// as a straight line (gain/offset, least squares) or piecewise-linear through the paired points.
+// Applied to every spot reading before averaging; the uncorrected values are kept as `raw`.
+
+export const CAL_CHANNELS = ['n', 'p', 'k', 'ph', 'ec'] as const;
+export type CalChannel = (typeof CAL_CHANNELS)[number];
+
+export const CHANNEL_LABEL: Record<CalChannel, string> = {
+  n: 'N (mg/kg)',
+  p: 'P (mg/kg)',
+  k: 'K (mg/kg)',
+  ph: 'pH',
+  ec: 'EC (mS/cm)',
+};
+
+export type CalMethod = 'linear' | 'piecewise';
+
+export type CalPair = { probe: number; lab: number };
+
+export type ChannelFit =
+  | { method: 'linear'; gain: number; offset: number; r2: number | null; pairs: number }
+  | { method: 'piecewise'; points: CalPair[]; pairs: number };
+
+/** One soil sample measured by the probe and sent to the lab */
+export type CalibrationSample = {
+  id: string;
+  label?: string;
+  probe: Partial<Record<CalChannel, number>>;
+  lab: Partial<Record<CalChannel, number>>;
+};
+
+export type CalibrationProfile = {
+  /** `id:` + the firmware device id (see getDeviceIdentity); URL keys are never saved */
+  deviceKey: string;
+  deviceName: string;
+  updatedAt: number;
+  channels: Partial<Record<CalChannel, ChannelFit>>;
+  samples: CalibrationSample[];
+};
+
+/** Probe values before calibration */
+export type RawValues = { n: number; p: number; k: number; ph?: number; ec?: number };
+
+/** Which profile corrected a reading */
+export type CalibrationStamp = { deviceKey: string; deviceName: string; updatedAt: number };
+
+// a slope outside this range points at a mistyped pair rather than probe drift
+export const GAIN_RANGE: [number, number] = [0.25, 4];
+const MIN_R2 = 0.8;
+
+const round = (ch: CalChannel, v: number) => (ch === 'ph' || ch === 'ec' ? Math.round(v * 100) / 100 : Math.round(v * 10) / 10);
+
+export function pairsFor(samples: CalibrationSample[], channel: CalChannel): CalPair[] {
+  return samples
+    .map((s) => ({ probe: s.probe[channel], lab: s.lab[channel] }))
+    .filter((p): p is CalPair => Number.isFinite(p.probe) && Number.isFinite(p.lab));
+}
+
+/** Least squares; one pair (or no spread in probe values) gives an offset-only correction */
+export function fitLinear(pairs: CalPair[]): Extract<ChannelFit, { method: 'linear' }> | null {
+  const n = pairs.length;
+  if (!n) return null;
+  const mx = pairs.reduce((a, p) => a + p.probe, 0) / n;
+  const my = pairs.reduce((a, p) => a + p.lab, 0) / n;
+  const sxx = pairs.reduce((a, p) => a + (p.probe - mx) ** 2, 0);
+  if (n < 2 || sxx === 0) return { method: 'linear', gain: 1, offset: my - mx, r2: null, pairs: n };
+
+  const sxy = pairs.reduce((a, p) => a + (p.probe - mx) * (p.lab - my), 0);
+  const syy = pairs.reduce((a, p) => a + (p.lab - my) ** 2, 0);
+  const gain = sxy / sxx;
+  return {
+    method: 'linear',
+    gain,
+    offset: my - gain * mx,
+    r2: syy === 0 ? null : (sxy * sxy) / (sxx * syy),
+    pairs: n,
+  };
+}
+
+/** Knots at each probe value (repeated probe values averaged); needs two distinct probe values */
+export function fitPiecewise(pairs: CalPair[]): Extract<ChannelFit, { method: 'piecewise' }> | null {
+  const byProbe = new Map<number, number[]>();
+  pairs.forEach((p) => byProbe.set(p.probe, [...(byProbe.get(p.probe) ?? []), p.lab]));
+  const points = Array.from(byProbe.entries())
+    .map(([probe, labs]) => ({ probe, lab: labs.reduce((a, b) => a + b, 0) / labs.length }))
+    .sort((a, b) => a.probe - b.probe);
+  if (points.length < 2) return null;
+  return { method: 'piecewise', points, pairs: pairs.length };
+}
+
+export function fitChannel(
+  samples: CalibrationSample[],
+  channel: CalChannel,
+  method: CalMethod
+): { fit: ChannelFit | null; warnings: string[] } {
+  const pairs = pairsFor(samples, channel);
+  const warnings: string[] = [];
+  const fit = method === 'linear' ? fitLinear(pairs) : fitPiecewise(pairs);
+
+  if (!fit) {
+    if (method === 'piecewise' && pairs.length) warnings.push('Piecewise needs two samples with different probe values.');
+    return { fit: null, warnings };
+  }
+  if (fit.method === 'linear') {
+    if (fit.pairs === 1) warnings.push('One sample only: offset correction, no gain.');
+    if (fit.gain < GAIN_RANGE[0] || fit.gain > GAIN_RANGE[1]) {
+      warnings.push(`Gain ${fit.gain.toFixed(2)} is outside ${GAIN_RANGE[0]}–${GAIN_RANGE[1]}; check the pairs.`);
+    }
+    if (fit.r2 !== null && fit.r2 < MIN_R2) warnings.push(`Poor fit (R² ${fit.r2.toFixed(2)}); add more samples.`);
+  } else if (fit.points.some((p, i) => i > 0 && p.lab < fit.points[i - 1].lab)) {
+    warnings.push('Lab values go down as probe values go up; check the pairs.');
+  }
+  return { fit, warnings };
+}
+
+/** Corrected value; piecewise extends its first / last segment beyond the sampled range */
+export function applyFit(fit: ChannelFit, x: number): number {
+  if (fit.method === 'linear') return Math.max(0, fit.gain * x + fit.offset);
+
+  const pts = fit.points;
+  let i = pts.findIndex((p) => p.probe >= x);
+  if (i <= 0) i = i === 0 ? 1 : pts.length - 1;
+  const a = pts[i - 1];
+  const b = pts[i];
+  return Math.max(0, a.lab + ((x - a.probe) * (b.lab - a.lab)) / (b.probe - a.probe));
+}
+
+export function calibrateValues(raw: RawValues, profile: CalibrationProfile): RawValues {
+  const out: RawValues = { ...raw };
+  CAL_CHANNELS.forEach((ch) => {
+    const fit = profile.channels[ch];
+    const v = raw[ch];
+    if (fit && typeof v === 'number') out[ch] = round(ch, applyFit(fit, v));
+  });
+  return out;
+}
+
+export function calibrationStamp(profile: CalibrationProfile): CalibrationStamp {
+  return { deviceKey: profile.deviceKey, deviceName: profile.deviceName, updatedAt: profile.updatedAt };
+}
@@ -0,0 +1,104 @@
+// src/calibrationStore.ts
+// ✅ Calibration profiles, one per probe (keyed by firmware device id), shared through the server.
+// Admins usually save on the kit's own Wi-Fi (no internet), so edits are queued and pushed on the next sync.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { CalibrationProfile } from './calibration';
+import { deleteCalibrationProfile, getPublicCalibrationProfiles, putCalibrationProfile } from './services';
+
+const PROFILES_KEY = 'calibration:profiles';
+// device keys saved / removed on this phone that the server has not confirmed yet
+const PENDING_KEY = 'calibration:pending';
+
+let profiles: Record<string, CalibrationProfile> | null = null;
+
+/** Only firmware ids identify one probe; URL keys are shared by every AP-mode kit */
+export const isDeviceIdKey = (deviceKey: string) => deviceKey.startsWith('id:');
+
+async function readJson<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed === 'object' ? parsed : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+async function loadPending(): Promise<string[]> {
+  // nothing queued yet: profiles saved before they were shared still have to reach the server
+  if ((await AsyncStorage.getItem(PENDING_KEY).catch(() => null)) == null) {
+    return Object.keys(await loadCalibrationProfiles()).filter(isDeviceIdKey);
+  }
+  const list = await readJson<string[]>(PENDING_KEY, []);
+  return Array.isArray(list) ? list : [];
+}
+
+async function markPending(deviceKey: string) {
+  const pending = await loadPending();
+  if (!pending.includes(deviceKey)) await AsyncStorage.setItem(PENDING_KEY, JSON.stringify([...pending, deviceKey]));
+}
+
+export async function loadCalibrationProfiles(): Promise<Record<string, CalibrationProfile>> {
+  if (profiles) return profiles;
+  profiles = await readJson<Record<string, CalibrationProfile>>(PROFILES_KEY, {});
+  return profiles;
+}
+
+export async function getCalibrationProfile(deviceKey: string): Promise<CalibrationProfile | null> {
+  // older builds saved under URL keys; those could belong to any kit, so they are ignored
+  if (!isDeviceIdKey(deviceKey)) return null;
+  const all = await loadCalibrationProfiles();
+  return all[deviceKey] ?? null;
+}
+
+export async function saveCalibrationProfile(profile: CalibrationProfile): Promise<void> {
+  if (!isDeviceIdKey(profile.deviceKey)) {
+    throw new Error('This probe did not report a device id, so a profile would apply to every kit at its address.');
+  }
+  const all = await loadCalibrationProfiles();
+  profiles = { ...all, [profile.deviceKey]: profile };
+  await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  await markPending(profile.deviceKey);
+}
+
+export async function removeCalibrationProfile(deviceKey: string): Promise<void> {
+  const all = await loadCalibrationProfiles();
+  profiles = Object.fromEntries(Object.entries(all).filter(([key]) => key !== deviceKey));
+  await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  await markPending(deviceKey);
+}
+
+/**
+ * Pushes this phone's queued edits (admins only, pass their token) and then takes the server's profiles.
+ * Profiles still waiting to be pushed win over the server copy. Throws when the server is unreachable.
+ */
+export async function syncCalibrationProfiles(adminToken?: string | null): Promise<void> {
+  const local = await loadCalibrationProfiles();
+  let pending = await loadPending();
+
+  if (adminToken) {
+    for (const key of pending) {
+      try {
+        if (local[key]) await putCalibrationProfile(adminToken, local[key]);
+        else await deleteCalibrationProfile(adminToken, key);
+        pending = pending.filter((k) => k !== key);
+      } catch {
+        // keep it queued for the next sync
+      }
+    }
+    await AsyncStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+  }
+
+  const fromServer = await getPublicCalibrationProfiles();
+  const merged: Record<string, CalibrationProfile> = {};
+  fromServer.forEach((p) => {
+    if (p?.deviceKey && isDeviceIdKey(p.deviceKey)) merged[p.deviceKey] = p;
+  });
+  pending.forEach((key) => {
+    if (local[key]) merged[key] = local[key];
+    else delete merged[key];
+  });
+
+  profiles = merged;
+  await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
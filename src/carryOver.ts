@@ -0,0 +1,185 @@
+// src/carryOver.ts
+// ✅ Seasonal carry-over: compare a farmer's new reading with last season's reading and the
+// plan that was applied, and trim the P / K targets when last season left a build-up in the soil.
+import type { DaSchedule } from './services';
+import { daPlanBalance } from './daPlans';
+
+type Npk = { N: number; P: number; K: number };
+
+// a reading at least this much older than the current one counts as "last season"
+// (anything closer is a re-read of the same crop)
+export const MIN_SEASON_GAP_DAYS = 75;
+
+// applied above last season's target by more than this share = heavy application
+const HEAVY_SURPLUS_SHARE = 0.2;
+// share of last season's P / K surplus credited this season (the rest is fixed / leached)
+const CARRY_FRACTION = { P: 0.5, K: 0.4 } as const;
+// never cut a target by more than this share
+const MAX_CUT_SHARE = 0.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PriorSeason = {
+  id: string;
+  ts: number;
+  date: string;
+  season?: string;
+  ppm: Npk;
+  /** kg/ha target last season (falls back to this season's table when the reading did not store it) */
+  targetKgHa: Npk | null;
+  /** kg/ha N / P2O5 / K2O in the applied (selected) plan; null when no plan was stored */
+  appliedKgHa: Npk | null;
+  planLabel?: string;
+};
+
+export type CarryOverAdjustment = {
+  nutrient: 'N' | 'P' | 'K';
+  fromKg: number;
+  toKg: number;
+  reason: string;
+};
+
+export type CarryOver = {
+  prior: PriorSeason;
+  /** ppm now minus ppm last season */
+  deltaPpm: Npk;
+  tableKgHa: Npk;
+  adjustedKgHa: Npk;
+  adjustments: CarryOverAdjustment[];
+  /** rationale lines for nutrients that were looked at but kept */
+  notes: string[];
+};
+
+function num(x: any) {
+  const n = Number(x);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function npkOf(x: any): Npk | null {
+  if (!x || typeof x !== 'object') return null;
+  const v = { N: num(x.N), P: num(x.P), K: num(x.K) };
+  return v.N || v.P || v.K ? v : null;
+}
+
+/** createdAt (server), then the timestamp in local ids (`reading_<ts>_…`), then the display date */
+function readingTs(r: any): number {
+  const created = Date.parse(r?.createdAt ?? r?.updatedAt ?? '');
+  if (Number.isFinite(created)) return created;
+  const m = /_(\d{12,})_/.exec(String(r?.id ?? ''));
+  if (m) return Number(m[1]);
+  const d = Date.parse(String(r?.date ?? ''));
+  return Number.isFinite(d) ? d : 0;
+}
+
+/** Schedule of the plan the farmer went with: selected snapshot, else the saved DA schedule */
+function appliedSchedule(r: any): { schedule: DaSchedule; label?: string } | null {
+  const snaps: any[] = Array.isArray(r?.plansSnapshot) ? r.plansSnapshot : [];
+  const chosen =
+    (r?.selectedPlanId != null ? snaps.find((p) => String(p?.id) === String(r.selectedPlanId)) : null) ?? snaps[0];
+  if (chosen?.schedule) return { schedule: chosen.schedule, label: chosen.label };
+  if (r?.daSchedule && typeof r.daSchedule === 'object') return { schedule: r.daSchedule };
+  return null;
+}
+
+/** Local history items and server readings in one shape */
+export function toPriorSeason(r: any): PriorSeason | null {
+  // simulator readings never say anything about the real field
+  if (r?.simulated === true || r?.source === 'simulator') return null;
+  const ts = readingTs(r);
+  const ppm = {
+    N: num(r?.n_value ?? r?.N ?? r?.n),
+    P: num(r?.p_value ?? r?.P ?? r?.p),
+    K: num(r?.k_value ?? r?.K ?? r?.k),
+  };
+  if (!ts || (!ppm.N && !ppm.P && !ppm.K)) return null;
+
+  const targetKgHa = npkOf(r?.neededKgHa);
+  const applied = appliedSchedule(r);
+  // screens build plans for 1 ha, so the schedule totals are already per ha
+  const appliedKgHa = applied ? daPlanBalance(applied.schedule, targetKgHa ?? { N: 0, P: 0, K: 0 }, 1).supplied : null;
+
+  return {
+    id: String(r?._id ?? r?.id ?? ts),
+    ts,
+    date: String(r?.date ?? new Date(ts).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })),
+    season: r?.season ? String(r.season) : undefined,
+    ppm,
+    targetKgHa,
+    appliedKgHa,
+    planLabel: applied?.label,
+  };
+}
+
+/** Most recent reading at least MIN_SEASON_GAP_DAYS before `beforeTs` */
+export function pickPreviousSeason(readings: any[], beforeTs: number): PriorSeason | null {
+  const cutoff = (beforeTs || Date.now()) - MIN_SEASON_GAP_DAYS * DAY_MS;
+  const seen = new Set<string>();
+  return (
+    readings
+      .map(toPriorSeason)
+      .filter((p): p is PriorSeason => !!p && p.ts <= cutoff)
+      .filter((p) => {
+        // the same reading can come from local history and the server
+        const key = `${p.ppm.N}:${p.ppm.P}:${p.ppm.K}:${Math.round(p.ts / DAY_MS)}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .sort((a, b) => b.ts - a.ts)[0] ?? null
+  );
+}
+
+/**
+ * This season's targets after last season: P / K are trimmed when last season's plan supplied
+ * well over its target and the reading has gone up since. N is never carried over.
+ */
+export function applyCarryOver(args: { tableKgHa: Npk; ppm: Npk; prior: PriorSeason }): CarryOver {
+  const { tableKgHa, ppm, prior } = args;
+  const deltaPpm = {
+    N: Math.round((ppm.N - prior.ppm.N) * 10) / 10,
+    P: Math.round((ppm.P - prior.ppm.P) * 10) / 10,
+    K: Math.round((ppm.K - prior.ppm.K) * 10) / 10,
+  };
+  const adjustedKgHa = { ...tableKgHa };
+  const adjustments: CarryOverAdjustment[] = [];
+  const notes: string[] = ['N: not carried over — nitrogen does not stay in the soil between seasons.'];
+
+  (['P', 'K'] as const).forEach((nu) => {
+    const table = tableKgHa[nu];
+    if (!(table > 0)) return;
+
+    if (!prior.appliedKgHa) {
+      notes.push(`${nu}: last season's plan was not saved — full target kept.`);
+      return;
+    }
+
+    const lastTarget = prior.targetKgHa?.[nu] ?? table;
+    const applied = prior.appliedKgHa[nu];
+    const surplus = applied - lastTarget;
+    const heavy = surplus > lastTarget * HEAVY_SURPLUS_SHARE && surplus > 0;
+
+    if (!heavy) {
+      notes.push(`${nu}: ${Math.round(applied)} kg/ha applied vs ${Math.round(lastTarget)} kg/ha target — no build-up, full target kept.`);
+      return;
+    }
+    if (!(deltaPpm[nu] > 0)) {
+      notes.push(`${nu}: heavy application last season but the reading did not rise (${deltaPpm[nu]} ppm) — full target kept.`);
+      return;
+    }
+
+    const cut = Math.round(Math.min(surplus * CARRY_FRACTION[nu], table * MAX_CUT_SHARE));
+    if (cut <= 0) return;
+    adjustedKgHa[nu] = table - cut;
+    adjustments.push({
+      nutrient: nu,
+      fromKg: table,
+      toKg: table - cut,
+      reason:
+        `${Math.round(applied)} kg/ha applied vs ${Math.round(lastTarget)} kg/ha target (+${Math.round(surplus)} kg) ` +
+        `and the reading rose ${deltaPpm[nu]} ppm — ${Math.round(CARRY_FRACTION[nu] * 100)}% of the surplus credited` +
+        `${cut === Math.round(table * MAX_CUT_SHARE) ? ` (capped at ${MAX_CUT_SHARE * 100}% of the target)` : ''}.`,
+    });
+  });
+
+  return { prior, deltaPpm, tableKgHa, adjustedKgHa, adjustments, notes };
+}
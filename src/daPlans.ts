@@ -0,0 +1,430 @@
+// src/daPlans.ts
+// ✅ DA frontend plan builder shared by the admin / stakeholder / guest recommendation
+// screens, their PDF export and generateFertilizerPlan — one copy, so they all show the same plans.
+import type {
+  AdminPricesDoc,
+  DaCost,
+  DaCostRow,
+  DaPlan,
+  DaSchedule,
+  DaScheduleLine,
+  NutrientBalance,
+  RecommendPlan,
+  RecommendPlanRow,
+  StockSplitRow,
+} from './services';
+
+export const ORGANIC_FERT_CODE = 'Organic Fertilizer';
+export const BAG_KG = 50;
+
+type StockLine = { code: string; bags: number };
+type NpkKg = { N: number; P: number; K: number };
+
+/** Share of TOTAL N applied per phase. P and K always go basal. */
+export type NSplit = { basal: number; after30DAT: number; topdress60DBH: number };
+
+/** Used when no crop split is given: N-only bags half at 30 DAT, half at topdress */
+export const EVEN_LATE_SPLIT: NSplit = { basal: 0, after30DAT: 0.5, topdress60DBH: 0.5 };
+
+function asArray<T = any>(arr: any): T[] {
+  return Array.isArray(arr) ? (arr as T[]) : [];
+}
+function round2(x: number) {
+  return Math.round((Number(x || 0) + Number.EPSILON) * 100) / 100;
+}
+
+/** ✅ Fertilizer full names */
+export const FERTILIZER_NAMES: Record<string, string> = {
+  '46-0-0': 'Urea',
+  '21-0-0': 'Ammosul',
+  '0-0-60': 'Muriate of Potash (MOP)',
+  '18-46-0': 'Diammonium Phosphate (DAP)',
+  '16-20-0': 'Ammophos',
+  '14-14-14': 'Complete Fertilizer',
+  [ORGANIC_FERT_CODE]: 'Organic Fertilizer',
+};
+
+/** Nutrient share per grade (decimal), keyed by dash code */
+export const GRADE = {
+  '14-14-14': { N: 0.14, P: 0.14, K: 0.14 },
+  '16-20-0': { N: 0.16, P: 0.20, K: 0.0 },
+  '46-0-0': { N: 0.46, P: 0.0, K: 0.0 },
+  '18-46-0': { N: 0.18, P: 0.46, K: 0.0 },
+  '0-0-60': { N: 0.0, P: 0.0, K: 0.60 },
+  '21-0-0': { N: 0.21, P: 0.0, K: 0.0 },
+} as const;
+
+// ✅ mapping to the backend price keys (for COST only)
+export const CODE_TO_PRICE_KEY: Record<string, string> = {
+  '46-0-0': 'UREA_46_0_0',
+  '18-46-0': 'DAP_18_46_0',
+  '16-20-0': 'NPK_16_20_0',
+  '0-0-60': 'MOP_0_0_60',
+  '14-14-14': 'NPK_14_14_14',
+  '21-0-0': 'AMMOSUL_21_0_0',
+};
+
+export function getItemByCode(prices: AdminPricesDoc | null, dashCode: string) {
+  const key = CODE_TO_PRICE_KEY[String(dashCode)];
+  if (!prices || !key) return null;
+  return (prices as any)?.items?.[key] ?? null;
+}
+
+/** No prices (offline) = no cost. On-hand bags are free; earliest phases use them first. */
+export function calcCost(schedule: DaSchedule, prices: AdminPricesDoc | null, onHand?: StockLine[]): DaCost | null {
+  if (!prices) return null;
+
+  const currency = String((prices as any)?.currency || 'PHP');
+
+  const lines = [
+    ...asArray(schedule.organic).map((x) => ({ phase: 'ORGANIC', ...x })),
+    ...asArray(schedule.basal).map((x) => ({ phase: 'BASAL', ...x })),
+    ...asArray(schedule.after30DAT).map((x) => ({ phase: '30 DAT', ...x })),
+    ...asArray(schedule.topdress60DBH).map((x) => ({ phase: 'TOPDRESS', ...x })),
+  ];
+
+  const freeLeft = new Map<string, number>();
+  asArray<StockLine>(onHand).forEach((o) => freeLeft.set(o.code, (freeLeft.get(o.code) ?? 0) + Number(o.bags || 0)));
+
+  const rows: DaCostRow[] = lines.map((l) => {
+    if (String(l.code) === ORGANIC_FERT_CODE) {
+      return { phase: l.phase, code: String(l.code), bags: Number(l.bags || 0), pricePerBag: null, subtotal: null };
+    }
+
+    const item = getItemByCode(prices, l.code);
+    const pricePerBag = item?.pricePerBag ?? null;
+    const free = Math.min(Number(l.bags || 0), freeLeft.get(String(l.code)) ?? 0);
+    if (free > 0) freeLeft.set(String(l.code), (freeLeft.get(String(l.code)) ?? 0) - free);
+    const subtotal = pricePerBag == null ? null : round2(pricePerBag * (Number(l.bags || 0) - free));
+    return { phase: l.phase, code: String(l.code), bags: Number(l.bags || 0), pricePerBag, subtotal };
+  });
+
+  const total = round2(rows.reduce((s, r) => s + (r.subtotal || 0), 0));
+  return { currency, rows, total };
+}
+
+/** Non-organic lines of every phase (organic is never bought from stock) */
+export function fertilizerLines(schedule: DaSchedule): StockLine[] {
+  const s = schedule || {};
+  return [...asArray(s.basal), ...asArray(s.after30DAT), ...asArray(s.topdress60DBH)]
+    .map((x: any) => ({ code: String(x?.code ?? ''), bags: Number(x?.bags || 0) }))
+    .filter((x) => x.code && x.code !== ORGANIC_FERT_CODE);
+}
+
+export function planHasRealFertilizer(plan: DaPlan): boolean {
+  return fertilizerLines(plan?.schedule).some((x) => x.bags > 0);
+}
+
+export function markCheapestAmongReal(plans: DaPlan[]) {
+  plans.forEach((p) => (p.isCheapest = false));
+  const real = plans.filter(planHasRealFertilizer);
+
+  real.sort((a, b) => {
+    const ta = Number(a?.cost?.total ?? Number.POSITIVE_INFINITY);
+    const tb = Number(b?.cost?.total ?? Number.POSITIVE_INFINITY);
+    return ta - tb;
+  });
+
+  if (real.length) {
+    const cheapestId = String(real[0].id);
+    const hit = plans.find((p) => String(p.id) === cheapestId);
+    if (hit) hit.isCheapest = true;
+  }
+}
+
+/** Per product: how many bags come from the farmer's storage and how many must be bought. */
+export function splitOnHand(
+  lines: { code: string; label?: string; bags: number }[],
+  onHand: StockLine[] | undefined
+): StockSplitRow[] {
+  const totals = new Map<string, { label: string; bags: number }>();
+  lines.forEach((l) => {
+    const prev = totals.get(l.code);
+    totals.set(l.code, { label: prev?.label ?? l.label ?? l.code, bags: (prev?.bags ?? 0) + Number(l.bags || 0) });
+  });
+
+  const left = new Map<string, number>();
+  (onHand || []).forEach((o) => left.set(o.code, (left.get(o.code) ?? 0) + Math.max(0, Number(o.bags) || 0)));
+
+  return Array.from(totals.entries()).map(([code, t]) => {
+    const fromStock = Math.min(t.bags, left.get(code) ?? 0);
+    return {
+      code,
+      label: t.label,
+      totalBags: round2(t.bags),
+      fromStockBags: round2(fromStock),
+      buyBags: round2(t.bags - fromStock),
+    };
+  });
+}
+
+/* ---------------- Bag solver: bags = targetKg / (gradeDecimal * 50) ---------------- */
+
+function bagsFor(targetKg: number, gradeDec: number) {
+  if (!gradeDec || gradeDec <= 0) return 0;
+  return targetKg / (gradeDec * BAG_KG);
+}
+
+function suppliedKg(bags: number, gradeDec: number) {
+  return bags * BAG_KG * gradeDec;
+}
+
+function totalsFor(req: NpkKg, areaHa: number) {
+  const area = Number(areaHa || 1);
+  return { area, targetN: req.N * area, targetP: req.P * area, targetK: req.K * area };
+}
+
+const round1 = (x: number) => Math.round(x * 10) / 10;
+
+/** Supplied vs target (kg), rounded to 0.1 kg; diff > 0 is a surplus, < 0 a deficit. */
+export function nutrientBalance(target: NpkKg, supplied: NpkKg): NutrientBalance {
+  const t = { N: round1(target.N), P: round1(target.P), K: round1(target.K) };
+  const s = { N: round1(supplied.N), P: round1(supplied.P), K: round1(supplied.K) };
+  return { target: t, supplied: s, diff: { N: round1(s.N - t.N), P: round1(s.P - t.P), K: round1(s.K - t.K) } };
+}
+
+/** Balance of a DA schedule (organic not counted) against a kg/ha requirement over the area. */
+export function daPlanBalance(schedule: DaSchedule, reqKgHa: NpkKg, areaHa: number): NutrientBalance {
+  const { targetN, targetP, targetK } = totalsFor(reqKgHa, areaHa);
+  const supplied = { N: 0, P: 0, K: 0 };
+  fertilizerLines(schedule).forEach((l) => {
+    const g = (GRADE as Record<string, NpkKg>)[l.code];
+    if (!g) return;
+    supplied.N += suppliedKg(l.bags, g.N);
+    supplied.P += suppliedKg(l.bags, g.P);
+    supplied.K += suppliedKg(l.bags, g.K);
+  });
+  return nutrientBalance({ N: targetN, P: targetP, K: targetK }, supplied);
+}
+
+/**
+ * Share of an N-only product's bags per phase, so that the plan's TOTAL N follows `split`
+ * after crediting the N that the basal P/K products already deliver.
+ */
+export function nOnlyPhaseShares(nFromBasalProducts: number, nFromNOnly: number, split: NSplit): NSplit {
+  if (!(nFromNOnly > 0)) return { basal: 0, after30DAT: 0, topdress60DBH: 0 };
+  const laterShare = split.after30DAT + split.topdress60DBH;
+  if (laterShare <= 0) return { basal: 1, after30DAT: 0, topdress60DBH: 0 };
+
+  const totalN = nFromBasalProducts + nFromNOnly;
+  const basal = Math.min(nFromNOnly, Math.max(0, split.basal * totalN - nFromBasalProducts)) / nFromNOnly;
+  return {
+    basal,
+    after30DAT: (1 - basal) * (split.after30DAT / laterShare),
+    topdress60DBH: (1 - basal) * (split.topdress60DBH / laterShare),
+  };
+}
+
+/** Bags per phase (0.01 bag); the rounding remainder goes to the last phase that gets any N */
+export function splitBags(bags: number, shares: NSplit): NSplit {
+  const out: NSplit = {
+    basal: round2(bags * shares.basal),
+    after30DAT: round2(bags * shares.after30DAT),
+    topdress60DBH: round2(bags * shares.topdress60DBH),
+  };
+  const last = (['topdress60DBH', 'after30DAT', 'basal'] as const).find((ph) => shares[ph] > 0) ?? 'basal';
+  out[last] = round2(out[last] + bags - out.basal - out.after30DAT - out.topdress60DBH);
+  return out;
+}
+
+/** Urea / Ammosul spread over basal / 30 DAT / topdress by the crop's N split */
+function splitN(
+  code: string,
+  totalBags: number,
+  nFromBasalProducts: number,
+  split: NSplit
+): { basalN: DaScheduleLine[] } & Pick<DaSchedule, 'after30DAT' | 'topdress60DBH'> {
+  const nFromNOnly = suppliedKg(totalBags, (GRADE as Record<string, NpkKg>)[code]?.N ?? 0);
+  const bags = splitBags(totalBags, nOnlyPhaseShares(nFromBasalProducts, nFromNOnly, split));
+  const line = (b: number) => (b > 0 ? [{ code, bags: b }] : []);
+  return { basalN: line(bags.basal), after30DAT: line(bags.after30DAT), topdress60DBH: line(bags.topdress60DBH) };
+}
+
+/**
+ * ✅ PLAN 1: 14-14-14 (for K) + 16-20-0 (for remaining P) + Urea (for remaining N)
+ */
+function buildPlan_Complete_Ammophos_Urea(req: NpkKg, areaHa: number, prices: AdminPricesDoc | null, split: NSplit): DaPlan {
+  const { targetN, targetP, targetK } = totalsFor(req, areaHa);
+
+  // Step A: 14-14-14 for K
+  const b141414 = round2(bagsFor(targetK, GRADE['14-14-14'].K));
+  const nFrom141414 = suppliedKg(b141414, GRADE['14-14-14'].N);
+  const pFrom141414 = suppliedKg(b141414, GRADE['14-14-14'].P);
+
+  // Remaining
+  const remP = Math.max(0, targetP - pFrom141414);
+  const remN_afterA = Math.max(0, targetN - nFrom141414);
+
+  // Step B: 16-20-0 for remaining P
+  const b16200 = round2(remP <= 0 ? 0 : bagsFor(remP, GRADE['16-20-0'].P));
+  const nFrom16200 = suppliedKg(b16200, GRADE['16-20-0'].N);
+
+  // Step C: Urea for remaining N
+  const remN_final = Math.max(0, remN_afterA - nFrom16200);
+  const bUreaTotal = round2(remN_final <= 0 ? 0 : bagsFor(remN_final, GRADE['46-0-0'].N));
+  const { basalN, ...laterN } = splitN('46-0-0', bUreaTotal, nFrom141414 + nFrom16200, split);
+
+  const schedule: DaSchedule = {
+    organic: [],
+    basal: [
+      ...(b141414 > 0 ? [{ code: '14-14-14', bags: b141414 }] : []),
+      ...(b16200 > 0 ? [{ code: '16-20-0', bags: b16200 }] : []),
+      ...basalN,
+    ],
+    ...laterN,
+  };
+
+  return {
+    id: 'PLAN_COMPLETE_AMMOPHOS_UREA',
+    title: 'Fertilizer Plan',
+    label: 'Option (14-14-14 + 16-20-0 + Urea)',
+    schedule,
+    cost: calcCost(schedule, prices),
+  };
+}
+
+/**
+ * ✅ PLAN 2: DAP + MOP + Urea
+ * - MOP satisfies K
+ * - DAP satisfies P (and credits N)
+ * - Urea tops up remaining N (split)
+ */
+function buildPlan_DAP_MOP_UREA(req: NpkKg, areaHa: number, prices: AdminPricesDoc | null, split: NSplit): DaPlan {
+  const { targetN, targetP, targetK } = totalsFor(req, areaHa);
+
+  const bMop = round2(bagsFor(targetK, GRADE['0-0-60'].K));
+  const bDap = round2(bagsFor(targetP, GRADE['18-46-0'].P));
+  const nFromDap = suppliedKg(bDap, GRADE['18-46-0'].N);
+
+  const remN = Math.max(0, targetN - nFromDap);
+  const bUreaTotal = round2(remN <= 0 ? 0 : bagsFor(remN, GRADE['46-0-0'].N));
+  const { basalN, ...laterN } = splitN('46-0-0', bUreaTotal, nFromDap, split);
+
+  const schedule: DaSchedule = {
+    organic: [],
+    basal: [
+      ...(bDap > 0 ? [{ code: '18-46-0', bags: bDap }] : []),
+      ...(bMop > 0 ? [{ code: '0-0-60', bags: bMop }] : []),
+      ...basalN,
+    ],
+    ...laterN,
+  };
+
+  return {
+    id: 'PLAN_DAP_MOP_UREA',
+    title: 'Fertilizer Plan',
+    label: 'Option (DAP + MOP + Urea)',
+    schedule,
+    cost: calcCost(schedule, prices),
+  };
+}
+
+/**
+ * ✅ PLAN 3: 16-20-0 + MOP + Ammosul
+ * - MOP satisfies K
+ * - 16-20-0 satisfies P (credits N)
+ * - Ammosul tops up remaining N (split)
+ */
+function buildPlan_16200_MOP_AMMOSUL(req: NpkKg, areaHa: number, prices: AdminPricesDoc | null, split: NSplit): DaPlan {
+  const { targetN, targetP, targetK } = totalsFor(req, areaHa);
+
+  const bMop = round2(bagsFor(targetK, GRADE['0-0-60'].K));
+  const b16200 = round2(bagsFor(targetP, GRADE['16-20-0'].P));
+  const nFrom16200 = suppliedKg(b16200, GRADE['16-20-0'].N);
+
+  const remN = Math.max(0, targetN - nFrom16200);
+  const bAmmTotal = round2(remN <= 0 ? 0 : bagsFor(remN, GRADE['21-0-0'].N));
+  const { basalN, ...laterN } = splitN('21-0-0', bAmmTotal, nFrom16200, split);
+
+  const schedule: DaSchedule = {
+    organic: [],
+    basal: [
+      ...(b16200 > 0 ? [{ code: '16-20-0', bags: b16200 }] : []),
+      ...(bMop > 0 ? [{ code: '0-0-60', bags: bMop }] : []),
+      ...basalN,
+    ],
+    ...laterN,
+  };
+
+  return {
+    id: 'PLAN_16200_MOP_AMMOSUL',
+    title: 'Fertilizer Plan',
+    label: 'Option (16-20-0 + MOP + Ammosul)',
+    schedule,
+    cost: calcCost(schedule, prices),
+  };
+}
+
+/**
+ * The three DA plans for a kg/ha requirement, cheapest first (stable order when offline).
+ * Bags already at home are used first (not charged) and reported in `stock`.
+ * Urea / Ammosul follow `nSplit` (getNSplit in src/fertilizerLogic.ts), the same table the engine schedules use.
+ */
+export function buildDaPlans(args: {
+  prices: AdminPricesDoc | null;
+  reqKgHa: NpkKg;
+  areaHa: number;
+  onHand?: StockLine[];
+  nSplit?: NSplit;
+}): DaPlan[] {
+  const split = args.nSplit ?? EVEN_LATE_SPLIT;
+  const all = [
+    buildPlan_Complete_Ammophos_Urea(args.reqKgHa, args.areaHa, args.prices, split),
+    buildPlan_DAP_MOP_UREA(args.reqKgHa, args.areaHa, args.prices, split),
+    buildPlan_16200_MOP_AMMOSUL(args.reqKgHa, args.areaHa, args.prices, split),
+  ];
+
+  all.forEach((p) => (p.balance = daPlanBalance(p.schedule, args.reqKgHa, args.areaHa)));
+
+  if (asArray(args.onHand).length) {
+    all.forEach((p) => {
+      p.cost = calcCost(p.schedule, args.prices, args.onHand);
+      p.stock = splitOnHand(fertilizerLines(p.schedule), args.onHand);
+    });
+  }
+
+  const plans = all.filter(planHasRealFertilizer);
+
+  if (plans.some((p) => p?.cost?.total != null)) {
+    plans.sort((a, b) => {
+      const ta = a.cost?.total ?? Number.POSITIVE_INFINITY;
+      const tb = b.cost?.total ?? Number.POSITIVE_INFINITY;
+      return ta - tb;
+    });
+  }
+
+  markCheapestAmongReal(plans);
+  return plans;
+}
+
+/**
+ * Priced DA plans in the engine's RecommendPlan shape (rows keyed by price key, bags actually bought),
+ * so the price-sensitivity helpers in src/fertilizerLogic.ts work on them. Unpriced plans are skipped.
+ */
+export function daPlansAsRecommendPlans(plans: DaPlan[]): RecommendPlan[] {
+  return plans
+    .filter((p) => p.cost != null)
+    .map((p) => {
+      const byKey = new Map<string, RecommendPlanRow>();
+      asArray<DaCostRow>(p.cost?.rows).forEach((r) => {
+        const key = CODE_TO_PRICE_KEY[r.code];
+        if (!key || !r.pricePerBag) return;
+        const bought = Number(r.subtotal || 0) / r.pricePerBag;
+        const prev = byKey.get(key);
+        byKey.set(key, {
+          key,
+          label: FERTILIZER_NAMES[r.code] ?? r.code,
+          bags: round2((prev?.bags ?? 0) + bought),
+          pricePerBag: r.pricePerBag,
+          subtotal: round2((prev?.subtotal ?? 0) + Number(r.subtotal || 0)),
+        });
+      });
+      return {
+        code: String(p.id),
+        title: p.title,
+        rows: Array.from(byKey.values()),
+        total: Number(p.cost?.total || 0),
+        currency: String(p.cost?.currency || 'PHP'),
+      };
+    });
+}
@@ -0,0 +1,205 @@
+// src/daRecommend.ts
+// ✅ Recommendation facade for the three recommendation screens:
+// server /api/recommend first, the local src/daPlans engine when offline / slow,
+// and a quiet re-check against the server once the phone is back online.
+import NetInfo from '@react-native-community/netinfo';
+import {
+  getDaRecommendation,
+  type AdminPricesDoc,
+  type DaPlan,
+  type DaRecommendRequest,
+  type DaRecommendResponse,
+} from './services';
+import {
+  BAG_KG,
+  buildDaPlans,
+  calcCost,
+  daPlanBalance,
+  fertilizerLines,
+  markCheapestAmongReal,
+  planHasRealFertilizer,
+  splitOnHand,
+  type NSplit,
+} from './daPlans';
+
+export type PlanSource = 'server' | 'local';
+
+export type DaPlansResult = {
+  source: PlanSource;
+  plans: DaPlan[];
+  /** raw server response (null when the local engine was used) */
+  resp: DaRecommendResponse | null;
+  /** why the local engine was used: offline / timeout / server error / no plans */
+  fallbackReason?: string;
+};
+
+export type DaPlansArgs = {
+  token?: string | null;
+  request: DaRecommendRequest;
+  prices: AdminPricesDoc | null;
+  reqKgHa: { N: number; P: number; K: number };
+  areaHa: number;
+  onHand?: { code: string; bags: number }[];
+  /** crop N split for the local plans (getNSplit in src/fertilizerLogic.ts) */
+  nSplit?: NSplit;
+  timeoutMs?: number;
+};
+
+export const SERVER_TIMEOUT_MS = 8000;
+
+// totals within these are treated as the same (rounding of bags / pesos)
+const BAGS_EPS = 0.01;
+const COST_EPS = 0.5;
+const KG_EPS = 0.5;
+
+async function isReachable(): Promise<boolean> {
+  try {
+    const net = await NetInfo.fetch();
+    return net.isInternetReachable === true ? true : net.isInternetReachable === false ? false : !!net.isConnected;
+  } catch {
+    return false;
+  }
+}
+
+// aborts the request itself, so a slow server does not keep the connection open after we fall back
+async function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T> {
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), ms);
+
+  try {
+    return await run(controller.signal);
+  } catch (e) {
+    throw controller.signal.aborted ? new Error('timeout') : e;
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+/** Server plans (or the legacy single schedule), with the farmer's stock applied like the local engine does */
+function serverPlans(resp: DaRecommendResponse, args: DaPlansArgs): DaPlan[] {
+  const raw: DaPlan[] = Array.isArray(resp?.plans) && resp.plans.length
+    ? resp.plans
+    : resp?.schedule
+      ? [{ id: 'DA', title: 'Fertilizer Plan', label: 'DA Plan', isDa: true, schedule: resp.schedule, cost: resp.cost ?? null }]
+      : [];
+
+  const plans = raw
+    .filter(planHasRealFertilizer)
+    .map((p) => ({ ...p, balance: p.balance ?? daPlanBalance(p.schedule, args.reqKgHa, args.areaHa) }));
+
+  if (args.onHand?.length) {
+    plans.forEach((p) => {
+      p.cost = calcCost(p.schedule, args.prices, args.onHand) ?? p.cost;
+      p.stock = splitOnHand(fertilizerLines(p.schedule), args.onHand);
+    });
+    markCheapestAmongReal(plans);
+  }
+  return plans;
+}
+
+function localResult(args: DaPlansArgs, fallbackReason: string): DaPlansResult {
+  return {
+    source: 'local',
+    plans: buildDaPlans({
+      prices: args.prices,
+      reqKgHa: args.reqKgHa,
+      areaHa: args.areaHa,
+      onHand: args.onHand,
+      nSplit: args.nSplit,
+    }),
+    resp: null,
+    fallbackReason,
+  };
+}
+
+// the server must have planned for the same kg/ha as the phone (admin tables, carry-over);
+// a response without the echo is accepted; one that echoes different targets is not
+function sameTargets(server: DaRecommendResponse['nutrientRequirementKgHa'], local: DaPlansArgs['reqKgHa']): boolean {
+  if (!server) return true;
+  return (['N', 'P', 'K'] as const).every((n) => Math.abs(Number(server[n]) - local[n]) <= KG_EPS);
+}
+
+/** Server result, or null with the reason it could not be used */
+async function tryServer(args: DaPlansArgs): Promise<{ result: DaPlansResult | null; reason: string }> {
+  if (!(await isReachable())) return { result: null, reason: 'offline' };
+
+  try {
+    const resp = await withTimeout(
+      (signal) => getDaRecommendation(args.token, { ...args.request, reqKgHa: args.reqKgHa }, signal),
+      args.timeoutMs ?? SERVER_TIMEOUT_MS
+    );
+    if (!sameTargets(resp?.nutrientRequirementKgHa, args.reqKgHa)) {
+      return { result: null, reason: 'server used different targets' };
+    }
+    const plans = serverPlans(resp, args);
+    if (!plans.length) return { result: null, reason: 'server returned no plans' };
+    return { result: { source: 'server', plans, resp }, reason: '' };
+  } catch (e: any) {
+    return { result: null, reason: e?.message === 'timeout' ? 'server timed out' : 'server error' };
+  }
+}
+
+/** DA plans for a reading: server when reachable, otherwise the local engine (labelled with `source`). */
+export async function getDaPlans(args: DaPlansArgs): Promise<DaPlansResult> {
+  const { result, reason } = await tryServer(args);
+  return result ?? localResult(args, reason);
+}
+
+function bagsByCode(plan: DaPlan): Map<string, number> {
+  const m = new Map<string, number>();
+  fertilizerLines(plan.schedule).forEach((l) => m.set(l.code, (m.get(l.code) ?? 0) + l.bags));
+  return m;
+}
+
+const fmtBags = (n: number) => `${Math.round(n * 100) / 100} bag(s)`;
+
+/**
+ * Human-readable differences between two plan lists (matched by plan id):
+ * missing plans, total cost and bag count per product. Empty = same result.
+ */
+export function diffDaPlans(local: DaPlan[], server: DaPlan[]): string[] {
+  const out: string[] = [];
+  const byId = new Map(server.map((p) => [String(p.id), p]));
+
+  local.forEach((lp) => {
+    const sp = byId.get(String(lp.id));
+    if (!sp) {
+      out.push(`${lp.label}: not offered by the server`);
+      return;
+    }
+    byId.delete(String(lp.id));
+
+    const lt = lp.cost?.total;
+    const st = sp.cost?.total;
+    if (lt != null && st != null && Math.abs(lt - st) > COST_EPS) {
+      const cur = sp.cost?.currency || lp.cost?.currency || 'PHP';
+      out.push(`${lp.label}: total ${cur} ${lt.toFixed(2)} → ${cur} ${st.toFixed(2)}`);
+    }
+
+    const lb = bagsByCode(lp);
+    const sb = bagsByCode(sp);
+    new Set([...lb.keys(), ...sb.keys()]).forEach((code) => {
+      const a = lb.get(code) ?? 0;
+      const b = sb.get(code) ?? 0;
+      if (Math.abs(a - b) > BAGS_EPS) {
+        out.push(`${lp.label}: ${code} ${fmtBags(a)} → ${fmtBags(b)} (${Math.round((b - a) * BAG_KG * 10) / 10} kg)`);
+      }
+    });
+  });
+
+  byId.forEach((sp) => out.push(`${sp.label}: only offered by the server`));
+  return out;
+}
+
+/**
+ * Re-runs the server for a result that was computed locally.
+ * Returns null while the server is still unreachable; `differences` is empty when both agree.
+ */
+export async function recheckWithServer(
+  args: DaPlansArgs,
+  local: DaPlan[]
+): Promise<{ result: DaPlansResult; differences: string[] } | null> {
+  const { result } = await tryServer(args);
+  if (!result) return null;
+  return { result, differences: diffDaPlans(local, result.plans) };
+}
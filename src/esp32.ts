@@ -1,9 +1,91 @@
 // src/esp32.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
+import { calibrateValues, calibrationStamp, type CalibrationStamp, type RawValues } from './calibration';
+import { getCalibrationProfile } from './calibrationStore';
+import { DEFAULT_SIMULATOR_CONFIG, createSimulatorTransport, type SimulatorConfig } from './esp32Simulator';
 
 export const ESP_SSID = 'Fertisense_AP';
 export const ESP_BASE_URL = 'http://192.168.4.1';
 
+/* ---------------- Transport (real probe or built-in simulator) ---------------- */
+
+export type SensorMode = 'device' | 'simulator';
+
+export type SensorResponse = { ok: boolean; status: number; json: () => Promise<any> };
+
+export type SensorTransport = {
+  id: SensorMode;
+  label: string;
+  /** `probe` = reachability check, not a reading */
+  get: (path: string, timeoutMs: number, opts?: { probe?: boolean }) => Promise<SensorResponse>;
+};
+
+/** Which endpoint the firmware serves full readings on (all kits answer /npk) */
+export type FirmwareProtocol = 'read' | 'all' | 'npk';
+
+/** A FertiSense kit: the AP-mode default, or one on a shared router (station mode) */
+export type SensorDevice = {
+  id: string;
+  name: string;
+  baseUrl: string;
+  /** Wi-Fi to join first (AP-mode kits); empty for station mode */
+  ssid?: string;
+  protocol: FirmwareProtocol;
+  builtIn?: boolean;
+};
+
+export const DEFAULT_DEVICE: SensorDevice = {
+  id: 'ap',
+  name: 'FertiSense kit (AP mode)',
+  baseUrl: ESP_BASE_URL,
+  ssid: ESP_SSID,
+  protocol: 'read',
+  builtIn: true,
+};
+
+export type SensorSettings = {
+  mode: SensorMode;
+  simulator: SimulatorConfig;
+  devices: SensorDevice[];
+  activeDeviceId: string;
+};
+
+const SETTINGS_KEY = 'dev:sensorSettings';
+
+let settings: SensorSettings = {
+  mode: 'device',
+  simulator: DEFAULT_SIMULATOR_CONFIG,
+  devices: [DEFAULT_DEVICE],
+  activeDeviceId: DEFAULT_DEVICE.id,
+};
+let settingsLoad: Promise<SensorSettings> | null = null;
+
+const FULL_READING_PATH: Record<FirmwareProtocol, string> = { read: '/read', all: '/all', npk: '/npk' };
+
+export function normalizeBaseUrl(url: string): string {
+  const trimmed = String(url || '').trim().replace(/\/+$/, '');
+  if (!trimmed) return '';
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+}
+
+function normalizeDevices(list: any): SensorDevice[] {
+  const saved: SensorDevice[] = (Array.isArray(list) ? list : [])
+    .filter((d: any) => d && d.id && d.id !== DEFAULT_DEVICE.id && normalizeBaseUrl(d.baseUrl))
+    .map((d: any) => ({
+      id: String(d.id),
+      name: String(d.name || d.baseUrl),
+      baseUrl: normalizeBaseUrl(d.baseUrl),
+      ssid: d.ssid ? String(d.ssid) : undefined,
+      protocol: d.protocol === 'all' || d.protocol === 'npk' ? d.protocol : 'read',
+    }));
+  return [DEFAULT_DEVICE, ...saved];
+}
+
+function activeDevice(): SensorDevice {
+  return settings.devices.find((d) => d.id === settings.activeDeviceId) ?? DEFAULT_DEVICE;
+}
+
 /**
  * Internal: fetch with timeout
  */
@@ -19,49 +101,146 @@ async function fetchWithTimeout(url: string, timeoutMs: number) {
   }
 }
 
+function deviceTransport(device: SensorDevice): SensorTransport {
+  return {
+    id: 'device',
+    label: `${device.name} (${device.baseUrl})`,
+    get: (path, timeoutMs) => fetchWithTimeout(`${device.baseUrl}${path}`, timeoutMs),
+  };
+}
+
+const simulatorTransport = createSimulatorTransport(() => settings.simulator);
+
+// the simulator's one-shot fault covers one whole read (incl. the /npk fallback), then it is cleared
+function clearNextFault() {
+  if (!settings.simulator.nextFault) return;
+  settings = { ...settings, simulator: { ...settings.simulator, nextFault: null } };
+  AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings)).catch(() => {});
+}
+
+/** Developer settings (Settings → Developer): which transport the reading screens use. Loaded once. */
+export function loadSensorSettings(): Promise<SensorSettings> {
+  if (!settingsLoad) {
+    settingsLoad = AsyncStorage.getItem(SETTINGS_KEY)
+      .then((raw) => {
+        const saved = raw ? JSON.parse(raw) : null;
+        if (saved && typeof saved === 'object') {
+          const devices = normalizeDevices(saved.devices);
+          settings = {
+            mode: saved.mode === 'simulator' ? 'simulator' : 'device',
+            simulator: {
+              ...DEFAULT_SIMULATOR_CONFIG,
+              ...(saved.simulator || {}),
+              custom: { ...DEFAULT_SIMULATOR_CONFIG.custom, ...(saved.simulator?.custom || {}) },
+            },
+            devices,
+            activeDeviceId: devices.some((d) => d.id === saved.activeDeviceId) ? saved.activeDeviceId : DEFAULT_DEVICE.id,
+          };
+        }
+        return settings;
+      })
+      .catch(() => settings);
+  }
+  // current settings (a one-shot fault may have been cleared since loading)
+  return settingsLoad.then(() => settings);
+}
+
+export async function saveSensorSettings(next: SensorSettings): Promise<void> {
+  settings = next;
+  settingsLoad = Promise.resolve(next);
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+}
+
+/** The simulator and Developer settings are for development builds and admins only */
+export function simulatorAllowed(role?: string | null): boolean {
+  return __DEV__ || role === 'admin';
+}
+
+export async function getSensorTransport(): Promise<SensorTransport> {
+  const s = await loadSensorSettings();
+  return s.mode === 'simulator' ? simulatorTransport : deviceTransport(activeDevice());
+}
+
+/* ---------------- Device profiles ---------------- */
+
+export async function getActiveDevice(): Promise<SensorDevice> {
+  await loadSensorSettings();
+  return activeDevice();
+}
+
+export async function setActiveDevice(id: string): Promise<void> {
+  const s = await loadSensorSettings();
+  if (!s.devices.some((d) => d.id === id)) return;
+  await saveSensorSettings({ ...s, activeDeviceId: id });
+}
+
+/** Adds or updates a profile (matched by id, else by base URL); returns the saved profile. */
+export async function saveSensorDevice(device: Omit<SensorDevice, 'id'> & { id?: string }): Promise<SensorDevice> {
+  const s = await loadSensorSettings();
+  const baseUrl = normalizeBaseUrl(device.baseUrl);
+  if (!baseUrl) throw new Error('Base URL is required (e.g. http://192.168.1.50).');
+
+  const existing = s.devices.find((d) => !d.builtIn && (d.id === device.id || d.baseUrl === baseUrl));
+  const saved: SensorDevice = {
+    id: existing?.id ?? `dev_${Date.now()}`,
+    name: device.name.trim() || baseUrl,
+    baseUrl,
+    ssid: device.ssid?.trim() || undefined,
+    protocol: device.protocol,
+  };
+  const devices = existing ? s.devices.map((d) => (d.id === existing.id ? saved : d)) : [...s.devices, saved];
+  await saveSensorSettings({ ...s, devices });
+  return saved;
+}
+
+export async function removeSensorDevice(id: string): Promise<void> {
+  const s = await loadSensorSettings();
+  if (id === DEFAULT_DEVICE.id) return;
+  await saveSensorSettings({
+    ...s,
+    devices: s.devices.filter((d) => d.id !== id),
+    activeDeviceId: s.activeDeviceId === id ? DEFAULT_DEVICE.id : s.activeDeviceId,
+  });
+}
+
 /**
  * ✅ The ONLY reliable check:
  * We must confirm ESP32 is reachable at 192.168.4.1 by hitting its endpoints.
  */
 export async function ensureEsp32Reachable(opts?: { timeoutMs?: number }): Promise<void> {
   const timeoutMs = opts?.timeoutMs ?? 2500;
+  const transport = await getSensorTransport();
 
-  // Quick sanity: if device has no network route at all, fail early
-  const net = await NetInfo.fetch();
-  if (!net.isConnected) {
-    throw new Error('No network connection detected. Please enable Wi-Fi.');
+  // Quick sanity: if device has no network route at all, fail early (the simulator needs none)
+  if (transport.id === 'device') {
+    const net = await NetInfo.fetch();
+    if (!net.isConnected) {
+      throw new Error('No network connection detected. Please enable Wi-Fi.');
+    }
   }
 
   const tryPath = async (path: string) => {
-    const res = await fetchWithTimeout(`${ESP_BASE_URL}${path}`, timeoutMs);
+    const res = await transport.get(path, timeoutMs, { probe: true });
     if (!res.ok) throw new Error(`${path} status ${res.status}`);
     return true;
   };
 
   // ✅ Try common endpoints in order
-  try {
-    await tryPath('/npk');
-    return;
-  } catch (_) {
-    // ignore
-  }
-
-  try {
-    await tryPath('/read');
-    return;
-  } catch (_) {
-    // ignore
-  }
-
-  try {
-    await tryPath('/all');
-    return;
-  } catch (_) {
-    // ignore
+  for (const path of ['/npk', '/read', '/all']) {
+    try {
+      await tryPath(path);
+      return;
+    } catch (_) {
+      // ignore
+    }
   }
 
+  if (transport.id === 'simulator') throw new Error('Simulated sensor did not respond (timeout).');
+  const device = activeDevice();
   throw new Error(
-    `ESP32 not reachable at ${ESP_BASE_URL}. Make sure you are connected to "${ESP_SSID}" Wi-Fi.`
+    device.ssid
+      ? `${device.name} not reachable at ${device.baseUrl}. Make sure you are connected to "${device.ssid}" Wi-Fi.`
+      : `${device.name} not reachable at ${device.baseUrl}. Make sure the phone is on the same Wi-Fi as the kit.`
   );
 }
 
@@ -78,25 +257,459 @@ export async function autoConnectToESP32(): Promise<void> {
  */
 export async function readNpkFromESP32(): Promise<any> {
   await ensureEsp32Reachable({ timeoutMs: 2500 });
-  const res = await fetchWithTimeout(`${ESP_BASE_URL}/npk`, 3500);
-  if (!res.ok) throw new Error(`ESP32 /npk failed: ${res.status}`);
-  return await res.json();
+  const transport = await getSensorTransport();
+  try {
+    const res = await transport.get('/npk', 3500);
+    if (!res.ok) throw new Error(`ESP32 /npk failed: ${res.status}`);
+    return await res.json();
+  } finally {
+    if (transport.id === 'simulator') clearNextFault();
+  }
 }
 
 /**
- * Your sensor-reading imports readNowFromESP32.
- * Keep it as the “main read” function.
+ * Raw “main read”: the endpoint the firmware negotiated via /info (else the device profile's protocol),
+ * falling back to /npk. Screens should use readSensorFromESP32 for a parsed reading.
  */
 export async function readNowFromESP32(): Promise<any> {
-  // prefer /read if your firmware returns full object there
-  // fallback to /npk if /read doesn’t exist
   await ensureEsp32Reachable({ timeoutMs: 2500 });
+  const transport = await getSensorTransport();
+  const info = await getFirmwareInfo();
+  const fullPath = info?.payloadVersion
+    ? VERSION_PATH[info.payloadVersion]
+    : transport.id === 'simulator'
+      ? '/read'
+      : FULL_READING_PATH[activeDevice().protocol];
 
   try {
-    const res = await fetchWithTimeout(`${ESP_BASE_URL}/read`, 3500);
-    if (!res.ok) throw new Error(`/read failed: ${res.status}`);
+    if (fullPath === '/npk') return await readNpkFromESP32();
+    const res = await transport.get(fullPath, 3500);
+    if (!res.ok) throw new Error(`${fullPath} failed: ${res.status}`);
     return await res.json();
   } catch {
     return await readNpkFromESP32();
+  } finally {
+    if (transport.id === 'simulator') clearNextFault();
   }
 }
+
+/**
+ * Reads once and validates the payload; `reading` is null when it can't be used (see `error`).
+ * The probe's calibration profile is applied unless `raw` is set (calibration wizard).
+ */
+export async function readSensorFromESP32(opts?: { raw?: boolean }): Promise<ParsedSensorPayload> {
+  const payload = await readNowFromESP32();
+  const parsed = parseSensorPayload(payload, { version: (await getFirmwareInfo())?.payloadVersion });
+  if (!parsed.reading || opts?.raw) return parsed;
+
+  const profile = await getCalibrationProfile((await getDeviceIdentity()).key);
+  if (!profile) return parsed;
+
+  const { n, p, k, ph, ec } = parsed.reading;
+  const raw: RawValues = { n, p, k, ph, ec };
+  return {
+    ...parsed,
+    reading: {
+      ...parsed.reading,
+      ...calibrateValues(raw, profile),
+      // the firmware's levels and kg/ha come from the uncorrected ppm
+      levels: undefined,
+      kgHa: undefined,
+      raw,
+      calibration: calibrationStamp(profile),
+    },
+  };
+}
+
+/**
+ * Key + display name that calibration profiles are stored under for the probe in use.
+ * `reachable` = /info answered (or 404'd); an offline probe can only be keyed by its URL.
+ */
+export async function getDeviceIdentity(): Promise<{ key: string; name: string; reachable: boolean }> {
+  const transport = await getSensorTransport();
+  const info = await getFirmwareInfo();
+  const reachable = info !== undefined;
+  if (info?.deviceId) return { key: `id:${info.deviceId}`, name: info.name || transport.label, reachable };
+  if (transport.id === 'simulator') return { key: 'simulator', name: 'Simulator', reachable };
+  const device = activeDevice();
+  return { key: `url:${device.baseUrl}`, name: device.name, reachable };
+}
+
+/* ---------------- Payload parsing ---------------- */
+
+/**
+ * 1 = /npk  {ok, ts, n, p, k, ph, ec}
+ * 2 = /read adds n/p/k_kg_ha and levels
+ * 3 = /all  adds moisture and temp
+ */
+export type PayloadVersion = 1 | 2 | 3;
+
+const VERSION_PATH: Record<PayloadVersion, string> = { 1: '/npk', 2: '/read', 3: '/all' };
+
+export type NutrientLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+/** Normalized probe reading (NPK in mg/kg, EC in mS/cm, moisture in %, temp in °C) */
+export type SensorReading = {
+  version: PayloadVersion;
+  ts: number;
+  n: number;
+  p: number;
+  k: number;
+  ph?: number;
+  ec?: number;
+  moisture?: number;
+  temp?: number;
+  /** firmware's own kg/ha conversion (v2+) */
+  kgHa?: { n: number; p: number; k: number };
+  levels?: { n?: NutrientLevel; p?: NutrientLevel; k?: NutrientLevel };
+  simulated?: boolean;
+  /** probe values before calibration (only when a profile was applied) */
+  raw?: RawValues;
+  calibration?: CalibrationStamp;
+};
+
+export type PayloadErrorKind =
+  /** not JSON / not an object */
+  | 'malformed'
+  /** firmware answered ok:false */
+  | 'sensor'
+  /** all-zero poll: probe not in the soil */
+  | 'not-inserted'
+  /** N, P or K missing or outside the probe's range */
+  | 'invalid';
+
+export type ParsedSensorPayload = {
+  reading: SensorReading | null;
+  error?: { kind: PayloadErrorKind; message: string };
+  /** optional fields that were missing, dropped or converted */
+  warnings: string[];
+};
+
+export type FirmwareInfo = {
+  name?: string;
+  deviceId?: string;
+  firmware?: string;
+  /** highest payload version the firmware serves */
+  payloadVersion?: PayloadVersion;
+};
+
+// ranges of the RS485 7-in-1 soil probe
+const RANGES = {
+  npk: [0, 1999],
+  ph: [3, 9],
+  ec: [0, 20],
+  moisture: [0, 100],
+  temp: [-20, 60],
+} as const;
+
+const isPayloadVersion = (v: any): v is PayloadVersion => v === 1 || v === 2 || v === 3;
+
+function toNumber(v: any): number | undefined {
+  if (typeof v === 'number') return Number.isFinite(v) ? v : undefined;
+  if (typeof v === 'string' && v.trim() !== '') {
+    const n = Number(v);
+    return Number.isFinite(n) ? n : undefined;
+  }
+  return undefined;
+}
+
+function toLevel(v: any): NutrientLevel | undefined {
+  const s = String(v ?? '').toUpperCase();
+  return s === 'LOW' || s === 'MEDIUM' || s === 'HIGH' ? s : undefined;
+}
+
+function inferVersion(d: any): PayloadVersion {
+  if ('moisture' in d || 'temp' in d) return 3;
+  if ('levels' in d || 'n_kg_ha' in d) return 2;
+  return 1;
+}
+
+function pickVersion(d: any, hint: PayloadVersion | undefined, warnings: string[]): PayloadVersion {
+  const declared = d.v ?? d.version ?? d.payloadVersion;
+  if (declared !== undefined) {
+    const v = toNumber(declared);
+    if (isPayloadVersion(v)) return v;
+    warnings.push(`Unknown payload version "${declared}"; parsed by its fields.`);
+    return inferVersion(d);
+  }
+  // /info advertises the highest version; an older endpoint (e.g. the /npk fallback) still sends less
+  const inferred = inferVersion(d);
+  return hint && hint < inferred ? hint : inferred;
+}
+
+/**
+ * Validates a probe response (object or JSON text) for its payload version.
+ * `version` is the /info hint used when the payload doesn't declare one.
+ */
+export function parseSensorPayload(raw: any, opts?: { version?: PayloadVersion }): ParsedSensorPayload {
+  const warnings: string[] = [];
+  const fail = (kind: PayloadErrorKind, message: string): ParsedSensorPayload => ({
+    reading: null,
+    error: { kind, message },
+    warnings,
+  });
+
+  let d = raw;
+  if (typeof d === 'string') {
+    try {
+      d = JSON.parse(d);
+    } catch {
+      return fail('malformed', 'Sensor response is not valid JSON.');
+    }
+  }
+  if (!d || typeof d !== 'object' || Array.isArray(d)) return fail('malformed', 'Sensor response is empty.');
+  if (d.ok === false || d.ok === 'false') return fail('sensor', String(d.error || 'ok=false from ESP32'));
+
+  const version = pickVersion(d, opts?.version, warnings);
+
+  const npk = { n: toNumber(d.n), p: toNumber(d.p), k: toNumber(d.k) };
+  for (const key of ['n', 'p', 'k'] as const) {
+    const v = npk[key];
+    if (v === undefined) return fail('invalid', `${key.toUpperCase()} is missing or not a number.`);
+    if (v < RANGES.npk[0] || v > RANGES.npk[1]) {
+      return fail('invalid', `${key.toUpperCase()} = ${v} is outside the probe range (0–1999 mg/kg).`);
+    }
+  }
+  if (npk.n === 0 && npk.p === 0 && npk.k === 0) {
+    return fail('not-inserted', 'All-zero reading (probe not inserted or not connected).');
+  }
+
+  const optional = (key: 'ph' | 'ec' | 'moisture' | 'temp', label: string, expected: boolean) => {
+    if (d[key] === undefined || d[key] === null) {
+      if (expected) warnings.push(`${label} is missing.`);
+      return undefined;
+    }
+    let v = toNumber(d[key]);
+    if (v === undefined) {
+      warnings.push(`${label} is not a number; ignored.`);
+      return undefined;
+    }
+    // some firmware builds report EC in µS/cm
+    if (key === 'ec' && v > RANGES.ec[1] && v <= RANGES.ec[1] * 1000) {
+      warnings.push(`EC ${v} looks like µS/cm; converted to ${v / 1000} mS/cm.`);
+      v = v / 1000;
+    }
+    const [min, max] = RANGES[key];
+    if (v < min || v > max) {
+      warnings.push(`${label} = ${v} is outside ${min}–${max}; ignored.`);
+      return undefined;
+    }
+    return v;
+  };
+
+  const reading: SensorReading = {
+    version,
+    ts: toNumber(d.ts) ?? Date.now(),
+    n: npk.n as number,
+    p: npk.p as number,
+    k: npk.k as number,
+    ph: optional('ph', 'pH', true),
+    ec: optional('ec', 'EC', true),
+    moisture: optional('moisture', 'Moisture', version >= 3),
+    temp: optional('temp', 'Temperature', version >= 3),
+    simulated: d.simulated === true ? true : undefined,
+  };
+
+  if (version >= 2) {
+    const kg = { n: toNumber(d.n_kg_ha), p: toNumber(d.p_kg_ha), k: toNumber(d.k_kg_ha) };
+    if (kg.n !== undefined && kg.p !== undefined && kg.k !== undefined) {
+      reading.kgHa = { n: kg.n, p: kg.p, k: kg.k };
+    } else {
+      warnings.push('kg/ha values are missing.');
+    }
+
+    if (d.levels && typeof d.levels === 'object') {
+      const levels = { n: toLevel(d.levels.n), p: toLevel(d.levels.p), k: toLevel(d.levels.k) };
+      const bad = (['n', 'p', 'k'] as const).filter((key) => d.levels[key] !== undefined && !levels[key]);
+      if (bad.length) warnings.push(`Unknown level for ${bad.map((b) => b.toUpperCase()).join(', ')}; recomputed from ppm.`);
+      reading.levels = levels;
+    } else {
+      warnings.push('Levels are missing; computed from ppm.');
+    }
+  }
+
+  return { reading, warnings };
+}
+
+export function parseFirmwareInfo(raw: any): FirmwareInfo | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const str = (...vals: any[]) => {
+    const v = vals.find((x) => x !== undefined && x !== null && x !== '');
+    return v === undefined ? undefined : String(v);
+  };
+  const version = toNumber(raw.payloadVersion ?? raw.payload ?? raw.v);
+  return {
+    name: str(raw.name, raw.deviceName, raw.device),
+    deviceId: str(raw.deviceId, raw.mac, raw.chipId, raw.id),
+    firmware: str(raw.firmware, raw.fw),
+    payloadVersion: isPayloadVersion(version) ? version : undefined,
+  };
+}
+
+// per transport label (= device + URL); null = reachable but no /info (older firmware)
+const infoCache = new Map<string, FirmwareInfo | null>();
+
+/** The active probe's /info, asked once per device; undefined when it couldn't be reached. */
+export async function getFirmwareInfo(): Promise<FirmwareInfo | null | undefined> {
+  const transport = await getSensorTransport();
+  if (infoCache.has(transport.label)) return infoCache.get(transport.label);
+  try {
+    const res = await transport.get('/info', 1500, { probe: true });
+    const info = res.ok ? parseFirmwareInfo(await res.json()) : null;
+    infoCache.set(transport.label, info);
+    return info;
+  } catch {
+    return undefined;
+  }
+}
+
+/* ---------------- Discovery ---------------- */
+
+export type DiscoveredDevice = {
+  baseUrl: string;
+  name: string;
+  /** MAC / chip id when the firmware reports one */
+  deviceId?: string;
+  firmware?: string;
+  protocol: FirmwareProtocol;
+  latencyMs: number;
+  /** id of the saved profile with this base URL */
+  savedId?: string;
+};
+
+// mDNS name the station-mode firmware announces
+export const MDNS_HOST = 'http://fertisense.local';
+
+const DISCOVERY_TIMEOUT_MS = 800;
+const DISCOVERY_CONCURRENCY = 24;
+
+async function getJson(baseUrl: string, path: string, timeoutMs: number): Promise<any | null> {
+  const res = await fetchWithTimeout(`${baseUrl}${path}`, timeoutMs);
+  if (!res.ok) return null;
+  try {
+    return await res.json();
+  } catch {
+    return null;
+  }
+}
+
+const looksLikeReading = (d: any) => !!d && typeof d === 'object' && ('n' in d || 'ok' in d);
+
+/** Identity + protocol of a FertiSense probe at `baseUrl`, or null when nothing answers like one. */
+export async function identifyDevice(baseUrl: string, timeoutMs = DISCOVERY_TIMEOUT_MS): Promise<DiscoveredDevice | null> {
+  const started = Date.now();
+  let npk: any = null;
+  try {
+    npk = await getJson(baseUrl, '/npk', timeoutMs);
+  } catch {
+    // nothing listening (timeout / refused): skip the remaining endpoints
+    return null;
+  }
+
+  let protocol: FirmwareProtocol | null = looksLikeReading(npk) ? 'npk' : null;
+  let body: any = npk;
+  for (const [path, proto] of [['/read', 'read'], ['/all', 'all']] as const) {
+    try {
+      const d = await getJson(baseUrl, path, timeoutMs);
+      if (looksLikeReading(d)) {
+        protocol = proto;
+        body = d;
+        break;
+      }
+    } catch {
+      // endpoint missing on this firmware
+    }
+  }
+  if (!protocol) return null;
+  const latencyMs = Date.now() - started;
+
+  let info: any = null;
+  try {
+    info = await getJson(baseUrl, '/info', timeoutMs);
+  } catch {
+    // older firmware has no /info
+  }
+
+  // /info wins; older firmware may put its name / MAC in the reading itself
+  const fromInfo = parseFirmwareInfo(info) ?? {};
+  const fromBody = parseFirmwareInfo(body) ?? {};
+  const id: FirmwareInfo = {
+    name: fromInfo.name ?? fromBody.name,
+    deviceId: fromInfo.deviceId ?? fromBody.deviceId,
+    firmware: fromInfo.firmware ?? fromBody.firmware,
+    payloadVersion: fromInfo.payloadVersion,
+  };
+  const host = baseUrl.replace(/^https?:\/\//, '');
+  return {
+    baseUrl,
+    name: id.name || `FertiSense @ ${host}`,
+    deviceId: id.deviceId,
+    firmware: id.firmware,
+    protocol: id.payloadVersion === 3 ? 'all' : id.payloadVersion === 2 ? 'read' : protocol,
+    latencyMs,
+    savedId: settings.devices.find((d) => d.baseUrl === baseUrl)?.id,
+  };
+}
+
+/** Phone's /24 on Wi-Fi (e.g. 192.168.1.1 … .254 without its own address) */
+async function subnetCandidates(): Promise<string[]> {
+  try {
+    const net = await NetInfo.fetch();
+    const ip = net.type === 'wifi' ? String((net.details as any)?.ipAddress || '') : '';
+    const m = /^(\d+\.\d+\.\d+)\.(\d+)$/.exec(ip);
+    if (!m) return [];
+    const out: string[] = [];
+    for (let i = 1; i <= 254; i++) if (String(i) !== m[2]) out.push(`http://${m[1]}.${i}`);
+    return out;
+  } catch {
+    return [];
+  }
+}
+
+// The same kit answers on its IP and on the mDNS name. Kits without a device id can only be matched
+// loosely, so the mDNS name is probed last and dropped when an id-less IP hit could be the same kit.
+function isDuplicateHit(found: DiscoveredDevice[], hit: DiscoveredDevice): boolean {
+  if (hit.deviceId) return found.some((f) => f.deviceId === hit.deviceId);
+  return (
+    hit.baseUrl === MDNS_HOST &&
+    found.some((f) => !f.deviceId && f.protocol === hit.protocol && f.firmware === hit.firmware)
+  );
+}
+
+/**
+ * Finds reachable FertiSense probes: saved profiles, the AP-mode address, the phone's Wi-Fi subnet and
+ * then the mDNS name. Set `signal.cancelled` to stop early; `onFound` reports hits as they come in.
+ */
+export async function discoverDevices(opts?: {
+  timeoutMs?: number;
+  onProgress?: (done: number, total: number) => void;
+  onFound?: (device: DiscoveredDevice) => void;
+  signal?: { cancelled: boolean };
+}): Promise<DiscoveredDevice[]> {
+  await loadSensorSettings();
+  const timeoutMs = opts?.timeoutMs ?? DISCOVERY_TIMEOUT_MS;
+  const ipCandidates = Array.from(
+    new Set([...settings.devices.map((d) => d.baseUrl), ...(await subnetCandidates())])
+  ).filter((url) => url !== MDNS_HOST);
+  const total = ipCandidates.length + 1;
+
+  const found: DiscoveredDevice[] = [];
+  let done = 0;
+  const probe = async (url: string) => {
+    const hit = await identifyDevice(url, timeoutMs).catch(() => null);
+    done += 1;
+    opts?.onProgress?.(done, total);
+    if (hit && !isDuplicateHit(found, hit)) {
+      found.push(hit);
+      opts?.onFound?.(hit);
+    }
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < ipCandidates.length && !opts?.signal?.cancelled) await probe(ipCandidates[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(DISCOVERY_CONCURRENCY, ipCandidates.length) }, worker));
+  if (!opts?.signal?.cancelled) await probe(MDNS_HOST);
+  return found;
+}
@@ -0,0 +1,144 @@
+// src/esp32Simulator.ts
+// ✅ Built-in stand-in for the Fertisense_AP probe (development / demos):
+// answers /info, /read, /npk and /all like the firmware, with soil profiles, noise and injected faults
+// (all-zero "probe not inserted" polls, ok:false errors and timeouts).
+import { classifyLevel } from '../constants/npkThresholds';
+import type { SensorResponse, SensorTransport } from './esp32';
+
+export type SoilSample = { n: number; p: number; k: number; ph: number; ec: number };
+
+export type SoilProfileId = 'depleted' | 'typical' | 'fertile' | 'alkalineLowK' | 'custom';
+
+/** Sensor-scale ppm picked to land in Low / Medium / High of the Table 4.5 cut-offs */
+export const SOIL_PROFILES: Record<Exclude<SoilProfileId, 'custom'>, { label: string; sample: SoilSample }> = {
+  depleted: { label: 'Depleted, acidic (L/L/L)', sample: { n: 72, p: 230, k: 110, ph: 5.2, ec: 0.35 } },
+  typical: { label: 'Typical lowland (M/M/M)', sample: { n: 128, p: 330, k: 260, ph: 6.3, ec: 0.6 } },
+  fertile: { label: 'Fertile (H/H/H)', sample: { n: 175, p: 410, k: 460, ph: 6.8, ec: 0.9 } },
+  alkalineLowK: { label: 'Alkaline, low K (L/H/L)', sample: { n: 96, p: 365, k: 120, ph: 7.9, ec: 1.2 } },
+};
+
+export type SimulatorFault = 'zero' | 'error' | 'timeout';
+
+export type SimulatorConfig = {
+  profile: SoilProfileId;
+  /** used when profile = 'custom' */
+  custom: SoilSample;
+  /** ± relative noise per value (%), roughly normal */
+  noisePct: number;
+  /** chance per request (0–100 %) of each fault */
+  zeroPct: number;
+  errorPct: number;
+  timeoutPct: number;
+  /** simulated response time */
+  latencyMs: number;
+  /** fault for the next reading only (demo button), then cleared */
+  nextFault: SimulatorFault | null;
+};
+
+export const DEFAULT_SIMULATOR_CONFIG: SimulatorConfig = {
+  profile: 'typical',
+  custom: { ...SOIL_PROFILES.typical.sample },
+  noisePct: 5,
+  zeroPct: 0,
+  errorPct: 0,
+  timeoutPct: 0,
+  latencyMs: 400,
+  nextFault: null,
+};
+
+const SIMULATOR_INFO = { name: 'FertiSense simulator', deviceId: 'SIM-0001', firmware: 'sim-1.0', payloadVersion: 3 };
+
+const ERROR_MESSAGES = ['Modbus CRC mismatch', 'RS485 no response', 'Sensor warming up'];
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+// Box–Muller; one standard normal sample
+function randn() {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+const round1 = (x: number) => Math.round(x * 10) / 10;
+const round2 = (x: number) => Math.round(x * 100) / 100;
+
+function withNoise(value: number, noisePct: number, min: number) {
+  return Math.max(min, value * (1 + (noisePct / 100) * randn()));
+}
+
+export function profileSample(config: SimulatorConfig): SoilSample {
+  return config.profile === 'custom' ? config.custom : SOIL_PROFILES[config.profile].sample;
+}
+
+/** One firmware-shaped poll (no faults) */
+export function simulateSample(config: SimulatorConfig): SoilSample {
+  const base = profileSample(config);
+  return {
+    n: round1(withNoise(base.n, config.noisePct, 1)),
+    p: round1(withNoise(base.p, config.noisePct, 1)),
+    k: round1(withNoise(base.k, config.noisePct, 1)),
+    // pH / EC drift far less than the NPK channels
+    ph: round1(Math.min(14, withNoise(base.ph, config.noisePct / 5, 3))),
+    ec: round2(withNoise(base.ec, config.noisePct, 0.01)),
+  };
+}
+
+function pickFault(config: SimulatorConfig): SimulatorFault | null {
+  if (config.nextFault) return config.nextFault;
+  const roll = Math.random() * 100;
+  if (roll < config.timeoutPct) return 'timeout';
+  if (roll < config.timeoutPct + config.errorPct) return 'error';
+  if (roll < config.timeoutPct + config.errorPct + config.zeroPct) return 'zero';
+  return null;
+}
+
+function bodyFor(path: string, s: SoilSample) {
+  const npk = { ok: true, v: 1, ts: Date.now(), n: s.n, p: s.p, k: s.k, ph: s.ph, ec: s.ec, simulated: true };
+  if (path === '/npk') return npk;
+
+  const full = {
+    ...npk,
+    v: 2,
+    // firmware converts ppm to kg/ha for a 15 cm plough layer (x2)
+    n_kg_ha: round1(s.n * 2),
+    p_kg_ha: round1(s.p * 2),
+    k_kg_ha: round1(s.k * 2),
+    levels: { n: classifyLevel('N', s.n), p: classifyLevel('P', s.p), k: classifyLevel('K', s.k) },
+  };
+  if (path === '/read') return full;
+
+  return { ...full, v: 3, moisture: round1(withNoise(38, 10, 5)), temp: round1(withNoise(27.5, 3, 15)) };
+}
+
+function response(status: number, body: any): SensorResponse {
+  return { ok: status >= 200 && status < 300, status, json: async () => body };
+}
+
+/** Transport that answers like the probe. `getConfig` is read per request so settings changes apply immediately. */
+export function createSimulatorTransport(getConfig: () => SimulatorConfig): SensorTransport {
+  return {
+    id: 'simulator',
+    label: 'Simulator',
+    async get(path: string, timeoutMs: number, opts?: { probe?: boolean }) {
+      const config = getConfig();
+      // the one-shot fault is meant for the reading itself, not the reachability probe before it
+      const fault = pickFault(opts?.probe ? { ...config, nextFault: null } : config);
+
+      if (fault === 'timeout') {
+        await sleep(timeoutMs);
+        throw new Error(`Simulated timeout on ${path}`);
+      }
+      await sleep(Math.min(config.latencyMs, timeoutMs));
+
+      if (path === '/info') return response(200, SIMULATOR_INFO);
+      if (path !== '/read' && path !== '/npk' && path !== '/all') return response(404, { ok: false, error: 'not found' });
+      if (fault === 'error') {
+        return response(200, { ok: false, error: `${ERROR_MESSAGES[Math.floor(Math.random() * ERROR_MESSAGES.length)]} (simulated)` });
+      }
+      if (fault === 'zero') return response(200, { ...bodyFor(path, { n: 0, p: 0, k: 0, ph: 0, ec: 0 }), levels: undefined });
+      return response(200, bodyFor(path, simulateSample(config)));
+    },
+  };
+}
@@ -1,4 +1,23 @@
-import { AdminPricesDoc, RecommendPlan, RecommendPlanRow, RecommendResponse } from './services';
+import {
+  AdminPricesDoc, BudgetResult, DaCost, DaCostRow, DaSchedule, DaScheduleLine, NutrientAdvisory, OrganicCredit, PhAmendment,
+  DaPlan, EngineResultSummary, RecommendPlan, RecommendPlanRow, RecommendResponse, StockSplitRow, TraceStep,
+} from './services';
+import { solveLinearProgram, type LpConstraint } from './lpSolver';
+import {
+  BAG_KG,
+  FERTILIZER_NAMES,
+  GRADE,
+  buildDaPlans,
+  fertilizerLines,
+  getItemByCode,
+  nOnlyPhaseShares,
+  nutrientBalance,
+  splitBags,
+  splitOnHand,
+  type NSplit,
+} from './daPlans';
+import { CURRENT_THRESHOLD_VERSION, classifyCode, getActiveThresholdVersion, getThresholds } from '../constants/npkThresholds';
+import { DEFAULT_NARRATIVE_LANG, buildNarratives, type NarrativeLang } from './narrative';
 
 /* ---------------- Types (Standard) ---------------- */
 export type NutrientRating = 'L' | 'M' | 'H';
@@ -11,23 +30,69 @@ export type RiceRecommendInput = {
   ph?: number | null; areaHa?: number;
   variety?: RiceVariety; soilClass?: SoilClass;
   season?: Season; pricesDoc: AdminPricesDoc;
+  /** Max overshoot allowed by the Optimal blend, e.g. 0.2 = +20% per nutrient. null/undefined = no cap. */
+  overshootTolerance?: number | null;
+  /** How the farmer can actually buy: exact (0.01 bag), half bags, whole bags, or loose per kg. */
+  purchaseMode?: PurchaseMode;
+  /** 'table' = L/M/H lookup (default); 'yield' = computed from targetYieldTha and the ppm readings. */
+  targetMode?: TargetMode;
+  /** Expected grain yield (t/ha); required for targetMode 'yield'. */
+  targetYieldTha?: number | null;
+  /** Organics the farmer applies; their available N/P/K is credited before sizing inorganic fertilizer. */
+  organics?: OrganicApplication[];
+  /** When the cheapest full plan costs more, a best partial plan within this budget is added. */
+  maxBudget?: number | null;
+  /** Bags the farmer already has at home (code = price key or grade like '46-0-0'); used first, at no cost. */
+  onHand?: OnHandStock[];
+  /** Threshold registry version used for L/M/H; defaults to the current one. */
+  thresholdVersion?: string | null;
+  /** Optional Zn / S / Mg soil test values (ppm). */
+  secondary?: SecondaryReadings;
+  /** What the farmer sees in the field; drives the Zn / S / Mg advisories together with `secondary`. */
+  symptoms?: FieldSymptom[];
+};
+
+export type SecondaryReadings = { znPpm?: number | null; sPpm?: number | null; mgPpm?: number | null };
+
+export type FieldSymptom =
+  | 'bronzing'              // brown/rusty spots on older leaves, stunted tillers (Zn)
+  | 'prolongedFlooding'     // continuously submerged / poorly drained paddy (Zn)
+  | 'highPh'                // known alkaline or calcareous field without a pH reading (Zn)
+  | 'yellowYoungLeaves'     // uniform yellowing of the youngest leaves (S)
+  | 'interveinalChlorosis'; // orange-yellow stripes between veins of older leaves (Mg)
+
+export type OnHandStock = { code: string; bags: number };
+
+export type OrganicSource = 'chickenManure' | 'vermicompost' | 'riceStraw' | 'carabaoManure';
+export type OrganicApplication = { source: OrganicSource; kgPerHa: number };
+
+export type TargetMode = 'table' | 'yield';
+
+export type PurchaseMode = 'exact' | 'halfBag' | 'wholeBag' | 'kgLoose';
+
+export type CropId = 'rice' | 'corn';
+export type CornType = 'yellowHybrid' | 'yellowOpv' | 'whiteHybrid' | 'whiteOpv';
+export type CropVariety = RiceVariety | CornType;
+
+export type CropRecommendInput = Omit<RiceRecommendInput, 'variety'> & {
+  crop?: CropId;
+  /** Must be one of the crop's registry varieties; falls back to the crop default. */
+  variety?: CropVariety;
 };
 
 /* ---------------- 1. Classification & Tables (unchanged thresholds you provided) ---------------- */
-export function classifyN(nValue: number): NutrientRating {
-  if (nValue < 110) return 'L';
-  if (nValue <= 145) return 'M';
-  return 'H';
+/** Built-in cuts from the threshold registry (constants/npkThresholds.ts); getThresholds() gives the active set */
+export const RATING_THRESHOLDS: Record<'N' | 'P' | 'K', { L: number; M: number }> = getThresholds(CURRENT_THRESHOLD_VERSION);
+
+// missing / zero readings rate Low (the engine always needs a rating)
+export function classifyN(nValue: number, version?: string | null): NutrientRating {
+  return classifyCode('N', nValue, version) ?? 'L';
 }
-export function classifyP(pPpm: number): NutrientRating {
-  if (pPpm < 280) return 'L';
-  if (pPpm <= 345) return 'M';
-  return 'H';
+export function classifyP(pPpm: number, version?: string | null): NutrientRating {
+  return classifyCode('P', pPpm, version) ?? 'L';
 }
-export function classifyK(kPpm: number): NutrientRating {
-  if (kPpm < 150) return 'L';
-  if (kPpm <= 350) return 'M';
-  return 'H';
+export function classifyK(kPpm: number, version?: string | null): NutrientRating {
+  return classifyCode('K', kPpm, version) ?? 'L';
 }
 
 export const RICE_TARGETS: any = {
@@ -53,14 +118,256 @@ export const RICE_TARGETS: any = {
   },
 };
 
+// Corn (kg/ha). Hybrids carry a higher yield potential, so they get more N and K than OPV;
+// white (food) corn is usually grown for lower yields than yellow (feed) corn.
+export const CORN_TARGETS: TargetGrid = {
+  yellowHybrid: {
+    light: {
+      wet: { N: { L: 160, M: 120, H: 90 }, P: { L: 60, M: 40, H: 20 }, K: { L: 90, M: 60, H: 30 } },
+      dry: { N: { L: 180, M: 140, H: 100 }, P: { L: 60, M: 40, H: 20 }, K: { L: 90, M: 60, H: 30 } },
+    },
+    medHeavy: {
+      wet: { N: { L: 140, M: 110, H: 80 }, P: { L: 60, M: 40, H: 20 }, K: { L: 60, M: 45, H: 30 } },
+      dry: { N: { L: 160, M: 120, H: 90 }, P: { L: 60, M: 40, H: 20 }, K: { L: 60, M: 45, H: 30 } },
+    },
+  },
+  yellowOpv: {
+    light: {
+      wet: { N: { L: 120, M: 90, H: 60 }, P: { L: 40, M: 30, H: 20 }, K: { L: 60, M: 40, H: 20 } },
+      dry: { N: { L: 140, M: 100, H: 70 }, P: { L: 40, M: 30, H: 20 }, K: { L: 60, M: 40, H: 20 } },
+    },
+    medHeavy: {
+      wet: { N: { L: 100, M: 80, H: 60 }, P: { L: 40, M: 30, H: 20 }, K: { L: 45, M: 30, H: 20 } },
+      dry: { N: { L: 120, M: 90, H: 60 }, P: { L: 40, M: 30, H: 20 }, K: { L: 45, M: 30, H: 20 } },
+    },
+  },
+  whiteHybrid: {
+    light: {
+      wet: { N: { L: 140, M: 110, H: 80 }, P: { L: 60, M: 40, H: 20 }, K: { L: 80, M: 60, H: 30 } },
+      dry: { N: { L: 160, M: 120, H: 90 }, P: { L: 60, M: 40, H: 20 }, K: { L: 80, M: 60, H: 30 } },
+    },
+    medHeavy: {
+      wet: { N: { L: 120, M: 90, H: 70 }, P: { L: 60, M: 40, H: 20 }, K: { L: 60, M: 45, H: 30 } },
+      dry: { N: { L: 140, M: 110, H: 80 }, P: { L: 60, M: 40, H: 20 }, K: { L: 60, M: 45, H: 30 } },
+    },
+  },
+  whiteOpv: {
+    light: {
+      wet: { N: { L: 100, M: 80, H: 60 }, P: { L: 40, M: 30, H: 20 }, K: { L: 60, M: 40, H: 20 } },
+      dry: { N: { L: 120, M: 90, H: 60 }, P: { L: 40, M: 30, H: 20 }, K: { L: 60, M: 40, H: 20 } },
+    },
+    medHeavy: {
+      wet: { N: { L: 90, M: 70, H: 50 }, P: { L: 40, M: 30, H: 20 }, K: { L: 45, M: 30, H: 20 } },
+      dry: { N: { L: 100, M: 80, H: 60 }, P: { L: 40, M: 30, H: 20 }, K: { L: 45, M: 30, H: 20 } },
+    },
+  },
+};
+
 export function getTargetKgPerHa(
   variety: RiceVariety, soilClass: SoilClass, season: Season,
   nRating: NutrientRating, pRating: NutrientRating, kRating: NutrientRating
 ) {
-  const row = RICE_TARGETS[variety][soilClass][season];
+  return getCropTargetKgPerHa('rice', variety, soilClass, season, nRating, pRating, kRating);
+}
+
+/* ---------------- 1b. Crop registry ---------------- */
+
+export type { NSplit };
+
+export type CropSpec = {
+  id: CropId;
+  label: string;
+  varieties: { id: CropVariety; label: string }[];
+  defaultVariety: CropVariety;
+  /** [variety][soilClass][season] -> N/P/K by rating (kg/ha) */
+  targets: TargetGrid;
+  nSplits: Record<string, Record<Season, NSplit>>;
+  /** Nutrient uptake per tonne of grain (kg N, P2O5, K2O), used by the yield-target mode */
+  uptakePerTonne: { N: number; P: number; K: number };
+};
+
+export const CROP_REGISTRY: Record<CropId, CropSpec> = {
+  rice: {
+    id: 'rice',
+    label: 'Rice',
+    varieties: [
+      { id: 'hybrid', label: 'Hybrid' },
+      { id: 'inbred', label: 'Inbred' },
+    ],
+    defaultVariety: 'hybrid',
+    targets: RICE_TARGETS,
+    uptakePerTonne: { N: 17, P: 6, K: 17 },
+    nSplits: {
+      hybrid: {
+        wet: { basal: 0.3, after30DAT: 0.35, topdress60DBH: 0.35 },
+        dry: { basal: 0.25, after30DAT: 0.35, topdress60DBH: 0.4 }, // longer, higher-yield season: more N at panicle initiation
+      },
+      inbred: {
+        wet: { basal: 0.3, after30DAT: 0.4, topdress60DBH: 0.3 },
+        dry: { basal: 0.25, after30DAT: 0.4, topdress60DBH: 0.35 },
+      },
+    },
+  },
+  corn: {
+    id: 'corn',
+    label: 'Corn',
+    varieties: [
+      { id: 'yellowHybrid', label: 'Yellow Hybrid' },
+      { id: 'yellowOpv', label: 'Yellow OPV' },
+      { id: 'whiteHybrid', label: 'White Hybrid' },
+      { id: 'whiteOpv', label: 'White OPV' },
+    ],
+    defaultVariety: 'yellowHybrid',
+    targets: CORN_TARGETS,
+    uptakePerTonne: { N: 18, P: 6, K: 16 },
+    // corn phases: basal at planting, sidedress ~30 DAP, last topdress before tasseling
+    nSplits: {
+      yellowHybrid: {
+        wet: { basal: 0.3, after30DAT: 0.4, topdress60DBH: 0.3 },
+        dry: { basal: 0.3, after30DAT: 0.4, topdress60DBH: 0.3 },
+      },
+      yellowOpv: {
+        wet: { basal: 0.5, after30DAT: 0.5, topdress60DBH: 0 },
+        dry: { basal: 0.5, after30DAT: 0.5, topdress60DBH: 0 },
+      },
+      whiteHybrid: {
+        wet: { basal: 0.3, after30DAT: 0.4, topdress60DBH: 0.3 },
+        dry: { basal: 0.3, after30DAT: 0.4, topdress60DBH: 0.3 },
+      },
+      whiteOpv: {
+        wet: { basal: 0.5, after30DAT: 0.5, topdress60DBH: 0 },
+        dry: { basal: 0.5, after30DAT: 0.5, topdress60DBH: 0 },
+      },
+    },
+  },
+};
+
+/** Unknown crops fall back to rice; varieties not in the crop's registry fall back to its default. */
+export function resolveCrop(crop?: string | null, variety?: string | null): { spec: CropSpec; variety: CropVariety } {
+  // own keys only: an inherited name like 'constructor' is not a crop
+  const spec = crop && Object.prototype.hasOwnProperty.call(CROP_REGISTRY, crop) ? CROP_REGISTRY[crop as CropId] : CROP_REGISTRY.rice;
+  const known = spec.varieties.find(v => v.id === variety);
+  return { spec, variety: known ? known.id : spec.defaultVariety };
+}
+
+/** The crop's N split for a variety and season (share of total N per phase) */
+export function getNSplit(crop?: string | null, variety?: string | null, season: Season = 'wet'): NSplit {
+  const { spec, variety: v } = resolveCrop(crop, variety);
+  return spec.nSplits[v][season];
+}
+
+/** `targets` = a grid from getTargetTables() (defaults to the crop's current registry table) */
+export function getCropTargetKgPerHa(
+  crop: CropId, variety: CropVariety, soilClass: SoilClass, season: Season,
+  nRating: NutrientRating, pRating: NutrientRating, kRating: NutrientRating,
+  targets?: TargetGrid
+) {
+  const { spec, variety: v } = resolveCrop(crop, variety);
+  const row = (targets ?? spec.targets)[v][soilClass][season];
   return { Nkg: row.N[nRating], Pkg: row.P[pRating], Kkg: row.K[kRating] };
 }
 
+/* ---------------- 1b-2. Admin-published target tables ---------------- */
+
+export type TargetRow = Record<'N' | 'P' | 'K', Record<NutrientRating, number>>;
+/** [variety][soilClass][season] -> N/P/K by rating (kg/ha), same shape as RICE_TARGETS */
+export type TargetGrid = Record<string, Record<SoilClass, Record<Season, TargetRow>>>;
+
+// built-in tables, kept so admin overrides can be reset / merged cell by cell
+const BUILT_IN_TARGETS: Record<CropId, TargetGrid> = {
+  rice: RICE_TARGETS,
+  corn: CORN_TARGETS,
+};
+
+/**
+ * Every cell must be a non-negative number and fall as soil fertility rises (L ≥ M ≥ H).
+ * Returns messages like "hybrid/light/dry N: Low 90 < Medium 110"; empty = valid.
+ */
+export function validateTargetGrid(grid: TargetGrid): string[] {
+  const errors: string[] = [];
+  Object.entries(grid || {}).forEach(([variety, soils]) => {
+    Object.entries(soils || {}).forEach(([soil, seasons]) => {
+      Object.entries(seasons || {}).forEach(([season, row]) => {
+        NUTRIENTS.forEach(nu => {
+          const where = `${variety}/${soil}/${season} ${nu}`;
+          const { L, M, H } = (row as TargetRow)?.[nu] ?? ({} as any);
+          if (![L, M, H].every(v => typeof v === 'number' && Number.isFinite(v) && v >= 0)) {
+            errors.push(`${where}: every rating needs a number ≥ 0`);
+          } else if (L < M) {
+            errors.push(`${where}: Low ${L} < Medium ${M}`);
+          } else if (M < H) {
+            errors.push(`${where}: Medium ${M} < High ${H}`);
+          }
+        });
+      });
+    });
+  });
+  return errors;
+}
+
+/**
+ * Applies admin-published tables (from the backend or its offline cache) over the built-ins.
+ * Cells for unknown varieties/soils/seasons are ignored; a crop whose grid fails
+ * validateTargetGrid keeps its current table. `null` resets every crop to the built-ins.
+ * Returns the validation errors (empty when everything applied).
+ */
+export function applyTargetTables(tables: Partial<Record<CropId, TargetGrid>> | null): string[] {
+  const errors: string[] = [];
+  (Object.keys(CROP_REGISTRY) as CropId[]).forEach(crop => {
+    const grid = tables?.[crop];
+    if (!grid) {
+      if (!tables) CROP_REGISTRY[crop].targets = BUILT_IN_TARGETS[crop];
+      return;
+    }
+    const problems = validateTargetGrid(grid);
+    if (problems.length) {
+      errors.push(...problems.map(p => `${crop} ${p}`));
+      return;
+    }
+    const merged: TargetGrid = JSON.parse(JSON.stringify(BUILT_IN_TARGETS[crop]));
+    Object.entries(merged).forEach(([variety, soils]) => {
+      (Object.keys(soils) as SoilClass[]).forEach(soil => {
+        (Object.keys(soils[soil]) as Season[]).forEach(season => {
+          const row = grid[variety]?.[soil]?.[season];
+          if (row) soils[soil][season] = row;
+        });
+      });
+    });
+    CROP_REGISTRY[crop].targets = merged;
+  });
+  return errors;
+}
+
+/** The target table each crop uses now (admin tables applied over the built-ins) */
+export function getTargetTables(): Record<CropId, TargetGrid> {
+  return { rice: CROP_REGISTRY.rice.targets, corn: CROP_REGISTRY.corn.targets };
+}
+
+/* ---------------- 1c. Yield-target requirements ---------------- */
+
+// kg/ha the soil supplies per ppm of reading (same N / P2O5 / K2O basis as the targets)
+const INDIGENOUS_SUPPLY_PER_PPM = { N: 0.4, P: 0.06, K: 0.3 };
+// share of applied fertilizer the crop actually takes up
+const FERTILIZER_RECOVERY = { N: 0.5, P: 0.3, K: 0.6 };
+
+/**
+ * need = (uptake per tonne × target yield − indigenous supply) / recovery, rounded up to 5 kg.
+ * Indigenous supply never counts for more than the crop's uptake, so need is never negative.
+ */
+export function getYieldTargetKgPerHa(
+  crop: CropId, targetYieldTha: number,
+  nPpm: number, pPpm: number, kPpm: number
+) {
+  const { spec } = resolveCrop(crop);
+  const ppm = { N: nPpm, P: pPpm, K: kPpm };
+  const need = (nut: 'N' | 'P' | 'K') => {
+    const uptake = spec.uptakePerTonne[nut] * Math.max(0, targetYieldTha);
+    const supply = Math.min(uptake, Math.max(0, Number(ppm[nut]) || 0) * INDIGENOUS_SUPPLY_PER_PPM[nut]);
+    return Math.ceil((uptake - supply) / FERTILIZER_RECOVERY[nut] / 5 - 1e-9) * 5;
+  };
+  return { Nkg: need('N'), Pkg: need('P'), Kkg: need('K') };
+}
+
 /* ---------------- 2. Database Reader ---------------- */
 export type FertilizerProduct = {
   code: string; label: string; pricePerBag: number;
@@ -136,14 +443,21 @@ function pickBestSource(
 }
 
 function roundBags(b: number): number {
-  // show 2 decimals, but never 0.009 nonsense
-  return Math.ceil(b * 100) / 100;
+  // show 2 decimals, but never 0.009 nonsense (epsilon keeps 2.34 from becoming 2.35)
+  return Math.ceil(b * 100 - 1e-9) / 100;
 }
 
 /* ---------------- 4. Solver (FIXED) ---------------- */
 
+export type ComputedRow = {
+  product: FertilizerProduct;
+  bags: number;
+  /** only set in whole/half-bag or per-kg purchase modes */
+  leftoverKg?: number;
+};
+
 export type ComputedPlan = {
-  rows: { product: FertilizerProduct; bags: number }[];
+  rows: ComputedRow[];
   totalCost: number;
   supplied: { N: number; P: number; K: number };
 };
@@ -250,6 +564,322 @@ function solveWithBase(
   return { rows, totalCost, supplied: { N: supN, P: supP, K: supK } };
 }
 
+/* ---------------- 4b. Least-cost LP solver ("Optimal") ---------------- */
+
+export type LeastCostOptions = {
+  /** e.g. 0.2 lets each nutrient land up to 20% above its target; null = no cap */
+  overshootTolerance?: number | null;
+  purchaseMode?: PurchaseMode;
+};
+
+const NUTRIENTS: ('N' | 'P' | 'K')[] = ['N', 'P', 'K'];
+const BNB_NODE_LIMIT = 400;
+
+function suppliedBy(rows: { product: FertilizerProduct; bags: number }[]) {
+  const out = { N: 0, P: 0, K: 0 };
+  for (const r of rows) {
+    out.N += r.bags * kgPerBag(r.product, 'N');
+    out.P += r.bags * kgPerBag(r.product, 'P');
+    out.K += r.bags * kgPerBag(r.product, 'K');
+  }
+  return out;
+}
+
+/** purchasable units per bag for integer modes (half bag = 2 units); null = continuous */
+function unitsPerBag(mode: PurchaseMode): number | null {
+  if (mode === 'wholeBag') return 1;
+  if (mode === 'halfBag') return 2;
+  return null;
+}
+
+/** rounds a bag count UP to what the store can actually sell */
+function roundToPurchase(bags: number, product: FertilizerProduct, mode: PurchaseMode): number {
+  if (bags <= 0) return 0;
+  if (mode === 'kgLoose') return Math.ceil(bags * product.bagKg - 1e-6) / product.bagKg;
+  const u = unitsPerBag(mode);
+  if (u) return Math.ceil(bags * u - 1e-6) / u;
+  return roundBags(bags);
+}
+
+/**
+ * Branch & bound on top of the LP: finds the cheapest all-integer solution.
+ * Variables are in purchase units. `incumbent` (if any) must already be feasible.
+ */
+function solveIntegerUnits(
+  objective: number[],
+  constraints: LpConstraint[],
+  incumbent: number[] | null
+): number[] | null {
+  let best = incumbent;
+  let bestCost = best ? best.reduce((sum, v, j) => sum + v * objective[j], 0) : Number.POSITIVE_INFINITY;
+
+  const stack: LpConstraint[][] = [[]];
+  let nodes = 0;
+
+  while (stack.length && nodes < BNB_NODE_LIMIT) {
+    const extra = stack.pop()!;
+    nodes++;
+
+    const lp = solveLinearProgram({ objective, constraints: [...constraints, ...extra] });
+    if (lp.status !== 'optimal' || lp.objective >= bestCost - 1e-6) continue;
+
+    const frac = lp.x.findIndex(v => Math.abs(v - Math.round(v)) > 1e-6);
+    if (frac < 0) {
+      best = lp.x.map(v => Math.round(v));
+      bestCost = lp.objective;
+      continue;
+    }
+
+    const unit = objective.map((_, j) => (j === frac ? 1 : 0));
+    stack.push([...extra, { coeffs: unit, op: '>=', rhs: Math.ceil(lp.x[frac]) }]);
+    stack.push([...extra, { coeffs: unit, op: '<=', rhs: Math.floor(lp.x[frac]) }]);
+  }
+
+  return best;
+}
+
+function satisfies(x: number[], constraints: LpConstraint[]): boolean {
+  return constraints.every(c => {
+    const lhs = c.coeffs.reduce((sum, a, j) => sum + a * x[j], 0);
+    if (c.op === '>=') return lhs >= c.rhs - 1e-6;
+    if (c.op === '<=') return lhs <= c.rhs + 1e-6;
+    return Math.abs(lhs - c.rhs) <= 1e-6;
+  });
+}
+
+/**
+ * Leftover = what was bought minus the cheapest amount of it that still meets the targets.
+ */
+function withLeftovers(
+  rows: ComputedRow[],
+  req: { N: number; P: number; K: number }
+): ComputedRow[] {
+  if (!rows.length) return rows;
+
+  const constraints: LpConstraint[] = [];
+  for (const nu of NUTRIENTS) {
+    const coeffs = rows.map(r => kgPerBag(r.product, nu));
+    if (req[nu] <= 0 || !coeffs.some(c => c > 0)) continue;
+    constraints.push({ coeffs, op: '>=', rhs: req[nu] });
+  }
+  rows.forEach((r, i) => {
+    constraints.push({ coeffs: rows.map((_, j) => (j === i ? 1 : 0)), op: '<=', rhs: r.bags });
+  });
+
+  const lp = solveLinearProgram({ objective: rows.map(r => r.product.pricePerBag), constraints });
+  const applied = lp.status === 'optimal' ? lp.x : rows.map(r => r.bags);
+
+  return rows.map((r, i) => ({
+    ...r,
+    leftoverKg: Math.round(Math.max(0, r.bags - applied[i]) * r.product.bagKg * 10) / 10,
+  }));
+}
+
+/**
+ * Converts an exact plan into what is actually bought (rounded UP per product),
+ * then recomputes supplied + totalCost from the purchased amounts.
+ */
+export function applyPurchaseMode(
+  plan: ComputedPlan,
+  req: { N: number; P: number; K: number },
+  mode: PurchaseMode = 'exact'
+): ComputedPlan {
+  if (mode === 'exact') return plan;
+
+  const bought = plan.rows
+    .map(r => ({ product: r.product, bags: roundToPurchase(r.bags, r.product, mode) }))
+    .filter(r => r.bags > 0);
+
+  const rows = withLeftovers(bought, req);
+  const totalCost = rows.reduce((sum, r) => sum + r.bags * r.product.pricePerBag, 0);
+  return { rows, totalCost, supplied: suppliedBy(rows) };
+}
+
+/**
+ * TRUE LEAST-COST BLEND:
+ * - Considers every usable product at once (no K -> P -> N ordering)
+ * - Minimizes total cost subject to supplied >= target for each nutrient
+ * - Optionally caps each nutrient at target * (1 + overshootTolerance)
+ * - If the cap makes the blend impossible, falls back to the uncapped blend
+ * - Nutrients with no source in the inventory are skipped (same as the greedy filler)
+ * - Whole/half-bag modes re-optimize over integer bag counts (not just round up)
+ */
+export function solveLeastCost(
+  reqN: number, reqP: number, reqK: number,
+  inventory: FertilizerProduct[],
+  opts?: LeastCostOptions
+): ComputedPlan {
+  const req = { N: Math.max(0, reqN), P: Math.max(0, reqP), K: Math.max(0, reqK) };
+  const products = inventory.filter(p => NUTRIENTS.some(nu => kgPerBag(p, nu) > 0));
+  const empty: ComputedPlan = { rows: [], totalCost: 0, supplied: { N: 0, P: 0, K: 0 } };
+  if (!products.length) return empty;
+
+  const tolerance = opts?.overshootTolerance;
+  const mode = opts?.purchaseMode ?? 'exact';
+  const u = unitsPerBag(mode);
+
+  // variables are in purchase units (1 unit = 1/u bag) for integer modes, bags otherwise
+  const scale = u ?? 1;
+
+  const solve = (withCap: boolean): number[] | null => {
+    const constraints: LpConstraint[] = [];
+    for (const nu of NUTRIENTS) {
+      const coeffs = products.map(p => kgPerBag(p, nu) / scale);
+      if (req[nu] <= 0 || !coeffs.some(c => c > 0)) continue;
+      constraints.push({ coeffs, op: '>=', rhs: req[nu] });
+      if (withCap) constraints.push({ coeffs, op: '<=', rhs: req[nu] * (1 + Number(tolerance)) });
+    }
+    const objective = products.map(p => p.pricePerBag / scale);
+
+    const lp = solveLinearProgram({ objective, constraints });
+    if (lp.status !== 'optimal') return null;
+    if (!u) return lp.x;
+
+    const roundedUp = lp.x.map(v => Math.ceil(v - 1e-6));
+    return solveIntegerUnits(objective, constraints, satisfies(roundedUp, constraints) ? roundedUp : null);
+  };
+
+  const hasCap = tolerance != null && Number.isFinite(Number(tolerance)) && Number(tolerance) >= 0;
+  let x = solve(hasCap);
+  if (!x && hasCap) x = solve(false);
+  if (!x) return empty;
+
+  const rows: ComputedRow[] = [];
+  x.forEach((v, i) => addOrMergeRow(rows, products[i], v > 1e-9 ? v / scale : 0));
+
+  if (mode !== 'exact') return applyPurchaseMode({ rows, totalCost: 0, supplied: suppliedBy(rows) }, req, mode);
+
+  const supplied = suppliedBy(rows);
+  rows.forEach(r => (r.bags = roundBags(r.bags)));
+  const totalCost = rows.reduce((sum, r) => sum + r.bags * r.product.pricePerBag, 0);
+
+  return { rows, totalCost, supplied };
+}
+
+/** true when the plan covers every target that the inventory can cover, within the optional cap */
+function meetsTargets(
+  plan: ComputedPlan,
+  req: { N: number; P: number; K: number },
+  inventory: FertilizerProduct[],
+  tolerance?: number | null
+): boolean {
+  return NUTRIENTS.every(nu => {
+    const coverable = inventory.some(p => kgPerBag(p, nu) > 0);
+    if (!coverable || req[nu] <= 0) return true;
+    if (plan.supplied[nu] < req[nu] - 1e-6) return false;
+    if (tolerance != null && plan.supplied[nu] > req[nu] * (1 + tolerance) + 1e-6) return false;
+    return true;
+  });
+}
+
+/* ---------------- 4c. Budget-limited blend ---------------- */
+
+// kg of grain lost per kg of nutrient left uncovered (agronomic efficiency)
+const YIELD_RESPONSE_KG_PER_KG = { N: 20, P: 10, K: 6 };
+// a Low-rated nutrient limits yield first, so its shortfall weighs more
+const RATING_WEIGHT: Record<NutrientRating, number> = { L: 3, M: 2, H: 1 };
+
+export type BudgetPlan = {
+  plan: ComputedPlan;
+  shortfall: { N: number; P: number; K: number };
+  yieldPenaltyKg: number;
+};
+
+function shortfallOf(supplied: { N: number; P: number; K: number }, req: { N: number; P: number; K: number }) {
+  const gap = (nu: 'N' | 'P' | 'K') => Math.max(0, Math.round((req[nu] - supplied[nu]) * 10) / 10);
+  return { N: gap('N'), P: gap('P'), K: gap('K') };
+}
+
+/**
+ * Best partial plan when the budget cannot cover the full targets:
+ * - LP with one shortfall variable per nutrient, weighted by rating × yield response
+ * - total cost <= budget (a tiny cost term keeps it from buying what it doesn't need)
+ * - whole/half-bag/per-kg modes round DOWN, then spend what's left one unit at a time
+ *   on whichever product removes the most weighted shortfall per peso
+ */
+export function solveWithinBudget(
+  req: { N: number; P: number; K: number },
+  inventory: FertilizerProduct[],
+  budget: number,
+  ratings: { N: NutrientRating; P: NutrientRating; K: NutrientRating },
+  mode: PurchaseMode = 'exact'
+): BudgetPlan {
+  const products = inventory.filter(p => p.pricePerBag > 0 && NUTRIENTS.some(nu => kgPerBag(p, nu) > 0));
+  const weight = (nu: 'N' | 'P' | 'K') => RATING_WEIGHT[ratings[nu]] * YIELD_RESPONSE_KG_PER_KG[nu];
+  const active = NUTRIENTS.filter(nu => req[nu] > 0 && products.some(p => kgPerBag(p, nu) > 0));
+
+  const finish = (bags: number[]): BudgetPlan => {
+    const rows: ComputedRow[] = [];
+    bags.forEach((b, i) => addOrMergeRow(rows, products[i], b > 1e-9 ? b : 0));
+    if (mode === 'exact') rows.forEach(r => (r.bags = Math.floor(r.bags * 100 + 1e-9) / 100));
+    if (mode !== 'exact') rows.forEach(r => (r.leftoverKg = 0));
+    const supplied = suppliedBy(rows);
+    const shortfall = shortfallOf(supplied, req);
+    const yieldPenaltyKg = Math.round(NUTRIENTS.reduce((sum, nu) => sum + shortfall[nu] * YIELD_RESPONSE_KG_PER_KG[nu], 0));
+    const totalCost = rows.reduce((sum, r) => sum + r.bags * r.product.pricePerBag, 0);
+    return { plan: { rows, totalCost, supplied }, shortfall, yieldPenaltyKg };
+  };
+
+  if (!products.length || !active.length || budget <= 0) return finish([]);
+
+  // variables: [bags per product..., shortfall per active nutrient...]
+  const n = products.length;
+  const width = n + active.length;
+  const constraints: LpConstraint[] = [];
+  active.forEach((nu, k) => {
+    const coeffs = new Array(width).fill(0);
+    products.forEach((p, j) => (coeffs[j] = kgPerBag(p, nu)));
+    coeffs[n + k] = 1;
+    constraints.push({ coeffs, op: '>=', rhs: req[nu] });
+    const cap = new Array(width).fill(0);
+    cap[n + k] = 1;
+    constraints.push({ coeffs: cap, op: '<=', rhs: req[nu] });
+  });
+  const spend = new Array(width).fill(0);
+  products.forEach((p, j) => (spend[j] = p.pricePerBag));
+  constraints.push({ coeffs: spend, op: '<=', rhs: budget });
+
+  const objective = new Array(width).fill(0);
+  products.forEach((p, j) => (objective[j] = p.pricePerBag * 1e-6));
+  active.forEach((nu, k) => (objective[n + k] = weight(nu)));
+
+  const lp = solveLinearProgram({ objective, constraints });
+  if (lp.status !== 'optimal') return finish([]);
+  const bags = lp.x.slice(0, n);
+  if (mode === 'exact') return finish(bags);
+
+  // round down to purchasable amounts, then greedily spend the remainder
+  const step = (p: FertilizerProduct) => (mode === 'kgLoose' ? 1 / p.bagKg : 1 / (unitsPerBag(mode) ?? 1));
+  const bought = bags.map((b, j) => Math.floor(b / step(products[j]) + 1e-6) * step(products[j]));
+  const weightedGap = (x: number[]) => {
+    const supplied = { N: 0, P: 0, K: 0 };
+    x.forEach((b, j) => NUTRIENTS.forEach(nu => (supplied[nu] += b * kgPerBag(products[j], nu))));
+    return active.reduce((sum, nu) => sum + weight(nu) * Math.max(0, req[nu] - supplied[nu]), 0);
+  };
+
+  for (;;) {
+    const left = budget - bought.reduce((sum, b, j) => sum + b * products[j].pricePerBag, 0);
+    const gap = weightedGap(bought);
+    let best = -1;
+    let bestGain = 0;
+    products.forEach((p, j) => {
+      const cost = step(p) * p.pricePerBag;
+      if (cost > left + 1e-6) return;
+      const trial = [...bought];
+      trial[j] += step(p);
+      const gain = (gap - weightedGap(trial)) / cost;
+      if (gain > bestGain + 1e-9) {
+        bestGain = gain;
+        best = j;
+      }
+    });
+    if (best < 0) break;
+    bought[best] += step(products[best]);
+  }
+
+  return finish(bought);
+}
+
 /* ---------------- 5. Fixed “Classic” recipes (2 more options) ---------------- */
 
 function findByHint(inventory: FertilizerProduct[], hints: string[]): FertilizerProduct | null {
@@ -308,31 +938,374 @@ function solveClassicNPk(
   return { rows, totalCost, supplied: { N: supN, P: supP, K: supK } };
 }
 
+/* ---------------- 5b. pH amendments (lime / sulfur / gypsum) ---------------- */
+
+export const PH_ACIDIC_BELOW = 5.5;
+export const PH_ALKALINE_ABOVE = 7.5;
+const PH_SODIC_ABOVE = 8.5;
+
+// t/ha by pH band; heavier soils buffer more, so they need more material
+const LIME_T_PER_HA: { belowPh: number; light: number; medHeavy: number }[] = [
+  { belowPh: 4.5, light: 3, medHeavy: 4 },
+  { belowPh: 5.0, light: 2, medHeavy: 3 },
+  { belowPh: PH_ACIDIC_BELOW, light: 1, medHeavy: 1.5 },
+];
+const SULFUR_T_PER_HA = { light: 0.3, medHeavy: 0.5 };
+const GYPSUM_T_PER_HA = { light: 2, medHeavy: 3 };
+
+function cheapestPerKg(list: FertilizerProduct[]): FertilizerProduct | null {
+  return [...list].sort((a, b) => a.pricePerBag / a.bagKg - b.pricePerBag / b.bagKg)[0] ?? null;
+}
+
+function findAllByHint(inventory: FertilizerProduct[], hints: string[]): FertilizerProduct[] {
+  const upperHints = hints.map(h => h.toUpperCase());
+  return inventory.filter(p => upperHints.some(h => p.code.toUpperCase().includes(h) || p.label.toUpperCase().includes(h)));
+}
+
+/**
+ * Amendment advice for acidic (< 5.5) or alkaline (> 7.5) readings.
+ * Priced from the admin price doc when a matching product exists (lime/dolomite, sulfur, gypsum).
+ * Returns null when pH is missing or within the normal range.
+ */
+export function buildPhAmendment(args: {
+  ph?: number | null;
+  areaHa?: number;
+  soilClass?: SoilClass;
+  pricesDoc?: AdminPricesDoc | null;
+}): PhAmendment | null {
+  const ph = Number(args.ph);
+  if (args.ph == null || !Number.isFinite(ph) || ph <= 0) return null;
+  if (ph >= PH_ACIDIC_BELOW && ph <= PH_ALKALINE_ABOVE) return null;
+
+  const areaHa = Number(args.areaHa || 1);
+  const soil = args.soilClass ?? 'medHeavy';
+  const inventory = args.pricesDoc ? extractProducts(args.pricesDoc) : [];
+  const currency = args.pricesDoc?.currency || 'PHP';
+
+  let kind: PhAmendment['kind'];
+  let tonsPerHa: number;
+  let product: FertilizerProduct | null;
+  let note: string;
+
+  if (ph < PH_ACIDIC_BELOW) {
+    const band = LIME_T_PER_HA.find(b => ph < b.belowPh) ?? LIME_T_PER_HA[LIME_T_PER_HA.length - 1];
+    kind = 'lime';
+    tonsPerHa = band[soil];
+    product = cheapestPerKg(findAllByHint(inventory, ['DOLOMITE', 'LIME', 'CALCITIC']));
+    note =
+      `Acidic soil (pH ${ph.toFixed(1)}): apply agricultural lime or dolomite 2–4 weeks before planting. ` +
+      `P availability is limited at this pH because P is fixed by iron and aluminum.`;
+  } else if (ph > PH_SODIC_ABOVE) {
+    kind = 'gypsum';
+    tonsPerHa = GYPSUM_T_PER_HA[soil];
+    product = cheapestPerKg(findAllByHint(inventory, ['GYPSUM']));
+    note =
+      `Strongly alkaline soil (pH ${ph.toFixed(1)}), possibly sodic: apply gypsum and flush with good-quality water. ` +
+      `P availability is limited at this pH because P binds with calcium.`;
+  } else {
+    kind = 'sulfur';
+    tonsPerHa = SULFUR_T_PER_HA[soil];
+    product = cheapestPerKg(findAllByHint(inventory, ['SULFUR', 'SULPHUR']));
+    note =
+      `Alkaline soil (pH ${ph.toFixed(1)}): incorporate elemental sulfur before land preparation; ` +
+      `ammonium-based N (e.g. Ammosul) also helps lower pH. P availability is limited at this pH because P binds with calcium.`;
+  }
+
+  const totalTons = round2(tonsPerHa * areaHa);
+  const bags = product ? Math.ceil((totalTons * 1000) / product.bagKg - 1e-9) : null;
+  const cost = product && bags != null ? round2(bags * product.pricePerBag) : null;
+
+  return {
+    kind,
+    phStatus: ph < PH_ACIDIC_BELOW ? 'acidic' : 'alkaline',
+    ph,
+    tonsPerHa,
+    totalTons,
+    product: product
+      ? { code: product.code, label: product.label, bagKg: product.bagKg, pricePerBag: product.pricePerBag }
+      : null,
+    bags,
+    cost,
+    currency,
+    note,
+  };
+}
+
+/* ---------------- 5b-2. Zn / S / Mg advisories ---------------- */
+
+// critical soil-test levels (ppm): DTPA Zn, sulfate-S, exchangeable Mg (~1 cmol/kg)
+const SECONDARY_CRITICAL_PPM = { Zn: 1.0, S: 10, Mg: 120 };
+// pH at which Zn availability drops off in flooded soils
+const ZN_RISK_PH = 7.0;
+
+// element kg/ha to apply when advised
+const SECONDARY_KG_PER_HA = { Zn: 5, S: 20, Mg: 25 };
+
+// product hints and element share (decimal) for pricing from the admin catalog
+const SECONDARY_SOURCES: Record<NutrientAdvisory['nutrient'], { hints: string[]; share: number }[]> = {
+  Zn: [{ hints: ['ZINC SULFATE', 'ZINC_SULFATE', 'ZNSO4', 'ZINC'], share: 0.35 }],
+  S: [
+    { hints: ['AMMOSUL', 'AMMONIUM SULFATE', '21-0-0'], share: 0.24 },
+    { hints: ['GYPSUM'], share: 0.18 },
+    { hints: ['SULFUR', 'SULPHUR'], share: 0.9 },
+  ],
+  Mg: [
+    { hints: ['KIESERITE', 'MAGNESIUM SULFATE', 'MGSO4', 'EPSOM'], share: 0.16 },
+    { hints: ['DOLOMITE'], share: 0.12 },
+  ],
+};
+
+const SECONDARY_NOTE: Record<NutrientAdvisory['nutrient'], string> = {
+  Zn:
+    'Apply zinc sulfate at basal (or dip seedling roots in a 2% ZnO suspension before transplanting); ' +
+    'drain the field for a few days if it has been flooded for long.',
+  S: 'Use Ammosul (21-0-0-24S) for part of the N, or gypsum at basal; S from Ammosul also counts toward N.',
+  Mg: 'Apply kieserite / magnesium sulfate at basal; on acidic fields dolomite corrects both pH and Mg.',
+};
+
+/** Cheapest catalog product per kg of the element, with its share. */
+function cheapestSource(nutrient: NutrientAdvisory['nutrient'], inventory: FertilizerProduct[]) {
+  return SECONDARY_SOURCES[nutrient]
+    .flatMap(src => findAllByHint(inventory, src.hints).map(product => ({ product, share: src.share })))
+    .sort((a, b) => a.product.pricePerBag / (a.product.bagKg * a.share) - b.product.pricePerBag / (b.product.bagKg * b.share))[0] ?? null;
+}
+
+/**
+ * Rule-based Zn / S / Mg advice. "likely" when a reading is below its critical level or a telltale
+ * symptom is reported, "possible" for risk factors only (flooding, high pH). Priced from the admin
+ * catalog when a matching product exists. Returns [] when nothing points to a problem.
+ */
+export function buildSecondaryAdvisories(args: {
+  secondary?: SecondaryReadings;
+  symptoms?: FieldSymptom[];
+  ph?: number | null;
+  areaHa?: number;
+  pricesDoc?: AdminPricesDoc | null;
+}): NutrientAdvisory[] {
+  const symptoms = new Set(args.symptoms || []);
+  const ph = Number(args.ph);
+  const areaHa = Number(args.areaHa || 1);
+  const inventory = args.pricesDoc ? extractProducts(args.pricesDoc) : [];
+  const currency = args.pricesDoc?.currency || 'PHP';
+
+  const reading = (v: number | null | undefined) => (v != null && Number.isFinite(Number(v)) && Number(v) >= 0 ? Number(v) : null);
+  const found: Record<NutrientAdvisory['nutrient'], { likely: string[]; possible: string[] }> = {
+    Zn: { likely: [], possible: [] },
+    S: { likely: [], possible: [] },
+    Mg: { likely: [], possible: [] },
+  };
+
+  const zn = reading(args.secondary?.znPpm);
+  if (zn != null && zn < SECONDARY_CRITICAL_PPM.Zn) found.Zn.likely.push(`Zn ${zn} ppm is below ${SECONDARY_CRITICAL_PPM.Zn} ppm`);
+  if (symptoms.has('bronzing')) found.Zn.likely.push('leaf bronzing reported');
+  if (symptoms.has('prolongedFlooding')) found.Zn.possible.push('prolonged flooding');
+  if (args.ph != null && Number.isFinite(ph) && ph >= ZN_RISK_PH) found.Zn.possible.push(`pH ${ph.toFixed(1)}`);
+  else if (symptoms.has('highPh')) found.Zn.possible.push('high-pH field');
+
+  const sv = reading(args.secondary?.sPpm);
+  if (sv != null && sv < SECONDARY_CRITICAL_PPM.S) found.S.likely.push(`S ${sv} ppm is below ${SECONDARY_CRITICAL_PPM.S} ppm`);
+  if (symptoms.has('yellowYoungLeaves')) found.S.possible.push('yellowing of young leaves');
+
+  const mg = reading(args.secondary?.mgPpm);
+  if (mg != null && mg < SECONDARY_CRITICAL_PPM.Mg) found.Mg.likely.push(`Mg ${mg} ppm is below ${SECONDARY_CRITICAL_PPM.Mg} ppm`);
+  if (symptoms.has('interveinalChlorosis')) found.Mg.possible.push('interveinal chlorosis on older leaves');
+
+  return (['Zn', 'S', 'Mg'] as const)
+    .filter(nu => found[nu].likely.length || found[nu].possible.length)
+    .map(nu => {
+      const kgPerHa = SECONDARY_KG_PER_HA[nu];
+      const totalKg = round2(kgPerHa * areaHa);
+      const src = cheapestSource(nu, inventory);
+      const bags = src ? Math.ceil(totalKg / src.share / src.product.bagKg - 1e-9) : null;
+      const cost = src && bags != null ? round2(bags * src.product.pricePerBag) : null;
+      const severity: NutrientAdvisory['severity'] = found[nu].likely.length ? 'likely' : 'possible';
+
+      return {
+        nutrient: nu,
+        severity,
+        reasons: [...found[nu].likely, ...found[nu].possible],
+        kgPerHa,
+        totalKg,
+        product: src
+          ? { code: src.product.code, label: src.product.label, bagKg: src.product.bagKg, pricePerBag: src.product.pricePerBag }
+          : null,
+        bags,
+        cost,
+        currency,
+        note: `${nu} deficiency ${severity} (${[...found[nu].likely, ...found[nu].possible].join(', ')}): ${SECONDARY_NOTE[nu]}`,
+      };
+    });
+}
+
+/* ---------------- 5c. Organic credits ---------------- */
+
+type OrganicSpec = {
+  label: string;
+  /** % N / P2O5 / K2O on an as-applied basis */
+  pct: { N: number; P: number; K: number };
+  /** share released during the first season */
+  availability: { N: number; P: number; K: number };
+  priceHints: string[];
+};
+
+export const ORGANIC_SOURCES: Record<OrganicSource, OrganicSpec> = {
+  chickenManure: {
+    label: 'Chicken Manure',
+    pct: { N: 3.0, P: 2.5, K: 1.5 },
+    availability: { N: 0.5, P: 0.6, K: 0.8 },
+    priceHints: ['CHICKEN', 'POULTRY'],
+  },
+  vermicompost: {
+    label: 'Vermicompost',
+    pct: { N: 1.5, P: 1.0, K: 1.0 },
+    availability: { N: 0.3, P: 0.5, K: 0.8 },
+    priceHints: ['VERMI'],
+  },
+  riceStraw: {
+    label: 'Rice Straw (incorporated)',
+    pct: { N: 0.6, P: 0.2, K: 1.5 },
+    availability: { N: 0.2, P: 0.5, K: 0.8 },
+    priceHints: ['STRAW'],
+  },
+  carabaoManure: {
+    label: 'Carabao Manure',
+    pct: { N: 1.2, P: 0.6, K: 1.0 },
+    availability: { N: 0.3, P: 0.5, K: 0.8 },
+    priceHints: ['CARABAO'],
+  },
+};
+
+/**
+ * Nutrients credited from applied organics (whole area), priced when the admin doc has a matching item.
+ * Unpriced organics (e.g. the farmer's own straw) are still scheduled, in 50 kg bag equivalents.
+ */
+export function computeOrganicCredits(
+  organics: OrganicApplication[] | undefined,
+  areaHa: number,
+  inventory: FertilizerProduct[]
+): OrganicCredit[] {
+  return (organics || [])
+    .filter(o => ORGANIC_SOURCES[o.source] && Number(o.kgPerHa) > 0)
+    .map(o => {
+      const spec = ORGANIC_SOURCES[o.source];
+      const kg = Number(o.kgPerHa) * areaHa;
+      const credit = (nut: 'N' | 'P' | 'K') => round2((kg * spec.pct[nut] * spec.availability[nut]) / 100);
+      const product = findByHint(inventory, spec.priceHints);
+      const bagKg = product?.bagKg ?? 50;
+      const bags = round2(kg / bagKg);
+      return {
+        source: o.source,
+        label: spec.label,
+        kg,
+        credit: { N: credit('N'), P: credit('P'), K: credit('K') },
+        code: product?.code ?? null,
+        bags,
+        pricePerBag: product ? product.pricePerBag : null,
+        cost: product ? round2(bags * product.pricePerBag) : null,
+      };
+    });
+}
+
+/* ---------------- 5d. On-hand inventory ---------------- */
+
+/** Matches a stock code to a priced product, or builds one from an 'N-P-K' grade (free, 50 kg). */
+function stockProduct(code: string, inventory: FertilizerProduct[]): FertilizerProduct | null {
+  const c = String(code || '').trim();
+  if (!c) return null;
+  const exact = inventory.find(p => p.code === c);
+  if (exact) return exact;
+  const hit = findByHint(inventory, [c, c.replace(/-/g, '_')]);
+  if (hit) return hit;
+
+  const grade = c.match(/^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/);
+  if (!grade) return null;
+  return { code: c, label: c, pricePerBag: 0, bagKg: 50, Npct: +grade[1], Ppct: +grade[2], Kpct: +grade[3] };
+}
+
+/**
+ * Uses stored bags first: each stock item is applied only up to the point where it would
+ * overshoot one of its nutrients, then the remaining targets are left for purchase.
+ */
+export function allocateOnHand(
+  onHand: OnHandStock[] | undefined,
+  inventory: FertilizerProduct[],
+  req: { N: number; P: number; K: number }
+): { used: ComputedRow[]; remaining: { N: number; P: number; K: number } } {
+  const remaining = { ...req };
+  const used: ComputedRow[] = [];
+
+  (onHand || []).forEach(item => {
+    const product = stockProduct(item.code, inventory);
+    const have = Number(item.bags);
+    if (!product || !(have > 0)) return;
+
+    const limits = NUTRIENTS
+      .filter(nu => kgPerBag(product, nu) > 0)
+      .map(nu => Math.max(0, remaining[nu]) / kgPerBag(product, nu));
+    if (!limits.length) return;
+
+    const bags = Math.floor(Math.min(have, ...limits) * 100 + 1e-9) / 100;
+    if (bags <= 0) return;
+    addOrMergeRow(used, product, bags);
+    NUTRIENTS.forEach(nu => (remaining[nu] = Math.max(0, remaining[nu] - bags * kgPerBag(product, nu))));
+  });
+
+  return { used, remaining };
+}
+
 /* ---------------- 6. Recommendation Builder ---------------- */
 
 export function buildRiceRecommendation(input: RiceRecommendInput): RecommendResponse {
+  return buildCropRecommendation({ ...input, crop: 'rice' });
+}
+
+/** Crop-agnostic entry point: targets and N splits come from CROP_REGISTRY. */
+export function buildCropRecommendation(input: CropRecommendInput): RecommendResponse {
   const {
     nPpm, pPpm, kPpm, ph,
     areaHa = 1,
-    variety = 'hybrid',
     soilClass = 'medHeavy',
     season = 'wet',
-    pricesDoc
+    pricesDoc,
+    overshootTolerance = null,
+    purchaseMode = 'exact',
+    targetYieldTha = null,
   } = input;
 
-  const nRating = classifyN(nPpm);
-  const pRating = classifyP(pPpm);
-  const kRating = classifyK(kPpm);
-
-  const { Nkg, Pkg, Kkg } = getTargetKgPerHa(variety, soilClass, season, nRating, pRating, kRating);
+  const thresholdVersion = input.thresholdVersion || getActiveThresholdVersion();
+  const nRating = classifyN(nPpm, thresholdVersion);
+  const pRating = classifyP(pPpm, thresholdVersion);
+  const kRating = classifyK(kPpm, thresholdVersion);
 
-  const totalN = Nkg * areaHa;
-  const totalP = Pkg * areaHa;
-  const totalK = Kkg * areaHa;
+  const { spec, variety } = resolveCrop(input.crop, input.variety);
+  const crop = spec.id;
+  const targetMode: TargetMode =
+    input.targetMode === 'yield' && Number(targetYieldTha) > 0 ? 'yield' : 'table';
+  const { Nkg, Pkg, Kkg } =
+    targetMode === 'yield'
+      ? getYieldTargetKgPerHa(crop, Number(targetYieldTha), nPpm, pPpm, kPpm)
+      : getCropTargetKgPerHa(crop, variety, soilClass, season, nRating, pRating, kRating);
 
   const inventory = extractProducts(pricesDoc);
   const currency = pricesDoc.currency || 'PHP';
 
+  // organic credits come off the targets before any inorganic product is sized
+  const organicCredits = computeOrganicCredits(input.organics, areaHa, inventory);
+  const credited = (nut: 'N' | 'P' | 'K') => organicCredits.reduce((sum, o) => sum + o.credit[nut], 0);
+
+  const fertTarget = {
+    N: Math.max(0, Nkg * areaHa - credited('N')),
+    P: Math.max(0, Pkg * areaHa - credited('P')),
+    K: Math.max(0, Kkg * areaHa - credited('K')),
+  };
+
+  // stored bags are used next (free); only the remainder is bought
+  const stock = allocateOnHand(input.onHand, inventory, fertTarget);
+
+  const totalN = stock.remaining.N;
+  const totalP = stock.remaining.P;
+  const totalK = stock.remaining.K;
+
   // Identify archetypes dynamically
   const completeTypes = inventory.filter(p => p.Npct > 0 && p.Ppct > 0 && p.Kpct > 0);
   // pick the “best” complete by cheapest cost-per-total-nutrient kg
@@ -354,68 +1327,109 @@ export function buildRiceRecommendation(input: RiceRecommendInput): RecommendRes
   const urea = findByHint(inventory, ['UREA_46_0_0', '46-0-0', 'UREA']);
   const ammosul = findByHint(inventory, ['AMMOSUL_21_0_0', '21-0-0', 'AMMOSUL']);
 
-  const plans: RecommendPlan[] = [];
+  const computed: { code: string; title: string; plan: ComputedPlan }[] = [];
 
   // Option A: Complete base
   if (bestComplete) {
-    const r = solveWithBase(totalN, totalP, totalK, bestComplete, inventory);
-    plans.push({
+    computed.push({
       code: 'opt_a_complete',
       title: `Option A: ${bestComplete.label} Base`,
-      rows: formatRows(r.rows, currency),
-      total: r.totalCost,
-      currency,
+      plan: solveWithBase(totalN, totalP, totalK, bestComplete, inventory),
     });
   }
 
   // Option B: NP base (ammophos-like)
   if (bestNP) {
-    const r = solveWithBase(totalN, totalP, totalK, bestNP, inventory);
-    plans.push({
+    computed.push({
       code: 'opt_b_npbase',
       title: `Option B: ${bestNP.label} Base`,
-      rows: formatRows(r.rows, currency),
-      total: r.totalCost,
-      currency,
+      plan: solveWithBase(totalN, totalP, totalK, bestNP, inventory),
     });
   }
 
   // Option C: High efficiency (no base; cheapest-per-kg sources)
-  {
-    const r = solveWithBase(totalN, totalP, totalK, null, inventory);
-    plans.push({
-      code: 'opt_c_efficiency',
-      title: 'Option C: High Efficiency Mix',
-      rows: formatRows(r.rows, currency),
-      total: r.totalCost,
-      currency,
-    });
-  }
+  computed.push({
+    code: 'opt_c_efficiency',
+    title: 'Option C: High Efficiency Mix',
+    plan: solveWithBase(totalN, totalP, totalK, null, inventory),
+  });
 
   // ✅ Option D: Classic DAP + MOP + Urea
-  {
-    const r = solveClassicNPk(totalN, totalP, totalK, dap, mop, urea, inventory);
-    plans.push({
-      code: 'opt_d_dap_mop_urea',
-      title: 'Option D: DAP + MOP + Urea (Classic)',
-      rows: formatRows(r.rows, currency),
-      total: r.totalCost,
-      currency,
-    });
-  }
+  computed.push({
+    code: 'opt_d_dap_mop_urea',
+    title: 'Option D: DAP + MOP + Urea (Classic)',
+    plan: solveClassicNPk(totalN, totalP, totalK, dap, mop, urea, inventory),
+  });
 
   // ✅ Option E: Classic DAP + MOP + Ammosul
+  computed.push({
+    code: 'opt_e_dap_mop_ammosul',
+    title: 'Option E: DAP + MOP + Ammosul (Classic)',
+    plan: solveClassicNPk(totalN, totalP, totalK, dap, mop, ammosul, inventory),
+  });
+
+  // ✅ Purchasing granularity: A–E are rounded up to what the store sells
+  const req = { N: totalN, P: totalP, K: totalK };
+  if (purchaseMode !== 'exact') {
+    computed.forEach(c => (c.plan = applyPurchaseMode(c.plan, req, purchaseMode)));
+  }
+
+  // priced organics are bought whichever blend is picked: every plan total (and the budget) includes them,
+  // so totals match the schedule cost the farmer sees
+  const organicCost = round2(organicCredits.reduce((sum, o) => sum + (o.cost ?? 0), 0));
+  const totalOf = (plan: ComputedPlan) => round2(plan.totalCost + organicCost);
+
+  // ✅ Optimal: least-cost LP blend (re-optimized for integer bags in whole/half-bag modes).
+  // Rounding can, in rare cases, push it a few pesos above a greedy plan;
+  // any A–E plan that also meets the targets (and cap) and is cheaper wins instead.
   {
-    const r = solveClassicNPk(totalN, totalP, totalK, dap, mop, ammosul, inventory);
-    plans.push({
-      code: 'opt_e_dap_mop_ammosul',
-      title: 'Option E: DAP + MOP + Ammosul (Classic)',
-      rows: formatRows(r.rows, currency),
-      total: r.totalCost,
-      currency,
-    });
+    let optimal = solveLeastCost(totalN, totalP, totalK, inventory, { overshootTolerance, purchaseMode });
+    for (const c of computed) {
+      if (totalOf(c.plan) < totalOf(optimal) && meetsTargets(c.plan, req, inventory, overshootTolerance)) {
+        optimal = c.plan;
+      }
+    }
+    // listed first so de-duplication keeps the "Optimal" label
+    computed.unshift({ code: 'opt_lp_optimal', title: 'Optimal: Least-Cost Blend', plan: optimal });
   }
 
+  const scheduleOf = (plan: ComputedPlan) => {
+    if (!stock.used.length) return buildApplicationSchedule(plan, { crop, variety, season, currency, organics: organicCredits });
+    const rows: ComputedRow[] = [];
+    [...stock.used, ...plan.rows].forEach(r => addOrMergeRow(rows, r.product, r.bags));
+    return buildApplicationSchedule(
+      { rows, totalCost: plan.totalCost, supplied: suppliedBy(rows) },
+      { crop, variety, season, currency, organics: organicCredits, stock: stock.used }
+    );
+  };
+  const stockSplitOf = (plan: ComputedPlan): StockSplitRow[] | undefined => {
+    if (!stock.used.length) return undefined;
+    return splitOnHand(
+      [...stock.used, ...plan.rows].map(r => ({ code: r.product.code, label: r.product.label, bags: r.bags })),
+      stock.used.map(r => ({ code: r.product.code, bags: r.bags }))
+    );
+  };
+
+  // stored bags count towards what the plan supplies
+  const balanceOf = (plan: ComputedPlan) => nutrientBalance(fertTarget, suppliedBy([...stock.used, ...plan.rows]));
+
+  const plans: RecommendPlan[] = computed.map(c => {
+    const { schedule, cost } = scheduleOf(c.plan);
+    return {
+      code: c.code,
+      title: c.title,
+      rows: formatRows(c.plan.rows, currency, purchaseMode),
+      total: totalOf(c.plan),
+      currency,
+      purchaseMode,
+      schedule,
+      scheduleCost: cost,
+      trace: tracePlan(c.plan.rows, req, purchaseMode),
+      stock: stockSplitOf(c.plan),
+      balance: balanceOf(c.plan),
+    };
+  });
+
   // Deduplicate identical row-sets (so inventory-limited cases don’t show repeats)
   const uniquePlans = plans.filter((p, idx, arr) => {
     const key = JSON.stringify(p.rows);
@@ -426,17 +1440,150 @@ export function buildRiceRecommendation(input: RiceRecommendInput): RecommendRes
   const sorted = [...uniquePlans].sort((a, b) => (a.total ?? 0) - (b.total ?? 0));
   const cheapest = sorted[0] || uniquePlans[0];
 
-  const narrativeTL = `Target: ${totalN.toFixed(0)}kg N, ${totalP.toFixed(0)}kg P, ${totalK.toFixed(0)}kg K. (${variety}, ${soilClass}, ${season}, ${areaHa} ha)`;
-  const narrativeEN = `Target: ${totalN.toFixed(0)}kg N, ${totalP.toFixed(0)}kg P, ${totalK.toFixed(0)}kg K. (${variety}, ${soilClass}, ${season}, ${areaHa} ha)`;
+  // ✅ Budget mode: when even the cheapest full plan is unaffordable, lead with the best partial plan
+  let budget: BudgetResult | null = null;
+  const maxBudget = Number(input.maxBudget);
+  if (input.maxBudget != null && Number.isFinite(maxBudget) && maxBudget >= 0) {
+    if (cheapest && (cheapest.total ?? 0) > maxBudget + 1e-6) {
+      const partial = solveWithinBudget(
+        req,
+        inventory,
+        Math.max(0, maxBudget - organicCost),
+        { N: nRating, P: pRating, K: kRating },
+        purchaseMode
+      );
+      const { schedule, cost } = scheduleOf(partial.plan);
+      uniquePlans.forEach(p => (p.overBudget = (p.total ?? 0) > maxBudget + 1e-6));
+      uniquePlans.unshift({
+        code: 'opt_budget',
+        title: `Within Budget: ${currency} ${maxBudget.toLocaleString()}`,
+        rows: formatRows(partial.plan.rows, currency, purchaseMode),
+        total: totalOf(partial.plan),
+        currency,
+        purchaseMode,
+        schedule,
+        scheduleCost: cost,
+        overBudget: false,
+        trace: tracePlan(partial.plan.rows, req, purchaseMode),
+        stock: stockSplitOf(partial.plan),
+        balance: balanceOf(partial.plan),
+      });
+      budget = {
+        maxBudget,
+        withinBudget: false,
+        planCode: 'opt_budget',
+        shortfallKg: partial.shortfall,
+        yieldPenaltyKg: partial.yieldPenaltyKg,
+      };
+    } else {
+      budget = { maxBudget, withinBudget: true, planCode: null, shortfallKg: { N: 0, P: 0, K: 0 }, yieldPenaltyKg: 0 };
+    }
+  }
+
+  const amendment = buildPhAmendment({ ph, areaHa, soilClass, pricesDoc });
+  const advisories = buildSecondaryAdvisories({ secondary: input.secondary, symptoms: input.symptoms, ph, areaHa, pricesDoc });
+  const trace = traceInputs({
+    ppm: { N: nPpm, P: pPpm, K: kPpm },
+    thresholds: getThresholds(thresholdVersion),
+    ratings: { N: nRating, P: pRating, K: kRating },
+    targetsPerHa: { N: Nkg, P: Pkg, K: Kkg },
+    targetSource:
+      targetMode === 'yield'
+        ? `${spec.label} ${Number(targetYieldTha)} t/ha yield goal`
+        : `${spec.label} ${variety} / ${soilClass} / ${season} table`,
+    areaHa,
+    inventory,
+    currency,
+  });
+  stock.used.forEach(r => {
+    const parts = NUTRIENTS.filter(nu => kgPerBag(r.product, nu) > 0).map(nu => `${fmt1(r.bags * kgPerBag(r.product, nu))} kg ${nu}`);
+    trace.push({
+      kind: 'credit',
+      title: `From storage: ${r.product.label}`,
+      detail: `${r.bags} bags already on hand cover ${parts.join(', ')} at no cost.`,
+    });
+  });
+  organicCredits.forEach(o => {
+    trace.push({
+      kind: 'credit',
+      title: o.label,
+      detail: `${o.kg} kg credited ${o.credit.N} kg N, ${o.credit.P} kg P, ${o.credit.K} kg K against the targets.`,
+    });
+  });
+
+  const labelOf = (code: string) =>
+    cheapest?.rows?.find(r => r.key === code)?.label ?? FERTILIZER_NAMES[code] ?? code;
+  const scheduleLines = (lines?: DaScheduleLine[]) => (lines || []).map(l => ({ label: labelOf(l.code), bags: l.bags }));
+  const narrative = buildNarratives({
+    ratings: { N: nRating, P: pRating, K: kRating },
+    ppm: { N: nPpm, P: pPpm, K: kPpm },
+    targetsKgHa: { N: Nkg, P: Pkg, K: Kkg },
+    areaHa,
+    crop,
+    variety,
+    soilClass,
+    season,
+    targetYieldTha: targetMode === 'yield' ? Number(targetYieldTha) : null,
+    cheapest: cheapest ? { label: cheapest.title, total: cheapest.total ?? 0, currency } : null,
+    schedule: cheapest?.schedule
+      ? {
+          organic: scheduleLines(cheapest.schedule.organic),
+          basal: scheduleLines(cheapest.schedule.basal),
+          after30DAT: scheduleLines(cheapest.schedule.after30DAT),
+          topdress60DBH: scheduleLines(cheapest.schedule.topdress60DBH),
+        }
+      : null,
+    organicCredit: organicCredits.length
+      ? {
+          kg: { N: credited('N'), P: credited('P'), K: credited('K') },
+          sources: organicCredits.map(o => o.label),
+        }
+      : null,
+    budget:
+      budget && !budget.withinBudget
+        ? {
+            maxBudget: budget.maxBudget,
+            fullTotal: cheapest?.total ?? 0,
+            shortfallKg: budget.shortfallKg,
+            yieldPenaltyKg: budget.yieldPenaltyKg,
+            currency,
+          }
+        : null,
+    amendment: amendment
+      ? {
+          kind: amendment.kind,
+          tonsPerHa: amendment.tonsPerHa,
+          totalTons: amendment.totalTons,
+          productLabel: amendment.product?.label ?? null,
+          bags: amendment.bags,
+        }
+      : null,
+    advisories: advisories.map(a => ({
+      nutrient: a.nutrient,
+      severity: a.severity,
+      kgPerHa: a.kgPerHa,
+      productLabel: a.product?.label ?? null,
+      bags: a.bags,
+    })),
+  });
 
   return {
     ok: true,
     input: {
-      nPpm, pPpm, kPpm, ph, areaHa, variety, soilClass, season,
+      nPpm, pPpm, kPpm, ph, areaHa, crop, variety, soilClass, season, purchaseMode,
       ratings: { N: nRating, P: pRating, K: kRating },
-      targetsPerHa: { Nkg, Pkg, Kkg },
+      thresholdVersion,
+      maxBudget: input.maxBudget ?? null,
+      targetMode,
+      targetYieldTha: targetMode === 'yield' ? Number(targetYieldTha) : null,
+      targetsPerHa: { Nkg, Pkg, Kkg, mode: targetMode },
     },
-    narrative: { tl: narrativeTL, en: narrativeEN },
+    narrative,
+    amendment,
+    advisories,
+    organics: organicCredits,
+    budget,
+    trace,
     plans: uniquePlans,
     cheapest: { code: cheapest?.code, total: cheapest?.total ?? 0, currency },
     updatedAt: new Date().toISOString(),
@@ -446,36 +1593,398 @@ export function buildRiceRecommendation(input: RiceRecommendInput): RecommendRes
 /* ---------------- 7. Row formatter (keeps your UI compatible) ---------------- */
 
 function formatRows(
-  rows: { product: FertilizerProduct; bags: number }[],
-  currency: string
+  rows: ComputedRow[],
+  currency: string,
+  purchaseMode: PurchaseMode = 'exact'
 ): RecommendPlanRow[] {
   return rows.map(r => {
-    const bags = roundBags(r.bags);
+    // purchase modes already hold exact store quantities (e.g. 117 kg = 2.34 bags)
+    const bags = purchaseMode === 'exact' ? roundBags(r.bags) : Math.round(r.bags * 10000) / 10000;
     const subtotal = bags * (r.product.pricePerBag ?? 0);
-    return {
+    const row: RecommendPlanRow = {
       key: r.product.code,
       label: r.product.label,
       bags,
       pricePerBag: r.product.pricePerBag,
       subtotal: Math.round(subtotal * 100) / 100,
       currency,
-    } as any;
+    };
+    if (purchaseMode !== 'exact') {
+      row.purchasedKg = Math.round(bags * r.product.bagKg * 10) / 10;
+      row.leftoverKg = r.leftoverKg ?? 0;
+    }
+    return row;
+  });
+}
+
+/* ---------------- 7b. Split-application schedule ---------------- */
+
+export const N_SPLITS: Record<RiceVariety, Record<Season, NSplit>> = CROP_REGISTRY.rice.nSplits;
+
+const PHASE_LABEL: Record<keyof DaSchedule, string> = {
+  organic: 'ORGANIC',
+  basal: 'BASAL',
+  after30DAT: '30 DAT',
+  topdress60DBH: 'TOPDRESS',
+};
+
+function round2(x: number) {
+  return Math.round((Number(x || 0) + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Splits a plan's products into agronomic phases:
+ * - Any product carrying P or K -> BASAL (all of it)
+ * - N-only products make up the rest of the N split (basal / 30 DAT / panicle initiation),
+ *   after crediting the N that the basal P/K products already deliver
+ * - Credited organics -> ORGANIC (priced only when the admin doc lists them)
+ * - On-hand stock is charged nothing (earliest phases use it first)
+ * Returns the DA-style schedule plus a per-phase cost table.
+ */
+export function buildApplicationSchedule(
+  plan: ComputedPlan,
+  opts: {
+    crop?: CropId; variety?: CropVariety; season?: Season; currency?: string;
+    organics?: OrganicCredit[];
+    /** bags already on hand: applied first (earliest phase) and not charged */
+    stock?: { product: FertilizerProduct; bags: number }[];
+  } = {}
+): { schedule: DaSchedule; cost: DaCost } {
+  const split = getNSplit(opts.crop, opts.variety, opts.season);
+  const currency = opts.currency || 'PHP';
+
+  const schedule: Required<DaSchedule> = { organic: [], basal: [], after30DAT: [], topdress60DBH: [] };
+  const isNOnly = (p: FertilizerProduct) => p.Npct > 0 && p.Ppct <= 0 && p.Kpct <= 0;
+
+  (opts.organics || []).forEach(o => {
+    if (o.bags > 0) schedule.organic.push({ code: o.code ?? o.label, bags: o.bags });
+  });
+
+  const mixed = plan.rows.filter(r => !isNOnly(r.product));
+  const nOnly = plan.rows.filter(r => isNOnly(r.product));
+
+  mixed.forEach(r => {
+    if (r.bags > 0) schedule.basal.push({ code: r.product.code, bags: round2(r.bags) });
+  });
+
+  const nFromMixed = mixed.reduce((sum, r) => sum + r.bags * kgPerBag(r.product, 'N'), 0);
+  const nFromNOnly = nOnly.reduce((sum, r) => sum + r.bags * kgPerBag(r.product, 'N'), 0);
+
+  if (nFromNOnly > 0) {
+    // same split math as the DA plans in src/daPlans.ts
+    const shares = nOnlyPhaseShares(nFromMixed, nFromNOnly, split);
+    nOnly.forEach(r => {
+      const bags = splitBags(r.bags, shares);
+      if (bags.basal > 0) schedule.basal.push({ code: r.product.code, bags: bags.basal });
+      if (bags.after30DAT > 0) schedule.after30DAT.push({ code: r.product.code, bags: bags.after30DAT });
+      if (bags.topdress60DBH > 0) schedule.topdress60DBH.push({ code: r.product.code, bags: bags.topdress60DBH });
+    });
+  }
+
+  const priceOf = new Map<string, number | null>(plan.rows.map(r => [r.product.code, r.product.pricePerBag]));
+  (opts.organics || []).forEach(o => priceOf.set(o.code ?? o.label, o.pricePerBag));
+  const freeLeft = new Map<string, number>();
+  (opts.stock || []).forEach(r => freeLeft.set(r.product.code, (freeLeft.get(r.product.code) ?? 0) + r.bags));
+
+  const rows: DaCostRow[] = [];
+  (Object.keys(PHASE_LABEL) as (keyof DaSchedule)[]).forEach(phase => {
+    (schedule[phase] as DaScheduleLine[]).forEach(line => {
+      const pricePerBag = priceOf.get(line.code) ?? null;
+      const free = Math.min(line.bags, freeLeft.get(line.code) ?? 0);
+      if (free > 0) freeLeft.set(line.code, (freeLeft.get(line.code) ?? 0) - free);
+      rows.push({
+        phase: PHASE_LABEL[phase],
+        code: line.code,
+        bags: line.bags,
+        pricePerBag,
+        subtotal: pricePerBag == null ? null : round2(pricePerBag * (line.bags - free)),
+      });
+    });
+  });
+
+  return {
+    schedule,
+    cost: { currency, rows, total: round2(rows.reduce((sum, r) => sum + (r.subtotal || 0), 0)) },
+  };
+}
+
+/* ---------------- 7c. Explanation trace ("Why this plan?") ---------------- */
+
+const RATING_WORD: Record<NutrientRating, string> = { L: 'Low', M: 'Medium', H: 'High' };
+const fmt1 = (x: number) => (Math.round(x * 10) / 10).toString();
+
+/**
+ * Steps shared by every plan: ppm -> rating (with the threshold used),
+ * rating -> kg/ha target (table cell), and the cost-per-kg comparison behind product choice.
+ */
+export function traceInputs(args: {
+  ppm: { N: number; P: number; K: number };
+  thresholds?: Record<'N' | 'P' | 'K', { L: number; M: number }>;
+  ratings: { N: NutrientRating; P: NutrientRating; K: NutrientRating };
+  targetsPerHa: { N: number; P: number; K: number };
+  /** where the targets came from, e.g. "Rice hybrid / medHeavy / wet table" */
+  targetSource: string;
+  areaHa?: number;
+  inventory: FertilizerProduct[];
+  currency?: string;
+}): TraceStep[] {
+  const thresholds = args.thresholds ?? getThresholds();
+  const areaHa = Number(args.areaHa || 1);
+  const currency = args.currency || 'PHP';
+  const steps: TraceStep[] = [];
+
+  NUTRIENTS.forEach(nu => {
+    const t = thresholds[nu];
+    const r = args.ratings[nu];
+    const rule = r === 'L' ? `< ${t.L}` : r === 'M' ? `${t.L}–${t.M}` : `> ${t.M}`;
+    steps.push({
+      kind: 'rating',
+      title: `${nu} rating`,
+      detail: `${fmt1(args.ppm[nu])} ppm is ${RATING_WORD[r]} (${rule} ppm).`,
+    });
+  });
+
+  NUTRIENTS.forEach(nu => {
+    const perHa = args.targetsPerHa[nu];
+    steps.push({
+      kind: 'target',
+      title: `${nu} target`,
+      detail:
+        `${args.targetSource}, ${nu} = ${RATING_WORD[args.ratings[nu]]} → ${fmt1(perHa)} kg/ha` +
+        (areaHa !== 1 ? ` × ${areaHa} ha = ${fmt1(perHa * areaHa)} kg.` : '.'),
+    });
   });
+
+  NUTRIENTS.forEach(nu => {
+    const ranked = args.inventory
+      .map(p => ({ p, c: costPerKg(p, nu) }))
+      .filter(x => Number.isFinite(x.c))
+      .sort((a, b) => a.c - b.c);
+    if (!ranked.length) return;
+    steps.push({
+      kind: 'productChoice',
+      title: `Cheapest ${nu} source`,
+      detail:
+        ranked.map(x => `${x.p.label} ${currency} ${x.c.toFixed(2)}/kg ${nu}`).join(' · ') +
+        ` → ${ranked[0].p.label} is cheapest per kg of ${nu}.`,
+    });
+  });
+
+  return steps;
+}
+
+/** Per-plan steps: bags formula per product, rounding, and overshoot against the targets. */
+export function tracePlan(
+  rows: ComputedRow[],
+  req: { N: number; P: number; K: number },
+  purchaseMode: PurchaseMode = 'exact',
+  /** overrides the rounding explanation (for plans not rounded by this engine) */
+  roundingNote?: string
+): TraceStep[] {
+  const steps: TraceStep[] = rows
+    .filter(r => r.bags > 0)
+    .map(r => {
+      const parts = NUTRIENTS
+        .filter(nu => kgPerBag(r.product, nu) > 0)
+        .map(nu => {
+          const pct = nu === 'N' ? r.product.Npct : nu === 'P' ? r.product.Ppct : r.product.Kpct;
+          return `${pct}% ${nu} = ${fmt1(r.bags * kgPerBag(r.product, nu))} kg ${nu}`;
+        });
+      return {
+        kind: 'bags' as const,
+        title: r.product.label,
+        detail: `${r.bags} bags × ${r.product.bagKg} kg × ${parts.join(', ')}.`,
+      };
+    });
+
+  const roundingText: Record<PurchaseMode, string> = {
+    exact: 'Bags rounded up to the nearest 0.01 bag so no target is missed.',
+    halfBag: 'Bags rounded up to half bags (what the store sells).',
+    wholeBag: 'Bags rounded up to whole bags (what the store sells).',
+    kgLoose: 'Loose fertilizer rounded up to whole kilograms.',
+  };
+  const leftovers = rows.filter(r => Number(r.leftoverKg) > 0).map(r => `${r.product.label} ${r.leftoverKg} kg`);
+  steps.push({
+    kind: 'rounding',
+    title: 'Rounding',
+    detail: (roundingNote ?? roundingText[purchaseMode]) + (leftovers.length ? ` Leftover after application: ${leftovers.join(', ')}.` : ''),
+  });
+
+  const supplied = suppliedBy(rows);
+  NUTRIENTS.forEach(nu => {
+    if (req[nu] <= 0 && supplied[nu] <= 0) return;
+    const diff = supplied[nu] - req[nu];
+    const pct = req[nu] > 0 ? ` (${diff >= 0 ? '+' : ''}${fmt1((diff / req[nu]) * 100)}%)` : '';
+    steps.push({
+      kind: 'overshoot',
+      title: `${nu} supplied vs target`,
+      detail: `${fmt1(supplied[nu])} kg supplied vs ${fmt1(req[nu])} kg target: ${diff >= 0 ? '+' : ''}${fmt1(diff)} kg${pct}.`,
+    });
+  });
+
+  return steps;
+}
+
+/**
+ * "Why this plan?" for a DA plan (src/daPlans.ts): ratings + targets, then bag totals
+ * per product across all phases.
+ */
+export function traceDaPlan(args: {
+  plan: DaPlan | null;
+  ppm: { N: number; P: number; K: number };
+  ratings: { N: NutrientRating; P: NutrientRating; K: NutrientRating };
+  reqKgHa: { N: number; P: number; K: number };
+  targetSource: string;
+  areaHa: number;
+  prices: AdminPricesDoc | null;
+}): TraceStep[] {
+  const toProduct = (code: string): FertilizerProduct => {
+    const g = (GRADE as any)[code] ?? { N: 0, P: 0, K: 0 };
+    return {
+      code,
+      label: FERTILIZER_NAMES[code] ?? code,
+      pricePerBag: Number(getItemByCode(args.prices, code)?.pricePerBag ?? 0),
+      bagKg: BAG_KG,
+      Npct: Math.round(g.N * 100),
+      Ppct: Math.round(g.P * 100),
+      Kpct: Math.round(g.K * 100),
+    };
+  };
+
+  const priced = Object.keys(GRADE).filter(c => Number(getItemByCode(args.prices, c)?.pricePerBag) > 0);
+  const steps = traceInputs({
+    ppm: args.ppm,
+    thresholds: getThresholds(),
+    ratings: args.ratings,
+    targetsPerHa: args.reqKgHa,
+    targetSource: args.targetSource,
+    areaHa: args.areaHa,
+    inventory: priced.map(toProduct),
+    currency: String((args.prices as any)?.currency || 'PHP'),
+  });
+  if (!args.plan) return steps;
+
+  const totals: Record<string, number> = {};
+  fertilizerLines(args.plan.schedule).forEach(l => (totals[l.code] = (totals[l.code] || 0) + l.bags));
+
+  const rows = Object.entries(totals).map(([code, bags]) => ({ product: toProduct(code), bags: round2(bags) }));
+  const area = Number(args.areaHa || 1);
+  return [
+    ...steps,
+    ...tracePlan(
+      rows,
+      { N: args.reqKgHa.N * area, P: args.reqKgHa.P * area, K: args.reqKgHa.K * area },
+      'exact',
+      'Each product is rounded to the nearest 0.01 bag (bags = target kg ÷ (grade × 50 kg)).'
+    ),
+  ];
+}
+
+/* ---------------- 7d. Price sensitivity ("what if prices change") ---------------- */
+
+export type PriceOverrides = {
+  /** ±% applied to every product (e.g. 10 = all 10% dearer) */
+  pctAll?: number;
+  /** price key -> price per bag; applied after pctAll */
+  perBag?: Record<string, number>;
+};
+
+/** Copy of the admin prices with the overrides applied (baseline doc is not touched). */
+export function adjustPrices(doc: AdminPricesDoc, overrides: PriceOverrides): AdminPricesDoc {
+  const factor = 1 + Number(overrides.pctAll || 0) / 100;
+  const items: AdminPricesDoc['items'] = {};
+  for (const [code, v] of Object.entries(doc.items || {})) {
+    const own = overrides.perBag?.[code];
+    const price = own != null && Number.isFinite(Number(own)) ? Number(own) : Number(v.pricePerBag || 0) * factor;
+    items[code] = { ...v, pricePerBag: Math.max(0, Math.round(price * 100) / 100) };
+  }
+  return { ...doc, items };
+}
+
+/** Same bags, new prices: every row and total re-priced from `doc` (rows keyed by price key). */
+export function repricePlans(plans: RecommendPlan[], doc: AdminPricesDoc): RecommendPlan[] {
+  return plans.map(p => {
+    const rows = p.rows.map(r => {
+      const pricePerBag = Number(doc.items?.[r.key]?.pricePerBag ?? r.pricePerBag ?? 0);
+      return { ...r, pricePerBag, subtotal: Math.round(r.bags * pricePerBag * 100) / 100 };
+    });
+    const total = Math.round(rows.reduce((s, r) => s + r.subtotal, 0) * 100) / 100;
+    return { ...p, rows, total };
+  });
+}
+
+export type CheapestFlip = {
+  productKey: string;
+  currentPrice: number;
+  /** plan code that is cheapest at the current prices */
+  cheapest: string | null;
+  /** price per bag above which another plan becomes cheapest (null = never) */
+  above: { price: number; plan: string } | null;
+  /** price per bag below which another plan becomes cheapest (null = never, not even at 0) */
+  below: { price: number; plan: string } | null;
+};
+
+/**
+ * Where the cheapest pick flips when only `productKey`'s price moves.
+ * Bags stay fixed, so each total is a straight line in that price; the flips are
+ * the nearest crossings with the current cheapest plan on either side.
+ */
+export function findCheapestFlipPrice(plans: RecommendPlan[], productKey: string): CheapestFlip {
+  const bagsOf = (p: RecommendPlan) => p.rows.filter(r => r.key === productKey).reduce((s, r) => s + r.bags, 0);
+  const priced = plans.find(p => p.rows.some(r => r.key === productKey && r.bags > 0));
+  const currentPrice = Number(priced?.rows.find(r => r.key === productKey)?.pricePerBag ?? 0);
+
+  const out: CheapestFlip = { productKey, currentPrice, cheapest: null, above: null, below: null };
+  if (!plans.length) return out;
+
+  const best = plans.reduce((a, b) => (b.total < a.total ? b : a));
+  out.cheapest = best.code;
+  const bBest = bagsOf(best);
+
+  for (const p of plans) {
+    if (p === best) continue;
+    const slope = bBest - bagsOf(p);
+    if (Math.abs(slope) < 1e-9) continue;
+    const price = Math.round((currentPrice + (p.total - best.total) / slope) * 100) / 100;
+    if (slope > 0 && (!out.above || price < out.above.price)) out.above = { price, plan: p.code };
+    if (slope < 0 && price >= 0 && (!out.below || price > out.below.price)) out.below = { price, plan: p.code };
+  }
+  return out;
 }
 
 /* ---------------- 8. Wrapper used by your screens (same output shape as before) ---------------- */
 
 export function generateFertilizerPlan(args: {
   n: number; p: number; k: number; ph?: number | null;
-  areaHa?: number; variety?: RiceVariety; soilClass?: SoilClass; season?: Season;
+  areaHa?: number; crop?: CropId; variety?: CropVariety; soilClass?: SoilClass; season?: Season;
+  purchaseMode?: PurchaseMode;
+  targetMode?: TargetMode; targetYieldTha?: number | null;
+  organics?: OrganicApplication[];
+  maxBudget?: number | null;
+  onHand?: OnHandStock[];
+  thresholdVersion?: string | null;
+  secondary?: SecondaryReadings;
+  symptoms?: FieldSymptom[];
+  /** language of `recommendationText` (englishText is always English) */
+  lang?: NarrativeLang;
   pricesDoc: AdminPricesDoc;
 }) {
-  const resp = buildRiceRecommendation({
+  const resp = buildCropRecommendation({
     nPpm: args.n, pPpm: args.p, kPpm: args.k, ph: args.ph ?? undefined,
     areaHa: args.areaHa ?? 1,
-    variety: args.variety ?? 'hybrid',
+    crop: args.crop ?? 'rice',
+    variety: args.variety,
     soilClass: args.soilClass ?? 'medHeavy',
     season: args.season ?? 'wet',
+    purchaseMode: args.purchaseMode ?? 'exact',
+    targetMode: args.targetMode ?? 'table',
+    targetYieldTha: args.targetYieldTha ?? null,
+    organics: args.organics,
+    maxBudget: args.maxBudget ?? null,
+    onHand: args.onHand,
+    thresholdVersion: args.thresholdVersion,
+    secondary: args.secondary,
+    symptoms: args.symptoms,
     pricesDoc: args.pricesDoc,
   });
 
@@ -486,14 +1995,75 @@ export function generateFertilizerPlan(args: {
       const bags = Math.round((r.bags ?? 0) * 100) / 100;
       const subtotal = Math.round((r.subtotal ?? 0) * 100) / 100;
       const perBag = Math.round((r.pricePerBag ?? 0) * 100) / 100;
-      return `${bags} bag(s) - ${r.label} | ${resp.cheapest?.currency ?? 'PHP'} ${perBag}/bag | Subtotal: ${subtotal}`;
+      const leftover = Number(r.leftoverKg ?? 0) > 0 ? ` | Leftover: ${r.leftoverKg} kg` : '';
+      return `${bags} bag(s) - ${r.label} | ${resp.cheapest?.currency ?? 'PHP'} ${perBag}/bag | Subtotal: ${subtotal}${leftover}`;
     }),
+    balance: p.balance,
   }));
 
+  // same three DA plans the recommendation screens and their PDF export show,
+  // sized for what is left after the organic credit (per ha, like the targets)
+  const t = resp.input?.targetsPerHa ?? {};
+  const areaHa = args.areaHa ?? 1;
+  const creditKgHa = (nu: 'N' | 'P' | 'K') => (resp.organics ?? []).reduce((sum, o) => sum + o.credit[nu], 0) / areaHa;
+  const daPlans = buildDaPlans({
+    prices: args.pricesDoc,
+    reqKgHa: {
+      N: Math.max(0, Number(t.Nkg || 0) - creditKgHa('N')),
+      P: Math.max(0, Number(t.Pkg || 0) - creditKgHa('P')),
+      K: Math.max(0, Number(t.Kkg || 0) - creditKgHa('K')),
+    },
+    areaHa,
+    onHand: args.onHand,
+    nSplit: getNSplit(resp.input?.crop, resp.input?.variety, resp.input?.season),
+  });
+
   return {
-    recommendationText: resp.narrative?.tl ?? '',
+    recommendationText: resp.narrative?.[args.lang ?? DEFAULT_NARRATIVE_LANG] ?? '',
     englishText: resp.narrative?.en ?? '',
     fertilizerPlans,
+    daPlans,
     raw: resp,
   };
 }
+
+/** What a saved reading and the PDF keep of an engine result (see EngineOptions' `onResult`) */
+export function summarizeRecommendation(resp: RecommendResponse): EngineResultSummary {
+  const currency = resp.cheapest?.currency ?? resp.currency ?? 'PHP';
+  const t = resp.input?.targetsPerHa ?? {};
+  const leadCode = resp.budget?.planCode ?? resp.cheapest?.code;
+  const lead = resp.plans.find(p => p.code === leadCode) ?? resp.plans[0] ?? null;
+
+  const notes: string[] = [];
+  if (resp.budget && !resp.budget.withinBudget) {
+    const s = resp.budget.shortfallKg;
+    notes.push(
+      `No full plan fits ${currency} ${resp.budget.maxBudget.toLocaleString()}: short by N ${s.N} • P ${s.P} • K ${s.K} kg ` +
+        `(about ${Math.round(resp.budget.yieldPenaltyKg)} kg less grain).`
+    );
+  }
+  (resp.organics ?? []).forEach(o =>
+    notes.push(`${o.label}: ${o.kg} kg credits N ${o.credit.N} • P ${o.credit.P} • K ${o.credit.K} kg`)
+  );
+  if (resp.amendment) notes.push(resp.amendment.note);
+  (resp.advisories ?? []).forEach(a => notes.push(a.note));
+
+  return {
+    targetMode: resp.input?.targetMode === 'yield' ? 'yield' : 'table',
+    targetYieldTha: resp.input?.targetYieldTha ?? null,
+    targetsPerHa: { N: Number(t.Nkg || 0), P: Number(t.Pkg || 0), K: Number(t.Kkg || 0) },
+    purchaseMode: String(resp.input?.purchaseMode ?? 'exact'),
+    maxBudget: resp.input?.maxBudget ?? null,
+    currency,
+    plan: lead
+      ? {
+          code: lead.code,
+          title: lead.title,
+          total: lead.total,
+          lines: lead.rows.map(r => `${r.bags} bag(s) ${r.label}`),
+        }
+      : null,
+    notes,
+    updatedAt: resp.updatedAt ?? new Date().toISOString(),
+  };
+}
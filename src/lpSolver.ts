@@ -0,0 +1,194 @@
+// src/lpSolver.ts
+// Small dense two-phase simplex used by the fertilizer blend solver.
+// Problems here are tiny (a handful of products × a handful of nutrient rows),
+// so clarity beats speed: plain arrays, Bland's rule to avoid cycling.
+
+export type LpConstraint = {
+  coeffs: number[];
+  op: '<=' | '>=' | '=';
+  rhs: number;
+};
+
+export type LpProblem = {
+  objective: number[];        // one coefficient per variable
+  constraints: LpConstraint[];
+  maximize?: boolean;         // default: minimize
+};
+
+export type LpStatus = 'optimal' | 'infeasible' | 'unbounded';
+
+export type LpResult = {
+  status: LpStatus;
+  x: number[];                // variable values (all >= 0)
+  objective: number;
+};
+
+const EPS = 1e-9;
+const MAX_ITER = 5000;
+
+function pivot(T: number[][], basis: number[], row: number, col: number) {
+  const pr = T[row];
+  const pv = pr[col];
+  for (let j = 0; j < pr.length; j++) pr[j] /= pv;
+
+  for (let i = 0; i < T.length; i++) {
+    if (i === row) continue;
+    const f = T[i][col];
+    if (Math.abs(f) < EPS) continue;
+    const r = T[i];
+    for (let j = 0; j < r.length; j++) r[j] -= f * pr[j];
+  }
+  basis[row] = col;
+}
+
+/**
+ * Runs simplex iterations on a tableau whose last row holds reduced costs
+ * (minimization). Only columns accepted by `allowed` may enter the basis.
+ */
+function iterate(T: number[][], basis: number[], allowed: (col: number) => boolean): 'optimal' | 'unbounded' {
+  const m = T.length - 1;
+  const obj = T[m];
+  const rhs = obj.length - 1;
+
+  for (let iter = 0; iter < MAX_ITER; iter++) {
+    // Bland: first improving column
+    let col = -1;
+    for (let j = 0; j < rhs; j++) {
+      if (allowed(j) && obj[j] < -EPS) {
+        col = j;
+        break;
+      }
+    }
+    if (col < 0) return 'optimal';
+
+    // ratio test (ties → lowest basis index)
+    let row = -1;
+    let best = Number.POSITIVE_INFINITY;
+    for (let i = 0; i < m; i++) {
+      const a = T[i][col];
+      if (a <= EPS) continue;
+      const ratio = T[i][rhs] / a;
+      if (ratio < best - EPS || (Math.abs(ratio - best) <= EPS && row >= 0 && basis[i] < basis[row])) {
+        best = ratio;
+        row = i;
+      }
+    }
+    if (row < 0) return 'unbounded';
+
+    pivot(T, basis, row, col);
+  }
+  return 'optimal';
+}
+
+/**
+ * Solves: min (or max) c·x  subject to  A x (<=|>=|=) b,  x >= 0.
+ */
+export function solveLinearProgram(problem: LpProblem): LpResult {
+  const n = problem.objective.length;
+  const rows = problem.constraints.map((c) => {
+    // normalize so every rhs >= 0
+    if (c.rhs < 0) {
+      const op: LpConstraint['op'] = c.op === '<=' ? '>=' : c.op === '>=' ? '<=' : '=';
+      return { coeffs: c.coeffs.map((v) => -v), op, rhs: -c.rhs };
+    }
+    return c;
+  });
+  const m = rows.length;
+
+  if (m === 0) {
+    // Only x >= 0: zero is optimal unless some cost pushes toward +infinity.
+    const sign = problem.maximize ? -1 : 1;
+    const unbounded = problem.objective.some((c) => sign * c < -EPS);
+    return { status: unbounded ? 'unbounded' : 'optimal', x: new Array(n).fill(0), objective: 0 };
+  }
+
+  const slackCount = rows.filter((r) => r.op !== '=').length;
+  const artCount = rows.filter((r) => r.op !== '<=').length;
+  const slackStart = n;
+  const artStart = n + slackCount;
+  const width = n + slackCount + artCount + 1; // + rhs
+  const rhs = width - 1;
+
+  const T: number[][] = [];
+  const basis: number[] = [];
+  let s = 0;
+  let a = 0;
+
+  for (const r of rows) {
+    const line = new Array(width).fill(0);
+    for (let j = 0; j < n; j++) line[j] = Number(r.coeffs[j] ?? 0);
+    line[rhs] = r.rhs;
+
+    if (r.op === '<=') {
+      line[slackStart + s] = 1;
+      basis.push(slackStart + s);
+      s++;
+    } else if (r.op === '>=') {
+      line[slackStart + s] = -1;
+      s++;
+      line[artStart + a] = 1;
+      basis.push(artStart + a);
+      a++;
+    } else {
+      line[artStart + a] = 1;
+      basis.push(artStart + a);
+      a++;
+    }
+    T.push(line);
+  }
+
+  const isArt = (col: number) => col >= artStart && col < rhs;
+
+  // ---- Phase 1: minimize the sum of artificials ----
+  const phase1 = new Array(width).fill(0);
+  for (let i = 0; i < m; i++) {
+    if (!isArt(basis[i])) continue;
+    for (let j = 0; j < width; j++) {
+      if (!isArt(j)) phase1[j] -= T[i][j];
+    }
+  }
+  T.push(phase1);
+
+  if (artCount > 0) {
+    iterate(T, basis, () => true);
+    if (-T[m][rhs] > 1e-7) {
+      return { status: 'infeasible', x: new Array(n).fill(0), objective: 0 };
+    }
+
+    // drive leftover (zero-valued) artificials out of the basis
+    for (let i = 0; i < m; i++) {
+      if (!isArt(basis[i])) continue;
+      for (let j = 0; j < artStart; j++) {
+        if (Math.abs(T[i][j]) > EPS) {
+          pivot(T, basis, i, j);
+          break;
+        }
+      }
+    }
+  }
+
+  // ---- Phase 2: original objective ----
+  const sign = problem.maximize ? -1 : 1;
+  const cost = (col: number) => (col < n ? sign * Number(problem.objective[col] ?? 0) : 0);
+
+  const obj = new Array(width).fill(0);
+  for (let j = 0; j < n; j++) obj[j] = cost(j);
+  for (let i = 0; i < m; i++) {
+    const cb = cost(basis[i]);
+    if (cb === 0) continue;
+    for (let j = 0; j < width; j++) obj[j] -= cb * T[i][j];
+  }
+  T[m] = obj;
+
+  const status = iterate(T, basis, (col) => !isArt(col));
+  if (status === 'unbounded') {
+    return { status, x: new Array(n).fill(0), objective: sign * Number.NEGATIVE_INFINITY };
+  }
+
+  const x = new Array(n).fill(0);
+  for (let i = 0; i < m; i++) {
+    if (basis[i] < n) x[basis[i]] = Math.max(0, T[i][rhs]);
+  }
+  const value = problem.objective.reduce((sum, c, j) => sum + Number(c || 0) * x[j], 0);
+  return { status: 'optimal', x, objective: value };
+}
@@ -0,0 +1,323 @@
+// src/narrative.ts
+// ✅ Farmer-facing explanation of a recommendation in Cebuano/Bisaya, Tagalog and English:
+// soil ratings, N/P/K targets, the cheapest option and when to apply each product.
+// Used by the engine (RecommendResponse.narrative) and by the DA recommendation screens (daNarratives).
+import type { CropId, Season, SoilClass } from './fertilizerLogic';
+import type { DaPlan } from './services';
+import { FERTILIZER_NAMES } from './daPlans';
+
+export type NarrativeLang = 'ceb' | 'tl' | 'en';
+
+export const NARRATIVE_LANGS: { key: NarrativeLang; label: string }[] = [
+  { key: 'ceb', label: 'Bisaya' },
+  { key: 'tl', label: 'Tagalog' },
+  { key: 'en', label: 'English' },
+];
+
+export const DEFAULT_NARRATIVE_LANG: NarrativeLang = 'tl';
+
+type Lmh = 'L' | 'M' | 'H';
+type Npk = { N: number; P: number; K: number };
+type Phase = 'organic' | 'basal' | 'after30DAT' | 'topdress60DBH';
+
+export type NarrativeLine = { label: string; bags: number };
+
+export type NarrativeInput = {
+  ratings: { N: Lmh; P: Lmh; K: Lmh };
+  ppm?: Npk | null;
+  /** kg of N / P2O5 / K2O per ha */
+  targetsKgHa: Npk;
+  areaHa: number;
+  crop?: CropId;
+  variety?: string | null;
+  soilClass?: SoilClass | null;
+  season?: Season | null;
+  /** yield-goal targets instead of the L/M/H table */
+  targetYieldTha?: number | null;
+  cheapest?: { label: string; total: number; currency: string } | null;
+  /** application timing of the cheapest / chosen plan, product labels already resolved */
+  schedule?: Partial<Record<Phase, NarrativeLine[]>> | null;
+  organicCredit?: { kg: Npk; sources: string[] } | null;
+  budget?: { maxBudget: number; fullTotal: number; shortfallKg: Npk; yieldPenaltyKg: number; currency: string } | null;
+  amendment?: { kind: 'lime' | 'sulfur' | 'gypsum'; tonsPerHa: number; totalTons: number; productLabel?: string | null; bags?: number | null } | null;
+  advisories?: { nutrient: 'Zn' | 'S' | 'Mg'; severity: 'likely' | 'possible'; kgPerHa: number; productLabel?: string | null; bags?: number | null }[];
+};
+
+export type Narratives = Record<NarrativeLang, string>;
+
+/* ---------------- Number / currency formatting ---------------- */
+
+// Philippine usage in all three languages: "," thousands, "." decimals.
+// English keeps the ISO code ("PHP 1,250.00"); Bisaya / Tagalog texts use the peso sign.
+const NUMBER_FORMAT: Record<NarrativeLang, { group: string; decimal: string; pesoSign: boolean }> = {
+  ceb: { group: ',', decimal: '.', pesoSign: true },
+  tl: { group: ',', decimal: '.', pesoSign: true },
+  en: { group: ',', decimal: '.', pesoSign: false },
+};
+
+/** Fixed decimals, trailing zeros trimmed unless `fixed` (money). */
+export function formatNumber(n: number, lang: NarrativeLang, digits = 0, fixed = false): string {
+  const f = NUMBER_FORMAT[lang];
+  const v = Number.isFinite(n) ? n : 0;
+  let [int, frac = ''] = Math.abs(v).toFixed(digits).split('.');
+  if (!fixed) frac = frac.replace(/0+$/, '');
+  int = int.replace(/\B(?=(\d{3})+(?!\d))/g, f.group);
+  return `${v < 0 ? '-' : ''}${int}${frac ? f.decimal + frac : ''}`;
+}
+
+export function formatMoney(n: number, currency: string, lang: NarrativeLang): string {
+  const amount = formatNumber(n, lang, 2, true);
+  const cur = String(currency || 'PHP').toUpperCase();
+  return cur === 'PHP' && NUMBER_FORMAT[lang].pesoSign ? `₱${amount}` : `${cur} ${amount}`;
+}
+
+/* ---------------- Phrasebook ---------------- */
+
+type Phrases = {
+  level: Record<Lmh, string>;
+  nutrient: Record<'N' | 'P' | 'K', string>;
+  crop: Record<CropId, string>;
+  soil: Record<SoilClass, string>;
+  season: Record<Season, string>;
+  ha: (n: string) => string;
+  bags: (n: string) => string;
+  and: string;
+  ratings: (parts: string[]) => string;
+  rating: (nutrient: string, level: string, ppm: string | null) => string;
+  target: (crop: string, area: string, perHa: string, total: string, goal: string | null) => string;
+  cheapest: (label: string, total: string) => string;
+  phase: Record<Phase, string>;
+  timing: string;
+  organic: (credit: string, sources: string) => string;
+  budget: (budget: string, full: string, short: string, grain: string) => string;
+  amendment: Record<'lime' | 'sulfur' | 'gypsum', (rate: string, total: string, product: string) => string>;
+  advisory: (nutrient: string, likely: boolean, rate: string, product: string) => string;
+};
+
+const PHRASES: Record<NarrativeLang, Phrases> = {
+  ceb: {
+    level: { L: 'ubos', M: 'tunga-tunga', H: 'taas' },
+    nutrient: { N: 'Nitrogen (N)', P: 'Phosphorus (P)', K: 'Potassium (K)' },
+    crop: { rice: 'humay', corn: 'mais' },
+    soil: { light: 'gaan nga yuta', medHeavy: 'bug-at nga yuta' },
+    season: { wet: 'ting-ulan', dry: 'ting-init' },
+    ha: (n) => `${n} ka ektarya`,
+    bags: (n) => `${n} ka sako`,
+    and: 'ug',
+    ratings: (parts) => `Resulta sa pagsusi sa yuta: ${parts.join(', ')}.`,
+    rating: (nu, lvl, ppm) => `${lvl} ang ${nu}${ppm ? ` (${ppm} ppm)` : ''}`,
+    target: (crop, area, perHa, total, goal) =>
+      `Para sa ${crop} sa ${area}${goal ? ` (tumong nga ani: ${goal} t/ha)` : ''}, kinahanglan ang ${perHa} matag ektarya (kinatibuk-an: ${total}).`,
+    cheapest: (label, total) => `Pinakabarato nga kapilian: ${label} — ${total}.`,
+    phase: {
+      organic: 'Organikong abono (sa dili pa magtanom)',
+      basal: 'Sa pagtanom',
+      after30DAT: '30 ka adlaw human sa pagtanom',
+      topdress60DBH: 'Top dress (60 ka adlaw sa dili pa ang ani)',
+    },
+    timing: 'Kanus-a ibutang',
+    organic: (credit, sources) => `Naihap na ang organikong abono (${sources}): ${credit}.`,
+    budget: (budget, full, short, grain) =>
+      `Ang badyet nga ${budget} dili igo sa tibuok plano (${full}). Ang labing maayo nga bahin nga plano kulang pa og ${short} (mga ${grain} kg nga kulang sa ani).`,
+    amendment: {
+      lime: (rate, total, product) => `Aslom ang yuta: magbutang og apog (lime) ${rate} t/ha (${total} t tanan)${product}.`,
+      sulfur: (rate, total, product) => `Alkaline ang yuta: magbutang og sulfur ${rate} t/ha (${total} t tanan)${product}.`,
+      gypsum: (rate, total, product) => `Alkaline ang yuta: magbutang og gypsum ${rate} t/ha (${total} t tanan)${product}.`,
+    },
+    advisory: (nu, likely, rate, product) =>
+      `${likely ? 'Kulang' : 'Basin kulang'} sa ${nu}: ${rate} kg/ha${product}.`,
+  },
+  tl: {
+    level: { L: 'mababa', M: 'katamtaman', H: 'mataas' },
+    nutrient: { N: 'Nitroheno (N)', P: 'Posporus (P)', K: 'Potasyum (K)' },
+    crop: { rice: 'palay', corn: 'mais' },
+    soil: { light: 'magaang lupa', medHeavy: 'mabigat na lupa' },
+    season: { wet: 'tag-ulan', dry: 'tag-araw' },
+    ha: (n) => `${n} ektarya`,
+    bags: (n) => `${n} sako`,
+    and: 'at',
+    ratings: (parts) => `Resulta ng pagsusuri ng lupa: ${parts.join(', ')}.`,
+    rating: (nu, lvl, ppm) => `${lvl} ang ${nu}${ppm ? ` (${ppm} ppm)` : ''}`,
+    target: (crop, area, perHa, total, goal) =>
+      `Para sa ${crop} sa ${area}${goal ? ` (target na ani: ${goal} t/ha)` : ''}, kailangan ng ${perHa} bawat ektarya (kabuuan: ${total}).`,
+    cheapest: (label, total) => `Pinakamurang opsyon: ${label} — ${total}.`,
+    phase: {
+      organic: 'Organikong pataba (bago magtanim)',
+      basal: 'Sa pagtatanim',
+      after30DAT: '30 araw matapos magtanim',
+      topdress60DBH: 'Topdress (60 araw bago ang ani)',
+    },
+    timing: 'Kailan ilalagay',
+    organic: (credit, sources) => `Ibinawas na ang organikong pataba (${sources}): ${credit}.`,
+    budget: (budget, full, short, grain) =>
+      `Hindi sapat ang badyet na ${budget} para sa buong plano (${full}). Ang pinakamainam na bahagyang plano ay kulang pa ng ${short} (mga ${grain} kg na bawas sa ani).`,
+    amendment: {
+      lime: (rate, total, product) => `Maasim ang lupa: maglagay ng apog (lime) ${rate} t/ha (${total} t lahat)${product}.`,
+      sulfur: (rate, total, product) => `Alkaline ang lupa: maglagay ng sulfur ${rate} t/ha (${total} t lahat)${product}.`,
+      gypsum: (rate, total, product) => `Alkaline ang lupa: maglagay ng gypsum ${rate} t/ha (${total} t lahat)${product}.`,
+    },
+    advisory: (nu, likely, rate, product) =>
+      `${likely ? 'Kulang' : 'Maaaring kulang'} sa ${nu}: ${rate} kg/ha${product}.`,
+  },
+  en: {
+    level: { L: 'low', M: 'medium', H: 'high' },
+    nutrient: { N: 'Nitrogen (N)', P: 'Phosphorus (P)', K: 'Potassium (K)' },
+    crop: { rice: 'rice', corn: 'corn' },
+    soil: { light: 'light soil', medHeavy: 'medium-heavy soil' },
+    season: { wet: 'wet season', dry: 'dry season' },
+    ha: (n) => `${n} ha`,
+    bags: (n) => `${n} bag(s)`,
+    and: 'and',
+    ratings: (parts) => `Soil test: ${parts.join(', ')}.`,
+    rating: (nu, lvl, ppm) => `${nu} is ${lvl}${ppm ? ` (${ppm} ppm)` : ''}`,
+    target: (crop, area, perHa, total, goal) =>
+      `For ${crop} on ${area}${goal ? ` (yield goal ${goal} t/ha)` : ''}, apply ${perHa} per hectare (${total} in total).`,
+    cheapest: (label, total) => `Cheapest option: ${label} — ${total}.`,
+    phase: {
+      organic: 'Organic fertilizer (before planting)',
+      basal: 'At planting',
+      after30DAT: '30 days after planting',
+      topdress60DBH: 'Top dress (60 days before harvest)',
+    },
+    timing: 'When to apply',
+    organic: (credit, sources) => `Organic inputs already counted (${sources}): ${credit}.`,
+    budget: (budget, full, short, grain) =>
+      `A budget of ${budget} cannot cover the full plan (${full}). The best partial plan is still short ${short} (about ${grain} kg less grain).`,
+    amendment: {
+      lime: (rate, total, product) => `Acidic soil: apply lime at ${rate} t/ha (${total} t in total)${product}.`,
+      sulfur: (rate, total, product) => `Alkaline soil: apply sulfur at ${rate} t/ha (${total} t in total)${product}.`,
+      gypsum: (rate, total, product) => `Alkaline soil: apply gypsum at ${rate} t/ha (${total} t in total)${product}.`,
+    },
+    advisory: (nu, likely, rate, product) =>
+      `${likely ? 'Likely' : 'Possible'} ${nu} deficiency: ${rate} kg/ha${product}.`,
+  },
+};
+
+const PHASES: Phase[] = ['organic', 'basal', 'after30DAT', 'topdress60DBH'];
+
+/* ---------------- Generator ---------------- */
+
+export function buildNarrative(input: NarrativeInput, lang: NarrativeLang): string {
+  const t = PHRASES[lang];
+  const num = (n: number, digits = 0) => formatNumber(n, lang, digits);
+  const npkKg = (v: Npk) => `${num(v.N)} kg N, ${num(v.P)} kg P ${t.and} ${num(v.K)} kg K`;
+  const area = Number(input.areaHa) > 0 ? Number(input.areaHa) : 1;
+  const out: string[] = [];
+
+  out.push(
+    t.ratings(
+      (['N', 'P', 'K'] as const).map((nu) =>
+        t.rating(t.nutrient[nu], t.level[input.ratings[nu]], input.ppm ? num(input.ppm[nu], 1) : null)
+      )
+    )
+  );
+
+  const cropParts = [
+    input.variety ? String(input.variety) : '',
+    input.soilClass ? t.soil[input.soilClass] : '',
+    input.season ? t.season[input.season] : '',
+  ].filter(Boolean);
+  const cropText = `${t.crop[input.crop ?? 'rice']}${cropParts.length ? ` (${cropParts.join(', ')})` : ''}`;
+  const total = { N: input.targetsKgHa.N * area, P: input.targetsKgHa.P * area, K: input.targetsKgHa.K * area };
+  out.push(
+    t.target(
+      cropText,
+      t.ha(num(area, 2)),
+      npkKg(input.targetsKgHa),
+      npkKg(total),
+      input.targetYieldTha ? num(input.targetYieldTha, 1) : null
+    )
+  );
+
+  if (input.organicCredit) out.push(t.organic(npkKg(input.organicCredit.kg), input.organicCredit.sources.join(', ')));
+
+  if (input.cheapest) out.push(t.cheapest(input.cheapest.label, formatMoney(input.cheapest.total, input.cheapest.currency, lang)));
+
+  if (input.budget) {
+    const b = input.budget;
+    out.push(
+      t.budget(
+        formatMoney(b.maxBudget, b.currency, lang),
+        formatMoney(b.fullTotal, b.currency, lang),
+        npkKg(b.shortfallKg),
+        num(b.yieldPenaltyKg)
+      )
+    );
+  }
+
+  const timing = PHASES.map((ph) => {
+    const lines = (input.schedule?.[ph] || []).filter((l) => Number(l.bags) > 0);
+    if (!lines.length) return '';
+    return `${t.phase[ph]}: ${lines.map((l) => `${t.bags(num(l.bags, 2))} ${l.label}`).join(', ')}`;
+  }).filter(Boolean);
+  if (timing.length) out.push(`${t.timing}: ${timing.join('; ')}.`);
+
+  if (input.amendment) {
+    const a = input.amendment;
+    const product = a.productLabel && a.bags ? ` — ${t.bags(num(a.bags, 2))} ${a.productLabel}` : '';
+    out.push(t.amendment[a.kind](num(a.tonsPerHa, 2), num(a.totalTons, 2), product));
+  }
+
+  (input.advisories || []).forEach((a) => {
+    const product = a.productLabel && a.bags ? ` — ${t.bags(num(a.bags, 2))} ${a.productLabel}` : '';
+    out.push(t.advisory(a.nutrient, a.severity === 'likely', num(a.kgPerHa, 1), product));
+  });
+
+  return out.join(' ');
+}
+
+export function buildNarratives(input: NarrativeInput): Narratives {
+  return { ceb: buildNarrative(input, 'ceb'), tl: buildNarrative(input, 'tl'), en: buildNarrative(input, 'en') };
+}
+
+/** Saved-reading fields: the farmer's chosen language plus the English copy. */
+export function narrativeForSave(narratives: Narratives | null | undefined, lang: NarrativeLang) {
+  return {
+    recommendationText: narratives?.[lang] ?? '',
+    englishText: narratives?.en ?? '',
+  };
+}
+
+export function isNarrativeLang(v: unknown): v is NarrativeLang {
+  return v === 'ceb' || v === 'tl' || v === 'en';
+}
+
+/** Narratives for the DA plans shown on the recommendation screens (timing from the chosen plan). */
+export function daNarratives(args: {
+  ratings: { N: Lmh; P: Lmh; K: Lmh };
+  ppm?: Npk | null;
+  reqKgHa: Npk;
+  areaHa: number;
+  crop?: CropId;
+  variety?: string | null;
+  soilClass?: SoilClass | null;
+  season?: Season | null;
+  plans: DaPlan[];
+  selectedId?: string | null;
+}): Narratives | null {
+  if (!args.plans.length) return null;
+  const cheapest = args.plans.find((p) => p.isCheapest) ?? null;
+  const chosen =
+    (args.selectedId ? args.plans.find((p) => String(p.id) === String(args.selectedId)) : null) ?? cheapest ?? args.plans[0];
+  const schedule = chosen.schedule;
+  const lines = (l?: { code: string; bags: number }[]) =>
+    (l || []).map((x) => ({ label: FERTILIZER_NAMES[x.code] ?? x.code, bags: Number(x.bags || 0) }));
+
+  return buildNarratives({
+    ratings: args.ratings,
+    ppm: args.ppm,
+    targetsKgHa: args.reqKgHa,
+    areaHa: args.areaHa,
+    crop: args.crop,
+    variety: args.variety,
+    soilClass: args.soilClass,
+    season: args.season,
+    cheapest: cheapest?.cost ? { label: cheapest.label, total: cheapest.cost.total, currency: cheapest.cost.currency } : null,
+    schedule: {
+      organic: lines(schedule.organic),
+      basal: lines(schedule.basal),
+      after30DAT: lines(schedule.after30DAT),
+      topdress60DBH: lines(schedule.topdress60DBH),
+    },
+  });
+}
@@ -0,0 +1,154 @@
+// src/parcelPlans.ts
+// ✅ Multi-parcel sessions: DA plans per paddy (own reading, options and size),
+// then one consolidated purchase list across all paddies.
+import type { AdminPricesDoc, DaPlan, DaSchedule } from './services';
+import { getCropTargetKgPerHa, getNSplit, type CropId, type CropVariety, type SoilClass, type Season } from './fertilizerLogic';
+import {
+  FERTILIZER_NAMES,
+  ORGANIC_FERT_CODE,
+  buildDaPlans,
+  fertilizerLines,
+  getItemByCode,
+  splitOnHand,
+} from './daPlans';
+import { classifyCode, type Nutrient, type NutrientLevelCode } from '../constants/npkThresholds';
+
+/** Same shape as `Parcel` in context/ReadingSessionContext.tsx */
+export type ParcelInput = {
+  id: string;
+  name: string;
+  areaHa: number;
+  n: number;
+  p: number;
+  k: number;
+  thresholdVersion?: string;
+  crop?: CropId;
+  variety?: CropVariety;
+  soilClass?: SoilClass;
+  season?: Season;
+};
+
+export type ParcelPlanResult = {
+  parcel: ParcelInput;
+  ratings: Record<Nutrient, NutrientLevelCode>;
+  reqKgHa: { N: number; P: number; K: number };
+  plans: DaPlan[];
+  chosen: DaPlan | null;
+  /** chosen plan's application schedule for this parcel */
+  schedule: DaSchedule | null;
+};
+
+export type ShoppingRow = {
+  code: string;
+  label: string;
+  totalBags: number;
+  fromStockBags: number;
+  buyBags: number;
+  pricePerBag: number | null;
+  subtotal: number | null;
+  /** bags of this product per parcel */
+  byParcel: { parcelId: string; name: string; bags: number }[];
+};
+
+export type ShoppingList = {
+  rows: ShoppingRow[];
+  /** null when offline (no prices) */
+  total: number | null;
+  currency: string;
+};
+
+function round2(x: number) {
+  return Math.round((Number(x || 0) + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * DA plans for every parcel. `chosenIds` (parcel id -> plan id) picks a plan per parcel;
+ * otherwise the cheapest (or first, offline) is used.
+ */
+export function buildParcelPlans(args: {
+  parcels: ParcelInput[];
+  prices: AdminPricesDoc | null;
+  chosenIds?: Record<string, string>;
+}): ParcelPlanResult[] {
+  return args.parcels.map((parcel) => {
+    const rate = (nu: Nutrient, v: number) => classifyCode(nu, v, parcel.thresholdVersion) ?? 'L';
+    const ratings = { N: rate('N', parcel.n), P: rate('P', parcel.p), K: rate('K', parcel.k) };
+    const crop = parcel.crop ?? 'rice';
+    const variety = parcel.variety ?? (crop === 'corn' ? 'yellowHybrid' : 'hybrid');
+    const season = parcel.season ?? 'wet';
+    const t = getCropTargetKgPerHa(
+      crop,
+      variety,
+      parcel.soilClass ?? 'light',
+      season,
+      ratings.N,
+      ratings.P,
+      ratings.K
+    );
+    const reqKgHa = { N: Number(t.Nkg || 0), P: Number(t.Pkg || 0), K: Number(t.Kkg || 0) };
+    const plans = buildDaPlans({
+      prices: args.prices,
+      reqKgHa,
+      areaHa: parcel.areaHa,
+      nSplit: getNSplit(crop, variety, season),
+    });
+
+    const wanted = args.chosenIds?.[parcel.id];
+    const chosen =
+      (wanted ? plans.find((p) => String(p.id) === wanted) : null) ?? plans.find((p) => p.isCheapest) ?? plans[0] ?? null;
+
+    return {
+      parcel,
+      ratings,
+      reqKgHa,
+      plans,
+      chosen,
+      schedule: chosen ? chosen.schedule : null,
+    };
+  });
+}
+
+/**
+ * One purchase list for all parcels: total bags per product, the farmer's storage used once
+ * across all of them, and cost of what still has to be bought.
+ */
+export function consolidatePurchase(
+  results: ParcelPlanResult[],
+  prices: AdminPricesDoc | null,
+  onHand?: { code: string; bags: number }[]
+): ShoppingList {
+  const byCode = new Map<string, ShoppingRow['byParcel']>();
+  const add = (code: string, r: ParcelPlanResult, bags: number) => {
+    if (!(bags > 0)) return;
+    const list = byCode.get(code) ?? [];
+    const hit = list.find((x) => x.parcelId === r.parcel.id);
+    if (hit) hit.bags = round2(hit.bags + bags);
+    else list.push({ parcelId: r.parcel.id, name: r.parcel.name, bags: round2(bags) });
+    byCode.set(code, list);
+  };
+
+  results.forEach((r) => {
+    if (!r.schedule) return;
+    (r.schedule.organic || []).forEach((l) => add(ORGANIC_FERT_CODE, r, Number(l.bags || 0)));
+    fertilizerLines(r.schedule).forEach((l) => add(l.code, r, l.bags));
+  });
+
+  const lines = Array.from(byCode.entries())
+    .filter(([code]) => code !== ORGANIC_FERT_CODE)
+    .map(([code, list]) => ({ code, bags: list.reduce((s, x) => s + x.bags, 0) }));
+  const stock = new Map(splitOnHand(lines, onHand).map((s) => [s.code, s]));
+
+  let total: number | null = prices ? 0 : null;
+  const rows: ShoppingRow[] = Array.from(byCode.entries()).map(([code, byParcel]) => {
+    const totalBags = round2(byParcel.reduce((s, x) => s + x.bags, 0));
+    const fromStockBags = stock.get(code)?.fromStockBags ?? 0;
+    const buyBags = round2(totalBags - fromStockBags);
+    const pricePerBag = code === ORGANIC_FERT_CODE ? null : getItemByCode(prices, code)?.pricePerBag ?? null;
+    const subtotal = pricePerBag == null ? null : round2(buyBags * pricePerBag);
+    if (total != null && subtotal != null) total = round2(total + subtotal);
+
+    return { code, label: FERTILIZER_NAMES[code] ?? code, totalBags, fromStockBags, buyBags, pricePerBag, subtotal, byParcel };
+  });
+
+  return { rows, total, currency: String(prices?.currency || 'PHP') };
+}
@@ -1,5 +1,7 @@
 // src/services.ts
 import { api } from './api';
+import type { CalibrationProfile, CalibrationStamp, RawValues } from './calibration';
+import type { AggregationStamp } from './spotAggregation';
 
 /* ===== Types used by AuthContext ===== */
 export type User = {
@@ -68,6 +70,22 @@ export type FertilizerPlanHistory = {
   name?: string;
   cost?: string;
   details?: string[];
+  balance?: NutrientBalance;
+};
+
+// ✅ What a saved reading / PDF keeps of a full-engine result (src/EngineOptions.tsx)
+export type EngineResultSummary = {
+  targetMode: 'table' | 'yield';
+  targetYieldTha: number | null;
+  targetsPerHa: { N: number; P: number; K: number };
+  purchaseMode: string;
+  maxBudget: number | null;
+  currency: string;
+  /** the plan the engine leads with: the within-budget plan, else the cheapest */
+  plan: { code: string; title: string; total: number; lines: string[] } | null;
+  /** organic credits, pH amendment, Zn / S / Mg advisories and budget shortfall, as shown */
+  notes: string[];
+  updatedAt: string;
 };
 
 export type AddReadingParams = {
@@ -79,7 +97,7 @@ export type AddReadingParams = {
   ec?: number | null;
   moisture?: number | null;
   temp?: number | null;
-  source?: 'esp32' | 'manual' | string;
+  source?: 'esp32' | 'manual' | 'simulator' | string;
 
   // ✅ stored in MongoDB Reading (for History screen)
   recommendationText?: string;
@@ -91,6 +109,17 @@ export type AddReadingParams = {
   daSchedule?: any;
   daCost?: any;
   npkClass?: string;
+  // ✅ which N/P/K threshold version classified this reading (constants/npkThresholds.ts)
+  thresholdVersion?: string;
+  // ✅ probe values before calibration + the profile that corrected N/P/K/pH (src/calibration.ts)
+  raw?: RawValues | null;
+  calibration?: CalibrationStamp | null;
+  // ✅ spot aggregation method + coefficient of variation (src/spotAggregation.ts)
+  aggregation?: AggregationStamp | null;
+  // ✅ from the Developer settings simulator — kept out of carry-over and flagged in history
+  simulated?: boolean;
+  // ✅ engine plan from "More options" (least-cost, budget, organics), when one was opened
+  engine?: EngineResultSummary | null;
 };
 
 // Standalone reading (no farmerId) – used on STAKEHOLDER side
@@ -102,7 +131,7 @@ export type AddStandaloneReadingParams = {
   ec?: number | null;
   moisture?: number | null;
   temp?: number | null;
-  source?: 'esp32' | 'manual' | string;
+  source?: 'esp32' | 'manual' | 'simulator' | string;
 
   // ✅ stored in MongoDB Reading (for History screen)
   recommendationText?: string;
@@ -114,6 +143,17 @@ export type AddStandaloneReadingParams = {
   daSchedule?: any;
   daCost?: any;
   npkClass?: string;
+  // ✅ which N/P/K threshold version classified this reading (constants/npkThresholds.ts)
+  thresholdVersion?: string;
+  // ✅ probe values before calibration + the profile that corrected N/P/K/pH (src/calibration.ts)
+  raw?: RawValues | null;
+  calibration?: CalibrationStamp | null;
+  // ✅ spot aggregation method + coefficient of variation (src/spotAggregation.ts)
+  aggregation?: AggregationStamp | null;
+  // ✅ from the Developer settings simulator — kept out of carry-over and flagged in history
+  simulated?: boolean;
+  // ✅ engine plan from "More options" (least-cost, budget, organics), when one was opened
+  engine?: EngineResultSummary | null;
 };
 
 /* ===== Helpers ===== */
@@ -132,6 +172,7 @@ function normalizePlans(plans?: FertilizerPlanHistory[]) {
     name: p?.name != null ? String(p.name) : '',
     cost: p?.cost != null ? String(p.cost) : '',
     details: Array.isArray(p?.details) ? p.details.map((x) => String(x)) : [],
+    ...(p?.balance ? { balance: p.balance } : {}),
   }));
 }
 
@@ -270,6 +311,84 @@ export async function putPriceSettings(
   return data;
 }
 
+/* ===== Nutrient targets + N/P/K thresholds (PUBLIC + ADMIN) ===== */
+export type TargetRowDoc = Record<'N' | 'P' | 'K', { L: number; M: number; H: number }>;
+
+export type AgronomyTablesDoc = {
+  _id?: string;
+  // [crop][variety][soilClass][season] -> kg/ha by rating; missing cells use the app's built-in tables
+  targets: {
+    [crop: string]: {
+      [variety: string]: {
+        [soilClass: string]: { [season: string]: TargetRowDoc };
+      };
+    };
+  };
+  // ppm cut-offs; `version` is saved on every reading classified with them
+  thresholds?: ThresholdSetDoc | null;
+  // every version published so far, so readings classified with an older one keep their rating
+  thresholdHistory?: ThresholdSetDoc[];
+  updatedAt?: string;
+};
+
+export type ThresholdSetDoc = {
+  version: string;
+  label?: string;
+  N: { L: number; M: number };
+  P: { L: number; M: number };
+  K: { L: number; M: number };
+};
+
+export async function getPublicAgronomyTables(): Promise<AgronomyTablesDoc> {
+  const { data } = await api.get('/api/agronomy');
+  return data;
+}
+
+export async function getAgronomySettings(token?: string | null): Promise<AgronomyTablesDoc> {
+  const { data } = await api.get('/api/agronomy/admin', {
+    headers: authHeaders(token || undefined),
+  });
+  return data;
+}
+
+export async function putAgronomySettings(
+  token: string | undefined | null,
+  payload: AgronomyTablesDoc
+): Promise<AgronomyTablesDoc> {
+  const { data } = await api.put('/api/agronomy/admin', payload, {
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(token || undefined),
+    },
+  });
+  return data;
+}
+
+/* ===== Probe calibration profiles (one per device id, shared by every phone) ===== */
+export async function getPublicCalibrationProfiles(): Promise<CalibrationProfile[]> {
+  const { data } = await api.get('/api/calibration');
+  return Array.isArray(data) ? data : [];
+}
+
+export async function putCalibrationProfile(
+  token: string | undefined | null,
+  profile: CalibrationProfile
+): Promise<CalibrationProfile> {
+  const { data } = await api.put(`/api/calibration/admin/${encodeURIComponent(profile.deviceKey)}`, profile, {
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(token || undefined),
+    },
+  });
+  return data;
+}
+
+export async function deleteCalibrationProfile(token: string | undefined | null, deviceKey: string): Promise<void> {
+  await api.delete(`/api/calibration/admin/${encodeURIComponent(deviceKey)}`, {
+    headers: authHeaders(token || undefined),
+  });
+}
+
 /* ===== Readings (Farmer Logs + User-wide history) ===== */
 export async function listUserReadings(token?: string | null): Promise<any[]> {
   const { data } = await api.get('/api/readings', {
@@ -312,6 +431,12 @@ export async function addReading(body: AddReadingParams, token?: string | null):
   if (rest.daSchedule != null) payload.daSchedule = rest.daSchedule;
   if (rest.daCost != null) payload.daCost = rest.daCost;
   if (rest.npkClass != null) payload.npkClass = String(rest.npkClass);
+  if (rest.raw != null) payload.raw = rest.raw;
+  if (rest.calibration != null) payload.calibration = rest.calibration;
+  if (rest.aggregation != null) payload.aggregation = rest.aggregation;
+  if (rest.thresholdVersion) payload.thresholdVersion = String(rest.thresholdVersion);
+  if (rest.simulated) payload.simulated = true;
+  if (rest.engine != null) payload.engine = rest.engine;
 
   const { data } = await api.post('/api/readings', payload, {
     headers: authHeaders(token || undefined),
@@ -346,6 +471,12 @@ export async function addStandaloneReading(
   if (body.daSchedule != null) payload.daSchedule = body.daSchedule;
   if (body.daCost != null) payload.daCost = body.daCost;
   if (body.npkClass != null) payload.npkClass = String(body.npkClass);
+  if (body.raw != null) payload.raw = body.raw;
+  if (body.calibration != null) payload.calibration = body.calibration;
+  if (body.aggregation != null) payload.aggregation = body.aggregation;
+  if (body.thresholdVersion) payload.thresholdVersion = String(body.thresholdVersion);
+  if (body.simulated) payload.simulated = true;
+  if (body.engine != null) payload.engine = body.engine;
 
   const { data } = await api.post('/api/readings', payload, {
     headers: authHeaders(token || undefined),
@@ -386,6 +517,7 @@ export async function updateReading(
   if ((body as any).daSchedule !== undefined) payload.daSchedule = (body as any).daSchedule;
   if ((body as any).daCost !== undefined) payload.daCost = (body as any).daCost;
   if ((body as any).npkClass !== undefined) payload.npkClass = String((body as any).npkClass ?? '');
+  if (body.engine !== undefined) payload.engine = body.engine;
 
   const { data } = await api.patch(`/api/readings/${readingId}`, payload, {
     headers: authHeaders(token || undefined),
@@ -406,12 +538,24 @@ export async function deleteReading(
 
 
 /* ===== Recommendation (OLD normalized / IRRI style) ===== */
+/** kg for the whole area: target after organic credits, supplied incl. storage bags, diff = supplied − target */
+export type NutrientBalance = {
+  target: { N: number; P: number; K: number };
+  supplied: { N: number; P: number; K: number };
+  diff: { N: number; P: number; K: number };
+};
+
 export type RecommendPlanRow = {
   key: string;
   label: string;
   bags: number;
   pricePerBag: number;
   subtotal: number;
+  currency?: string;
+
+  // ✅ only in whole/half-bag or per-kg purchase modes
+  purchasedKg?: number;
+  leftoverKg?: number;
 };
 
 export type RecommendPlan = {
@@ -420,12 +564,104 @@ export type RecommendPlan = {
   rows: RecommendPlanRow[];
   total: number;
   currency: string;
+  purchaseMode?: 'exact' | 'halfBag' | 'wholeBag' | 'kgLoose';
+
+  // ✅ split-application timing (same phases as the DA schedule)
+  schedule?: DaSchedule;
+  scheduleCost?: DaCost;
+
+  // ✅ budget mode: true when this full plan costs more than maxBudget
+  overBudget?: boolean;
+
+  // ✅ bags formula / rounding / overshoot for this plan
+  trace?: TraceStep[];
+
+  // ✅ on-hand inventory: per product, bags used from storage vs bags to buy
+  stock?: StockSplitRow[];
+
+  // ✅ supplied vs target N/P/K (surplus / deficit per nutrient)
+  balance?: NutrientBalance;
+};
+
+export type StockSplitRow = {
+  code: string;
+  label: string;
+  totalBags: number;
+  fromStockBags: number;
+  buyBags: number;
+};
+
+// ✅ "Why this plan?" audit trail (one entry per reasoning step)
+export type TraceStep = {
+  kind: 'rating' | 'target' | 'credit' | 'productChoice' | 'bags' | 'rounding' | 'overshoot';
+  title: string;
+  detail: string;
+};
+
+// ✅ pH amendment advice (lime for acidic, sulfur/gypsum for alkaline soils)
+export type PhAmendment = {
+  kind: 'lime' | 'sulfur' | 'gypsum';
+  phStatus: 'acidic' | 'alkaline';
+  ph: number;
+  tonsPerHa: number;
+  totalTons: number;
+  product: { code: string; label: string; bagKg: number; pricePerBag: number } | null;
+  bags: number | null;
+  cost: number | null;
+  currency: string;
+  note: string;
+};
+
+// ✅ Zn / S / Mg advice from optional readings and field symptoms
+export type NutrientAdvisory = {
+  nutrient: 'Zn' | 'S' | 'Mg';
+  /** 'likely' = reading below critical level or a telltale symptom; 'possible' = risk factors only */
+  severity: 'likely' | 'possible';
+  reasons: string[];
+  /** kg of the element per ha */
+  kgPerHa: number;
+  totalKg: number;
+  product: { code: string; label: string; bagKg: number; pricePerBag: number } | null;
+  bags: number | null;
+  cost: number | null;
+  currency: string;
+  note: string;
+};
+
+// ✅ Organic inputs credited against the N/P/K targets
+export type OrganicCredit = {
+  source: string;
+  label: string;
+  kg: number;
+  /** kg of N / P2O5 / K2O counted this season (after availability factors) */
+  credit: { N: number; P: number; K: number };
+  code: string | null;
+  bags: number;
+  pricePerBag: number | null;
+  cost: number | null;
+};
+
+// ✅ Budget mode: what a limited budget leaves uncovered
+export type BudgetResult = {
+  maxBudget: number;
+  withinBudget: boolean;
+  /** plan code of the best partial plan (null when the full plan fits) */
+  planCode: string | null;
+  shortfallKg: { N: number; P: number; K: number };
+  /** estimated grain lost over the whole area (kg) */
+  yieldPenaltyKg: number;
 };
 
 export type RecommendResponse = {
   ok?: boolean;
   input?: any;
-  narrative?: { en?: string; tl?: string };
+  narrative?: { en?: string; tl?: string; ceb?: string };
+  amendment?: PhAmendment | null;
+  advisories?: NutrientAdvisory[];
+  organics?: OrganicCredit[];
+  budget?: BudgetResult | null;
+  // ✅ ratings, targets and product choice shared by every plan
+  trace?: TraceStep[];
   plans: RecommendPlan[];
   cheapest?: { code: string; total: number; currency: string } | null;
   currency?: string;
@@ -528,6 +764,10 @@ export type DaPlan = {
   isCheapest?: boolean;
   schedule: DaSchedule;
   cost: DaCost | null;
+  // ✅ storage vs buy per product (only when the farmer has bags on hand)
+  stock?: StockSplitRow[];
+  // ✅ supplied vs target N/P/K
+  balance?: NutrientBalance;
 };
 
 export type DaRecommendResponse = {
@@ -562,6 +802,11 @@ export type DaRecommendRequest = {
   pClass?: 'L' | 'M' | 'H' | null;
   kClass?: 'L' | 'M' | 'H' | null;
   areaHa?: number;
+  variety?: string;
+  soilClass?: 'light' | 'medHeavy';
+  season?: 'wet' | 'dry';
+  /** N/P2O5/K2O kg/ha the phone planned for (admin tables, carry-over) — the server should use these */
+  reqKgHa?: { N: number; P: number; K: number };
 };
 
 function normalizeDaSchedule(s: any): DaSchedule {
@@ -617,10 +862,12 @@ function normalizeDaPlan(p: any): DaPlan {
 
 export async function getDaRecommendation(
   token: string | undefined | null,
-  payload: DaRecommendRequest
+  payload: DaRecommendRequest,
+  signal?: AbortSignal
 ): Promise<DaRecommendResponse> {
   const { data } = await api.post('/api/recommend', payload as any, {
     headers: authHeaders(token || undefined),
+    signal,
   });
 
   const out: DaRecommendResponse = {
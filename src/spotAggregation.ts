@@ -0,0 +1,160 @@
+// src/spotAggregation.ts
+// ✅ Combines the spot readings of one field into a single value per nutrient.
+// A plain mean lets one bad insertion skew the field, so the default drops outliers first
+// (median-absolute-deviation rule); median, trimmed mean and IQR fences are available too.
+// The coefficient of variation of the spots used is kept as a confidence indicator.
+
+export type AggregationMethod = 'mad' | 'iqr' | 'median' | 'trimmed' | 'mean';
+
+export const AGGREGATION_METHODS: { id: AggregationMethod; label: string }[] = [
+  { id: 'mad', label: 'Drop outliers (MAD)' },
+  { id: 'iqr', label: 'Drop outliers (IQR)' },
+  { id: 'median', label: 'Median' },
+  { id: 'trimmed', label: 'Trimmed mean' },
+  { id: 'mean', label: 'Plain mean' },
+];
+
+export const DEFAULT_AGGREGATION: AggregationMethod = 'mad';
+
+export const SPOT_CHANNELS = ['n', 'p', 'k', 'ph'] as const;
+export type SpotChannel = (typeof SPOT_CHANNELS)[number];
+
+export type SpotValues = { n: number; p: number; k: number; ph?: number; ec?: number };
+
+export type Confidence = 'high' | 'medium' | 'low';
+
+export type ChannelSummary = {
+  value?: number;
+  /** coefficient of variation of the values used (%) */
+  cv: number | null;
+  used: number;
+  /** spot indexes flagged on this channel */
+  outliers: number[];
+};
+
+export type SpotAggregate = {
+  method: AggregationMethod;
+  channels: Record<SpotChannel, ChannelSummary>;
+  /** spots flagged on any channel, ascending */
+  outlierSpots: number[];
+  confidence: Confidence;
+};
+
+/** What gets saved with the reading */
+export type AggregationStamp = {
+  method: AggregationMethod;
+  spots: number;
+  outlierSpots: number[];
+  cv: { n: number | null; p: number | null; k: number | null };
+  confidence: Confidence;
+};
+
+// modified z-score cut-off (Iglewicz & Hoaglin)
+const MAD_Z = 3.5;
+const IQR_K = 1.5;
+const TRIM_FRACTION = 0.1;
+// CV (%) of N/P/K across spots
+const CV_HIGH = 15;
+const CV_MEDIUM = 30;
+
+const round = (ch: SpotChannel | 'ec', v: number) => (ch === 'ph' || ch === 'ec' ? Math.round(v * 100) / 100 : Math.round(v * 10) / 10);
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+export function median(xs: number[]): number {
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+export function trimmedMean(xs: number[], fraction = TRIM_FRACTION): number {
+  const s = [...xs].sort((a, b) => a - b);
+  const cut = Math.floor(s.length * fraction);
+  return mean(cut > 0 && s.length - 2 * cut > 0 ? s.slice(cut, s.length - cut) : s);
+}
+
+/** Indexes (into xs) outside Q1 − 1.5·IQR … Q3 + 1.5·IQR */
+export function iqrOutliers(xs: number[]): number[] {
+  if (xs.length < 4) return [];
+  const s = [...xs].sort((a, b) => a - b);
+  const q1 = quantile(s, 0.25);
+  const q3 = quantile(s, 0.75);
+  const lo = q1 - IQR_K * (q3 - q1);
+  const hi = q3 + IQR_K * (q3 - q1);
+  return xs.flatMap((x, i) => (x < lo || x > hi ? [i] : []));
+}
+
+/** Indexes (into xs) with a modified z-score above 3.5; falls back to the mean absolute deviation when MAD is 0 */
+export function madOutliers(xs: number[]): number[] {
+  if (xs.length < 3) return [];
+  const med = median(xs);
+  const dev = xs.map((x) => Math.abs(x - med));
+  const mad = median(dev);
+  const scale = mad > 0 ? mad / 0.6745 : mean(dev) * 1.253314;
+  if (scale === 0) return [];
+  return dev.flatMap((d, i) => (d / scale > MAD_Z ? [i] : []));
+}
+
+function cvOf(xs: number[]): number | null {
+  if (xs.length < 2) return null;
+  const m = mean(xs);
+  if (m === 0) return null;
+  const sd = Math.sqrt(xs.reduce((a, x) => a + (x - m) ** 2, 0) / (xs.length - 1));
+  return Math.round((sd / Math.abs(m)) * 1000) / 10;
+}
+
+/** `values[i]` = spot i (undefined = channel missing on that spot) */
+export function aggregateChannel(
+  ch: SpotChannel | 'ec',
+  values: (number | undefined)[],
+  method: AggregationMethod
+): ChannelSummary {
+  const present = values.flatMap((v, i) => (typeof v === 'number' && Number.isFinite(v) ? [{ v, i }] : []));
+  if (!present.length) return { cv: null, used: 0, outliers: [] };
+  const xs = present.map((p) => p.v);
+
+  // flagged for review whatever the method; only the outlier methods leave them out
+  const flagged = (method === 'iqr' ? iqrOutliers(xs) : madOutliers(xs)).map((j) => present[j].i);
+  const kept = method === 'mad' || method === 'iqr' ? present.filter((p) => !flagged.includes(p.i)).map((p) => p.v) : xs;
+
+  const value = method === 'median' ? median(kept) : method === 'trimmed' ? trimmedMean(kept) : mean(kept);
+  return { value: round(ch, value), cv: cvOf(kept), used: kept.length, outliers: flagged };
+}
+
+export function aggregateSpots(spots: SpotValues[], method: AggregationMethod = DEFAULT_AGGREGATION): SpotAggregate {
+  const channels = {} as Record<SpotChannel, ChannelSummary>;
+  SPOT_CHANNELS.forEach((ch) => {
+    channels[ch] = aggregateChannel(ch, spots.map((s) => s[ch]), method);
+  });
+
+  const outlierSpots = Array.from(new Set(SPOT_CHANNELS.flatMap((ch) => channels[ch].outliers))).sort((a, b) => a - b);
+  const cvs = (['n', 'p', 'k'] as const).map((ch) => channels[ch].cv);
+  const worst = Math.max(...cvs.map((cv) => cv ?? 0));
+  const fewSpots = Math.min(channels.n.used, channels.p.used, channels.k.used) < 3;
+  const confidence: Confidence = fewSpots || worst > CV_MEDIUM ? 'low' : worst > CV_HIGH ? 'medium' : 'high';
+
+  return { method, channels, outlierSpots, confidence };
+}
+
+/** Same method over other per-spot values (e.g. the uncalibrated `raw` ones) */
+export function aggregateValues(spots: SpotValues[], method: AggregationMethod = DEFAULT_AGGREGATION): SpotValues {
+  const value = (ch: SpotChannel | 'ec') => aggregateChannel(ch, spots.map((s) => s[ch]), method).value;
+  return { n: value('n') ?? 0, p: value('p') ?? 0, k: value('k') ?? 0, ph: value('ph'), ec: value('ec') };
+}
+
+export function aggregationStamp(agg: SpotAggregate, spots: number): AggregationStamp {
+  return {
+    method: agg.method,
+    spots,
+    outlierSpots: agg.outlierSpots,
+    cv: { n: agg.channels.n.cv, p: agg.channels.p.cv, k: agg.channels.k.cv },
+    confidence: agg.confidence,
+  };
+}